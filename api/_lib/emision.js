@@ -0,0 +1,38 @@
+// Marca de emisión en curso sobre una venta (orders) o una devolución
+// (sale_returns): solo el pedido que la toma puede pedir el CAE a ARCA.
+import { supabaseRest } from './supabase.js';
+
+// Más que lo que puede durar una función: una marca más vieja quedó colgada
+const MARCA_VENCE_MS = 5 * 60 * 1000;
+
+const filaPath = (table, id) => `${table}?id=eq.${encodeURIComponent(id)}`;
+
+/** Toma la marca si la fila no tiene CAE ni otra emisión en curso; false si no pudo. */
+export async function tomarEmision(env, accessToken, table, id) {
+    const vencida = new Date(Date.now() - MARCA_VENCE_MS).toISOString();
+    const rows = await supabaseRest(env, accessToken,
+        `${filaPath(table, id)}&cae=is.null&or=${encodeURIComponent(`(emitiendo_desde.is.null,emitiendo_desde.lt."${vencida}")`)}&select=id`, {
+            method: 'PATCH',
+            headers: { Prefer: 'return=representation' },
+            body: JSON.stringify({ emitiendo_desde: new Date().toISOString() }),
+        });
+    return rows.length > 0;
+}
+
+/** Libera la marca cuando ARCA no emitió nada. */
+export async function liberarEmision(env, accessToken, table, id) {
+    await supabaseRest(env, accessToken, filaPath(table, id), {
+        method: 'PATCH',
+        body: JSON.stringify({ emitiendo_desde: null }),
+    });
+}
+
+/** Guarda el comprobante solo si la fila sigue sin CAE; false si otro ya lo guardó. */
+export async function guardarEmision(env, accessToken, table, id, campos) {
+    const rows = await supabaseRest(env, accessToken, `${filaPath(table, id)}&cae=is.null&select=id`, {
+        method: 'PATCH',
+        headers: { Prefer: 'return=representation' },
+        body: JSON.stringify({ ...campos, emitiendo_desde: null }),
+    });
+    return rows.length > 0;
+}
@@ -0,0 +1,41 @@
+// Acceso a la API REST de Supabase desde las funciones de /api, con la sesión
+// del usuario que llama para que apliquen las mismas políticas que en el panel.
+
+export function getSupabaseEnv() {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL;
+    const anonKey = process.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !anonKey) return null;
+    return { supabaseUrl, anonKey };
+}
+
+const bearerFrom = (req) => {
+    const header = req.headers.authorization || '';
+    return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+/** Usuario de la sesión enviada en Authorization; null si falta o venció. */
+export async function getSessionUser(req, env) {
+    const accessToken = bearerFrom(req);
+    if (!accessToken) return null;
+    const r = await fetch(`${env.supabaseUrl}/auth/v1/user`, {
+        headers: { apikey: env.anonKey, Authorization: `Bearer ${accessToken}` },
+    });
+    if (!r.ok) return null;
+    return { ...(await r.json()), accessToken };
+}
+
+export async function supabaseRest(env, accessToken, path, init = {}) {
+    const r = await fetch(`${env.supabaseUrl}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+            apikey: env.anonKey,
+            Authorization: `Bearer ${accessToken || env.anonKey}`,
+            'Content-Type': 'application/json',
+            ...(init.headers || {}),
+        },
+    });
+    const text = await r.text();
+    if (!r.ok) throw new Error(`Supabase ${r.status}: ${text}`);
+    // Sin Prefer: return=representation las escrituras responden sin cuerpo
+    return text ? JSON.parse(text) : null;
+}
@@ -0,0 +1,20 @@
+// Ticket de acceso de WSAA compartido entre las funciones que usan WSFEv1.
+import { loginCms } from './wsfe.js';
+import { supabaseRest } from './supabase.js';
+
+// Reutiliza el ticket guardado mientras le queden al menos 5 minutos
+export async function getTicket(env, accessToken, config) {
+    const service = `wsfe:${config.cuit}@${new URL(config.wsaaUrl).host}`;
+    const minExpiry = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+    const rows = await supabaseRest(env, accessToken,
+        `arca_access_tickets?service=eq.${encodeURIComponent(service)}&expires_at=gt.${encodeURIComponent(minExpiry)}&select=token,sign,expires_at`);
+    if (rows.length > 0) return rows[0];
+
+    const ticket = await loginCms(config, 'wsfe');
+    await supabaseRest(env, accessToken, 'arca_access_tickets', {
+        method: 'POST',
+        headers: { Prefer: 'resolution=merge-duplicates' },
+        body: JSON.stringify({ service, token: ticket.token, sign: ticket.sign, expires_at: ticket.expiresAt }),
+    });
+    return ticket;
+}
@@ -0,0 +1,258 @@
+// Cliente de ARCA: WSAA (ticket de acceso) y WSFEv1 (factura electrónica).
+// Los endpoints se configuran por entorno para poder apuntar al mock local
+// (npm run arca:mock) en desarrollo y pruebas; config.fetch permite
+// reemplazar el transporte.
+import forge from 'node-forge';
+
+export const ARCA_ENDPOINTS = {
+    homologacion: {
+        wsaa: 'https://wsaahomo.afip.gov.ar/ws/services/LoginCms',
+        wsfe: 'https://wswhomo.afip.gov.ar/wsfev1/service.asmx',
+    },
+    produccion: {
+        wsaa: 'https://wsaa.afip.gov.ar/ws/services/LoginCms',
+        wsfe: 'https://servicios1.afip.gov.ar/wsfev1/service.asmx',
+    },
+};
+
+export const CBTE_TIPO = { FACTURA_C: 11, NOTA_CREDITO_C: 13 };
+
+export class ArcaError extends Error {
+    constructor(message, errors = []) {
+        super(message);
+        this.name = 'ArcaError';
+        this.errors = errors;
+    }
+}
+
+// Las claves PEM suelen cargarse en una sola línea con \n escapados
+const readPem = (value) => (value || '').replace(/\\n/g, '\n').trim();
+
+export function getArcaConfig(env = process.env) {
+    const mode = env.ARCA_ENV === 'produccion' ? 'produccion' : 'homologacion';
+    const config = {
+        mode,
+        wsaaUrl: env.ARCA_WSAA_URL || ARCA_ENDPOINTS[mode].wsaa,
+        wsfeUrl: env.ARCA_WSFE_URL || ARCA_ENDPOINTS[mode].wsfe,
+        cuit: (env.ARCA_CUIT || '').replace(/\D/g, ''),
+        puntoVenta: Number(env.ARCA_PUNTO_VENTA || 0),
+        cert: readPem(env.ARCA_CERT),
+        key: readPem(env.ARCA_KEY),
+    };
+    const missing = [
+        !config.cuit && 'ARCA_CUIT',
+        !config.puntoVenta && 'ARCA_PUNTO_VENTA',
+        !config.cert && 'ARCA_CERT',
+        !config.key && 'ARCA_KEY',
+    ].filter(Boolean);
+    if (missing.length > 0) throw new ArcaError(`Falta configurar ${missing.join(', ')}`);
+    return config;
+}
+
+// ── XML ──────────────────────────────────────────────────────────────────────
+
+const unescapeXml = (s) => s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Las respuestas de ARCA son chicas y de forma fija: alcanza con buscar por nombre de tag
+const getTag = (xml, name) => {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+    return match ? match[1].trim() : null;
+};
+
+const getAllTags = (xml, name) => {
+    const re = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'g');
+    return [...xml.matchAll(re)].map(m => m[1]);
+};
+
+// Errores (<Err>) y observaciones (<Obs>) de WSFE como { code, msg }
+const parseMessages = (xml, tag) => getAllTags(xml, tag).map(block => ({
+    code: Number(getTag(block, 'Code')),
+    msg: getTag(block, 'Msg') || '',
+}));
+
+async function soapRequest(config, url, action, body) {
+    const envelope = `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" ${body.ns}>
+<soapenv:Header/>
+<soapenv:Body>${body.xml}</soapenv:Body>
+</soapenv:Envelope>`;
+    let response;
+    try {
+        response = await (config.fetch || fetch)(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: action },
+            body: envelope,
+        });
+    } catch (err) {
+        throw new ArcaError(`No se pudo conectar con ARCA (${url}): ${err.message}`);
+    }
+    const text = await response.text();
+    const fault = getTag(text, 'faultstring');
+    if (fault) throw new ArcaError(unescapeXml(fault));
+    if (!response.ok) throw new ArcaError(`ARCA respondió ${response.status}`);
+    return text;
+}
+
+// ── WSAA ─────────────────────────────────────────────────────────────────────
+
+function signTra(tra, certPem, keyPem) {
+    const p7 = forge.pkcs7.createSignedData();
+    p7.content = forge.util.createBuffer(tra, 'utf8');
+    const certificate = forge.pki.certificateFromPem(certPem);
+    p7.addCertificate(certificate);
+    p7.addSigner({
+        key: forge.pki.privateKeyFromPem(keyPem),
+        certificate,
+        digestAlgorithm: forge.pki.oids.sha256,
+        authenticatedAttributes: [
+            { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+            { type: forge.pki.oids.messageDigest },
+            { type: forge.pki.oids.signingTime, value: new Date() },
+        ],
+    });
+    p7.sign();
+    return forge.util.encode64(forge.asn1.toDer(p7.toAsn1()).getBytes());
+}
+
+/** Pide un ticket de acceso nuevo a WSAA para el servicio indicado. */
+export async function loginCms(config, service = 'wsfe') {
+    const now = Date.now();
+    const tra = `<?xml version="1.0" encoding="UTF-8"?>
+<loginTicketRequest version="1.0">
+<header>
+<uniqueId>${Math.floor(now / 1000)}</uniqueId>
+<generationTime>${new Date(now - 10 * 60 * 1000).toISOString()}</generationTime>
+<expirationTime>${new Date(now + 10 * 60 * 1000).toISOString()}</expirationTime>
+</header>
+<service>${service}</service>
+</loginTicketRequest>`;
+
+    let cms;
+    try {
+        cms = signTra(tra, config.cert, config.key);
+    } catch (err) {
+        throw new ArcaError(`Certificado o clave inválidos: ${err.message}`);
+    }
+
+    const text = await soapRequest(config, config.wsaaUrl, '', {
+        ns: 'xmlns:wsaa="http://wsaa.view.sua.dvadac.desein.afip.gov"',
+        xml: `<wsaa:loginCms><wsaa:in0>${cms}</wsaa:in0></wsaa:loginCms>`,
+    });
+
+    const ticket = unescapeXml(getTag(text, 'loginCmsReturn') || '');
+    const token = getTag(ticket, 'token');
+    const sign = getTag(ticket, 'sign');
+    const expiresAt = getTag(ticket, 'expirationTime');
+    if (!token || !sign || !expiresAt) throw new ArcaError('WSAA no devolvió un ticket de acceso');
+    return { token, sign, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// ── WSFEv1 ───────────────────────────────────────────────────────────────────
+
+const WSFE_NS = 'http://ar.gov.afip.dif.FEV1/';
+
+const authXml = (config, ticket) =>
+    `<ar:Auth><ar:Token>${ticket.token}</ar:Token><ar:Sign>${ticket.sign}</ar:Sign><ar:Cuit>${config.cuit}</ar:Cuit></ar:Auth>`;
+
+const wsfeCall = (config, method, xml) => soapRequest(config, config.wsfeUrl, WSFE_NS + method, {
+    ns: `xmlns:ar="${WSFE_NS}"`,
+    xml: `<ar:${method}>${xml}</ar:${method}>`,
+});
+
+const throwOnErrors = (xml, context) => {
+    const errors = parseMessages(getTag(xml, 'Errors') || '', 'Err');
+    if (errors.length > 0) {
+        throw new ArcaError(`${context}: ${errors.map(e => `${e.code} ${e.msg}`).join(' · ')}`, errors);
+    }
+};
+
+export async function getUltimoComprobante(config, ticket, cbteTipo) {
+    const xml = await wsfeCall(config, 'FECompUltimoAutorizado',
+        `${authXml(config, ticket)}<ar:PtoVta>${config.puntoVenta}</ar:PtoVta><ar:CbteTipo>${cbteTipo}</ar:CbteTipo>`);
+    throwOnErrors(xml, 'No se pudo consultar el último comprobante');
+    return Number(getTag(xml, 'CbteNro') || 0);
+}
+
+const toArcaDate = (dateKey) => dateKey.replace(/-/g, '');
+const fromArcaDate = (value) => value ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : null;
+const formatImporte = (n) => (Math.round(n * 100) / 100).toFixed(2);
+
+// Pide el CAE del próximo número del tipo indicado. asociado: comprobante
+// al que ajusta (obligatorio en notas de crédito y débito).
+async function solicitarCae(config, ticket, { cbteTipo, fecha, importe, asociado }, context) {
+    if (!(importe > 0)) throw new ArcaError('El importe del comprobante tiene que ser mayor a cero');
+
+    const numero = (await getUltimoComprobante(config, ticket, cbteTipo)) + 1;
+    const total = formatImporte(importe);
+    const asociadoXml = asociado ? `
+<ar:CbtesAsoc><ar:CbteAsoc>
+<ar:Tipo>${asociado.cbteTipo}</ar:Tipo>
+<ar:PtoVta>${asociado.puntoVenta}</ar:PtoVta>
+<ar:Nro>${asociado.cbteNro}</ar:Nro>
+<ar:Cuit>${config.cuit}</ar:Cuit>
+<ar:CbteFch>${toArcaDate(asociado.fecha)}</ar:CbteFch>
+</ar:CbteAsoc></ar:CbtesAsoc>` : '';
+
+    const xml = await wsfeCall(config, 'FECAESolicitar', `${authXml(config, ticket)}
+<ar:FeCAEReq>
+<ar:FeCabReq><ar:CantReg>1</ar:CantReg><ar:PtoVta>${config.puntoVenta}</ar:PtoVta><ar:CbteTipo>${cbteTipo}</ar:CbteTipo></ar:FeCabReq>
+<ar:FeDetReq><ar:FECAEDetRequest>
+<ar:Concepto>1</ar:Concepto>
+<ar:DocTipo>99</ar:DocTipo>
+<ar:DocNro>0</ar:DocNro>
+<ar:CbteDesde>${numero}</ar:CbteDesde>
+<ar:CbteHasta>${numero}</ar:CbteHasta>
+<ar:CbteFch>${toArcaDate(fecha)}</ar:CbteFch>
+<ar:ImpTotal>${total}</ar:ImpTotal>
+<ar:ImpTotConc>0.00</ar:ImpTotConc>
+<ar:ImpNeto>${total}</ar:ImpNeto>
+<ar:ImpOpEx>0.00</ar:ImpOpEx>
+<ar:ImpTrib>0.00</ar:ImpTrib>
+<ar:ImpIVA>0.00</ar:ImpIVA>
+<ar:MonId>PES</ar:MonId>
+<ar:MonCotiz>1</ar:MonCotiz>
+<ar:CondicionIVAReceptorId>5</ar:CondicionIVAReceptorId>${asociadoXml}
+</ar:FECAEDetRequest></ar:FeDetReq>
+</ar:FeCAEReq>`);
+
+    throwOnErrors(xml, `ARCA rechazó ${context}`);
+    const detalle = getTag(xml, 'FECAEDetResponse') || '';
+    const observaciones = parseMessages(getTag(detalle, 'Observaciones') || '', 'Obs');
+    if (getTag(detalle, 'Resultado') !== 'A') {
+        const motivo = observaciones.map(o => `${o.code} ${o.msg}`).join(' · ') || 'sin detalle';
+        throw new ArcaError(`ARCA rechazó ${context}: ${motivo}`, observaciones);
+    }
+
+    return {
+        cae: getTag(detalle, 'CAE'),
+        cuit: config.cuit,
+        caeVencimiento: fromArcaDate(getTag(detalle, 'CAEFchVto')),
+        puntoVenta: config.puntoVenta,
+        cbteTipo,
+        cbteNro: Number(getTag(detalle, 'CbteDesde') || numero),
+        fecha,
+        importe: Number(total),
+        observaciones,
+    };
+}
+
+/**
+ * Emite una Factura C (monotributo, sin IVA discriminado) a consumidor final.
+ * fecha: AAAA-MM-DD; importe: total del comprobante.
+ */
+export function emitirFacturaC(config, ticket, { fecha, importe }) {
+    return solicitarCae(config, ticket, { cbteTipo: CBTE_TIPO.FACTURA_C, fecha, importe }, 'la factura');
+}
+
+/**
+ * Emite una Nota de Crédito C que ajusta una Factura C ya autorizada.
+ * asociado: { cbteTipo, puntoVenta, cbteNro, fecha } de la factura original.
+ */
+export function emitirNotaCreditoC(config, ticket, { fecha, importe, asociado }) {
+    return solicitarCae(config, ticket, { cbteTipo: CBTE_TIPO.NOTA_CREDITO_C, fecha, importe, asociado }, 'la nota de crédito');
+}
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createArcaMock, selfSignedCertificate } from '../../scripts/wsfe-mock.mjs';
+import { ArcaError, CBTE_TIPO, emitirFacturaC, emitirNotaCreditoC, getArcaConfig, getUltimoComprobante, loginCms } from './wsfe.js';
+
+const server = createArcaMock();
+let config;
+let ticket;
+
+const hoy = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+beforeAll(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address();
+    const { cert, key } = selfSignedCertificate();
+    config = getArcaConfig({
+        ARCA_WSAA_URL: `http://127.0.0.1:${port}/wsaa`,
+        ARCA_WSFE_URL: `http://127.0.0.1:${port}/wsfe`,
+        ARCA_CUIT: '20-11111111-2',
+        ARCA_PUNTO_VENTA: '1',
+        ARCA_CERT: cert,
+        ARCA_KEY: key,
+    });
+}, 30000);
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+describe('wsfe contra el mock de ARCA', () => {
+    it('pide el ticket de acceso a WSAA', async () => {
+        ticket = await loginCms(config);
+        expect(ticket.token).toMatch(/^mock-token-/);
+        expect(ticket.sign).toMatch(/^mock-sign-/);
+        expect(new Date(ticket.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('emite facturas C con números correlativos', async () => {
+        const fecha = hoy();
+        const primera = await emitirFacturaC(config, ticket, { fecha, importe: 1500 });
+        expect(primera).toMatchObject({ cuit: '20111111112', puntoVenta: 1, cbteTipo: CBTE_TIPO.FACTURA_C, cbteNro: 1, fecha, importe: 1500 });
+        expect(primera.cae).toMatch(/^\d{14}$/);
+
+        const segunda = await emitirFacturaC(config, ticket, { fecha, importe: 800.5 });
+        expect(segunda.cbteNro).toBe(2);
+        expect(await getUltimoComprobante(config, ticket, CBTE_TIPO.FACTURA_C)).toBe(2);
+    });
+
+    it('emite la nota de crédito C asociada a la factura', async () => {
+        const fecha = hoy();
+        const nota = await emitirNotaCreditoC(config, ticket, {
+            fecha,
+            importe: 500,
+            asociado: { cbteTipo: CBTE_TIPO.FACTURA_C, puntoVenta: 1, cbteNro: 1, fecha },
+        });
+        expect(nota).toMatchObject({ cbteTipo: CBTE_TIPO.NOTA_CREDITO_C, cbteNro: 1, importe: 500 });
+        expect(nota.cae).toMatch(/^\d{14}$/);
+    });
+
+    it('rechaza la nota de crédito sobre una factura que no existe', async () => {
+        const fecha = hoy();
+        const emision = emitirNotaCreditoC(config, ticket, {
+            fecha,
+            importe: 500,
+            asociado: { cbteTipo: CBTE_TIPO.FACTURA_C, puntoVenta: 1, cbteNro: 99, fecha },
+        });
+        await expect(emision).rejects.toThrow(ArcaError);
+        await expect(emision).rejects.toThrow(/10041/);
+    });
+});
@@ -0,0 +1,430 @@
+// Catálogo público de la tienda para consumo de bots (WhatsApp, etc.)
+// GET /api/catalogo          → JSON
+// GET /api/catalogo?formato=texto → texto plano legible
+// GET /api/catalogo/:id           → una publicación (con todas sus fotos)
+// GET /api/catalogo/grupo/:grupo  → la publicación de un store_group
+// GET /api/catalogo?formato=meta   → feed CSV para Meta Commerce Manager
+// GET /api/catalogo?formato=google → feed RSS para Google Merchant Center
+// Filtros (valen para todos los formatos del catálogo completo):
+//   q             búsqueda sin acentos en título, descripción y variantes
+//   categoria     categoria=zapatillas
+//   condicion     nuevo | semi_uso | usado
+//   ubicacion     parte del nombre de la ubicación
+//   precio_min / precio_max
+//   orden         titulo (por defecto) | precio | precio_desc | nuevos
+//   pagina / por_pagina   sin ellos se devuelve todo
+//   desde         fecha ISO o epoch en ms: solo lo que cambió desde entonces, más
+//                 las claves de lo que ya no está (eliminados; en texto van al
+//                 final, como YA NO DISPONIBLES). El header
+//                 X-Catalogo-Hasta trae el desde de la próxima consulta; va
+//                 fuera del cuerpo para que el ETag no cambie en cada pedido
+// Todas las respuestas llevan ETag; con If-None-Match igual se responde 304.
+// Las publicaciones y variantes se arman con src/lib/catalogo, igual que la tienda.
+import { createHash } from 'node:crypto';
+import type { Item, ItemCondition } from '../src/types/index.js';
+import { mapItemFromDb } from '../src/lib/itemMapper.js';
+import { getItemPrice, getListingImages, getListingKey, groupListings, mergeVariants, pickRepresentative, toCatalogProduct } from '../src/lib/catalogo.js';
+import type { CatalogProduct } from '../src/lib/catalogo.js';
+import { STORE_CONFIG } from '../src/config/storeConfig.js';
+
+type ApiRequest = {
+    query?: Record<string, string | string[] | undefined>;
+    headers: Record<string, string | string[] | undefined>;
+};
+
+type ApiResponse = {
+    setHeader(name: string, value: string): void;
+    status(code: number): ApiResponse;
+    json(body: unknown): void;
+    send(body: string): void;
+    end(): void;
+};
+
+type Orden = 'titulo' | 'precio' | 'precio_desc' | 'nuevos';
+
+type Filtros = {
+    q: string[];
+    categoria: string;
+    condicion?: ItemCondition;
+    ubicacion: string;
+    precioMin?: number;
+    precioMax?: number;
+    orden: Orden;
+    pagina?: number;
+    porPagina?: number;
+    desde?: string;
+};
+
+const POR_PAGINA_MAX = 100;
+const ORDENES: Orden[] = ['titulo', 'precio', 'precio_desc', 'nuevos'];
+const CONDICIONES: ItemCondition[] = ['nuevo', 'semi_uso', 'usado'];
+
+const normalize = (value?: string | null) => String(value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Lee y valida los parámetros; devuelve { error } si alguno no sirve
+function parseFiltros(query: Record<string, string | undefined>): Filtros | { error: string } {
+    const numero = (name: string, { entero = false, min = 0 } = {}) => {
+        const raw = query[name];
+        if (raw === undefined || raw === '') return undefined;
+        const n = Number(raw);
+        if (!Number.isFinite(n) || n < min || (entero && !Number.isInteger(n))) throw new Error(`Parámetro inválido: ${name}`);
+        return n;
+    };
+
+    try {
+        const condicion = query.condicion ? normalize(query.condicion).replace(/[\s-]+/g, '_') : undefined;
+        if (condicion && !CONDICIONES.includes(condicion as ItemCondition)) throw new Error('Parámetro inválido: condicion');
+        const desde = query.desde ? new Date(/^\d+$/.test(query.desde) ? Number(query.desde) : query.desde) : undefined;
+        if (desde && Number.isNaN(desde.getTime())) throw new Error('Parámetro inválido: desde');
+        const orden = query.orden ? normalize(query.orden) : 'titulo';
+        if (!ORDENES.includes(orden as Orden)) throw new Error('Parámetro inválido: orden');
+
+        const filtros: Filtros = {
+            q: normalize(query.q).split(/\s+/).filter(Boolean),
+            categoria: normalize(query.categoria),
+            condicion: condicion as ItemCondition | undefined,
+            ubicacion: normalize(query.ubicacion),
+            precioMin: numero('precio_min'),
+            precioMax: numero('precio_max'),
+            orden: orden as Orden,
+            pagina: numero('pagina', { entero: true, min: 1 }),
+            porPagina: numero('por_pagina', { entero: true, min: 1 }),
+            desde: desde?.toISOString(),
+        };
+        if (filtros.precioMin !== undefined && filtros.precioMax !== undefined && filtros.precioMin > filtros.precioMax) {
+            throw new Error('precio_min no puede ser mayor que precio_max');
+        }
+        if (filtros.pagina !== undefined || filtros.porPagina !== undefined) {
+            filtros.pagina = filtros.pagina || 1;
+            filtros.porPagina = Math.min(filtros.porPagina || 20, POR_PAGINA_MAX);
+        }
+        return filtros;
+    } catch (err) {
+        return { error: (err as Error).message };
+    }
+}
+
+const SELECT = 'id,created_at,updated_at,product_name,category,sale_price,estimated_sale_price,quantity,item_condition,location,description,image_url,store_images,store_video_url,store_title,store_group,store_variant_name';
+const isUuid = (value?: string) => typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+async function fetchRest<T>(table: string, params: Record<string, string>): Promise<T[]> {
+    const anonKey = process.env.VITE_SUPABASE_ANON_KEY!;
+    const r = await fetch(`${process.env.VITE_SUPABASE_URL}/rest/v1/${table}?${new URLSearchParams(params)}`, {
+        headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` },
+    });
+    if (!r.ok) throw new Error(`Supabase ${r.status}`);
+    return r.json() as Promise<T[]>;
+}
+
+// Unidades publicadas y en stock que cumplen los filtros de PostgREST dados
+const fetchItems = async (filters: Record<string, string>): Promise<Item[]> => {
+    const rows = await fetchRest<unknown>('items', {
+        select: SELECT,
+        public_in_store: 'eq.true',
+        status: 'eq.in_stock',
+        order: 'product_name.asc',
+        ...filters,
+    });
+    return rows.map(mapItemFromDb);
+};
+
+// Respuesta con ETag del contenido: si el cliente ya la tiene, 304 sin cuerpo
+const sendWithEtag = (req: ApiRequest, res: ApiResponse, body: string, contentType: string) => {
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    res.setHeader('ETag', etag);
+    const header = req.headers['if-none-match'];
+    const ifNoneMatch = (Array.isArray(header) ? header.join(',') : header || '').split(',').map(tag => tag.trim().replace(/^W\//, ''));
+    if (ifNoneMatch.includes(etag) || ifNoneMatch.includes('*')) {
+        res.status(304).end();
+        return;
+    }
+    res.setHeader('Content-Type', contentType);
+    res.status(200).send(body);
+};
+
+const JSON_TYPE = 'application/json; charset=utf-8';
+const TEXT_TYPE = 'text/plain; charset=utf-8';
+
+const fmt = (n: number) => '$' + n.toLocaleString('es-AR');
+
+const productoLines = (p: CatalogProduct) => {
+    const lines = [`• ${p.titulo}`];
+    if (p.descripcion) lines.push(`  ${p.descripcion.replace(/\n/g, ' ')}`);
+    if (p.ubicacion) lines.push(`  Ubicación: ${p.ubicacion}`);
+    if (p.variantes.length === 1) {
+        const v = p.variantes[0];
+        lines.push(`  ${fmt(v.precio)} — ${v.condicion}${v.cantidad > 1 ? ` — ${v.cantidad} disponibles` : ''}`);
+    } else {
+        lines.push(`  Stock total: ${p.stockTotal} unidad${p.stockTotal !== 1 ? 'es' : ''}. Opciones:`);
+        for (const v of p.variantes) {
+            lines.push(`    - ${v.nombre}: ${fmt(v.precio)} — ${v.condicion} — ${v.cantidad} disponible${v.cantidad !== 1 ? 's' : ''}${v.ubicacion ? ` — Ubicación: ${v.ubicacion}` : ''}`);
+        }
+    }
+    lines.push(`  Link: ${p.link}`);
+    lines.push('');
+    return lines;
+};
+
+// Feeds para Meta Commerce Manager (CSV) y Google Merchant Center (RSS 2.0).
+// Una entrada por variante; las de un mismo store_group comparten item_group_id.
+const condicionMeta: Record<ItemCondition, string> = { nuevo: 'new', semi_uso: 'used_like_new', usado: 'used' };
+const condicionGoogle: Record<ItemCondition, string> = { nuevo: 'new', semi_uso: 'used', usado: 'used' };
+
+type FeedEntry = {
+    id: string;
+    title: string;
+    description: string;
+    condition: ItemCondition;
+    price: string;
+    link: string;
+    imageLink: string;
+    additionalImageLinks: string[];
+    itemGroupId: string | null;
+    quantity: number;
+};
+
+const getFeedEntries = (items: Item[], baseUrl: string) => {
+    const entries: FeedEntry[] = [];
+    for (const group of groupListings(items)) {
+        const rep = pickRepresentative(group);
+        const titulo = rep.storeTitle || rep.productName;
+        const grupo = (rep.storeGroup || '').trim();
+        for (const item of mergeVariants(group)) {
+            const propias = getListingImages(item, [item]);
+            const imagenes = propias.length > 0 ? propias : getListingImages(rep, group);
+            // Meta y Google rechazan productos sin precio o sin foto
+            if (getItemPrice(item) <= 0 || imagenes.length === 0) continue;
+            entries.push({
+                id: item.id,
+                title: (grupo && item.storeVariantName ? `${titulo} - ${item.storeVariantName}` : titulo).slice(0, 150),
+                description: (rep.description || titulo).slice(0, 5000),
+                condition: item.condition,
+                price: `${getItemPrice(item).toFixed(2)} ARS`,
+                link: `${baseUrl}/tienda/producto/${item.id}`,
+                imageLink: imagenes[0],
+                additionalImageLinks: imagenes.slice(1, 11),
+                itemGroupId: grupo || null,
+                quantity: item.quantity,
+            });
+        }
+    }
+    return entries;
+};
+
+const csvCell = (value: string | number) => {
+    const s = String(value ?? '');
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const toMetaCsv = (entries: FeedEntry[]) => {
+    const header = ['id', 'title', 'description', 'availability', 'condition', 'price', 'link', 'image_link', 'additional_image_link', 'brand', 'item_group_id', 'quantity_to_sell_on_facebook'];
+    const lines = entries.map(e => [
+        e.id,
+        e.title,
+        e.description,
+        'in stock',
+        condicionMeta[e.condition] || 'new',
+        e.price,
+        e.link,
+        e.imageLink,
+        e.additionalImageLinks.join(','),
+        STORE_CONFIG.storeName,
+        e.itemGroupId || '',
+        e.quantity,
+    ].map(csvCell).join(','));
+    return [header.join(','), ...lines].join('\n');
+};
+
+const xml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toGoogleRss = (entries: FeedEntry[], baseUrl: string) => {
+    const items = entries.map(e => [
+        '    <item>',
+        `      <g:id>${xml(e.id)}</g:id>`,
+        `      <g:title>${xml(e.title)}</g:title>`,
+        `      <g:description>${xml(e.description)}</g:description>`,
+        `      <g:link>${xml(e.link)}</g:link>`,
+        `      <g:image_link>${xml(e.imageLink)}</g:image_link>`,
+        ...e.additionalImageLinks.map(url => `      <g:additional_image_link>${xml(url)}</g:additional_image_link>`),
+        '      <g:availability>in_stock</g:availability>',
+        `      <g:condition>${condicionGoogle[e.condition] || 'new'}</g:condition>`,
+        `      <g:price>${e.price}</g:price>`,
+        `      <g:brand>${xml(STORE_CONFIG.storeName)}</g:brand>`,
+        '      <g:identifier_exists>no</g:identifier_exists>',
+        ...(e.itemGroupId ? [`      <g:item_group_id>${xml(e.itemGroupId)}</g:item_group_id>`] : []),
+        '    </item>',
+    ].join('\n'));
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+        '  <channel>',
+        `    <title>${xml(STORE_CONFIG.storeName)}</title>`,
+        `    <link>${xml(`${baseUrl}/tienda`)}</link>`,
+        `    <description>Catálogo de ${xml(STORE_CONFIG.storeName)}</description>`,
+        ...items,
+        '  </channel>',
+        '</rss>',
+    ].join('\n');
+};
+
+// GET /api/catalogo/:id y /api/catalogo/grupo/:storeGroup (vercel.json los
+// reescribe a ?id= y ?grupo=). Un id que pertenece a un grupo devuelve el
+// grupo entero, así el bot ve todas las variantes.
+async function sendDetalle(req: ApiRequest, res: ApiResponse, query: Record<string, string | undefined>, baseUrl: string, texto: boolean) {
+    const { id, grupo } = query;
+    let items: Item[] = [];
+    try {
+        if (grupo) {
+            items = await fetchItems({ store_group: `eq.${grupo}` });
+        } else if (isUuid(id)) {
+            items = await fetchItems({ id: `eq.${id}` });
+            const g = (items[0]?.storeGroup || '').trim();
+            if (g) items = await fetchItems({ store_group: `eq.${g}` });
+        }
+    } catch {
+        res.status(502).json({ error: 'No se pudo cargar el catálogo' });
+        return;
+    }
+
+    if (items.length === 0) {
+        const mensaje = `Ese producto ya no está disponible. Podés ver todo lo que tenemos en ${baseUrl}/tienda`;
+        if (texto) {
+            res.setHeader('Content-Type', TEXT_TYPE);
+            res.status(404).send(mensaje);
+            return;
+        }
+        res.status(404).json({ error: 'Producto no encontrado', mensaje, tienda: `${baseUrl}/tienda` });
+        return;
+    }
+
+    const producto = toCatalogProduct(items, baseUrl, { withImages: true });
+    if (texto) {
+        sendWithEtag(req, res, productoLines(producto).join('\n'), TEXT_TYPE);
+        return;
+    }
+    sendWithEtag(req, res, JSON.stringify({ tienda: `${baseUrl}/tienda`, producto }), JSON_TYPE);
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+    if (!process.env.VITE_SUPABASE_URL || !process.env.VITE_SUPABASE_ANON_KEY) {
+        res.status(500).json({ error: 'Supabase no configurado' });
+        return;
+    }
+
+    // Un parámetro repetido vale por el primero
+    const query = Object.fromEntries(Object.entries(req.query || {}).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value]));
+    const baseUrl = `https://${req.headers.host}`;
+    const formato = (query.formato || '').toLowerCase();
+    const texto = formato === 'texto';
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+
+    if (query.id !== undefined || query.grupo !== undefined) {
+        await sendDetalle(req, res, query, baseUrl, texto);
+        return;
+    }
+
+    const filtros = parseFiltros(query);
+    if ('error' in filtros) {
+        res.status(400).json({ error: filtros.error });
+        return;
+    }
+
+    // Se fija antes de leer: lo que cambie durante la consulta entra en la próxima
+    const hasta = new Date().toISOString();
+    let items: Item[];
+    let updated: Array<{ id: string; store_group: string | null }> = [];
+    let removals: Array<{ item_id: string; store_group: string | null }> = [];
+    try {
+        items = await fetchItems({});
+        // Las fechas se comparan en la base: PostgREST las devuelve con
+        // microsegundos y otro formato de zona, que no ordenan bien como texto
+        if (filtros.desde) {
+            updated = await fetchRest('items', { select: 'id,store_group', public_in_store: 'eq.true', status: 'eq.in_stock', updated_at: `gt.${filtros.desde}` });
+            removals = await fetchRest('catalog_removals', { select: 'item_id,store_group', removed_at: `gt.${filtros.desde}` });
+        }
+    } catch {
+        res.status(502).json({ error: 'No se pudo cargar el catálogo' });
+        return;
+    }
+
+    const clavesActuales = new Set(items.map(getListingKey));
+    const cambiadas = new Set([
+        ...updated.map(u => (u.store_group || '').trim() || u.id),
+        ...removals.map(r => (r.store_group || '').trim() || r.item_id),
+    ]);
+
+    // Los filtros por unidad dejan afuera las variantes que no cumplen
+    items = items.filter(item =>
+        (!filtros.categoria || normalize(item.category) === filtros.categoria) &&
+        (!filtros.condicion || item.condition === filtros.condicion) &&
+        (!filtros.ubicacion || normalize(item.location).includes(filtros.ubicacion)) &&
+        (filtros.precioMin === undefined || getItemPrice(item) >= filtros.precioMin) &&
+        (filtros.precioMax === undefined || getItemPrice(item) <= filtros.precioMax));
+
+    // Los feeds van completos: q, orden y paginación no aplican
+    if (formato === 'meta') {
+        sendWithEtag(req, res, toMetaCsv(getFeedEntries(items, baseUrl)), 'text/csv; charset=utf-8');
+        return;
+    }
+    if (formato === 'google') {
+        sendWithEtag(req, res, toGoogleRss(getFeedEntries(items, baseUrl), baseUrl), 'application/rss+xml; charset=utf-8');
+        return;
+    }
+
+    const latest = (group: Item[]) => group.reduce((acc, item) => (item.createdAt || '') > acc ? item.createdAt! : acc, '');
+    let productos = groupListings(items).map(group => ({ producto: toCatalogProduct(group, baseUrl), alta: latest(group) }));
+
+    // Todas las palabras de q tienen que aparecer en el título, la descripción o alguna variante
+    if (filtros.q.length > 0) {
+        productos = productos.filter(({ producto: p }) => {
+            const contenido = normalize([p.titulo, p.descripcion, ...p.variantes.map(v => v.nombre)].join(' '));
+            return filtros.q.every(palabra => contenido.includes(palabra));
+        });
+    }
+    if (filtros.desde) productos = productos.filter(({ producto }) => cambiadas.has(producto.clave));
+    const eliminados = [...cambiadas].filter(clave => !clavesActuales.has(clave));
+
+    type Entrada = (typeof productos)[number];
+    const minPrecio = ({ producto }: Entrada) => Math.min(...producto.variantes.map(v => v.precio));
+    const porTitulo = (a: Entrada, b: Entrada) => a.producto.titulo.localeCompare(b.producto.titulo);
+    const comparar: Record<Orden, (a: Entrada, b: Entrada) => number> = {
+        titulo: porTitulo,
+        precio: (a, b) => minPrecio(a) - minPrecio(b) || porTitulo(a, b),
+        precio_desc: (a, b) => minPrecio(b) - minPrecio(a) || porTitulo(a, b),
+        nuevos: (a, b) => b.alta.localeCompare(a.alta) || porTitulo(a, b),
+    };
+    let ordenados = productos.sort(comparar[filtros.orden]).map(({ producto }) => producto);
+
+    const total = ordenados.length;
+    const pagina = filtros.pagina || 1;
+    const paginas = filtros.porPagina ? Math.max(1, Math.ceil(total / filtros.porPagina)) : 1;
+    if (filtros.porPagina) {
+        ordenados = ordenados.slice((pagina - 1) * filtros.porPagina, pagina * filtros.porPagina);
+    }
+
+    if (filtros.desde) {
+        res.setHeader('X-Catalogo-Hasta', hasta);
+        res.setHeader('Access-Control-Expose-Headers', 'ETag, X-Catalogo-Hasta');
+    }
+
+    if (texto) {
+        const lines = [
+            `CATÁLOGO DE PRODUCTOS DISPONIBLES (${total})`,
+            `Tienda: ${baseUrl}/tienda`,
+            '',
+        ];
+        if (paginas > 1) lines.splice(2, 0, `Página ${pagina} de ${paginas}`);
+        if (total === 0) lines.push('No hay productos que coincidan con la búsqueda.');
+        for (const p of ordenados) lines.push(...productoLines(p));
+        if (eliminados.length > 0) {
+            lines.push('', `YA NO DISPONIBLES (${eliminados.length})`, ...eliminados.map(clave => `• ${clave}`));
+        }
+        sendWithEtag(req, res, lines.join('\n'), TEXT_TYPE);
+        return;
+    }
+
+    const cambios = filtros.desde ? { desde: filtros.desde, eliminados } : {};
+    sendWithEtag(req, res, JSON.stringify({ total, pagina, paginas, porPagina: filtros.porPagina || null, tienda: `${baseUrl}/tienda`, ...cambios, productos: ordenados }), JSON_TYPE);
+}
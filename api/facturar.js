@@ -0,0 +1,104 @@
+// Emite la Factura C de una venta por WSFEv1 y guarda el comprobante en la orden.
+// POST /api/facturar  (Authorization: Bearer <sesión de Supabase>)
+// { orderId, fecha: 'AAAA-MM-DD', lineas: [{ producto, cantidad, precio }], envio?: { metodo, costo } }
+import { ArcaError, emitirFacturaC, getArcaConfig } from './_lib/wsfe.js';
+import { getSessionUser, getSupabaseEnv, supabaseRest } from './_lib/supabase.js';
+import { getTicket } from './_lib/ticket.js';
+import { guardarEmision, liberarEmision, tomarEmision } from './_lib/emision.js';
+
+const isDateKey = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export default async function handler(req, res) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        res.status(405).json({ error: 'Método no permitido' });
+        return;
+    }
+
+    const env = getSupabaseEnv();
+    if (!env) {
+        res.status(500).json({ error: 'Supabase no configurado' });
+        return;
+    }
+    const user = await getSessionUser(req, env);
+    if (!user) {
+        res.status(401).json({ error: 'Sesión inválida' });
+        return;
+    }
+
+    const { orderId, fecha, lineas, envio } = req.body || {};
+    const lineasValidas = Array.isArray(lineas) && lineas.length > 0 && lineas.every(l =>
+        typeof l.producto === 'string' && l.producto.trim() && Number(l.cantidad) > 0 && Number(l.precio) >= 0);
+    if (typeof orderId !== 'string' || !isDateKey(fecha) || !lineasValidas) {
+        res.status(400).json({ error: 'Datos de factura incompletos' });
+        return;
+    }
+
+    const detalle = {
+        lineas: lineas.map(l => ({ producto: l.producto.trim(), cantidad: Number(l.cantidad), precio: Math.round(Number(l.precio)) })),
+        ...(envio && Number(envio.costo) > 0 ? { envio: { metodo: envio.metodo || 'Envío', costo: Math.round(Number(envio.costo)) } } : {}),
+    };
+    const importe = detalle.lineas.reduce((acc, l) => acc + l.cantidad * l.precio, 0) + (detalle.envio?.costo || 0);
+
+    let factura;
+    let tomada = false;
+    try {
+        const [order] = await supabaseRest(env, user.accessToken, `orders?id=eq.${encodeURIComponent(orderId)}&select=id,cae`);
+        if (!order) {
+            res.status(404).json({ error: 'Venta no encontrada' });
+            return;
+        }
+        if (order.cae) {
+            res.status(409).json({ error: `La venta ya tiene CAE ${order.cae}` });
+            return;
+        }
+        tomada = await tomarEmision(env, user.accessToken, 'orders', orderId);
+        if (!tomada) {
+            res.status(409).json({ error: 'La venta ya se está facturando o ya tiene CAE' });
+            return;
+        }
+
+        const config = getArcaConfig();
+        const ticket = await getTicket(env, user.accessToken, config);
+        factura = await emitirFacturaC(config, ticket, { fecha, importe });
+    } catch (err) {
+        console.error('Error emitiendo factura:', err);
+        if (tomada) await liberarEmision(env, user.accessToken, 'orders', orderId).catch(e => console.error('Error liberando la venta:', e));
+        res.status(err instanceof ArcaError ? 502 : 500).json({ error: err.message });
+        return;
+    }
+
+    // Con CAE emitido, un fallo al guardar no debe perder el comprobante
+    let guardada;
+    try {
+        guardada = await guardarEmision(env, user.accessToken, 'orders', orderId, {
+            facturado: true,
+            cae: factura.cae,
+            cuit_emisor: factura.cuit,
+            cae_vencimiento: factura.caeVencimiento,
+            punto_venta: factura.puntoVenta,
+            cbte_tipo: factura.cbteTipo,
+            cbte_nro: factura.cbteNro,
+            factura_fecha: factura.fecha,
+            factura_importe: factura.importe,
+            factura_detalle: detalle,
+        });
+    } catch (err) {
+        console.error('Error guardando factura emitida:', err);
+        res.status(500).json({
+            error: `Se emitió el comprobante ${factura.puntoVenta}-${factura.cbteNro} (CAE ${factura.cae}) pero no se pudo guardar en la venta`,
+            factura: { ...factura, detalle },
+        });
+        return;
+    }
+    // Otro pedido guardó su CAE antes (la marca se venció): no se pisa
+    if (!guardada) {
+        res.status(409).json({
+            error: `Se emitió el comprobante ${factura.puntoVenta}-${factura.cbteNro} (CAE ${factura.cae}) pero la venta ya tenía otro CAE guardado`,
+            factura: { ...factura, detalle },
+        });
+        return;
+    }
+
+    res.status(200).json({ factura: { ...factura, detalle } });
+}
@@ -0,0 +1,124 @@
+// Emite la Nota de Crédito C de una devolución sobre una venta facturada por
+// WSFEv1 y guarda el comprobante en la devolución.
+// POST /api/nota-credito  (Authorization: Bearer <sesión de Supabase>)
+// { returnId, fecha: 'AAAA-MM-DD' }
+import { ArcaError, emitirNotaCreditoC, getArcaConfig } from './_lib/wsfe.js';
+import { getSessionUser, getSupabaseEnv, supabaseRest } from './_lib/supabase.js';
+import { getTicket } from './_lib/ticket.js';
+import { guardarEmision, liberarEmision, tomarEmision } from './_lib/emision.js';
+
+const isDateKey = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export default async function handler(req, res) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        res.status(405).json({ error: 'Método no permitido' });
+        return;
+    }
+
+    const env = getSupabaseEnv();
+    if (!env) {
+        res.status(500).json({ error: 'Supabase no configurado' });
+        return;
+    }
+    const user = await getSessionUser(req, env);
+    if (!user) {
+        res.status(401).json({ error: 'Sesión inválida' });
+        return;
+    }
+
+    const { returnId, fecha } = req.body || {};
+    if (typeof returnId !== 'string' || !isDateKey(fecha)) {
+        res.status(400).json({ error: 'Datos de nota de crédito incompletos' });
+        return;
+    }
+
+    let notaCredito;
+    let tomada = false;
+    try {
+        const [devolucion] = await supabaseRest(env, user.accessToken,
+            `sale_returns?id=eq.${encodeURIComponent(returnId)}&select=id,order_id,amount,credit_note,cae`);
+        if (!devolucion) {
+            res.status(404).json({ error: 'Devolución no encontrada' });
+            return;
+        }
+        if (devolucion.cae) {
+            res.status(409).json({ error: `La devolución ya tiene nota de crédito con CAE ${devolucion.cae}` });
+            return;
+        }
+        if (!devolucion.credit_note || !devolucion.order_id) {
+            res.status(400).json({ error: 'La devolución no corresponde a una venta facturada' });
+            return;
+        }
+
+        const [order] = await supabaseRest(env, user.accessToken,
+            `orders?id=eq.${encodeURIComponent(devolucion.order_id)}&select=cae,punto_venta,cbte_tipo,cbte_nro,factura_fecha,factura_importe`);
+        if (!order?.cae) {
+            res.status(400).json({ error: 'La venta no tiene una factura electrónica a la cual asociar la nota de crédito' });
+            return;
+        }
+
+        // Lo ya acreditado sobre la misma factura no puede superar su importe
+        const anteriores = await supabaseRest(env, user.accessToken,
+            `sale_returns?order_id=eq.${encodeURIComponent(devolucion.order_id)}&cae=not.is.null&select=amount`);
+        const acreditado = anteriores.reduce((acc, r) => acc + Number(r.amount), 0);
+        const importe = Number(devolucion.amount);
+        if (acreditado + importe > Number(order.factura_importe) + 0.005) {
+            res.status(400).json({ error: 'La nota de crédito supera lo que queda sin acreditar de la factura' });
+            return;
+        }
+        tomada = await tomarEmision(env, user.accessToken, 'sale_returns', returnId);
+        if (!tomada) {
+            res.status(409).json({ error: 'La devolución ya tiene una nota de crédito en curso o emitida' });
+            return;
+        }
+
+        const config = getArcaConfig();
+        const ticket = await getTicket(env, user.accessToken, config);
+        notaCredito = await emitirNotaCreditoC(config, ticket, {
+            fecha,
+            importe,
+            asociado: {
+                cbteTipo: order.cbte_tipo,
+                puntoVenta: order.punto_venta,
+                cbteNro: order.cbte_nro,
+                fecha: order.factura_fecha,
+            },
+        });
+    } catch (err) {
+        console.error('Error emitiendo nota de crédito:', err);
+        if (tomada) await liberarEmision(env, user.accessToken, 'sale_returns', returnId).catch(e => console.error('Error liberando la devolución:', e));
+        res.status(err instanceof ArcaError ? 502 : 500).json({ error: err.message });
+        return;
+    }
+
+    // Con CAE emitido, un fallo al guardar no debe perder el comprobante
+    let guardada;
+    try {
+        guardada = await guardarEmision(env, user.accessToken, 'sale_returns', returnId, {
+            cae: notaCredito.cae,
+            cae_vencimiento: notaCredito.caeVencimiento,
+            punto_venta: notaCredito.puntoVenta,
+            cbte_tipo: notaCredito.cbteTipo,
+            cbte_nro: notaCredito.cbteNro,
+            cbte_fecha: notaCredito.fecha,
+        });
+    } catch (err) {
+        console.error('Error guardando nota de crédito emitida:', err);
+        res.status(500).json({
+            error: `Se emitió la nota de crédito ${notaCredito.puntoVenta}-${notaCredito.cbteNro} (CAE ${notaCredito.cae}) pero no se pudo guardar en la devolución`,
+            notaCredito,
+        });
+        return;
+    }
+    // Otro pedido guardó su CAE antes (la marca se venció): no se pisa
+    if (!guardada) {
+        res.status(409).json({
+            error: `Se emitió la nota de crédito ${notaCredito.puntoVenta}-${notaCredito.cbteNro} (CAE ${notaCredito.cae}) pero la devolución ya tenía otro CAE guardado`,
+            notaCredito,
+        });
+        return;
+    }
+
+    res.status(200).json({ notaCredito });
+}
@@ -0,0 +1,80 @@
+// Aplica las migraciones pendientes de supabase/migrations en orden.
+// Uso: DATABASE_URL=postgres://... npm run migrate
+// La connection string está en Supabase → Project Settings → Database.
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'supabase', 'migrations');
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+async function listMigrations() {
+    const files = (await readdir(MIGRATIONS_DIR)).filter((f) => FILE_PATTERN.test(f));
+    const migrations = files.map((file) => {
+        const [, version, name] = file.match(FILE_PATTERN);
+        return { version: Number(version), name, file };
+    }).sort((a, b) => a.version - b.version);
+
+    // Números repetidos harían que una migración se saltee sin aviso
+    for (let i = 1; i < migrations.length; i++) {
+        if (migrations[i].version === migrations[i - 1].version) {
+            throw new Error(`Migración duplicada con número ${migrations[i].version}`);
+        }
+    }
+    return migrations;
+}
+
+async function main() {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+        console.error('Falta DATABASE_URL (connection string de Postgres de Supabase).');
+        process.exit(1);
+    }
+
+    const migrations = await listMigrations();
+    const client = new pg.Client({ connectionString });
+    await client.connect();
+
+    try {
+        await client.query(`create table if not exists schema_version (
+            version integer primary key,
+            name text not null,
+            applied_at timestamptz not null default now()
+        )`);
+        const { rows } = await client.query('select coalesce(max(version), 0) as version from schema_version');
+        const current = Number(rows[0].version);
+        const pending = migrations.filter((m) => m.version > current);
+
+        if (pending.length === 0) {
+            console.log(`Base de datos al día (versión ${current}).`);
+            return;
+        }
+
+        for (const migration of pending) {
+            const sql = await readFile(path.join(MIGRATIONS_DIR, migration.file), 'utf8');
+            console.log(`→ ${migration.file}`);
+            // Cada migración corre en su propia transacción: si falla no queda a medias
+            await client.query('begin');
+            try {
+                await client.query(sql);
+                await client.query(
+                    'insert into schema_version (version, name) values ($1, $2) on conflict (version) do nothing',
+                    [migration.version, migration.name]
+                );
+                await client.query('commit');
+            } catch (err) {
+                await client.query('rollback');
+                throw new Error(`Falló ${migration.file}: ${err.message}`);
+            }
+        }
+        console.log(`Listo: versión ${pending[pending.length - 1].version}.`);
+    } finally {
+        await client.end();
+    }
+}
+
+main().catch((err) => {
+    console.error(err.message);
+    process.exit(1);
+});
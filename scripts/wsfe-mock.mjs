@@ -0,0 +1,162 @@
+// Servidor local que imita WSAA y WSFEv1 de ARCA para desarrollo y pruebas.
+// Uso: npm run arca:mock   (puerto: ARCA_MOCK_PORT, por defecto 4455)
+// Al iniciar imprime las variables ARCA_* para apuntar /api/facturar acá.
+// Los comprobantes viven en memoria: se numeran desde 0 en cada arranque.
+// Los tests lo importan y lo levantan con createArcaMock en un puerto libre.
+import http from 'node:http';
+import { randomInt } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import forge from 'node-forge';
+
+const getTag = (xml, name) => {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+    return match ? match[1].trim() : null;
+};
+
+const escapeXml = (s) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const envelope = (body) => `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>${body}</soap:Body></soap:Envelope>`;
+
+const fault = (message) => envelope(`<soap:Fault><faultcode>soap:Client</faultcode><faultstring>${escapeXml(message)}</faultstring></soap:Fault>`);
+
+const errorsXml = (errors) => errors.length === 0 ? '' :
+    `<Errors>${errors.map(e => `<Err><Code>${e.code}</Code><Msg>${escapeXml(e.msg)}</Msg></Err>`).join('')}</Errors>`;
+
+const arcaDate = (date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+function loginCms() {
+    const now = new Date();
+    const expiration = new Date(now.getTime() + 12 * 60 * 60 * 1000);
+    const ticket = `<?xml version="1.0" encoding="UTF-8"?>
+<loginTicketResponse version="1.0"><header><source>CN=wsaa-mock</source><destination>CN=dashboard</destination>
+<uniqueId>${randomInt(1e9)}</uniqueId><generationTime>${now.toISOString()}</generationTime><expirationTime>${expiration.toISOString()}</expirationTime></header>
+<credentials><token>mock-token-${randomInt(1e9)}</token><sign>mock-sign-${randomInt(1e9)}</sign></credentials></loginTicketResponse>`;
+    return envelope(`<loginCmsResponse xmlns="http://wsaa.view.sua.dvadac.desein.afip.gov"><loginCmsReturn>${escapeXml(ticket)}</loginCmsReturn></loginCmsResponse>`);
+}
+
+function compUltimoAutorizado(ultimos, xml) {
+    const ptoVta = Number(getTag(xml, 'PtoVta'));
+    const cbteTipo = Number(getTag(xml, 'CbteTipo'));
+    const nro = ultimos.get(`${ptoVta}-${cbteTipo}`) || 0;
+    return envelope(`<FECompUltimoAutorizadoResponse xmlns="http://ar.gov.afip.dif.FEV1/"><FECompUltimoAutorizadoResult>
+<PtoVta>${ptoVta}</PtoVta><CbteTipo>${cbteTipo}</CbteTipo><CbteNro>${nro}</CbteNro>
+</FECompUltimoAutorizadoResult></FECompUltimoAutorizadoResponse>`);
+}
+
+// Notas de débito y crédito A, B y C: deben informar el comprobante que ajustan
+const TIPOS_CON_ASOCIADO = [2, 3, 7, 8, 12, 13];
+
+// Valida lo mismo que rechaza ARCA con más frecuencia: número fuera de
+// secuencia, importe en cero, fecha a más de 5 días de hoy y notas sin
+// comprobante asociado
+function caeSolicitar(ultimos, xml) {
+    const ptoVta = Number(getTag(xml, 'PtoVta'));
+    const cbteTipo = Number(getTag(xml, 'CbteTipo'));
+    const desde = Number(getTag(xml, 'CbteDesde'));
+    const total = Number(getTag(xml, 'ImpTotal'));
+    const fch = getTag(xml, 'CbteFch') || '';
+    const key = `${ptoVta}-${cbteTipo}`;
+    const siguiente = (ultimos.get(key) || 0) + 1;
+
+    const errors = [];
+    if (desde !== siguiente) errors.push({ code: 10016, msg: `El numero de comprobante informado debe ser el siguiente al ultimo autorizado (${siguiente}).` });
+    if (!(total > 0)) errors.push({ code: 10015, msg: 'El importe total debe ser mayor a 0.' });
+    const fecha = new Date(`${fch.slice(0, 4)}-${fch.slice(4, 6)}-${fch.slice(6, 8)}T12:00:00`);
+    if (isNaN(fecha.getTime()) || Math.abs(Date.now() - fecha.getTime()) > 5 * 24 * 60 * 60 * 1000) {
+        errors.push({ code: 10017, msg: 'La fecha del comprobante debe estar dentro de los 5 dias de la fecha de envio.' });
+    }
+    if (TIPOS_CON_ASOCIADO.includes(cbteTipo)) {
+        const asociado = getTag(xml, 'CbteAsoc');
+        const nroAsociado = asociado ? Number(getTag(asociado, 'Nro')) : 0;
+        const tipoAsociado = asociado ? Number(getTag(asociado, 'Tipo')) : 0;
+        const ptoVtaAsociado = asociado ? Number(getTag(asociado, 'PtoVta')) : 0;
+        if (!asociado) {
+            errors.push({ code: 10040, msg: 'Para notas de debito o credito es obligatorio informar comprobantes asociados.' });
+        } else if (!(nroAsociado > 0) || nroAsociado > (ultimos.get(`${ptoVtaAsociado}-${tipoAsociado}`) || 0)) {
+            errors.push({ code: 10041, msg: `El comprobante asociado ${ptoVtaAsociado}-${tipoAsociado}-${nroAsociado} no existe.` });
+        }
+    }
+
+    const aprobado = errors.length === 0;
+    if (aprobado) ultimos.set(key, desde);
+    const cae = aprobado ? String(randomInt(1e6, 1e7)) + String(randomInt(1e6, 1e7)) : '';
+    const vto = aprobado ? arcaDate(new Date(Date.now() + 10 * 24 * 60 * 60 * 1000)) : '';
+
+    return envelope(`<FECAESolicitarResponse xmlns="http://ar.gov.afip.dif.FEV1/"><FECAESolicitarResult>
+<FeCabResp><PtoVta>${ptoVta}</PtoVta><CbteTipo>${cbteTipo}</CbteTipo><CantReg>1</CantReg><Resultado>${aprobado ? 'A' : 'R'}</Resultado></FeCabResp>
+<FeDetResp><FECAEDetResponse><Concepto>1</Concepto><DocTipo>99</DocTipo><DocNro>0</DocNro><CbteDesde>${desde}</CbteDesde><CbteHasta>${desde}</CbteHasta>
+<CbteFch>${fch}</CbteFch><Resultado>${aprobado ? 'A' : 'R'}</Resultado><CAE>${cae}</CAE><CAEFchVto>${vto}</CAEFchVto></FECAEDetResponse></FeDetResp>
+${errorsXml(errors)}
+</FECAESolicitarResult></FECAESolicitarResponse>`);
+}
+
+function route(ultimos, req, body) {
+    const action = (req.headers.soapaction || '').replace(/"/g, '');
+    if (req.url.startsWith('/wsaa')) {
+        return getTag(body, 'in0') ? loginCms() : fault('Falta el CMS firmado');
+    }
+    if (req.url.startsWith('/wsfe')) {
+        if (action.endsWith('FEDummy')) {
+            return envelope('<FEDummyResponse xmlns="http://ar.gov.afip.dif.FEV1/"><FEDummyResult><AppServer>OK</AppServer><DbServer>OK</DbServer><AuthServer>OK</AuthServer></FEDummyResult></FEDummyResponse>');
+        }
+        if (!getTag(body, 'Token') || !getTag(body, 'Sign')) return fault('Falta el ticket de acceso');
+        if (action.endsWith('FECompUltimoAutorizado')) return compUltimoAutorizado(ultimos, body);
+        if (action.endsWith('FECAESolicitar')) return caeSolicitar(ultimos, body);
+        return fault(`Operación no implementada en el mock: ${action || '(sin SOAPAction)'}`);
+    }
+    return null;
+}
+
+// Certificado descartable: el mock no verifica la firma, pero el cliente necesita uno para firmar
+export function selfSignedCertificate() {
+    const keys = forge.pki.rsa.generateKeyPair(2048);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keys.publicKey;
+    cert.serialNumber = '01';
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    const attrs = [{ name: 'commonName', value: 'wsfe-mock' }];
+    cert.setSubject(attrs);
+    cert.setIssuer(attrs);
+    cert.sign(keys.privateKey, forge.md.sha256.create());
+    return { cert: forge.pki.certificateToPem(cert), key: forge.pki.privateKeyToPem(keys.privateKey) };
+}
+
+/** Servidor del mock sin iniciar; cada uno numera sus comprobantes por separado. */
+export function createArcaMock() {
+    // Último número autorizado por punto de venta y tipo: "ptoVta-tipo" → número
+    const ultimos = new Map();
+    return http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            const xml = req.method === 'POST' ? route(ultimos, req, body) : null;
+            if (!xml) {
+                res.writeHead(404, { 'Content-Type': 'text/plain' });
+                res.end('Rutas: POST /wsaa, POST /wsfe');
+                return;
+            }
+            const isFault = xml.includes('<soap:Fault>');
+            res.writeHead(isFault ? 500 : 200, { 'Content-Type': 'text/xml; charset=utf-8' });
+            res.end(xml);
+        });
+    });
+}
+
+// Solo escucha al correrlo directo (npm run arca:mock), no al importarlo
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+    const PORT = Number(process.env.ARCA_MOCK_PORT || 4455);
+    createArcaMock().listen(PORT, () => {
+        const { cert, key } = selfSignedCertificate();
+        const oneLine = (pem) => pem.trim().replace(/\r?\n/g, '\\n');
+        console.log(`Mock de ARCA escuchando en http://localhost:${PORT}\n`);
+        console.log('Variables para .env (vercel dev):');
+        console.log(`ARCA_WSAA_URL=http://localhost:${PORT}/wsaa`);
+        console.log(`ARCA_WSFE_URL=http://localhost:${PORT}/wsfe`);
+        console.log('ARCA_CUIT=20111111112');
+        console.log('ARCA_PUNTO_VENTA=1');
+        console.log(`ARCA_CERT="${oneLine(cert)}"`);
+        console.log(`ARCA_KEY="${oneLine(key)}"`);
+    });
+}
@@ -1,12 +1,32 @@
+import { useEffect, useState } from 'react'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import Dashboard from './components/Dashboard'
 import Login from './components/Login'
 import ResetPassword from './components/ResetPassword'
+import Storefront from './components/Storefront'
+import MigrationRequired from './components/MigrationRequired'
+import { REQUIRED_SCHEMA_VERSION, schemaService } from './services/schemaService'
+import { useLocation } from './lib/router'
+
+const isStorePath = (path: string) => path === '/tienda' || path.startsWith('/tienda/')
 
 function AppContent() {
   const { session, loading, isRecovery } = useAuth()
+  const hasSession = !!session
+  // undefined = sin verificar; null = no se pudo leer (el Dashboard muestra su propio error)
+  const [schemaVersion, setSchemaVersion] = useState<number | null | undefined>(undefined)
+
+  useEffect(() => {
+    if (!hasSession) return
+    schemaService.getCurrentVersion()
+      .then(setSchemaVersion)
+      .catch((err) => {
+        console.error('Error checking schema version:', err)
+        setSchemaVersion(null)
+      })
+  }, [hasSession])
 
-  if (loading) {
+  if (loading || (hasSession && schemaVersion === undefined)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="w-8 h-8 border-3 border-gray-200 border-t-black rounded-full animate-spin" />
@@ -16,10 +36,19 @@ function AppContent() {
 
   if (isRecovery && session) return <ResetPassword />
 
+  if (session && schemaVersion != null && schemaVersion < REQUIRED_SCHEMA_VERSION) {
+    return <MigrationRequired currentVersion={schemaVersion} pending={schemaService.getPendingMigrations(schemaVersion)} />
+  }
+
   return session ? <Dashboard /> : <Login />
 }
 
 function App() {
+  const { pathname } = useLocation()
+
+  // La tienda es pública: no depende de la sesión
+  if (isStorePath(pathname)) return <Storefront />
+
   return (
     <AuthProvider>
       <AppContent />
@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Download, MessageCircle, Loader2 } from 'lucide-react';
+import type { Customer, Item, Order } from '../types';
+import { buildComprobantePdf, downloadComprobante, getComprobanteKind, shareComprobante } from '../lib/comprobantePdf';
+
+// Vista previa del comprobante de una venta con descarga y envío por WhatsApp
+export default function ComprobanteModal({ order, lines, customer, onClose }: {
+    order: Order;
+    lines: Item[];
+    customer?: Customer;
+    onClose: () => void;
+}) {
+    const [isSharing, setIsSharing] = useState(false);
+    const kind = getComprobanteKind(order);
+    const input = useMemo(() => ({ order, lines, customer }), [order, lines, customer]);
+
+    const previewUrl = useMemo(() => {
+        try {
+            return URL.createObjectURL(buildComprobantePdf(input).output('blob'));
+        } catch (err) {
+            console.error('Error building PDF:', err);
+            return null;
+        }
+    }, [input]);
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    const handleShare = async () => {
+        setIsSharing(true);
+        try {
+            await shareComprobante(input);
+        } catch (err) {
+            console.error('Error sharing PDF:', err);
+            alert('No se pudo compartir el comprobante. Descargalo y adjuntalo a mano.');
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white rounded-t-3xl sm:rounded-2xl shadow-2xl w-full max-w-2xl max-h-[92vh] flex flex-col ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between rounded-t-3xl sm:rounded-t-2xl">
+                    <div>
+                        <h2 className="text-base font-bold text-gray-800">{kind === 'factura' ? 'Factura' : 'Remito / recibo'}</h2>
+                        <p className="text-xs text-gray-500">
+                            {customer?.name || 'Consumidor Final'}
+                            {kind === 'factura' && !order.cae ? ' — facturada a mano, sin datos de CAE' : ''}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="h-8 w-8 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Los navegadores de celular no muestran PDFs embebidos */}
+                <div className="hidden sm:block flex-1 min-h-0 p-4">
+                    {previewUrl ? (
+                        <iframe src={previewUrl} title="Comprobante" className="w-full h-[60vh] rounded-xl border border-gray-200" />
+                    ) : (
+                        <p className="text-sm text-gray-500 text-center py-10">No se pudo generar la vista previa.</p>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-gray-100 flex gap-3">
+                    <button
+                        onClick={() => downloadComprobante(input)}
+                        className="flex-1 h-11 rounded-xl border border-gray-200 bg-white text-gray-700 text-sm font-medium hover:border-gray-300 flex items-center justify-center gap-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        Descargar PDF
+                    </button>
+                    <button
+                        onClick={handleShare}
+                        disabled={isSharing}
+                        className="flex-1 h-11 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {isSharing ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageCircle className="w-4 h-4" />}
+                        Enviar por WhatsApp
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
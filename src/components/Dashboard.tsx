@@ -1,26 +1,112 @@
-import { useState, useEffect, useRef } from 'react';
-import type { Item, ItemCondition, ItemStatus, ItemType, WithdrawalReason } from '../types';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import type { BatchItem, CashChannel, CashReconciliation, Customer, Expense, ExpenseCategory, InvoicingSettings, Item, ItemCondition, ItemStatus, ItemType, MonotributoCategory, MonotributoCategoryPeriod, MonotributoLimit, MonotributoPayment, Order, RecurringExpense, RefundMethod, Reseller, ResellerSettlement, Reservation, ReturnReason, SaleReturn, SaleReturnLine, Shipment, ShipmentStatus, StockMovement, StockMovementType, WithdrawalReason } from '../types';
 import { itemService } from '../services/itemService';
+import { orderService } from '../services/orderService';
+import { customerService } from '../services/customerService';
+import { stockMovementService } from '../services/stockMovementService';
+import { monotributoService } from '../services/monotributoService';
+import { invoicingSettingsService } from '../services/invoicingSettingsService';
+import { returnService } from '../services/returnService';
+import { expenseService } from '../services/expenseService';
+import { cajaService } from '../services/cajaService';
+import { resellerService } from '../services/resellerService';
+import { shipmentService } from '../services/shipmentService';
+import { reservationService } from '../services/reservationService';
+import { invoiceService, formatComprobante } from '../services/invoiceService';
+import type { FacturaEmitida } from '../services/invoiceService';
+import type { StockMovementInput } from '../services/stockMovementService';
 import { imageService } from '../services/imageService';
-import { TOPE, CATEGORIA_ACTUAL } from '../config/monotributo';
-import { Plus, Trash2, TrendingUp, DollarSign, Package, ArrowUpRight, ArrowDownRight, Edit2, Box, History as HistoryIcon, Save, Moon, Sun, Layers, Split, Check, ClipboardPaste, X, AlertTriangle, Merge, ChevronDown, ChevronRight, MapPin, User, FileText, Receipt, CheckCircle, XCircle, Upload, Image as ImageIcon, Loader2, Search, Gift, Ban, Truck, Banknote, LogOut } from 'lucide-react';
+import { CONDICIONES, FORMAS_PAGO, TIPOS, canFacturarOrder, getDateKey, getFacturacionCutoff, getInvoicingSettingsAt, isAfterFacturacionCutoff } from '../config/facturacion';
+import { CATEGORIAS, DIA_VENCIMIENTO_CUOTA, getCategoryAt, getCuotaFromLimit, getCuotasMensuales, getLimitsForYear, getNextRecategorizacion, getRecategorizacion, getTope, getTotalCuotas, recommendCategory } from '../config/monotributo';
+import type { CuotaMensual } from '../config/monotributo';
+import { CANALES, buildLibroCaja, getCanalFormaPago, getSaldosCaja } from '../config/caja';
+import type { CajaMovimiento, CajaMovimientoTipo } from '../config/caja';
+import { CATEGORIAS_GASTO } from '../config/gastos';
+import { TIPOS_COMISION, getComisionLabel, getEstadoCuenta, getUbicacionConsignacion } from '../config/vendedores';
+import type { VentaVendedor } from '../config/vendedores';
+import { ENVIO_METODOS, ESTADOS_ENVIO, PAGADORES_ENVIO, getEnvioInicial, getFechasEstado, getMensajeSeguimiento } from '../config/envios';
+import { DIAS_RESERVA, getPagosConSena, isReservaVencida } from '../config/reservas';
+import { getEstadoLabel, isEnStock, isVendible } from '../config/estados';
+import { getWhatsAppUrl } from '../config/storeConfig';
+import { Plus, Trash2, TrendingUp, DollarSign, Package, ArrowUpRight, ArrowDownRight, Edit2, Box, History as HistoryIcon, Save, Moon, Sun, Layers, Split, Check, ClipboardPaste, X, AlertTriangle, Merge, ChevronDown, ChevronRight, MapPin, User, FileText, Printer, Receipt, Settings, CheckCircle, XCircle, Upload, Image as ImageIcon, Loader2, Search, Gift, Ban, Truck, Banknote, LogOut, Users, MessageCircle, ArrowLeft, Undo2, Wallet, Bookmark } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import PlacaModal from './PlacaModal';
+import ComprobanteModal from './ComprobanteModal';
+import { buildPath, matchPath, navigate, useLocation } from '../lib/router';
+import { conditionLabelMap } from '../lib/catalogo';
+
+type Tab = 'dashboard' | 'inventory' | 'pricing' | 'facturacion' | 'caja' | 'clientes';
+
+type InventoryViewMode = 'products' | 'locations' | 'batches';
+
+// Rutas del panel: cada pestaña tiene su URL y los modales de item se abren
+// encima de la pestaña desde la que se navegó (guardada en history.state).
+const tabPaths: Record<Tab, string> = {
+    dashboard: '/',
+    inventory: '/inventario',
+    pricing: '/tandas',
+    facturacion: '/facturacion',
+    caja: '/caja',
+    clientes: '/clientes'
+};
 
-type Tab = 'dashboard' | 'inventory' | 'pricing' | 'facturacion';
+type TabRoute = { tab: Tab; duplicates?: boolean; batchCode?: string; month?: string; monotributo?: boolean; cuotas?: boolean; ajustes?: boolean; gastos?: boolean; customerId?: string; vendedores?: boolean; resellerId?: string; envios?: boolean; reservas?: boolean };
+
+type ItemModalRoute =
+    | { action: 'nuevo'; status: ItemStatus }
+    | { action: 'editar' | 'vender' | 'reservar' | 'tienda' | 'historial' | 'devolver'; id: string };
+
+const parseTabRoute = (pathname: string): TabRoute => {
+    if (matchPath('/envios', pathname)) return { tab: 'dashboard', envios: true };
+    if (matchPath(tabPaths.inventory, pathname)) return { tab: 'inventory' };
+    if (matchPath('/inventario/duplicados', pathname)) return { tab: 'inventory', duplicates: true };
+    if (matchPath('/inventario/reservas', pathname)) return { tab: 'inventory', reservas: true };
+    if (matchPath(tabPaths.pricing, pathname)) return { tab: 'pricing' };
+    const batchMatch = matchPath('/tandas/:code', pathname);
+    if (batchMatch) return { tab: 'pricing', batchCode: batchMatch.code };
+    if (matchPath(tabPaths.facturacion, pathname)) return { tab: 'facturacion' };
+    if (matchPath('/facturacion/monotributo', pathname)) return { tab: 'facturacion', monotributo: true };
+    if (matchPath('/facturacion/cuotas', pathname)) return { tab: 'facturacion', cuotas: true };
+    if (matchPath('/facturacion/ajustes', pathname)) return { tab: 'facturacion', ajustes: true };
+    const monthMatch = matchPath('/facturacion/:month', pathname);
+    if (monthMatch && /^\d{4}-\d{2}$/.test(monthMatch.month)) return { tab: 'facturacion', month: monthMatch.month };
+    if (matchPath(tabPaths.caja, pathname)) return { tab: 'caja' };
+    if (matchPath('/caja/gastos', pathname)) return { tab: 'caja', gastos: true };
+    const cajaMonthMatch = matchPath('/caja/:month', pathname);
+    if (cajaMonthMatch && /^\d{4}-\d{2}$/.test(cajaMonthMatch.month)) return { tab: 'caja', month: cajaMonthMatch.month };
+    if (matchPath(tabPaths.clientes, pathname)) return { tab: 'clientes' };
+    if (matchPath('/clientes/vendedores', pathname)) return { tab: 'clientes', vendedores: true };
+    const resellerMatch = matchPath('/clientes/vendedores/:id', pathname);
+    if (resellerMatch) return { tab: 'clientes', vendedores: true, resellerId: resellerMatch.id };
+    const customerMatch = matchPath('/clientes/:id', pathname);
+    if (customerMatch) return { tab: 'clientes', customerId: customerMatch.id };
+    return { tab: 'dashboard' };
+};
 
-type PricingItem = {
-    id: string;
-    productName: string;
-    quantity: number;
-    listedUnitPrice: number;
-    unitSalePrice: number;
-    condition: ItemCondition;
-    disposition: 'sell' | 'keep';
-    category?: string;
+const parseItemModalRoute = (pathname: string, search: string): ItemModalRoute | null => {
+    if (matchPath('/item/nuevo', pathname)) {
+        return { action: 'nuevo', status: new URLSearchParams(search).get('estado') === 'vendido' ? 'sold' : 'in_stock' };
+    }
+    const match = matchPath('/item/:id/:action', pathname);
+    if (match && (match.action === 'editar' || match.action === 'vender' || match.action === 'reservar' || match.action === 'tienda' || match.action === 'historial' || match.action === 'devolver')) {
+        return { action: match.action, id: match.id };
+    }
+    return null;
+};
+
+const parseInventoryViewMode = (search: string): InventoryViewMode => {
+    const vista = new URLSearchParams(search).get('vista');
+    return vista === 'locations' || vista === 'batches' ? vista : 'products';
 };
 
+const getBackgroundPath = (state: unknown): string | null => {
+    if (state && typeof state === 'object' && 'background' in state && typeof state.background === 'string') return state.background;
+    return null;
+};
+
+type PricingItem = BatchItem;
+
 type BatchStatus = 'en_camino' | 'recibido' | 'completado';
 
 type BatchRecord = {
@@ -34,15 +120,10 @@ type BatchRecord = {
     cashProfit: number;
     retainedValue: number;
     itemsCount: number;
+    paymentChannel?: CashChannel; // Medio con el que se pagó la tanda
     items: PricingItem[];
 };
 
-const conditionLabelMap: Record<ItemCondition, string> = {
-    nuevo: 'Nuevo',
-    semi_uso: 'Semi uso',
-    usado: 'Usado'
-};
-
 const getBatchLabel = (batchRef?: string) => {
     if (!batchRef) return 'Sin tanda';
     const digits = batchRef.match(/\d+/)?.[0];
@@ -58,100 +139,271 @@ const withdrawalLabels: Record<string, { label: string; color: string; bgColor:
     perdida: { label: 'PÉRDIDA', color: 'text-red-700', bgColor: 'bg-red-100' }
 };
 
-const reconcileItemBatchMap = (inventoryItems: Item[], history: Array<Partial<BatchRecord>>, currentMap: Record<string, string>) => {
-    if (history.length === 0) return null;
+const estadoItemStyles: Record<ItemStatus, string> = {
+    in_transit: 'bg-yellow-100 text-yellow-700',
+    in_stock: 'bg-gray-100 text-gray-600',
+    reserved: 'bg-violet-100 text-violet-700',
+    consigned: 'bg-lime-100 text-lime-700',
+    returned: 'bg-teal-100 text-teal-700',
+    sold: 'bg-emerald-100 text-emerald-700',
+    withdrawn: 'bg-rose-100 text-rose-700',
+};
 
-    const nextMap = { ...currentMap };
-    const usedIds = new Set<string>();
-    let changed = false;
+const returnReasonLabels: Record<ReturnReason, string> = {
+    arrepentimiento: 'Arrepentimiento',
+    falla: 'Falla o daño',
+    talle_modelo: 'Talle / modelo equivocado',
+    no_llego: 'No llegó / envío devuelto',
+    otro: 'Otro',
+};
 
-    // Items already tagged in DB shouldn't be touched by the map
-    const unassigned = inventoryItems.filter((item) => {
-        const alreadyTagged = item.batchRef || nextMap[item.id];
-        return !alreadyTagged;
-    });
+const refundMethodLabels: Record<RefundMethod, string> = {
+    efectivo: 'Efectivo',
+    transferencia: 'Transferencia',
+    mercado_pago: 'Mercado Pago',
+    saldo_a_favor: 'Saldo a favor',
+    cambio: 'Cambio por otro producto',
+};
 
-    // Sort history chronologically (Oldest first) to match FIFO
-    // This ensures that older items are matched to older batches first.
-    const sortedHistory = [...history]
-        .filter((record) => typeof record?.batchCode === 'string' && record.batchCode)
-        .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
-
-    for (const record of sortedHistory) {
-        const batchCode = record.batchCode as string;
-        const recordDate = new Date(record.createdAt || Date.now()).getTime();
-
-        const recordItems = (Array.isArray(record.items) ? record.items : [])
-            .map((entry) => ({
-                productName: entry?.productName || '',
-                quantity: Number(entry?.quantity) || 1,
-                unitSalePrice: Number(entry?.unitSalePrice) || 0,
-                condition: (entry?.condition as ItemCondition) || 'nuevo',
-                disposition: (entry?.disposition as 'sell' | 'keep') || 'sell'
-            }))
-            .filter((entry) => entry.disposition !== 'keep' && entry.productName);
-
-        for (const recordItem of recordItems) {
-            // Find potential matches in unassigned items
-            const candidates = unassigned
-                .filter((item) => !usedIds.has(item.id))
-                .filter((item) => normalizeText(item.productName) === normalizeText(recordItem.productName))
-                .filter((item) => (item.condition || 'nuevo') === recordItem.condition);
-
-            if (candidates.length === 0) continue;
-
-            const bestMatch = [...candidates].sort((a, b) => {
-                // Priority to price match
-                const aSaleMatch = Math.round(a.salePrice || 0) === Math.round(recordItem.unitSalePrice || 0) ? 1 : 0;
-                const bSaleMatch = Math.round(b.salePrice || 0) === Math.round(recordItem.unitSalePrice || 0) ? 1 : 0;
-                if (aSaleMatch !== bSaleMatch) return bSaleMatch - aSaleMatch;
-
-                // Then quantity match
-                const aQtyDistance = Math.abs((a.quantity || 0) - recordItem.quantity);
-                const bQtyDistance = Math.abs((b.quantity || 0) - recordItem.quantity);
-                if (aQtyDistance !== bQtyDistance) return aQtyDistance - bQtyDistance;
-
-                // Then closest date
-                const aDateDistance = Math.abs(new Date(a.date).getTime() - recordDate);
-                const bDateDistance = Math.abs(new Date(b.date).getTime() - recordDate);
-                return aDateDistance - bDateDistance;
-            })[0];
-
-            if (!bestMatch) continue;
-            nextMap[bestMatch.id] = batchCode;
-            usedIds.add(bestMatch.id);
-            changed = true;
-        }
+const movementLabels: Record<StockMovementType, { label: string; color: string; bgColor: string }> = {
+    ingreso: { label: 'Ingreso', color: 'text-emerald-700', bgColor: 'bg-emerald-100' },
+    venta: { label: 'Venta', color: 'text-blue-700', bgColor: 'bg-blue-100' },
+    retiro: { label: 'Baja', color: 'text-pink-700', bgColor: 'bg-pink-100' },
+    separacion: { label: 'Separación', color: 'text-amber-700', bgColor: 'bg-amber-100' },
+    fusion: { label: 'Fusión', color: 'text-indigo-700', bgColor: 'bg-indigo-100' },
+    devolucion: { label: 'Vuelve a stock', color: 'text-teal-700', bgColor: 'bg-teal-100' },
+    devolucion_tanda: { label: 'Devuelto al proveedor', color: 'text-orange-700', bgColor: 'bg-orange-100' },
+    ajuste: { label: 'Ajuste', color: 'text-gray-700', bgColor: 'bg-gray-100' },
+    traslado: { label: 'Traslado', color: 'text-sky-700', bgColor: 'bg-sky-100' },
+    eliminacion: { label: 'Eliminado', color: 'text-rose-700', bgColor: 'bg-rose-100' },
+};
+
+// El formulario de item edita una línea; el vendedor y el cobro son de la venta
+type ItemFormData = Partial<Item> & Pick<Partial<Order>, 'vendedor' | 'resellerId' | 'cobrado' | 'customerId'>;
+
+type SaleDraft = {
+    lines: Array<{ item: Item; quantity: number; unitPrice: number }>;
+    saleDate: string;
+    vendedor?: string;
+    resellerId?: string;
+    customerId?: string;
+    envioAplica: boolean;
+    envioCosto: number;
+    envioMetodo: string;
+};
+
+type ReservationDraft = {
+    item: Item;
+    quantity: number;
+    unitPrice: number;
+    customerId?: string;
+    depositAmount: number;
+    depositMethod: string;
+    expiresOn: string;
+    notes: string;
+};
+
+type ReturnDraft = {
+    order?: Order;
+    lines: Array<{ item: Item; quantity: number }>;
+    returnDate: string;
+    reason: ReturnReason;
+    notes: string;
+    refundMethod: RefundMethod;
+};
+
+type OrderEnvioUpdate = Pick<Order, 'customerId' | 'envioAplica' | 'envioCosto' | 'envioMetodo' | 'formasPago' | 'montoEfectivo' | 'montoTransferencia' | 'montoTarjeta' | 'montoMercadoPago' | 'montoOtro'>;
+
+const getLinesSubtotal = (lines: Item[]) => lines.reduce((acc, i) => acc + ((i.salePrice || 0) * i.quantity), 0);
+
+// El envío se suma una sola vez por venta, no por línea
+const getOrderTotal = (order: Order, lines: Item[]) => getLinesSubtotal(lines) + (order.envioAplica && order.envioCosto ? order.envioCosto : 0);
+
+const groupLinesByOrder = (soldItems: Item[]) => {
+    const map = new Map<string, Item[]>();
+    for (const item of soldItems) {
+        if (!item.orderId) continue;
+        const lines = map.get(item.orderId);
+        if (lines) lines.push(item);
+        else map.set(item.orderId, [item]);
+    }
+    return map;
+};
+
+// Unidades devueltas de cada línea vendida, sumando todas sus devoluciones
+const getReturnedQuantities = (returns: SaleReturn[]) => {
+    const map = new Map<string, number>();
+    for (const r of returns) {
+        for (const line of r.lines) map.set(line.itemId, (map.get(line.itemId) || 0) + line.quantity);
+    }
+    return map;
+};
+
+const getOrderTitle = (lines: Item[]) => {
+    if (lines.length === 0) return 'Venta';
+    if (lines.length === 1) return lines[0].productName;
+    return `${lines[0].productName} + ${lines.length - 1} más`;
+};
+
+// Venta que quedó guardada en parte: el mensaje dice qué líneas se registraron
+// y cuáles no, para que no se vuelva a cargar entera
+type PartialSaleError = Error & { partialSale: true };
+
+const isPartialSaleError = (err: unknown): err is PartialSaleError => err instanceof Error && 'partialSale' in err;
+
+// Línea de una venta nueva: label la identifica en los avisos y save la guarda en la orden
+type SaleLineWriter = { label: string; save: (orderId: string) => Promise<Item> };
+
+// El historial no debe frenar la operación de stock que lo generó, pero si
+// falla se avisa con el detalle: el movimiento ya no va a quedar registrado
+const recordStockMovements = async (movements: StockMovementInput[]) => {
+    try {
+        await stockMovementService.record(movements);
+    } catch (err) {
+        console.error('Error recording stock movements:', err);
+        const detalle = movements.map(m => `${m.delta > 0 ? '+' : ''}${m.delta} ${m.productName}`).join(', ');
+        alert(`Se guardó el cambio de stock, pero no se pudo registrar en el historial de movimientos (${detalle}). Anotalo para poder rastrear esas unidades.`);
+    }
+};
+
+// Posibles duplicados: registros en stock con el mismo nombre, precios, estado,
+// tanda y ubicación. Antes se fusionaban solos al cargar; ahora se revisan a mano.
+const findDuplicateGroups = (items: Item[]) => {
+    const groups = new Map<string, Item[]>();
+    for (const item of items) {
+        if (item.status !== 'in_stock') continue;
+        const key = `${normalizeText(item.productName)}|${item.purchasePrice}|${item.salePrice || 0}|${item.condition}|${item.batchRef || ''}|${(item.location || '').trim()}`;
+        const group = groups.get(key);
+        if (group) group.push(item);
+        else groups.set(key, [item]);
     }
+    return [...groups.values()].filter(group => group.length > 1);
+};
+
+// Campos que pueden diferir entre duplicados y se pierden si se borra el registro equivocado
+const duplicateConflictFields: Array<{ key: keyof Item; label: string }> = [
+    { key: 'storeTitle', label: 'Título tienda' },
+    { key: 'description', label: 'Descripción' },
+    { key: 'storeGroup', label: 'Grupo' },
+    { key: 'storeVariantName', label: 'Variante' },
+    { key: 'imageUrl', label: 'Foto principal' },
+    { key: 'storeImages', label: 'Fotos tienda' },
+    { key: 'storeVideoUrl', label: 'Video' },
+    { key: 'publicInStore', label: 'Publicado' },
+    { key: 'publishUrls', label: 'Links' },
+    { key: 'estimatedSalePrice', label: 'Precio estimado' },
+    { key: 'itemType', label: 'Tipo' },
+];
+
+const formatDuplicateField = (value: Item[keyof Item]) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return `${value.length} foto${value.length === 1 ? '' : 's'}`;
+    if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+    return String(value);
+};
 
-    return changed ? nextMap : null;
+// El sobreviviente manda; los descartados completan lo que le falte. Fotos y
+// links se suman para que ninguna referencia quede huérfana.
+const mergeDuplicateItems = (survivor: Item, others: Item[]): Partial<Item> => {
+    const all = [survivor, ...others];
+    const firstFilled = <K extends keyof Item>(key: K): Item[K] | undefined =>
+        all.map(i => i[key]).find(v => v !== undefined && v !== null && v !== '');
+
+    const imageUrl = firstFilled('imageUrl');
+    const storeImages = Array.from(new Set(all.flatMap(i => [
+        ...(i.storeImages || []),
+        ...(i.imageUrl && i.imageUrl !== imageUrl ? [i.imageUrl] : [])
+    ])));
+    const publishUrls = Array.from(new Set(all.flatMap(i => (i.publishUrls || '').split(/\s+/)).filter(Boolean))).join('\n');
+    const earliestDate = all.map(i => i.date).filter(Boolean).sort()[0] || survivor.date;
+
+    return {
+        quantity: all.reduce((acc, i) => acc + i.quantity, 0),
+        date: earliestDate,
+        imageUrl,
+        storeImages: storeImages.length > 0 ? storeImages : survivor.storeImages,
+        publishUrls: publishUrls || survivor.publishUrls,
+        storeTitle: firstFilled('storeTitle'),
+        description: firstFilled('description'),
+        storeGroup: firstFilled('storeGroup'),
+        storeVariantName: firstFilled('storeVariantName'),
+        storeVideoUrl: firstFilled('storeVideoUrl'),
+        estimatedSalePrice: firstFilled('estimatedSalePrice'),
+        publicInStore: all.some(i => i.publicInStore)
+    };
+};
+
+// Línea de la tanda que corresponde a un item: mismo producto y estado
+const findBatchItemFor = (batch: BatchRecord, item: Item) =>
+    batch.items.find(bi => normalizeText(bi.productName) === normalizeText(item.productName) && (bi.condition || 'nuevo') === (item.condition || 'nuevo'));
+
+// Lo vendido, lo que queda y lo retirado de una línea se cuenta desde los items que la referencian
+const getBatchItemCounts = (batchItemId: string, inventoryItems: Item[]) => {
+    const linked = inventoryItems.filter(i => i.batchItemId === batchItemId);
+    const sold = linked.filter(i => i.status === 'sold');
+    const withdrawn = linked.filter(i => i.status === 'withdrawn');
+    const remaining = linked.filter(i => isEnStock(i.status));
+    const sum = (list: Item[]) => list.reduce((acc, i) => acc + i.quantity, 0);
+    return {
+        linked,
+        soldQty: sum(sold),
+        withdrawnQty: sum(withdrawn),
+        remainingQty: sum(remaining),
+        soldRevenue: sold.reduce((acc, i) => acc + (i.salePrice || 0) * i.quantity, 0)
+    };
 };
 
 export default function Dashboard() {
     const { signOut } = useAuth();
     const [items, setItems] = useState<Item[]>([]);
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [categoryHistory, setCategoryHistory] = useState<MonotributoCategoryPeriod[]>([]);
+    const [monotributoLimits, setMonotributoLimits] = useState<MonotributoLimit[]>([]);
+    const [monotributoPayments, setMonotributoPayments] = useState<MonotributoPayment[]>([]);
+    const [invoicingSettings, setInvoicingSettings] = useState<InvoicingSettings[]>([]);
+    const [returns, setReturns] = useState<SaleReturn[]>([]);
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+    const [reconciliations, setReconciliations] = useState<CashReconciliation[]>([]);
+    const [resellers, setResellers] = useState<Reseller[]>([]);
+    const [settlements, setSettlements] = useState<ResellerSettlement[]>([]);
+    const [shipments, setShipments] = useState<Shipment[]>([]);
+    const [reservations, setReservations] = useState<Reservation[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
-    const [activeTab, setActiveTab] = useState<Tab>('dashboard');
+    const location = useLocation();
     const [theme, setTheme] = useState<'light' | 'dark'>(() => {
         const saved = localStorage.getItem('dashboard_theme');
         return saved === 'dark' ? 'dark' : 'light';
     });
-    const [isModalOpen, setIsModalOpen] = useState(false);
+    // Ganancia bruta (venta - costo) o neta (menos gastos y cuotas de monotributo)
+    const [profitMode, setProfitMode] = useState<'bruta' | 'neta'>(() =>
+        localStorage.getItem('dashboard_profit_mode') === 'neta' ? 'neta' : 'bruta'
+    );
+    const [openedModalPath, setOpenedModalPath] = useState<string | null>(null);
     const [editingItem, setEditingItem] = useState<Item | null>(null);
     const [storeImagesItem, setStoreImagesItem] = useState<Item | null>(null);
+    const [sellItem, setSellItem] = useState<Item | null>(null);
+    const [reserveItem, setReserveItem] = useState<Item | null>(null);
+    const [returnItem, setReturnItem] = useState<Item | null>(null);
     const [placaItem, setPlacaItem] = useState<Item | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const savingRef = useRef(false);
+
+    const itemModalRoute = parseItemModalRoute(location.pathname, location.search);
+    const modalPath = itemModalRoute ? location.pathname + location.search : null;
+    const backgroundPath = itemModalRoute ? getBackgroundPath(location.state) || '/' : location.pathname + location.search;
+    const backgroundUrl = new URL(backgroundPath, window.location.origin);
+    const tabRoute = parseTabRoute(backgroundUrl.pathname);
+    const activeTab = tabRoute.tab;
     const [batchTotalPaid, setBatchTotalPaid] = useState(0);
     const [batchItems, setBatchItems] = useState<PricingItem[]>([]);
-    const [itemBatchMap, setItemBatchMap] = useState<Record<string, string>>({});
     const [batchHistory, setBatchHistory] = useState<BatchRecord[]>([]);
-    const getItemBatchRef = (item: Item) => item.batchRef || itemBatchMap[item.id];
 
     // Form State
-    const [formData, setFormData] = useState<Partial<Item>>({
+    const [formData, setFormData] = useState<ItemFormData>({
         productName: '',
         purchasePrice: 0,
         salePrice: 0,
@@ -182,17 +434,6 @@ export default function Dashboard() {
         }
     }, []);
 
-    useEffect(() => {
-        try {
-            const raw = localStorage.getItem('item_batch_map_v2');
-            if (!raw) return;
-            const parsed = JSON.parse(raw) as Record<string, string>;
-            setItemBatchMap(parsed && typeof parsed === 'object' ? parsed : {});
-        } catch (error) {
-            console.error('Error loading item batch map', error);
-        }
-    }, []);
-
     useEffect(() => {
         localStorage.setItem('pricing_batch_v1', JSON.stringify({
             totalPaid: batchTotalPaid,
@@ -200,10 +441,6 @@ export default function Dashboard() {
         }));
     }, [batchTotalPaid, batchItems]);
 
-    useEffect(() => {
-        localStorage.setItem('item_batch_map_v2', JSON.stringify(itemBatchMap));
-    }, [itemBatchMap]);
-
     useEffect(() => {
         const loadHistory = async () => {
             try {
@@ -232,13 +469,6 @@ export default function Dashboard() {
         loadHistory();
     }, []);
 
-    useEffect(() => {
-        setItemBatchMap((prev) => {
-            const reconciled = reconcileItemBatchMap(items, batchHistory, prev);
-            return reconciled || prev;
-        });
-    }, [items, batchHistory]);
-
     useEffect(() => {
         const root = document.documentElement;
         root.classList.toggle('dark', theme === 'dark');
@@ -246,17 +476,20 @@ export default function Dashboard() {
         localStorage.setItem('dashboard_theme', theme);
     }, [theme]);
 
+    useEffect(() => {
+        localStorage.setItem('dashboard_profit_mode', profitMode);
+    }, [profitMode]);
+
 
     const loadItems = async () => {
         try {
             setLoading(true);
             const dbItems = await itemService.getItems();
             let finalItems = dbItems;
-            let finalBatchesExist = false;
+            let dbBatches: BatchRecord[] = [];
 
             try {
-                const dbBatches = await itemService.getBatches();
-                finalBatchesExist = dbBatches.length > 0;
+                dbBatches = await itemService.getBatches();
             } catch (e) {
                 console.error("Batches table might not be ready", e);
             }
@@ -293,7 +526,7 @@ export default function Dashboard() {
             }
 
             // Auto-migration batches (Tandas)
-            if (!finalBatchesExist) {
+            if (dbBatches.length === 0) {
                 const localHistory = localStorage.getItem('pricing_batch_history_v1');
                 if (localHistory) {
                     try {
@@ -312,37 +545,64 @@ export default function Dashboard() {
                 }
             }
 
-            // Auto-merge identical in-stock items
-            let mergedAny = false;
-            const stockMergeMap = new Map<string, Item[]>();
-            for (const item of finalItems) {
-                if (item.status !== 'in_stock') continue;
-                const bRef = item.batchRef || '';
-                const key = `${item.productName.toLowerCase().trim()}|${item.purchasePrice}|${item.salePrice || 0}|${item.condition}|${bRef}|${item.location || ''}`;
-                if (stockMergeMap.has(key)) {
-                    stockMergeMap.get(key)!.push(item);
-                } else {
-                    stockMergeMap.set(key, [item]);
-                }
-            }
-
-            for (const group of stockMergeMap.values()) {
-                if (group.length > 1) {
-                    try {
-                        const mainItem = group[0];
-                        const totalQty = group.reduce((acc, i) => acc + i.quantity, 0);
-                        await itemService.updateItem(mainItem.id, { quantity: totalQty });
-                        for (let i = 1; i < group.length; i++) {
-                            await itemService.deleteItem(group[i].id);
+            // Auto-migration del mapa local item → tanda: pasa a batch_ref y batch_item_id
+            const localBatchMap = localStorage.getItem('item_batch_map_v2');
+            if (localBatchMap && dbBatches.length > 0) {
+                try {
+                    const parsedMap = JSON.parse(localBatchMap) as Record<string, string>;
+                    let migrated = 0;
+                    for (const [itemId, batchCode] of Object.entries(parsedMap || {})) {
+                        const item = finalItems.find(i => i.id === itemId);
+                        const batch = dbBatches.find(b => b.batchCode === batchCode);
+                        if (!item || !batch || item.batchItemId) continue;
+                        if (item.batchRef && item.batchRef !== batchCode) continue;
+
+                        let batchItem = findBatchItemFor(batch, item);
+                        if (!batchItem) {
+                            batchItem = {
+                                id: crypto.randomUUID(),
+                                productName: item.productName,
+                                quantity: item.quantity,
+                                listedUnitPrice: item.purchasePrice,
+                                unitSalePrice: item.salePrice || 0,
+                                condition: item.condition || 'nuevo',
+                                disposition: item.itemType === 'personal' ? 'keep' : 'sell',
+                                category: item.category
+                            };
+                            const saved = await itemService.updateBatch(batch.id, { items: [...batch.items, batchItem] });
+                            batch.items = saved.items;
                         }
-                        mergedAny = true;
-                    } catch (e) { console.error('Error auto-merging', e); }
+                        await itemService.updateItem(item.id, { batchRef: batchCode, batchItemId: batchItem.id });
+                        migrated++;
+                    }
+                    localStorage.setItem('item_batch_map_v2_migrated', localBatchMap);
+                    localStorage.removeItem('item_batch_map_v2');
+                    if (migrated > 0) {
+                        finalItems = await itemService.getItems();
+                        setBatchHistory([...dbBatches]);
+                    }
+                } catch (e) {
+                    console.error('Auto-migration item batch map failed', e);
                 }
             }
-            if (mergedAny) {
-                finalItems = await itemService.getItems();
-            }
 
+            setOrders(await orderService.getOrders());
+            setCustomers(await customerService.getCustomers());
+            setResellers(await resellerService.getResellers());
+            setSettlements(await resellerService.getSettlements());
+            setShipments(await shipmentService.getShipments());
+            setReservations(await reservationService.getReservations());
+            setCategoryHistory(await monotributoService.getCategoryHistory());
+            setMonotributoLimits(await monotributoService.getLimits());
+            setMonotributoPayments(await monotributoService.getPayments());
+            setInvoicingSettings(await invoicingSettingsService.getSettings());
+            setReturns(await returnService.getReturns());
+            // Los gastos fijos generan los gastos de los meses que falten
+            const recurring = await expenseService.getRecurringExpenses();
+            const generated = await expenseService.generateRecurringExpenses(recurring, toDateKey(new Date()));
+            setRecurringExpenses(generated.length > 0 ? await expenseService.getRecurringExpenses() : recurring);
+            setExpenses(await expenseService.getExpenses());
+            setReconciliations(await cajaService.getReconciliations());
             setItems(finalItems);
         } catch (err: any) {
             console.error('Error loading items:', err);
@@ -352,6 +612,239 @@ export default function Dashboard() {
         }
     };
 
+    // Crea la línea vendida dentro de la orden y descuenta (o borra) el registro de stock
+    const sellFromStock = async (stockItem: Item, quantity: number, unitSalePrice: number, saleDateISO: string, orderId: string, overrides: Partial<Item> = {}) => {
+        const isLastUnits = stockItem.quantity - quantity <= 0;
+        const soldItem = await itemService.createItem({
+            productName: stockItem.productName,
+            purchasePrice: stockItem.purchasePrice,
+            salePrice: unitSalePrice,
+            quantity,
+            date: stockItem.date,
+            status: 'sold',
+            condition: stockItem.condition,
+            itemType: stockItem.itemType || 'resale',
+            batchRef: stockItem.batchRef,
+            batchItemId: stockItem.batchItemId,
+            location: overrides.location || stockItem.location,
+            estimatedSalePrice: stockItem.estimatedSalePrice,
+            imageUrl: overrides.imageUrl || stockItem.imageUrl,
+            saleDate: saleDateISO,
+            orderId,
+            // Al vender las últimas unidades el registro de stock se borra:
+            // conservar los datos de tienda en la venta (ocultos) para no perderlos
+            ...(isLastUnits ? {
+                description: stockItem.description,
+                storeTitle: stockItem.storeTitle,
+                storeGroup: stockItem.storeGroup,
+                storeImages: stockItem.storeImages,
+                storeVideoUrl: stockItem.storeVideoUrl,
+            } : {})
+        });
+
+        const remaining = stockItem.quantity - quantity;
+        if (remaining > 0) {
+            await itemService.updateItem(stockItem.id, { quantity: remaining });
+        } else {
+            await itemService.deleteItem(stockItem.id);
+        }
+        await recordStockMovements([{
+            movementType: 'venta', itemId: stockItem.id, relatedItemId: soldItem.id, productName: stockItem.productName,
+            delta: -quantity, fromLocation: stockItem.location, batchRef: stockItem.batchRef, orderId
+        }]);
+        return soldItem;
+    };
+
+    // Crea la orden y guarda sus líneas. Si falla antes de guardar alguna, la
+    // orden se borra para que no quede vacía; si ya guardó algunas, queda con
+    // esas y el error dice cuáles faltaron.
+    const createOrderWithLines = async (orderData: Partial<Omit<Order, 'id' | 'createdAt'>>, lines: SaleLineWriter[]) => {
+        const order = await orderService.createOrder(orderData);
+        const soldItems: Item[] = [];
+        try {
+            for (const line of lines) {
+                soldItems.push(await line.save(order.id));
+            }
+        } catch (err) {
+            if (soldItems.length === 0) {
+                await orderService.deleteOrder(order.id).catch(deleteErr => console.error('Error deleting empty order:', deleteErr));
+                throw err;
+            }
+            console.error('Error saving order lines:', err);
+            const saved = lines.slice(0, soldItems.length).map(line => line.label).join(', ');
+            const missing = lines.slice(soldItems.length).map(line => line.label).join(', ');
+            throw Object.assign(new Error(`La venta se guardó solo en parte. Se registró: ${saved}. No se registró: ${missing}. Revisá la venta y cargá solo lo que faltó.`), { partialSale: true as const });
+        }
+        return { order, soldItems };
+    };
+
+    // Una orden sin líneas no representa ninguna venta: se borra
+    const deleteOrderIfEmpty = async (orderId: string | undefined, removedItemId: string) => {
+        if (!orderId) return;
+        const hasOtherLines = items.some(i => i.orderId === orderId && i.id !== removedItemId);
+        if (hasOtherLines) return;
+        await orderService.deleteOrder(orderId);
+        setOrders(prev => prev.filter(o => o.id !== orderId));
+    };
+
+    const handleCreateOrder = async (draft: SaleDraft) => {
+        if (savingRef.current) return;
+        for (const line of draft.lines) {
+            if (line.quantity > line.item.quantity) {
+                alert(`No puedes vender ${line.quantity} de "${line.item.productName}". Solo tienes ${line.item.quantity} en stock.`);
+                return;
+            }
+        }
+        savingRef.current = true;
+        setIsSaving(true);
+        try {
+            const [y, m, d] = draft.saleDate.split('-').map(Number);
+            const saleDateISO = new Date(y, m - 1, d, 12, 0, 0).toISOString();
+            await createOrderWithLines({
+                orderDate: saleDateISO,
+                vendedor: draft.vendedor || undefined,
+                resellerId: draft.resellerId,
+                customerId: draft.customerId,
+                cobrado: !draft.vendedor,
+                envioAplica: draft.envioAplica,
+                envioCosto: draft.envioAplica ? Math.round(draft.envioCosto) : undefined,
+                envioMetodo: draft.envioAplica ? draft.envioMetodo : undefined
+            }, draft.lines.map(line => ({
+                label: `${line.quantity} × ${line.item.productName}`,
+                save: orderId => sellFromStock(line.item, line.quantity, line.unitPrice, saleDateISO, orderId)
+            })));
+
+            await loadItems();
+            closeItemModal();
+        } catch (err) {
+            console.error('Error creating order:', err);
+            alert(isPartialSaleError(err) ? err.message : 'Error al registrar la venta. Intenta nuevamente.');
+            loadItems();
+        } finally {
+            savingRef.current = false;
+            setIsSaving(false);
+        }
+    };
+
+    // Las unidades reservadas pasan a su propio registro de stock, que deja de
+    // venderse y de verse en la tienda hasta que se convierte o se cancela
+    const handleCreateReservation = async (draft: ReservationDraft) => {
+        if (savingRef.current) return;
+        const { item, quantity } = draft;
+        if (quantity > item.quantity) {
+            alert(`No puedes reservar ${quantity} de "${item.productName}". Solo tienes ${item.quantity} en stock.`);
+            return;
+        }
+        savingRef.current = true;
+        setIsSaving(true);
+        try {
+            let reserved = item;
+            if (quantity < item.quantity) {
+                await itemService.updateItem(item.id, { quantity: item.quantity - quantity });
+                reserved = await itemService.createItem({
+                    productName: item.productName,
+                    purchasePrice: item.purchasePrice,
+                    salePrice: item.salePrice,
+                    quantity,
+                    date: item.date,
+                    status: item.status,
+                    condition: item.condition,
+                    itemType: item.itemType || 'resale',
+                    batchRef: item.batchRef,
+                    batchItemId: item.batchItemId,
+                    location: item.location,
+                    estimatedSalePrice: item.estimatedSalePrice,
+                    imageUrl: item.imageUrl
+                });
+                await recordStockMovements([
+                    { movementType: 'separacion', itemId: item.id, relatedItemId: reserved.id, productName: item.productName, delta: -quantity, fromLocation: item.location, batchRef: item.batchRef, note: 'Reserva' },
+                    { movementType: 'separacion', itemId: reserved.id, relatedItemId: item.id, productName: item.productName, delta: quantity, fromLocation: item.location, batchRef: item.batchRef, note: 'Reserva' }
+                ]);
+            }
+
+            const reservation = await reservationService.createReservation({
+                itemId: reserved.id,
+                productName: item.productName,
+                quantity,
+                unitPrice: draft.unitPrice,
+                customerId: draft.customerId,
+                depositAmount: draft.depositAmount,
+                depositMethod: draft.depositAmount > 0 ? draft.depositMethod : undefined,
+                reservedOn: toDateKey(new Date()),
+                expiresOn: draft.expiresOn,
+                status: 'activa',
+                depositRefunded: false,
+                notes: draft.notes
+            });
+            await itemService.updateItem(reserved.id, { reservationId: reservation.id, status: 'reserved' });
+
+            await loadItems();
+            closeItemModal();
+        } catch (err) {
+            console.error('Error creating reservation:', err);
+            alert('Error al registrar la reserva. Intenta nuevamente.');
+            loadItems();
+        } finally {
+            savingRef.current = false;
+            setIsSaving(false);
+        }
+    };
+
+    // Las unidades vuelven a estar disponibles; la seña sale de caja solo si se devolvió
+    const handleCancelReservation = async (reservation: Reservation, depositRefunded: boolean) => {
+        try {
+            const updated = await reservationService.updateReservation(reservation.id, { status: 'cancelada', depositRefunded });
+            setReservations(prev => prev.map(r => r.id === reservation.id ? updated : r));
+            if (reservation.itemId && items.some(i => i.id === reservation.itemId)) {
+                await itemService.updateItem(reservation.itemId, { reservationId: '', status: 'in_stock' });
+                setItems(prev => prev.map(i => i.id === reservation.itemId ? { ...i, reservationId: undefined, status: 'in_stock' } : i));
+            }
+        } catch (err) {
+            console.error('Error cancelling reservation:', err);
+            alert('Error al cancelar la reserva.');
+            loadItems();
+        }
+    };
+
+    // Al retirar se registra la venta: la seña entra por su forma de pago y el resto por la del retiro
+    const handleConvertReservation = async (reservation: Reservation, sale: { saleDate: string; unitPrice: number; formaPago: string }) => {
+        const item = items.find(i => i.id === reservation.itemId);
+        if (!item) {
+            alert('El stock reservado ya no existe. Cancelá la reserva.');
+            return;
+        }
+        if (savingRef.current) return;
+        savingRef.current = true;
+        try {
+            const [y, m, d] = sale.saleDate.split('-').map(Number);
+            const saleDateISO = new Date(y, m - 1, d, 12, 0, 0).toISOString();
+            const total = sale.unitPrice * reservation.quantity;
+            const { order } = await createOrderWithLines({
+                orderDate: saleDateISO,
+                customerId: reservation.customerId,
+                cobrado: true,
+                envioAplica: false,
+                ...getPagosConSena(reservation.depositAmount, reservation.depositMethod || sale.formaPago, Math.max(0, total - reservation.depositAmount), sale.formaPago)
+            }, [{
+                label: `${reservation.quantity} × ${item.productName}`,
+                save: async orderId => {
+                    const soldItem = await sellFromStock(item, reservation.quantity, sale.unitPrice, saleDateISO, orderId);
+                    // Si el registro reservado tenía más unidades, las que quedan vuelven al stock libre
+                    if (item.quantity > reservation.quantity) await itemService.updateItem(item.id, { reservationId: '' });
+                    return soldItem;
+                }
+            }]);
+            await reservationService.updateReservation(reservation.id, { status: 'convertida', orderId: order.id });
+            await loadItems();
+        } catch (err) {
+            console.error('Error converting reservation:', err);
+            alert('Error al registrar la venta de la reserva.');
+            loadItems();
+        } finally {
+            savingRef.current = false;
+        }
+    };
+
     const handleSaveItem = async (e: React.FormEvent) => {
         e.preventDefault();
         if (savingRef.current) return; // guard against double-submit
@@ -370,13 +863,18 @@ export default function Dashboard() {
 
         try {
             if (editingItem) {
-                const status = formData.status as ItemStatus;
+                // El formulario solo distingue stock de venta: editar no cambia el estado dentro del stock
+                const status = formData.status === 'in_stock' && isEnStock(editingItem.status) ? editingItem.status : formData.status as ItemStatus;
                 const condition = (formData.condition as ItemCondition) || editingItem.condition || 'nuevo';
                 const formDateISO = formData.date ? getISODate(formData.date) : editingItem.date;
                 const quantity = Math.max(1, Math.floor(Number(formData.quantity) || editingItem.quantity));
 
                 // Selling from stock creates a sold record and discounts stock.
-                if (editingItem.status === 'in_stock' && status === 'sold') {
+                if (isEnStock(editingItem.status) && status === 'sold') {
+                    if (!isVendible(editingItem.status)) {
+                        alert(`"${editingItem.productName}" está ${getEstadoLabel(editingItem.status).toLowerCase()}: no se puede vender desde acá.`);
+                        return;
+                    }
                     if (quantity > editingItem.quantity) {
                         alert(`No puedes vender ${quantity}. Solo tienes ${editingItem.quantity} en stock.`);
                         return;
@@ -384,69 +882,22 @@ export default function Dashboard() {
 
                     const unitSalePrice = Number(formData.salePrice) || Number(editingItem.salePrice) || editingItem.purchasePrice;
 
-                    const isLastUnits = editingItem.quantity - quantity <= 0;
-                    await itemService.createItem({
-                        productName: editingItem.productName,
-                        purchasePrice: editingItem.purchasePrice,
-                        salePrice: unitSalePrice,
-                        quantity,
-                        date: editingItem.date,
-                        status: 'sold',
-                        condition: editingItem.condition,
-                        itemType: editingItem.itemType || 'resale',
-                        batchRef: getItemBatchRef(editingItem),
-                        location: formData.location || editingItem.location,
-                        estimatedSalePrice: editingItem.estimatedSalePrice,
-                        imageUrl: formData.imageUrl || editingItem.imageUrl,
-                        saleDate: formDateISO,
-                        // Al vender las últimas unidades el registro de stock se borra:
-                        // conservar los datos de tienda en la venta (ocultos) para no perderlos
-                        ...(isLastUnits ? {
-                            description: editingItem.description,
-                            storeTitle: editingItem.storeTitle,
-                            storeGroup: editingItem.storeGroup,
-                            storeImages: editingItem.storeImages,
-                            storeVideoUrl: editingItem.storeVideoUrl,
-                        } : {})
-                    });
-
-                    const remaining = editingItem.quantity - quantity;
-                    if (remaining > 0) {
-                        await itemService.updateItem(editingItem.id, { quantity: remaining });
-                    } else {
-                        await itemService.deleteItem(editingItem.id);
-                    }
-
-                    // AUTO-DISCOUNT FROM BATCH HISTORY
-                    const batchRef = getItemBatchRef(editingItem);
-                    if (batchRef) {
-                        const batch = batchHistory.find(b => b.batchCode === batchRef);
-                        if (batch) {
-                            try {
-                                const updatedItems = batch.items.map(item => {
-                                    if (normalizeText(item.productName) === normalizeText(editingItem.productName) &&
-                                        (item.condition || 'nuevo') === (editingItem.condition || 'nuevo')) {
-                                        return { ...item, quantity: Math.max(0, item.quantity - quantity) };
-                                    }
-                                    return item;
-                                }).filter(item => item.quantity > 0);
-
-                                await itemService.updateBatch(batch.id, {
-                                    items: updatedItems,
-                                    itemsCount: updatedItems.reduce((acc, i) => acc + i.quantity, 0)
-                                });
-                                // Refresh history state
-                                const dbBatches = await itemService.getBatches();
-                                setBatchHistory(dbBatches);
-                            } catch (e) {
-                                console.error("Error auto-discounting from batch", e);
-                            }
-                        }
-                    }
+                    await createOrderWithLines({
+                        orderDate: formDateISO,
+                        vendedor: formData.vendedor || undefined,
+                        resellerId: formData.resellerId || undefined,
+                        customerId: formData.customerId || undefined,
+                        cobrado: !formData.vendedor
+                    }, [{
+                        label: `${quantity} × ${editingItem.productName}`,
+                        save: orderId => sellFromStock(editingItem, quantity, unitSalePrice, formDateISO, orderId, {
+                            location: formData.location,
+                            imageUrl: formData.imageUrl
+                        })
+                    }]);
 
                     await loadItems();
-                    setEditingItem(null);
-                    setIsModalOpen(false);
+                    closeItemModal();
                     resetForm();
                     return;
                 }
@@ -459,32 +910,17 @@ export default function Dashboard() {
                     saleDate = undefined;
                 }
 
-                // Returning sold item to inventory can merge into existing stock item.
+                // Una venta vuelve al stock solo con una devolución, que deja el historial
                 if (editingItem.status === 'sold' && status === 'in_stock') {
-                    const existingStock = items.find(i =>
-                        i.id !== editingItem.id &&
-                        i.status === 'in_stock' &&
-                        i.productName === (formData.productName || editingItem.productName) &&
-                        i.purchasePrice === (Number(formData.purchasePrice) || editingItem.purchasePrice) &&
-                        i.condition === condition &&
-                        getItemBatchRef(i) === getItemBatchRef(editingItem)
-                    );
-
-                    if (existingStock) {
-                        await itemService.updateItem(existingStock.id, {
-                            quantity: existingStock.quantity + quantity
-                        });
-                        await itemService.deleteItem(editingItem.id);
-                        await loadItems();
-                        setEditingItem(null);
-                        setIsModalOpen(false);
-                        resetForm();
-                        return;
-                    }
+                    navigate(`/item/${editingItem.id}/devolver`, { replace: true, state: location.state });
+                    return;
                 }
 
                 const itemType = (formData.itemType as ItemType) || editingItem.itemType || 'resale';
-                const resolvedBatchRef = formData.batchRef !== undefined ? (formData.batchRef || undefined) : getItemBatchRef(editingItem);
+                const resolvedBatchRef = formData.batchRef !== undefined ? (formData.batchRef || undefined) : editingItem.batchRef;
+                // Al cambiar de tanda se busca la línea equivalente en la nueva
+                const batchChanged = !!resolvedBatchRef && resolvedBatchRef !== editingItem.batchRef;
+                const targetBatch = batchChanged ? batchHistory.find(b => b.batchCode === resolvedBatchRef) : undefined;
                 const updates: Partial<Item> = {
                     productName: formData.productName ?? editingItem.productName,
                     purchasePrice: itemType === 'personal' ? 0 : (Number(formData.purchasePrice) || editingItem.purchasePrice),
@@ -496,12 +932,11 @@ export default function Dashboard() {
                     condition,
                     itemType,
                     batchRef: resolvedBatchRef,
+                    ...(batchChanged ? { batchItemId: (targetBatch && findBatchItemFor(targetBatch, editingItem)?.id) || '' } : {}),
                     location: formData.location ?? editingItem.location,
                     estimatedSalePrice: formData.estimatedSalePrice ?? editingItem.estimatedSalePrice,
                     publishUrls: formData.publishUrls ?? editingItem.publishUrls,
-                    imageUrl: formData.imageUrl ?? editingItem.imageUrl,
-                    vendedor: formData.vendedor !== undefined ? (formData.vendedor || undefined) : editingItem.vendedor,
-                    cobrado: formData.cobrado !== undefined ? formData.cobrado : editingItem.cobrado
+                    imageUrl: formData.imageUrl ?? editingItem.imageUrl
                 };
 
                 // Optimistic UI update
@@ -511,9 +946,37 @@ export default function Dashboard() {
                 // DB Update
                 const savedItem = await itemService.updateItem(editingItem.id, updates);
 
-                // Sync state with DB response to detect if columns were dropped by fallback
                 setItems(prev => prev.map(i => i.id === editingItem.id ? savedItem : i));
 
+                const movementBase = { itemId: editingItem.id, productName: savedItem.productName, batchRef: resolvedBatchRef };
+                if (isEnStock(editingItem.status) && status === editingItem.status) {
+                    const movements: StockMovementInput[] = [];
+                    if (quantity !== editingItem.quantity) {
+                        movements.push({ ...movementBase, movementType: 'ajuste', delta: quantity - editingItem.quantity, toLocation: savedItem.location });
+                    }
+                    if ((savedItem.location || '') !== (editingItem.location || '')) {
+                        movements.push({ ...movementBase, movementType: 'traslado', delta: 0, fromLocation: editingItem.location, toLocation: savedItem.location, note: `${quantity} u.` });
+                    }
+                    await recordStockMovements(movements);
+                }
+
+                // Vendedor/cobro y fecha viven en la orden
+                const order = orders.find(o => o.id === editingItem.orderId);
+                if (order && status === 'sold') {
+                    const orderUpdates: Partial<Order> = {};
+                    if (formData.vendedor !== undefined && (formData.vendedor || undefined) !== order.vendedor) {
+                        orderUpdates.vendedor = formData.vendedor || undefined;
+                        orderUpdates.resellerId = formData.resellerId || '';
+                        orderUpdates.cobrado = formData.cobrado ?? !formData.vendedor;
+                    }
+                    if (formData.customerId !== undefined && (formData.customerId || undefined) !== order.customerId) {
+                        orderUpdates.customerId = formData.customerId;
+                    }
+                    const isSingleLine = !items.some(i => i.orderId === order.id && i.id !== editingItem.id);
+                    if (isSingleLine && saleDate && saleDate !== order.orderDate) orderUpdates.orderDate = saleDate;
+                    if (Object.keys(orderUpdates).length > 0) await handleUpdateOrder(order.id, orderUpdates);
+                }
+
                 // Sync name AND price changes to batch record
                 const oldName = editingItem.productName;
                 const newName = updates.productName || oldName;
@@ -522,76 +985,46 @@ export default function Dashboard() {
                 const nameChanged = normalizeText(newName) !== normalizeText(oldName);
                 const priceChanged = newSalePrice !== oldSalePrice && newSalePrice > 0;
 
-                if (nameChanged || priceChanged) {
-                    const batchRef = getItemBatchRef(editingItem);
-                    if (batchRef) {
-                        const batch = batchHistory.find(b => b.batchCode === batchRef);
-                        if (batch) {
-                            try {
-                                const updatedBatchItems = batch.items.map(bi => {
-                                    if (normalizeText(bi.productName) === normalizeText(oldName) &&
-                                        (bi.condition || 'nuevo') === (editingItem.condition || 'nuevo')) {
-                                        const upd = { ...bi };
-                                        if (nameChanged) upd.productName = newName;
-                                        if (priceChanged && bi.disposition === 'sell') upd.unitSalePrice = newSalePrice;
-                                        return upd;
-                                    }
-                                    return bi;
-                                });
-                                await itemService.updateBatch(batch.id, { items: updatedBatchItems });
-                                const dbBatches = await itemService.getBatches();
-                                setBatchHistory(dbBatches);
-                            } catch (e) {
-                                console.error("Error syncing to batch", e);
-                            }
+                // Nombre y precio se sincronizan con la línea de la tanda y sus otros items
+                const batchItemId = savedItem.batchItemId;
+                if ((nameChanged || priceChanged) && batchItemId) {
+                    const batch = batchHistory.find(b => b.items.some(bi => bi.id === batchItemId));
+                    const batchItem = batch?.items.find(bi => bi.id === batchItemId);
+                    if (batch && batchItem) {
+                        try {
+                            const patch: Partial<PricingItem> = {};
+                            if (nameChanged) patch.productName = newName;
+                            if (priceChanged && batchItem.disposition === 'sell') patch.unitSalePrice = newSalePrice;
+                            await itemService.updateBatchItem(batchItemId, patch);
+                            setBatchHistory(prev => prev.map(b => b.id === batch.id
+                                ? { ...b, items: b.items.map(bi => bi.id === batchItemId ? { ...bi, ...patch } : bi) }
+                                : b));
+                        } catch (e) {
+                            console.error("Error syncing to batch", e);
                         }
                     }
-                    // Also sync other items with same name + batch (e.g. sold copies)
-                    if (nameChanged) {
-                        const batchRef2 = getItemBatchRef(editingItem);
-                        const otherItems = items.filter(i =>
-                            i.id !== editingItem.id &&
-                            normalizeText(i.productName) === normalizeText(oldName) &&
-                            (i.batchRef || itemBatchMap[i.id]) === batchRef2
-                        );
-                        for (const other of otherItems) {
-                            try {
-                                await itemService.updateItem(other.id, { productName: newName });
-                            } catch (e) {
-                                console.error("Error syncing name to related item", e);
-                            }
-                        }
-                        if (otherItems.length > 0) {
-                            setItems(prev => prev.map(i =>
-                                otherItems.some(o => o.id === i.id)
-                                    ? { ...i, productName: newName }
-                                    : i
-                            ));
+
+                    // El nombre pasa a todas las copias (también las vendidas); el precio solo al stock
+                    const relatedItems = items.filter(i =>
+                        i.id !== editingItem.id &&
+                        i.batchItemId === batchItemId &&
+                        (nameChanged || isEnStock(i.status))
+                    );
+                    const relatedPatch = (i: Item): Partial<Item> => ({
+                        ...(nameChanged ? { productName: newName } : {}),
+                        ...(priceChanged && isEnStock(i.status) ? { salePrice: newSalePrice } : {})
+                    });
+                    for (const other of relatedItems) {
+                        try {
+                            await itemService.updateItem(other.id, relatedPatch(other));
+                        } catch (e) {
+                            console.error("Error syncing to related item", e);
                         }
                     }
-                    // Sync price to other in_stock items with same product in same batch
-                    if (priceChanged) {
-                        const batchRef2 = getItemBatchRef(editingItem);
-                        const otherStockItems = items.filter(i =>
-                            i.id !== editingItem.id &&
-                            i.status === 'in_stock' &&
-                            normalizeText(i.productName) === normalizeText(oldName) &&
-                            (i.batchRef || itemBatchMap[i.id]) === batchRef2
-                        );
-                        for (const other of otherStockItems) {
-                            try {
-                                await itemService.updateItem(other.id, { salePrice: newSalePrice });
-                            } catch (e) {
-                                console.error("Error syncing price to related item", e);
-                            }
-                        }
-                        if (otherStockItems.length > 0) {
-                            setItems(prev => prev.map(i =>
-                                otherStockItems.some(o => o.id === i.id)
-                                    ? { ...i, salePrice: newSalePrice }
-                                    : i
-                            ));
-                        }
+                    if (relatedItems.length > 0) {
+                        setItems(prev => prev.map(i =>
+                            relatedItems.some(o => o.id === i.id) ? { ...i, ...relatedPatch(i) } : i
+                        ));
                     }
                 }
 
@@ -599,6 +1032,7 @@ export default function Dashboard() {
             } else {
                 // Create new item
                 const newItemType = (formData.itemType as ItemType) || 'resale';
+                const newDateISO = formData.date ? getISODate(formData.date) : new Date().toISOString();
                 const newItemData = {
                     productName: formData.productName || 'Producto sin nombre',
                     purchasePrice: newItemType === 'personal' ? 0 : (Number(formData.purchasePrice) || 0),
@@ -612,9 +1046,7 @@ export default function Dashboard() {
                     estimatedSalePrice: formData.estimatedSalePrice || 0,
                     publishUrls: formData.publishUrls || '',
                     imageUrl: formData.imageUrl || '',
-                    saleDate: formData.status === 'sold' ? (formData.date ? getISODate(formData.date) : new Date().toISOString()) : undefined,
-                    vendedor: formData.vendedor || undefined,
-                    cobrado: formData.vendedor ? false : true
+                    saleDate: formData.status === 'sold' ? newDateISO : undefined
                 };
 
                 // Optimistic UI update (temporary ID)
@@ -622,13 +1054,30 @@ export default function Dashboard() {
                 const tempItem = { id: tempId, ...newItemData } as Item;
                 setItems([tempItem, ...items]);
 
-                // Create real item in DB
-                const savedItem = await itemService.createItem(newItemData);
+                // Create real item in DB. Una venta directa también es una orden (de una sola línea)
+                let savedItem: Item;
+                if (formData.status === 'sold') {
+                    const { order, soldItems } = await createOrderWithLines(
+                        { orderDate: newDateISO, vendedor: formData.vendedor || undefined, resellerId: formData.resellerId || undefined, customerId: formData.customerId || undefined, cobrado: !formData.vendedor },
+                        [{ label: newItemData.productName, save: orderId => itemService.createItem({ ...newItemData, orderId }) }]
+                    );
+                    setOrders(prev => [order, ...prev]);
+                    savedItem = soldItems[0];
+                } else {
+                    savedItem = await itemService.createItem(newItemData);
+                }
 
                 // Replace temp item with real one from server
                 setItems(prev => prev.map(i => i.id === tempId ? savedItem : i));
+
+                if (savedItem.status === 'in_stock') {
+                    await recordStockMovements([{
+                        movementType: 'ingreso', itemId: savedItem.id, productName: savedItem.productName,
+                        delta: savedItem.quantity, toLocation: savedItem.location, batchRef: savedItem.batchRef
+                    }]);
+                }
             }
-            setIsModalOpen(false);
+            closeItemModal();
             resetForm();
         } catch (err) {
             console.error('Error saving item:', err);
@@ -645,8 +1094,16 @@ export default function Dashboard() {
         if (confirm('¿Estás seguro de eliminar este registro?')) {
             try {
                 // Optimistic UI
+                const target = items.find(i => i.id === id);
                 setItems(items.filter(i => i.id !== id));
                 await itemService.deleteItem(id);
+                await deleteOrderIfEmpty(target?.orderId, id);
+                if (target && isEnStock(target.status)) {
+                    await recordStockMovements([{
+                        movementType: 'eliminacion', itemId: id, productName: target.productName,
+                        delta: -target.quantity, fromLocation: target.location, batchRef: target.batchRef
+                    }]);
+                }
             } catch (err) {
                 console.error('Error deleting:', err);
                 alert('Error al eliminar.');
@@ -655,91 +1112,499 @@ export default function Dashboard() {
         }
     };
 
-    const handleToggleFacturado = async (id: string, value: boolean) => {
+    const handleUpdateOrder = async (id: string, updates: Partial<Order>) => {
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, facturado: value } : i));
-            await itemService.updateItem(id, { facturado: value });
+            setOrders(prev => prev.map(o => o.id === id ? { ...o, ...updates } : o));
+            await orderService.updateOrder(id, updates);
         } catch (err) {
-            console.error('Error updating facturado:', err);
+            console.error('Error updating order:', err);
             loadItems();
         }
     };
 
-    const handleTogglePublicInStore = async (id: string, value: boolean) => {
+    // La función de facturación ya guardó el comprobante: solo se refleja en pantalla
+    const handleOrderInvoiced = (id: string, factura: FacturaEmitida) => {
+        setOrders(prev => prev.map(o => o.id === id ? { ...o, ...factura } : o));
+    };
+
+    // Vuelve unidades vendidas al stock: se suman al registro de la misma línea
+    // de tanda y ubicación si existe; si no, se crea uno con los datos de la venta
+    const restockSoldLine = async (soldLine: Item, quantity: number, stock: Item[], orderId?: string, status: ItemStatus = 'in_stock') => {
+        const existingStock = stock.find(i =>
+            i.status === status &&
+            i.productName === soldLine.productName &&
+            i.purchasePrice === soldLine.purchasePrice &&
+            i.condition === soldLine.condition &&
+            i.batchRef === soldLine.batchRef &&
+            i.batchItemId === soldLine.batchItemId &&
+            (i.location || '') === (soldLine.location || '')
+        );
+        const restocked = existingStock
+            ? await itemService.updateItem(existingStock.id, { quantity: existingStock.quantity + quantity })
+            : await itemService.createItem({
+                productName: soldLine.productName,
+                purchasePrice: soldLine.purchasePrice,
+                salePrice: soldLine.salePrice,
+                quantity,
+                date: soldLine.date,
+                status,
+                condition: soldLine.condition,
+                itemType: soldLine.itemType || 'resale',
+                batchRef: soldLine.batchRef,
+                batchItemId: soldLine.batchItemId,
+                location: soldLine.location,
+                estimatedSalePrice: soldLine.estimatedSalePrice,
+                imageUrl: soldLine.imageUrl,
+                category: soldLine.category,
+                // Los datos de tienda que se guardaron al vender las últimas unidades
+                description: soldLine.description,
+                storeTitle: soldLine.storeTitle,
+                storeGroup: soldLine.storeGroup,
+                storeVariantName: soldLine.storeVariantName,
+                storeImages: soldLine.storeImages,
+                storeVideoUrl: soldLine.storeVideoUrl
+            });
+        // La línea vendida queda como historial de la venta, con lo que no se devolvió
+        await itemService.updateItem(soldLine.id, { quantity: soldLine.quantity - quantity });
+        await recordStockMovements([{
+            movementType: 'devolucion', itemId: restocked.id, relatedItemId: soldLine.id, productName: soldLine.productName,
+            delta: quantity, toLocation: restocked.location, batchRef: soldLine.batchRef, orderId
+        }]);
+        return restocked;
+    };
+
+    // Si la venta estaba facturada la devolución es una nota de crédito; con
+    // factura electrónica además se emite la Nota de Crédito C en ARCA
+    const handleCreateReturn = async (draft: ReturnDraft) => {
+        if (savingRef.current) return;
+        savingRef.current = true;
+        setIsSaving(true);
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, publicInStore: value } : i));
-            await itemService.updateItem(id, { publicInStore: value });
+            const [y, m, d] = draft.returnDate.split('-').map(Number);
+            const returnDateISO = new Date(y, m - 1, d, 12, 0, 0).toISOString();
+            const orderId = draft.order?.id;
+
+            // Lo que vuelve con falla no se vende hasta revisarlo
+            const status: ItemStatus = draft.reason === 'falla' ? 'returned' : 'in_stock';
+            let stock = items.filter(i => i.status === status);
+            const lines: SaleReturnLine[] = [];
+            for (const line of draft.lines) {
+                const restocked = await restockSoldLine(line.item, line.quantity, stock, orderId, status);
+                stock = [restocked, ...stock.filter(i => i.id !== restocked.id)];
+                lines.push({
+                    itemId: line.item.id,
+                    productName: line.item.productName,
+                    quantity: line.quantity,
+                    unitPrice: line.item.salePrice || 0,
+                    restockedItemId: restocked.id
+                });
+            }
+
+            const creditNote = !!draft.order?.facturado && isAfterFacturacionCutoff(invoicingSettings, draft.order.orderDate);
+            const saleReturn = await returnService.createReturn({
+                returnDate: returnDateISO,
+                orderId,
+                lines,
+                reason: draft.reason,
+                notes: draft.notes,
+                refundMethod: draft.refundMethod,
+                amount: lines.reduce((acc, l) => acc + l.quantity * l.unitPrice, 0),
+                creditNote
+            });
+
+            if (creditNote && draft.order?.cae) {
+                await handleEmitNotaCredito(saleReturn);
+            }
+
+            await loadItems();
+            closeItemModal();
         } catch (err) {
-            console.error('Error updating publicInStore:', err);
+            console.error('Error creating return:', err);
+            alert('Error al registrar la devolución. Intenta nuevamente.');
             loadItems();
+        } finally {
+            savingRef.current = false;
+            setIsSaving(false);
         }
     };
 
-    const handleUpdateStoreImages = async (id: string, patch: Partial<Item>) => {
+    // Un rechazo de ARCA no deshace la devolución: la nota queda pendiente y se reintenta desde Facturación
+    const handleEmitNotaCredito = async (saleReturn: SaleReturn) => {
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
-            await itemService.updateItem(id, patch);
+            const notaCredito = await invoiceService.emitNotaCreditoC(saleReturn.id, toDateKey(new Date()));
+            setReturns(prev => prev.map(r => r.id === saleReturn.id ? { ...r, ...notaCredito } : r));
         } catch (err) {
-            console.error('Error updating storeImages:', err);
-            loadItems();
+            console.error('Error emitting credit note:', err);
+            alert(`La devolución quedó registrada, pero no se pudo emitir la nota de crédito: ${err instanceof Error ? err.message : 'error desconocido'}. Reintentala desde Facturación.`);
         }
     };
 
-    const handleClearStoreData = async (target: Item) => {
-        if (!confirm(`¿Eliminar todos los datos de tienda de "${target.productName}"?\n\nSe borran: título, descripción, grupo, fotos adicionales y video. Los archivos que ningún otro producto use también se eliminan del servidor para liberar espacio.\n\nLa foto principal y el producto en sí NO se tocan.`)) return;
+    // Devuelve el cliente creado para que el selector lo deje elegido
+    const handleCreateCustomer = async (customer: Omit<Customer, 'id' | 'createdAt'>) => {
         try {
-            // Archivos candidatos a borrar del Storage (fotos de tienda + video)
-            const candidates = [...(target.storeImages || []), target.storeVideoUrl].filter((u): u is string => !!u);
-            // Solo borrar los que ningún otro item referencia (las imágenes se dedupican por hash y pueden compartirse)
-            const usedElsewhere = (url: string) => items.some(i =>
-                i.id !== target.id && (
-                    i.imageUrl === url ||
-                    (i.storeImages || []).includes(url) ||
-                    i.storeVideoUrl === url
-                )
-            );
-            for (const url of candidates) {
-                if (!usedElsewhere(url)) {
-                    try { await imageService.remove(url); } catch { /* archivo externo o ya borrado */ }
-                }
-            }
-            const patch: Partial<Item> = { storeImages: [], storeVideoUrl: '', description: '', storeTitle: '', storeGroup: '', publicInStore: false };
-            setItems(prev => prev.map(i => i.id === target.id ? { ...i, ...patch } : i));
-            await itemService.updateItem(target.id, patch);
-            setStoreImagesItem(null);
+            const created = await customerService.createCustomer(customer);
+            setCustomers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            return created;
         } catch (err) {
-            console.error('Error clearing store data:', err);
-            alert('Error al eliminar los datos de tienda.');
-            loadItems();
+            console.error('Error creating customer:', err);
+            alert('Error al guardar el cliente.');
+            return null;
         }
     };
 
-    const handleToggleNoFacturar = async (id: string, value: boolean) => {
+    const handleUpdateCustomer = async (id: string, updates: Partial<Customer>) => {
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, noFacturar: value } : i));
-            await itemService.updateItem(id, { noFacturar: value });
+            const saved = await customerService.updateCustomer(id, updates);
+            setCustomers(prev => prev.map(c => c.id === id ? saved : c).sort((a, b) => a.name.localeCompare(b.name)));
         } catch (err) {
-            console.error('Error updating noFacturar:', err);
+            console.error('Error updating customer:', err);
+            alert('Error al guardar el cliente.');
+        }
+    };
+
+    const handleDeleteCustomer = async (id: string) => {
+        const target = customers.find(c => c.id === id);
+        if (!target || !confirm(`¿Eliminar a "${target.name}"? Sus compras se conservan, sin cliente asignado.`)) return;
+        try {
+            await customerService.deleteCustomer(id);
+            setCustomers(prev => prev.filter(c => c.id !== id));
+            setOrders(prev => prev.map(o => o.customerId === id ? { ...o, customerId: undefined } : o));
+            navigate(tabPaths.clientes, { replace: true });
+        } catch (err) {
+            console.error('Error deleting customer:', err);
+            alert('Error al eliminar el cliente.');
+        }
+    };
+
+    const handleCreateReseller = async (reseller: Omit<Reseller, 'id' | 'createdAt'>) => {
+        try {
+            const created = await resellerService.createReseller(reseller);
+            setResellers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            return created;
+        } catch (err) {
+            console.error('Error creating reseller:', err);
+            alert('Error al guardar el vendedor. Revisá que no exista otro con el mismo nombre.');
+            return null;
+        }
+    };
+
+    const handleUpdateReseller = async (id: string, updates: Partial<Reseller>) => {
+        try {
+            const saved = await resellerService.updateReseller(id, updates);
+            setResellers(prev => prev.map(r => r.id === id ? saved : r).sort((a, b) => a.name.localeCompare(b.name)));
+            setOrders(prev => prev.map(o => o.resellerId === id ? { ...o, vendedor: saved.name } : o));
+            return true;
+        } catch (err) {
+            console.error('Error updating reseller:', err);
+            alert('Error al guardar el vendedor.');
+            return false;
+        }
+    };
+
+    // Un solo pago por las ventas elegidas: quedan cobradas con su comisión
+    const handleSettleReseller = async (reseller: Reseller, ventas: VentaVendedor[], payment: Pick<ResellerSettlement, 'settledOn' | 'channel' | 'notes'>) => {
+        try {
+            const salesTotal = ventas.reduce((acc, v) => acc + v.total, 0);
+            const commission = ventas.reduce((acc, v) => acc + v.commission, 0);
+            const saved = await resellerService.settle(
+                { ...payment, resellerId: reseller.id, salesTotal, commission, amount: salesTotal - commission },
+                ventas.map(v => ({ id: v.order.id, commission: v.commission }))
+            );
+            const commissionById = new Map(ventas.map(v => [v.order.id, v.commission]));
+            setSettlements(prev => [saved, ...prev]);
+            setOrders(prev => prev.map(o => commissionById.has(o.id) ? { ...o, cobrado: true, settlementId: saved.id, commission: commissionById.get(o.id) } : o));
+            return true;
+        } catch (err) {
+            console.error('Error settling reseller:', err);
+            alert('Error al registrar la liquidación.');
+            loadItems();
+            return false;
+        }
+    };
+
+    const handleDeleteSettlement = async (settlement: ResellerSettlement) => {
+        if (!confirm(`¿Anular la liquidación del ${formatDateKey(settlement.settledOn)}? Sus ventas vuelven a quedar pendientes de cobro.`)) return;
+        try {
+            await resellerService.deleteSettlement(settlement.id);
+            setSettlements(prev => prev.filter(s => s.id !== settlement.id));
+            setOrders(prev => prev.map(o => o.settlementId === settlement.id ? { ...o, cobrado: false, settlementId: undefined, commission: undefined } : o));
+        } catch (err) {
+            console.error('Error deleting settlement:', err);
+            alert('Error al anular la liquidación.');
+            loadItems();
+        }
+    };
+
+    const handleSaveShipment = async (shipment: Omit<Shipment, 'id'>) => {
+        try {
+            const saved = await shipmentService.saveShipment(shipment);
+            setShipments(prev => [saved, ...prev.filter(s => s.orderId !== saved.orderId)]);
+            return true;
+        } catch (err) {
+            console.error('Error saving shipment:', err);
+            alert('Error al guardar el envío.');
+            return false;
+        }
+    };
+
+    // Entregar stock en consignación (o retirarlo) es un traslado del registro completo
+    const handleMoveItemLocation = async (item: Item, toLocation: string) => {
+        try {
+            const status: ItemStatus = resellers.some(r => r.location && r.location === toLocation) ? 'consigned' : 'in_stock';
+            const saved = await itemService.updateItem(item.id, { location: toLocation, status });
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, location: saved.location, status: saved.status } : i));
+            await recordStockMovements([{
+                movementType: 'traslado', itemId: item.id, productName: item.productName, delta: 0,
+                fromLocation: item.location, toLocation: saved.location, batchRef: item.batchRef, note: `${item.quantity} u.`
+            }]);
+        } catch (err) {
+            console.error('Error moving item:', err);
+            alert('Error al trasladar el producto.');
+        }
+    };
+
+    const handleStartCategory = async (period: Omit<MonotributoCategoryPeriod, 'id' | 'validTo'>) => {
+        try {
+            setCategoryHistory(await monotributoService.startCategory(period));
+            return true;
+        } catch (err) {
+            console.error('Error saving monotributo category:', err);
+            alert('Error al guardar la categoría.');
+            return false;
+        }
+    };
+
+    const handleDeleteCategoryPeriod = async (period: MonotributoCategoryPeriod) => {
+        if (!confirm(`¿Eliminar la categoría ${period.category} desde ${formatDateKey(period.validFrom)}?`)) return;
+        try {
+            setCategoryHistory(await monotributoService.deleteCategoryPeriod(period));
+        } catch (err) {
+            console.error('Error deleting monotributo category:', err);
+            alert('Error al eliminar la categoría.');
+        }
+    };
+
+    const handleSaveYearLimits = async (year: number, rows: Array<Omit<MonotributoLimit, 'id' | 'year'>>) => {
+        try {
+            const saved = await monotributoService.saveYearLimits(year, rows);
+            setMonotributoLimits(prev => [...prev.filter(l => l.year !== year), ...saved]);
+            return true;
+        } catch (err) {
+            console.error('Error saving monotributo limits:', err);
+            alert('Error al guardar la tabla de topes.');
+            return false;
+        }
+    };
+
+    const handleCreateExpense = async (expense: Omit<Expense, 'id' | 'createdAt'>) => {
+        try {
+            const created = await expenseService.createExpense(expense);
+            setExpenses(prev => [created, ...prev]);
+            return true;
+        } catch (err) {
+            console.error('Error creating expense:', err);
+            alert('Error al registrar el gasto.');
+            return false;
+        }
+    };
+
+    const handleCreateRecurringExpense = async (recurring: Omit<RecurringExpense, 'id' | 'generatedThrough'>) => {
+        try {
+            const created = await expenseService.createRecurringExpense(recurring);
+            const generated = await expenseService.generateRecurringExpenses([created], toDateKey(new Date()));
+            setRecurringExpenses(prev => [...prev, generated.length > 0 ? { ...created, generatedThrough: generated[generated.length - 1].expenseDate } : created]);
+            setExpenses(prev => [...generated, ...prev]);
+            return true;
+        } catch (err) {
+            console.error('Error creating recurring expense:', err);
+            alert('Error al guardar el gasto fijo.');
+            return false;
+        }
+    };
+
+    // Dar de baja corta la generación desde hoy; los gastos ya cargados quedan
+    const handleEndRecurringExpense = async (recurring: RecurringExpense) => {
+        if (!confirm(`¿Dar de baja el gasto fijo "${recurring.description}"? Los gastos ya cargados se mantienen.`)) return;
+        try {
+            const saved = await expenseService.updateRecurringExpense(recurring.id, { endsOn: toDateKey(new Date()) });
+            setRecurringExpenses(prev => prev.map(r => r.id === saved.id ? saved : r));
+        } catch (err) {
+            console.error('Error ending recurring expense:', err);
+            alert('Error al dar de baja el gasto fijo.');
+        }
+    };
+
+    const handleDeleteExpense = async (expense: Expense) => {
+        if (!confirm(`¿Eliminar el gasto "${expense.description}"?`)) return;
+        try {
+            await expenseService.deleteExpense(expense.id);
+            setExpenses(prev => prev.filter(e => e.id !== expense.id));
+        } catch (err) {
+            console.error('Error deleting expense:', err);
+            alert('Error al eliminar el gasto.');
+        }
+    };
+
+    const handleSaveReconciliation = async (reconciliation: Omit<CashReconciliation, 'id'>) => {
+        try {
+            const saved = await cajaService.saveReconciliation(reconciliation);
+            setReconciliations(prev => [saved, ...prev.filter(r => r.id !== saved.id)]);
+            return true;
+        } catch (err) {
+            console.error('Error saving reconciliation:', err);
+            alert('Error al guardar el arqueo.');
+            return false;
+        }
+    };
+
+    const handleDeleteReconciliation = async (reconciliation: CashReconciliation) => {
+        if (!confirm(`¿Eliminar el arqueo del ${formatDateKey(reconciliation.date)}?`)) return;
+        try {
+            await cajaService.deleteReconciliation(reconciliation.id);
+            setReconciliations(prev => prev.filter(r => r.id !== reconciliation.id));
+        } catch (err) {
+            console.error('Error deleting reconciliation:', err);
+            alert('Error al eliminar el arqueo.');
+        }
+    };
+
+    const handleUpdateBatchChannel = async (batchId: string, paymentChannel: CashChannel) => {
+        try {
+            await itemService.updateBatch(batchId, { paymentChannel });
+            setBatchHistory(prev => prev.map(b => b.id === batchId ? { ...b, paymentChannel } : b));
+        } catch (err) {
+            console.error('Error updating batch payment channel:', err);
+            alert('Error al cambiar el medio de pago de la tanda.');
+        }
+    };
+
+    const handleSaveMonotributoPayment = async (payment: Omit<MonotributoPayment, 'id'>, receipt?: File) => {
+        try {
+            const receiptUrl = receipt ? await imageService.upload(receipt) : payment.receiptUrl;
+            const saved = await monotributoService.savePayment({ ...payment, receiptUrl });
+            setMonotributoPayments(prev => [...prev.filter(p => p.period !== saved.period), saved]);
+            return true;
+        } catch (err) {
+            console.error('Error saving monotributo payment:', err);
+            alert('Error al registrar el pago de la cuota.');
+            return false;
+        }
+    };
+
+    const handleDeleteMonotributoPayment = async (payment: MonotributoPayment) => {
+        if (!confirm(`¿Desmarcar como pagada la cuota de ${formatPeriod(payment.period)}?`)) return;
+        try {
+            await monotributoService.deletePayment(payment.id);
+            if (payment.receiptUrl) {
+                try { await imageService.remove(payment.receiptUrl); } catch { /* archivo externo o ya borrado */ }
+            }
+            setMonotributoPayments(prev => prev.filter(p => p.id !== payment.id));
+        } catch (err) {
+            console.error('Error deleting monotributo payment:', err);
+            alert('Error al desmarcar la cuota.');
+        }
+    };
+
+    const handleSaveInvoicingSettings = async (settings: Omit<InvoicingSettings, 'id'>, id?: string) => {
+        try {
+            const saved = id
+                ? await invoicingSettingsService.updateSettings(id, settings)
+                : await invoicingSettingsService.createSettings(settings);
+            setInvoicingSettings(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => b.validFrom.localeCompare(a.validFrom)));
+            return true;
+        } catch (err) {
+            console.error('Error saving invoicing settings:', err);
+            alert('Error al guardar las reglas de facturación.');
+            return false;
+        }
+    };
+
+    const handleDeleteInvoicingSettings = async (settings: InvoicingSettings) => {
+        if (!confirm(`¿Eliminar las reglas vigentes desde ${formatDateKey(settings.validFrom)}?`)) return;
+        try {
+            await invoicingSettingsService.deleteSettings(settings.id);
+            setInvoicingSettings(prev => prev.filter(s => s.id !== settings.id));
+        } catch (err) {
+            console.error('Error deleting invoicing settings:', err);
+            alert('Error al eliminar las reglas de facturación.');
+        }
+    };
+
+    const handleMergeDuplicates = async (survivor: Item, others: Item[]) => {
+        if (savingRef.current) return;
+        savingRef.current = true;
+        try {
+            const patch = mergeDuplicateItems(survivor, others);
+            await itemService.updateItem(survivor.id, patch);
+            for (const other of others) {
+                await itemService.deleteItem(other.id);
+            }
+            await recordStockMovements([
+                ...others.map((merged): StockMovementInput => ({
+                    movementType: 'fusion', itemId: merged.id, relatedItemId: survivor.id, productName: merged.productName,
+                    delta: -merged.quantity, fromLocation: merged.location, batchRef: merged.batchRef
+                })),
+                {
+                    movementType: 'fusion', itemId: survivor.id, productName: survivor.productName,
+                    delta: (patch.quantity || survivor.quantity) - survivor.quantity, toLocation: survivor.location,
+                    batchRef: survivor.batchRef, note: `${others.length} duplicado(s) fusionados`
+                }
+            ]);
+            await loadItems();
+        } catch (err) {
+            console.error('Error merging duplicates:', err);
+            alert('Error al fusionar los duplicados.');
+            loadItems();
+        } finally {
+            savingRef.current = false;
+        }
+    };
+
+    const handleTogglePublicInStore = async (id: string, value: boolean) => {
+        try {
+            setItems(prev => prev.map(i => i.id === id ? { ...i, publicInStore: value } : i));
+            await itemService.updateItem(id, { publicInStore: value });
+        } catch (err) {
+            console.error('Error updating publicInStore:', err);
             loadItems();
         }
     };
 
-    const handleUpdateEnvio = async (id: string, envio: { envioAplica: boolean; envioCosto: number; envioMetodo: string; formasPago?: string[]; montoEfectivo?: number; montoTransferencia?: number; montoTarjeta?: number; montoMercadoPago?: number; montoOtro?: number }) => {
+    const handleUpdateStoreImages = async (id: string, patch: Partial<Item>) => {
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, ...envio } : i));
-            await itemService.updateItem(id, envio);
+            setItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+            await itemService.updateItem(id, patch);
         } catch (err) {
-            console.error('Error updating envio:', err);
+            console.error('Error updating storeImages:', err);
             loadItems();
         }
     };
 
-    const handleToggleCobrado = async (id: string, value: boolean) => {
+    const handleClearStoreData = async (target: Item) => {
+        if (!confirm(`¿Eliminar todos los datos de tienda de "${target.productName}"?\n\nSe borran: título, descripción, grupo, fotos adicionales y video. Los archivos que ningún otro producto use también se eliminan del servidor para liberar espacio.\n\nLa foto principal y el producto en sí NO se tocan.`)) return;
         try {
-            setItems(prev => prev.map(i => i.id === id ? { ...i, cobrado: value } : i));
-            await itemService.updateItem(id, { cobrado: value });
+            // Archivos candidatos a borrar del Storage (fotos de tienda + video)
+            const candidates = [...(target.storeImages || []), target.storeVideoUrl].filter((u): u is string => !!u);
+            // Solo borrar los que ningún otro item referencia (las imágenes se dedupican por hash y pueden compartirse)
+            const usedElsewhere = (url: string) => items.some(i =>
+                i.id !== target.id && (
+                    i.imageUrl === url ||
+                    (i.storeImages || []).includes(url) ||
+                    i.storeVideoUrl === url
+                )
+            );
+            for (const url of candidates) {
+                if (!usedElsewhere(url)) {
+                    try { await imageService.remove(url); } catch { /* archivo externo o ya borrado */ }
+                }
+            }
+            const patch: Partial<Item> = { storeImages: [], storeVideoUrl: '', description: '', storeTitle: '', storeGroup: '', publicInStore: false };
+            setItems(prev => prev.map(i => i.id === target.id ? { ...i, ...patch } : i));
+            await itemService.updateItem(target.id, patch);
+            closeItemModal();
         } catch (err) {
-            console.error('Error updating cobrado:', err);
+            console.error('Error clearing store data:', err);
+            alert('Error al eliminar los datos de tienda.');
             loadItems();
         }
     };
@@ -761,8 +1626,8 @@ export default function Dashboard() {
                 // 1. Update the original item in the DB
                 await itemService.updateItem(item.id, { quantity: updatedItem.quantity });
 
-                // 2. Extract parent batchRef to prevent orphaning
-                const bRef = getItemBatchRef(item);
+                // 2. La unidad separada sigue perteneciendo a la misma línea de tanda
+                const bRef = item.batchRef;
 
                 // 3. Create the new separated item in the DB
                 const created = await itemService.createItem({
@@ -775,32 +1640,23 @@ export default function Dashboard() {
                     condition: item.condition,
                     itemType: item.itemType || 'resale',
                     batchRef: bRef,
+                    batchItemId: item.batchItemId,
                     location: '',
                     estimatedSalePrice: item.estimatedSalePrice,
                     publishUrls: item.publishUrls,
                     imageUrl: item.imageUrl
                 });
 
-                // 4. Update the memory map so it renders properly right away in grouped views
-                if (bRef) {
-                    setItemBatchMap(prev => {
-                        const next = { ...prev, [created.id]: bRef };
-                        localStorage.setItem('item_batch_map_v2', JSON.stringify(next));
-                        return next;
-                    });
-                }
-
                 // Replace the temporary optimistic new item with the real one from DB
                 setItems(prev => prev.map(i => i.id === tempId ? created : i));
 
+                await recordStockMovements([
+                    { movementType: 'separacion', itemId: item.id, relatedItemId: created.id, productName: item.productName, delta: -1, fromLocation: item.location, batchRef: bRef },
+                    { movementType: 'separacion', itemId: created.id, relatedItemId: item.id, productName: item.productName, delta: 1, fromLocation: item.location, batchRef: bRef }
+                ]);
+
                 // Open the modal to edit the newly separated item
-                setEditingItem(created);
-                setFormData({
-                    ...created,
-                    status: 'in_stock',
-                    date: created.date.split('T')[0]
-                });
-                setIsModalOpen(true);
+                openItemModal(`/item/${created.id}/editar`);
             } catch (err) {
                 console.error('Error splitting:', err);
                 alert('Error al separar la unidad.');
@@ -814,30 +1670,53 @@ export default function Dashboard() {
 
 
     const handleWithdraw = async (item: Item, reason: WithdrawalReason) => {
+        if (item.status === 'reserved') {
+            alert('Las unidades están reservadas: cancelá la reserva antes de darlas de baja.');
+            return;
+        }
         try {
             const nowIso = new Date().toISOString().split('T')[0];
-            setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'sold' as ItemStatus, salePrice: 0, saleDate: nowIso, withdrawalReason: reason, noFacturar: true } : i));
-            await itemService.updateItem(item.id, { status: 'sold', salePrice: 0, saleDate: nowIso, withdrawalReason: reason, noFacturar: true });
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'withdrawn' as ItemStatus, saleDate: nowIso, withdrawalReason: reason } : i));
+            await itemService.updateItem(item.id, { status: 'withdrawn', saleDate: nowIso, withdrawalReason: reason });
+            await recordStockMovements([{
+                movementType: 'retiro', itemId: item.id, productName: item.productName, delta: -item.quantity,
+                fromLocation: item.location, batchRef: item.batchRef, note: withdrawalLabels[reason]?.label
+            }]);
         } catch (err) {
             console.error('Error withdrawing item:', err);
             loadItems();
         }
     };
 
-    const startEdit = (item: Item) => {
-        const resolvedBatchRef = getItemBatchRef(item);
-        setEditingItem({ ...item, batchRef: resolvedBatchRef });
+    const openItemModal = (path: string) => {
+        navigate(path, { state: { background: backgroundPath } });
+    };
+
+    const closeItemModal = () => {
+        // Si el modal se abrió desde la app, volver atrás deja el historial limpio
+        if (getBackgroundPath(window.history.state)) window.history.back();
+        else navigate(backgroundPath, { replace: true });
+    };
+
+    const prepareEditForm = (item: Item) => {
+        const order = orders.find(o => o.id === item.orderId);
+        setEditingItem(item);
         setFormData({
             ...item,
-            batchRef: resolvedBatchRef,
+            status: isEnStock(item.status) ? 'in_stock' : item.status,
+            vendedor: order?.vendedor,
+            resellerId: order?.resellerId,
+            cobrado: order?.cobrado,
+            customerId: order?.customerId,
             location: item.location || '',
             estimatedSalePrice: item.estimatedSalePrice || 0,
             publishUrls: item.publishUrls || '',
             date: item.saleDate ? item.saleDate.split('T')[0] : item.date.split('T')[0]
         });
-        setIsModalOpen(true);
     };
 
+    const startEdit = (item: Item) => openItemModal(`/item/${item.id}/editar`);
+
     const resetForm = () => {
         setFormData({
             productName: '',
@@ -856,21 +1735,82 @@ export default function Dashboard() {
         setEditingItem(null);
     };
 
+    // Lo devuelto por falla ya se revisó y se puede vender
+    const handleRestockReturned = async (item: Item) => {
+        try {
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'in_stock' } : i));
+            await itemService.updateItem(item.id, { status: 'in_stock' });
+        } catch (err) {
+            console.error('Error restocking returned item:', err);
+            alert('Error al pasar a stock.');
+            loadItems();
+        }
+    };
+
+    const handleUndoWithdraw = async (item: Item) => {
+        if (!confirm(`¿Deshacer la baja de "${item.productName}"? Vuelve al stock.`)) return;
+        try {
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'in_stock' } : i));
+            await itemService.updateItem(item.id, { status: 'in_stock' });
+            await recordStockMovements([{
+                movementType: 'ajuste', itemId: item.id, productName: item.productName, delta: item.quantity,
+                toLocation: item.location, batchRef: item.batchRef, note: 'Baja deshecha'
+            }]);
+        } catch (err) {
+            console.error('Error undoing withdrawal:', err);
+            alert('Error al deshacer la baja.');
+            loadItems();
+        }
+    };
+
     const openNewModal = (initialStatus: ItemStatus = 'in_stock') => {
-        resetForm();
-        setFormData(prev => ({ ...prev, status: initialStatus }));
-        setIsModalOpen(true);
+        openItemModal(buildPath('/item/nuevo', { estado: initialStatus === 'sold' ? 'vendido' : undefined }));
     };
 
+    // Sincroniza el modal con la URL (deep links y atrás/adelante). Si el item
+    // todavía no está cargado se reintenta en el próximo render.
+    if (!loading && modalPath !== openedModalPath) {
+        if (!itemModalRoute) {
+            setOpenedModalPath(null);
+            setStoreImagesItem(null);
+            setSellItem(null);
+            setReserveItem(null);
+            setReturnItem(null);
+        } else if (itemModalRoute.action === 'nuevo') {
+            setOpenedModalPath(modalPath);
+            resetForm();
+            setFormData(prev => ({ ...prev, status: itemModalRoute.status }));
+        } else if (itemModalRoute.action === 'historial') {
+            // El historial no necesita el item cargado: puede haberse borrado
+            setOpenedModalPath(modalPath);
+        } else {
+            const target = items.find(i => i.id === itemModalRoute.id);
+            if (target) {
+                setOpenedModalPath(modalPath);
+                if (itemModalRoute.action === 'editar') prepareEditForm(target);
+                else if (itemModalRoute.action === 'vender') setSellItem(target);
+                else if (itemModalRoute.action === 'reservar') setReserveItem(target);
+                else if (itemModalRoute.action === 'devolver') setReturnItem(target);
+                else setStoreImagesItem(target);
+            }
+        }
+    }
+
+    const modalReady = !!modalPath && modalPath === openedModalPath;
+    const isModalOpen = modalReady && (itemModalRoute?.action === 'nuevo' || itemModalRoute?.action === 'editar');
+
     // Metrics Calculations
-    const stockItems = items.filter(i => i.status === 'in_stock').sort((a, b) => (a.productName || '').localeCompare(b.productName || ''));
+    const stockItems = items.filter(i => isEnStock(i.status)).sort((a, b) => (a.productName || '').localeCompare(b.productName || ''));
+    const availableItems = stockItems.filter(i => isVendible(i.status));
+    const duplicateGroups = findDuplicateGroups(stockItems);
     const soldItems = items.filter(i => i.status === 'sold').sort((a, b) => {
         const dateA = new Date(a.saleDate || a.date || 0).getTime();
         const dateB = new Date(b.saleDate || b.date || 0).getTime();
         return dateB - dateA;
     });
-    const soldBatchRefs = Array.from(new Set(soldItems.map(getItemBatchRef).filter(Boolean)));
-    const soldDirectCount = soldItems.filter(i => !getItemBatchRef(i)).length;
+    const withdrawnItems = items.filter(i => i.status === 'withdrawn').sort((a, b) => (b.saleDate || '').localeCompare(a.saleDate || ''));
+    const soldBatchRefs = Array.from(new Set(soldItems.map(i => i.batchRef).filter(Boolean)));
+    const soldDirectCount = soldItems.filter(i => !i.batchRef).length;
 
     const soldResale = soldItems.filter(i => i.itemType !== 'personal');
     const soldPersonal = soldItems.filter(i => i.itemType === 'personal');
@@ -883,12 +1823,37 @@ export default function Dashboard() {
     const totalUnitsSold = soldItems.reduce((acc, item) => acc + item.quantity, 0);
     const profitMargin = resaleRevenue > 0 ? (totalProfit / resaleRevenue) * 100 : 0;
 
+    // Ganancia neta: descuenta los gastos, las comisiones liquidadas a vendedores
+    // y todas las cuotas de monotributo devengadas
+    const cuotasMonotributo = getCuotasMensuales(categoryHistory, monotributoLimits, monotributoPayments, new Date());
+    const cuotasVencidas = cuotasMonotributo.filter(c => c.status === 'vencida');
+    const totalCuotasMonotributo = getTotalCuotas(cuotasMonotributo);
+    const totalExpenses = expenses.reduce((acc, e) => acc + e.amount, 0) + settlements.reduce((acc, s) => acc + s.commission, 0);
+    const netProfit = totalProfit - totalExpenses - totalCuotasMonotributo;
+    const netMargin = resaleRevenue > 0 ? (netProfit / resaleRevenue) * 100 : 0;
+    const profitDeductions = [
+        ...expenses.map(e => ({ date: e.expenseDate, amount: e.amount })),
+        ...settlements.map(s => ({ date: s.settledOn, amount: s.commission })),
+        ...cuotasMonotributo.map(c => ({ date: c.payment?.paidAt || c.dueDate, amount: c.total || 0 }))
+    ];
+
     // Stock value (potential revenue or sunk cost)
     const totalStockValue = stockItems.reduce((acc, item) => acc + (item.purchasePrice * item.quantity), 0);
 
     // Cobros pendientes
-    const cobrosPendientes = soldItems.filter(i => i.cobrado === false && i.vendedor);
-    const totalCobrosPendientes = cobrosPendientes.reduce((acc, i) => acc + ((i.salePrice || 0) * i.quantity), 0);
+    const linesByOrder = groupLinesByOrder(soldItems);
+    const cobrosPendientes = orders.filter(o => !o.cobrado && o.vendedor && linesByOrder.has(o.id));
+    const totalCobrosPendientes = cobrosPendientes.reduce((acc, o) => acc + getOrderTotal(o, linesByOrder.get(o.id) || []), 0);
+
+    // Envíos sin entregar (una venta con envío sin cargar figura como preparando)
+    const shipmentStatusByOrder = new Map(shipments.map(s => [s.orderId, s.status]));
+    const enviosPendientes = orders.filter(o => {
+        const status = shipmentStatusByOrder.get(o.id) || 'preparando';
+        return o.envioAplica && linesByOrder.has(o.id) && (status === 'preparando' || status === 'despachado');
+    }).length;
+
+    const reservasActivas = reservations.filter(r => r.status === 'activa');
+    const reservasVencidas = reservasActivas.filter(r => isReservaVencida(r, toDateKey(new Date())));
 
     if (loading) {
         return (
@@ -930,9 +1895,9 @@ export default function Dashboard() {
                     </div>
 
                     <div className="w-full md:w-auto flex flex-col sm:flex-row gap-2">
-                        <div className="grid grid-cols-4 bg-white p-1 rounded-xl shadow-sm border border-gray-200">
+                        <div className="grid grid-cols-6 bg-white p-1 rounded-xl shadow-sm border border-gray-200">
                             <button
-                                onClick={() => setActiveTab('dashboard')}
+                                onClick={() => navigate(tabPaths.dashboard)}
                                 className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'dashboard' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
                             >
                                 <div className="flex items-center justify-center gap-2">
@@ -941,7 +1906,7 @@ export default function Dashboard() {
                                 </div>
                             </button>
                             <button
-                                onClick={() => setActiveTab('inventory')}
+                                onClick={() => navigate(tabPaths.inventory)}
                                 className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'inventory' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
                             >
                                 <div className="flex items-center justify-center gap-2">
@@ -950,7 +1915,7 @@ export default function Dashboard() {
                                 </div>
                             </button>
                             <button
-                                onClick={() => setActiveTab('pricing')}
+                                onClick={() => navigate(tabPaths.pricing)}
                                 className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'pricing' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
                             >
                                 <div className="flex items-center justify-center gap-2">
@@ -959,7 +1924,7 @@ export default function Dashboard() {
                                 </div>
                             </button>
                             <button
-                                onClick={() => setActiveTab('facturacion')}
+                                onClick={() => navigate(tabPaths.facturacion)}
                                 className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'facturacion' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
                             >
                                 <div className="flex items-center justify-center gap-2">
@@ -967,6 +1932,24 @@ export default function Dashboard() {
                                     <span className="hidden sm:inline">ARCA</span>
                                 </div>
                             </button>
+                            <button
+                                onClick={() => navigate(tabPaths.caja)}
+                                className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'caja' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
+                            >
+                                <div className="flex items-center justify-center gap-2">
+                                    <Wallet className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Caja</span>
+                                </div>
+                            </button>
+                            <button
+                                onClick={() => navigate(tabPaths.clientes)}
+                                className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'clientes' ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
+                            >
+                                <div className="flex items-center justify-center gap-2">
+                                    <Users className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Clientes</span>
+                                </div>
+                            </button>
                         </div>
 
                         <button
@@ -992,19 +1975,72 @@ export default function Dashboard() {
                 </div>
 
                 {/* Main Content Area */}
-                {activeTab === 'dashboard' ? (
+                {activeTab === 'dashboard' && tabRoute.envios ? (
+                    <ShipmentsBoard
+                        orders={orders}
+                        soldItems={soldItems}
+                        customers={customers}
+                        shipments={shipments}
+                        onSave={handleSaveShipment}
+                        onBack={() => navigate(tabPaths.dashboard)}
+                    />
+                ) : activeTab === 'dashboard' ? (
                     <div className="space-y-5 sm:space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
 
+                        {reservasVencidas.length > 0 && (
+                            <button
+                                onClick={() => navigate('/inventario/reservas')}
+                                className="w-full flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-rose-200 bg-rose-50 text-rose-800 text-sm font-medium hover:bg-rose-100 transition-colors"
+                            >
+                                <span className="flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    {reservasVencidas.length} {reservasVencidas.length === 1 ? 'reserva vencida' : 'reservas vencidas'} sin retirar
+                                </span>
+                                <span className="flex items-center gap-1">
+                                    Revisar
+                                    <ChevronRight className="w-4 h-4" />
+                                </span>
+                            </button>
+                        )}
+
+                        <div className="flex justify-end">
+                            <div className="inline-flex bg-white p-1 rounded-xl shadow-sm border border-gray-200 text-sm font-medium">
+                                {(['bruta', 'neta'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setProfitMode(mode)}
+                                        className={`px-3 py-1.5 rounded-lg transition-all ${profitMode === mode ? 'bg-black text-white shadow-md' : 'text-gray-500 hover:text-gray-900'}`}
+                                        title={mode === 'neta' ? 'Descuenta gastos operativos y cuotas de monotributo' : 'Precio de venta menos costo'}
+                                    >
+                                        {mode === 'bruta' ? 'Ganancia bruta' : 'Ganancia neta'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
                         {/* Metrics Grid */}
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
-                            <MetricCard
-                                title="Ganancia Reventa"
-                                value={`$${totalProfit.toLocaleString()}`}
-                                icon={<TrendingUp className="w-6 h-6 text-emerald-600 dark:text-emerald-400" />}
-                                trend={profitMargin > 0 ? `+${profitMargin.toFixed(1)}% margen` : '0% margen'}
-                                trendColor="emerald"
-                                bgColor="bg-white"
-                            />
+                            {profitMode === 'bruta' ? (
+                                <MetricCard
+                                    title="Ganancia Reventa"
+                                    value={`$${totalProfit.toLocaleString()}`}
+                                    icon={<TrendingUp className="w-6 h-6 text-emerald-600 dark:text-emerald-400" />}
+                                    trend={profitMargin > 0 ? `+${profitMargin.toFixed(1)}% margen` : '0% margen'}
+                                    trendColor="emerald"
+                                    bgColor="bg-white"
+                                />
+                            ) : (
+                                <MetricCard
+                                    title="Ganancia Neta"
+                                    value={`$${netProfit.toLocaleString()}`}
+                                    icon={<TrendingUp className="w-6 h-6 text-teal-600 dark:text-teal-400" />}
+                                    trend={cuotasVencidas.length > 0
+                                        ? `${cuotasVencidas.length} ${cuotasVencidas.length === 1 ? 'cuota vencida' : 'cuotas vencidas'}`
+                                        : `−$${(totalExpenses + totalCuotasMonotributo).toLocaleString()} gastos · ${netMargin.toFixed(1)}%`}
+                                    trendColor={cuotasVencidas.length > 0 ? 'red' : netProfit >= 0 ? 'emerald' : 'rose'}
+                                    bgColor="bg-white"
+                                />
+                            )}
                             <MetricCard
                                 title="Ingresos Totales"
                                 value={`$${totalSales.toLocaleString()}`}
@@ -1030,10 +2066,12 @@ export default function Dashboard() {
                         {/* Charts */}
                         <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-100">
                             <div className="flex justify-between items-center mb-4 sm:mb-6">
-                                <h2 className="text-lg sm:text-xl font-bold text-gray-800">Tendencia de Ganancias</h2>
+                                <h2 className="text-lg sm:text-xl font-bold text-gray-800">
+                                    Tendencia de Ganancias {profitMode === 'neta' ? 'netas' : 'brutas'}
+                                </h2>
                             </div>
                             <div className="h-[240px] sm:h-[300px] w-full">
-                                <ProfitChart items={soldItems} />
+                                <ProfitChart items={soldItems} deductions={profitMode === 'neta' ? profitDeductions : undefined} />
                             </div>
                         </div>
 
@@ -1052,34 +2090,48 @@ export default function Dashboard() {
                                     </div>
                                 </div>
                                 <div className="divide-y divide-amber-100 dark:divide-amber-800/40">
-                                    {cobrosPendientes.map(item => (
-                                        <div key={item.id} className="px-4 sm:px-6 py-3 flex items-center justify-between gap-3">
-                                            <div className="flex items-center gap-3 min-w-0">
-                                                {item.imageUrl && (
-                                                    <div className="w-8 h-8 rounded-md overflow-hidden border border-amber-200 dark:border-amber-800/50 flex-shrink-0">
-                                                        <img src={item.imageUrl} alt="" className="w-full h-full object-cover" />
+                                    {cobrosPendientes.map(order => {
+                                        const lines = linesByOrder.get(order.id) || [];
+                                        const imageUrl = lines.find(l => l.imageUrl)?.imageUrl;
+                                        return (
+                                            <div key={order.id} className="px-4 sm:px-6 py-3 flex items-center justify-between gap-3">
+                                                <div className="flex items-center gap-3 min-w-0">
+                                                    {imageUrl && (
+                                                        <div className="w-8 h-8 rounded-md overflow-hidden border border-amber-200 dark:border-amber-800/50 flex-shrink-0">
+                                                            <img src={imageUrl} alt="" className="w-full h-full object-cover" />
+                                                        </div>
+                                                    )}
+                                                    <div className="min-w-0">
+                                                        <p className="font-medium text-gray-900 dark:text-gray-100 text-sm truncate">{getOrderTitle(lines)}</p>
+                                                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                                                            Vendedor: <span className="font-semibold">{order.vendedor}</span>
+                                                            <span className="ml-2 text-amber-500 dark:text-amber-500/70">— {new Date(order.orderDate).toLocaleDateString('es-AR')}</span>
+                                                        </p>
                                                     </div>
-                                                )}
-                                                <div className="min-w-0">
-                                                    <p className="font-medium text-gray-900 dark:text-gray-100 text-sm truncate">{item.productName}</p>
-                                                    <p className="text-xs text-amber-700 dark:text-amber-400">
-                                                        Vendedor: <span className="font-semibold">{item.vendedor}</span>
-                                                        {item.saleDate && <span className="ml-2 text-amber-500 dark:text-amber-500/70">— {new Date(item.saleDate).toLocaleDateString('es-AR')}</span>}
-                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-3 shrink-0">
+                                                    <span className="font-bold text-gray-900 dark:text-gray-100 text-sm">${getOrderTotal(order, lines).toLocaleString()}</span>
+                                                    {order.resellerId ? (
+                                                        <button
+                                                            onClick={() => navigate(`/clientes/vendedores/${encodeURIComponent(order.resellerId!)}`)}
+                                                            className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1.5"
+                                                        >
+                                                            <Banknote className="w-3.5 h-3.5" />
+                                                            Liquidar
+                                                        </button>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => handleUpdateOrder(order.id, { cobrado: true })}
+                                                            className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1.5"
+                                                        >
+                                                            <Check className="w-3.5 h-3.5" />
+                                                            Cobrado
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </div>
-                                            <div className="flex items-center gap-3 shrink-0">
-                                                <span className="font-bold text-gray-900 dark:text-gray-100 text-sm">${((item.salePrice || 0) * item.quantity).toLocaleString()}</span>
-                                                <button
-                                                    onClick={() => handleToggleCobrado(item.id, true)}
-                                                    className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1.5"
-                                                >
-                                                    <Check className="w-3.5 h-3.5" />
-                                                    Cobrado
-                                                </button>
-                                            </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             </div>
                         )}
@@ -1094,18 +2146,45 @@ export default function Dashboard() {
                                         <p className="text-xs text-gray-500">Tandas: {soldBatchRefs.length} | Ventas directas: {soldDirectCount}</p>
                                     </div>
                                 </div>
-                                <button
-                                    onClick={() => openNewModal('sold')}
-                                    className="w-full sm:w-auto bg-black hover:bg-gray-800 text-white px-4 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 shadow-sm"
-                                >
-                                    <Plus className="w-4 h-4" />
-                                    Nueva Venta Directa
-                                </button>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <button
+                                        onClick={() => navigate('/envios')}
+                                        className="w-full sm:w-auto border border-gray-200 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <Truck className="w-4 h-4" />
+                                        Envíos
+                                        {enviosPendientes > 0 && (
+                                            <span className="text-[10px] font-bold bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded-full">{enviosPendientes}</span>
+                                        )}
+                                    </button>
+                                    <button
+                                        onClick={() => openNewModal('sold')}
+                                        className="w-full sm:w-auto bg-black hover:bg-gray-800 text-white px-4 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 shadow-sm"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Nueva Venta Directa
+                                    </button>
+                                </div>
                             </div>
-                            <SalesTable items={soldItems} onEdit={startEdit} onDelete={handleDeleteItem} resolveBatchRef={getItemBatchRef} onToggleFacturado={handleToggleFacturado} onToggleNoFacturar={handleToggleNoFacturar} onUpdateEnvio={handleUpdateEnvio} onToggleCobrado={handleToggleCobrado} />
+                            <SalesTable items={soldItems} orders={orders} customers={customers} returns={returns} invoicingSettings={invoicingSettings} onCreateCustomer={handleCreateCustomer} onEdit={startEdit} onDelete={handleDeleteItem} onShowHistory={(item) => openItemModal(`/item/${item.id}/historial`)} onReturn={(item) => openItemModal(`/item/${item.id}/devolver`)} onUpdateOrder={handleUpdateOrder} onOrderInvoiced={handleOrderInvoiced} />
                         </div>
                     </div>
-                ) : activeTab === 'inventory' ? (
+                ) : activeTab === 'inventory' && tabRoute.duplicates ? (
+                    <DuplicatesPanel
+                        groups={duplicateGroups}
+                       
+                        onMerge={handleMergeDuplicates}
+                        onBack={() => navigate(tabPaths.inventory)}
+                    />
+                ) : activeTab === 'inventory' && tabRoute.reservas ? (
+                    <ReservationsPanel
+                        reservations={reservations}
+                        customers={customers}
+                        onConvert={handleConvertReservation}
+                        onCancel={handleCancelReservation}
+                        onBack={() => navigate(tabPaths.inventory)}
+                    />
+                ) : activeTab === 'inventory' ? (
                     <div className="space-y-4 sm:space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
                         {/* Inventory Header */}
                         <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 bg-white p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-100">
@@ -1122,25 +2201,50 @@ export default function Dashboard() {
                             </button>
                         </div>
 
+                        {reservasActivas.length > 0 && (
+                            <button
+                                onClick={() => navigate('/inventario/reservas')}
+                                className={`w-full flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border text-sm font-medium transition-colors ${reservasVencidas.length > 0 ? 'border-rose-200 bg-rose-50 text-rose-800 hover:bg-rose-100' : 'border-violet-200 bg-violet-50 text-violet-800 hover:bg-violet-100'}`}
+                            >
+                                <span className="flex items-center gap-2">
+                                    <Bookmark className="w-4 h-4" />
+                                    {reservasActivas.length} {reservasActivas.length === 1 ? 'reserva activa' : 'reservas activas'}
+                                    {reservasVencidas.length > 0 && ` · ${reservasVencidas.length} ${reservasVencidas.length === 1 ? 'vencida' : 'vencidas'}`}
+                                </span>
+                                <span className="flex items-center gap-1">
+                                    Ver reservas
+                                    <ChevronRight className="w-4 h-4" />
+                                </span>
+                            </button>
+                        )}
+
+                        {duplicateGroups.length > 0 && (
+                            <button
+                                onClick={() => navigate('/inventario/duplicados')}
+                                className="w-full flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-amber-200 bg-amber-50 text-amber-800 text-sm font-medium hover:bg-amber-100 transition-colors"
+                            >
+                                <span className="flex items-center gap-2">
+                                    <Merge className="w-4 h-4" />
+                                    {duplicateGroups.length} {duplicateGroups.length === 1 ? 'grupo' : 'grupos'} de posibles duplicados
+                                </span>
+                                <span className="flex items-center gap-1">
+                                    Revisar
+                                    <ChevronRight className="w-4 h-4" />
+                                </span>
+                            </button>
+                        )}
+
                         {/* Inventory List */}
                         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-                            <InventoryTable items={stockItems} allItems={items} batchHistory={batchHistory} onEdit={startEdit} onDelete={handleDeleteItem} resolveBatchRef={getItemBatchRef} onSplit={handleSplitItem} onWithdraw={handleWithdraw} onTogglePublicInStore={handleTogglePublicInStore} onManageImages={setStoreImagesItem} onSell={(item) => {
-                                const resolvedBatchRef = getItemBatchRef(item);
-                                setEditingItem({ ...item, batchRef: resolvedBatchRef });
-                                setFormData({
-                                    ...item,
-                                    status: 'sold',
-                                    quantity: 1,
-                                    salePrice: item.salePrice || item.purchasePrice,
-                                    condition: item.condition || 'nuevo',
-                                    batchRef: resolvedBatchRef,
-                                    location: item.location || '',
-                                    estimatedSalePrice: item.estimatedSalePrice || 0,
-                                    date: new Date().toISOString().split('T')[0]
-                                });
-                                setIsModalOpen(true);
-                            }} />
+                            <InventoryTable items={stockItems} allItems={items} batchHistory={batchHistory} onEdit={startEdit} onDelete={handleDeleteItem} onSplit={handleSplitItem} onWithdraw={handleWithdraw} onTogglePublicInStore={handleTogglePublicInStore} onManageImages={(item) => openItemModal(`/item/${item.id}/tienda`)} onSell={(item) => item.status === 'reserved' ? navigate('/inventario/reservas') : openItemModal(`/item/${item.id}/vender`)} onReserve={(item) => openItemModal(`/item/${item.id}/reservar`)} onRestock={handleRestockReturned} onShowHistory={(item) => openItemModal(`/item/${item.id}/historial`)}
+                                viewMode={parseInventoryViewMode(backgroundUrl.search)}
+                                onViewModeChange={(mode) => navigate(buildPath(tabPaths.inventory, { vista: mode === 'products' ? undefined : mode }))}
+                            />
                         </div>
+
+                        {withdrawnItems.length > 0 && (
+                            <WithdrawnItemsList items={withdrawnItems} onUndo={handleUndoWithdraw} onShowHistory={(item) => openItemModal(`/item/${item.id}/historial`)} />
+                        )}
                     </div>
                 ) : activeTab === 'pricing' ? (
                     <BulkPricingBoard
@@ -1150,26 +2254,125 @@ export default function Dashboard() {
                         setBatchItems={setBatchItems}
                         inventoryItems={items}
                         onInventoryRefresh={loadItems}
-                        itemBatchMap={itemBatchMap}
-                        setItemBatchMap={setItemBatchMap}
                         batchHistory={batchHistory}
                         setBatchHistory={setBatchHistory}
+                        selectedBatchCode={tabRoute.batchCode || null}
+                        expenses={expenses}
+                        onSelectBatch={(batchCode) => navigate(batchCode ? `/tandas/${encodeURIComponent(batchCode)}` : tabPaths.pricing)}
                     />
-                ) : (
+                ) : activeTab === 'facturacion' && tabRoute.ajustes ? (
+                    <InvoicingSettingsPanel
+                        settings={invoicingSettings}
+                        onSave={handleSaveInvoicingSettings}
+                        onDelete={handleDeleteInvoicingSettings}
+                        onBack={() => navigate(tabPaths.facturacion)}
+                    />
+                ) : activeTab === 'facturacion' && tabRoute.cuotas ? (
+                    <MonotributoCuotas
+                        cuotas={cuotasMonotributo}
+                        onSavePayment={handleSaveMonotributoPayment}
+                        onDeletePayment={handleDeleteMonotributoPayment}
+                        onOpenMonotributo={() => navigate('/facturacion/monotributo')}
+                        onBack={() => navigate(tabPaths.facturacion)}
+                    />
+                ) : activeTab === 'facturacion' && tabRoute.monotributo ? (
+                    <MonotributoSettings
+                        categoryHistory={categoryHistory}
+                        limits={monotributoLimits}
+                        onStartCategory={handleStartCategory}
+                        onDeleteCategoryPeriod={handleDeleteCategoryPeriod}
+                        onSaveYearLimits={handleSaveYearLimits}
+                        onBack={() => navigate(tabPaths.facturacion)}
+                    />
+                ) : activeTab === 'facturacion' ? (
                     <FacturacionTab
                         items={soldItems}
-                        onToggleFacturado={handleToggleFacturado}
-                        onToggleNoFacturar={handleToggleNoFacturar}
-                        onUpdateEnvio={handleUpdateEnvio}
+                        orders={orders}
+                        customers={customers}
+                        returns={returns}
+                        categoryHistory={categoryHistory}
+                        limits={monotributoLimits}
+                        invoicingSettings={invoicingSettings}
+                        onCreateCustomer={handleCreateCustomer}
+                        onUpdateOrder={handleUpdateOrder}
+                        onOrderInvoiced={handleOrderInvoiced}
+                        onEmitNotaCredito={handleEmitNotaCredito}
+                        onStartCategory={handleStartCategory}
+                        month={tabRoute.month}
+                        onSelectMonth={(month) => navigate(`/facturacion/${month}`)}
+                        cuotasVencidas={cuotasVencidas}
+                        onOpenMonotributo={() => navigate('/facturacion/monotributo')}
+                        onOpenCuotas={() => navigate('/facturacion/cuotas')}
+                        onOpenAjustes={() => navigate('/facturacion/ajustes')}
+                    />
+                ) : activeTab === 'caja' && tabRoute.gastos ? (
+                    <ExpensesPanel
+                        expenses={expenses}
+                        recurringExpenses={recurringExpenses}
+                        batches={batchHistory}
+                        orders={orders}
+                        soldItems={soldItems}
+                        onCreateExpense={handleCreateExpense}
+                        onDeleteExpense={handleDeleteExpense}
+                        onCreateRecurringExpense={handleCreateRecurringExpense}
+                        onEndRecurringExpense={handleEndRecurringExpense}
+                        onBack={() => navigate(tabPaths.caja)}
+                    />
+                ) : activeTab === 'caja' ? (
+                    <CajaTab
+                        items={soldItems}
+                        orders={orders}
+                        batches={batchHistory}
+                        expenses={expenses}
+                        returns={returns}
+                        reconciliations={reconciliations}
+                        resellers={resellers}
+                        settlements={settlements}
+                        reservations={reservations}
+                        invoicingSettings={invoicingSettings}
+                        onDeleteExpense={handleDeleteExpense}
+                        onSaveReconciliation={handleSaveReconciliation}
+                        onDeleteReconciliation={handleDeleteReconciliation}
+                        onUpdateBatchChannel={handleUpdateBatchChannel}
+                        month={tabRoute.month}
+                        onSelectMonth={(month) => navigate(`/caja/${month}`)}
+                        onOpenGastos={() => navigate('/caja/gastos')}
+                    />
+                ) : activeTab === 'clientes' && tabRoute.vendedores ? (
+                    <ResellersPanel
+                        resellers={resellers}
+                        settlements={settlements}
+                        orders={orders}
+                        items={items}
+                        selectedResellerId={tabRoute.resellerId}
+                        onSelectReseller={(id) => navigate(id ? `/clientes/vendedores/${encodeURIComponent(id)}` : '/clientes/vendedores')}
+                        onCreate={handleCreateReseller}
+                        onUpdate={handleUpdateReseller}
+                        onSettle={handleSettleReseller}
+                        onDeleteSettlement={handleDeleteSettlement}
+                        onMoveItem={handleMoveItemLocation}
+                        onBack={() => navigate(tabPaths.clientes)}
+                    />
+                ) : (
+                    <CustomersTab
+                        customers={customers}
+                        orders={orders}
+                        soldItems={soldItems}
+                        selectedCustomerId={tabRoute.customerId}
+                        onSelectCustomer={(id) => navigate(id ? `/clientes/${encodeURIComponent(id)}` : tabPaths.clientes)}
+                        onCreate={handleCreateCustomer}
+                        onUpdate={handleUpdateCustomer}
+                        onDelete={handleDeleteCustomer}
+                        onOpenVendedores={() => navigate('/clientes/vendedores')}
                     />
                 )}
             </div>
 
             {/* Store Images Modal */}
-            {storeImagesItem && (
+            {modalReady && itemModalRoute?.action === 'tienda' && storeImagesItem && (
                 <StoreImagesModal
                     item={storeImagesItem}
-                    onClose={() => setStoreImagesItem(null)}
+                    onClose={closeItemModal}
                     onSave={async (id, patch) => {
                         await handleUpdateStoreImages(id, patch);
                         setStoreImagesItem(prev => prev ? { ...prev, ...patch } : null);
@@ -1179,6 +2382,59 @@ export default function Dashboard() {
                 />
             )}
 
+            {/* Historial de movimientos de stock */}
+            {modalReady && itemModalRoute?.action === 'historial' && (
+                <ItemHistoryModal
+                    key={itemModalRoute.id}
+                    itemId={itemModalRoute.id}
+                    item={items.find(i => i.id === itemModalRoute.id)}
+                    onClose={closeItemModal}
+                    onOpenItem={(id) => navigate(`/item/${id}/historial`, { replace: true, state: location.state })}
+                />
+            )}
+
+            {/* Venta (una o varias líneas) */}
+            {modalReady && itemModalRoute?.action === 'vender' && sellItem && (
+                <SaleOrderModal
+                    key={sellItem.id}
+                    initialItem={sellItem}
+                    stockItems={availableItems}
+                    customers={customers}
+                    resellers={resellers}
+                    onCreateCustomer={handleCreateCustomer}
+                   
+                    isSaving={isSaving}
+                    onSubmit={handleCreateOrder}
+                    onClose={closeItemModal}
+                />
+            )}
+
+            {/* Reserva con seña */}
+            {modalReady && itemModalRoute?.action === 'reservar' && reserveItem && (
+                <ReservationModal
+                    key={reserveItem.id}
+                    item={reserveItem}
+                    customers={customers}
+                    onCreateCustomer={handleCreateCustomer}
+                    isSaving={isSaving}
+                    onSubmit={handleCreateReservation}
+                    onClose={closeItemModal}
+                />
+            )}
+
+            {/* Devolución de una venta */}
+            {modalReady && itemModalRoute?.action === 'devolver' && returnItem && (
+                <ReturnModal
+                    key={returnItem.id}
+                    initialItem={returnItem}
+                    order={orders.find(o => o.id === returnItem.orderId)}
+                    lines={returnItem.orderId ? soldItems.filter(i => i.orderId === returnItem.orderId) : [returnItem]}
+                    isSaving={isSaving}
+                    onSubmit={handleCreateReturn}
+                    onClose={closeItemModal}
+                />
+            )}
+
             {/* Placa Marketplace Modal */}
             {placaItem && (
                 <PlacaModal item={placaItem} onClose={() => setPlacaItem(null)} />
@@ -1194,8 +2450,8 @@ export default function Dashboard() {
                                     {editingItem
                                         ? (
                                             editingItem.status === 'sold' && formData.status === 'in_stock'
-                                                ? 'Volver al Inventario'
-                                                : editingItem.status === 'in_stock' && formData.status === 'sold'
+                                                ? 'Devolución'
+                                                : isEnStock(editingItem.status) && formData.status === 'sold'
                                                     ? 'Registrar Venta de Stock'
                                                     : editingItem.status === 'sold'
                                                         ? 'Editar Venta'
@@ -1207,7 +2463,7 @@ export default function Dashboard() {
                                     {formData.status === 'in_stock' ? 'Añadir al inventario' : 'Registrar una venta realizada'}
                                 </p>
                             </div>
-                            <button onClick={() => setIsModalOpen(false)} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
+                            <button onClick={closeItemModal} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
                                 <span className="text-2xl leading-none">&times;</span>
                             </button>
                         </div>
@@ -1216,12 +2472,15 @@ export default function Dashboard() {
                             formData={formData}
                             setFormData={setFormData}
                             onSubmit={handleSaveItem}
-                            onCancel={() => setIsModalOpen(false)}
+                            onCancel={closeItemModal}
                             isEditing={!!editingItem}
                             editingItemStatus={editingItem?.status}
                             suggestedNames={Array.from(new Set(items.map(i => i.productName))).filter(Boolean).sort()}
                             suggestedLocations={Array.from(new Set(items.map(i => i.location))).filter(Boolean).sort() as string[]}
                             batchCodes={batchHistory.map(b => b.batchCode)}
+                            customers={customers}
+                            resellers={resellers}
+                            onCreateCustomer={handleCreateCustomer}
                             existingImages={Array.from(new Map(items.filter(i => i.imageUrl).map(i => [i.imageUrl!, { url: i.imageUrl!, name: i.productName }])).values())}
                             isSaving={isSaving}
                         />
@@ -1235,59 +2494,116 @@ export default function Dashboard() {
 // Subcomponents
 
 // Facturación Tab - Control de facturación ARCA separado del dashboard de ganancias
-function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdateEnvio }: {
+function FacturacionTab({ items, orders, customers, returns, categoryHistory, limits, invoicingSettings, onCreateCustomer, onUpdateOrder, onOrderInvoiced, onEmitNotaCredito, onStartCategory, month, onSelectMonth, cuotasVencidas, onOpenMonotributo, onOpenCuotas, onOpenAjustes }: {
     items: Item[],
-    onToggleFacturado: (id: string, value: boolean) => void,
-    onToggleNoFacturar: (id: string, value: boolean) => void,
-    onUpdateEnvio: (id: string, envio: { envioAplica: boolean; envioCosto: number; envioMetodo: string; formasPago?: string[]; montoEfectivo?: number; montoTransferencia?: number; montoTarjeta?: number; montoMercadoPago?: number; montoOtro?: number }) => void
+    orders: Order[],
+    customers: Customer[],
+    returns: SaleReturn[],
+    categoryHistory: MonotributoCategoryPeriod[],
+    limits: MonotributoLimit[],
+    invoicingSettings: InvoicingSettings[],
+    onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
+    onUpdateOrder: (id: string, updates: Partial<Order>) => void,
+    onOrderInvoiced: (id: string, factura: FacturaEmitida) => void,
+    onEmitNotaCredito: (saleReturn: SaleReturn) => Promise<void>,
+    onStartCategory: (period: Omit<MonotributoCategoryPeriod, 'id' | 'validTo'>) => Promise<boolean>,
+    month?: string,
+    onSelectMonth: (month: string) => void,
+    cuotasVencidas: CuotaMensual[],
+    onOpenMonotributo: () => void,
+    onOpenCuotas: () => void,
+    onOpenAjustes: () => void
 }) {
     const now = new Date();
-    const [selectedMonth, setSelectedMonth] = useState(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`);
-    const [facturarItem, setFacturarItem] = useState<Item | null>(null);
+    // El mes viene de la URL (/facturacion/AAAA-MM); sin mes se muestra el actual
+    const selectedMonth = month || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    const [facturarVenta, setFacturarVenta] = useState<{ order: Order; lines: Item[] } | null>(null);
+    const [comprobanteVenta, setComprobanteVenta] = useState<{ order: Order; lines: Item[] } | null>(null);
+    const [emittingId, setEmittingId] = useState<string | null>(null);
 
     const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
-    const getItemTotal = (i: Item) => ((i.salePrice || 0) * i.quantity) + (i.envioAplica && i.envioCosto ? i.envioCosto : 0);
-
-    // Cutoff: solo contar ventas desde 18/04/2026 en adelante
-    const FACTURACION_CUTOFF = new Date('2026-04-18T00:00:00');
-    const afterCutoff = (dateStr?: string) => {
-        if (!dateStr) return false;
-        return new Date(dateStr) >= FACTURACION_CUTOFF;
-    };
 
-    // All facturated items (solo desde la fecha de corte)
-    const facturados = items.filter(i => i.facturado && afterCutoff(i.saleDate));
+    // Cada fila es una venta completa: sus líneas y un solo envío
+    const linesByOrder = groupLinesByOrder(items);
+    const ventas = orders
+        .map(order => {
+            const lines = linesByOrder.get(order.id) || [];
+            return {
+                id: order.id,
+                order,
+                lines,
+                productName: getOrderTitle(lines),
+                quantity: lines.reduce((acc, l) => acc + l.quantity, 0),
+                subtotal: getLinesSubtotal(lines),
+                total: getOrderTotal(order, lines),
+                saleDate: order.orderDate,
+                facturado: order.facturado,
+                noFacturar: order.noFacturar,
+                envioAplica: order.envioAplica,
+                envioCosto: order.envioCosto,
+                envioMetodo: order.envioMetodo,
+            };
+        })
+        .filter(v => v.lines.length > 0);
+
+    // All facturated orders (solo desde la fecha de corte). Una factura no
+    // cambia con las devoluciones: las unidades devueltas se vuelven a sumar a
+    // la venta y lo devuelto resta como nota de crédito en su propia fecha
+    const returnedByItem = getReturnedQuantities(returns);
+    const facturados = ventas
+        .filter(v => v.facturado && isAfterFacturacionCutoff(invoicingSettings, v.saleDate))
+        .map(v => {
+            const returnedQty = v.lines.reduce((acc, l) => acc + (returnedByItem.get(l.id) || 0), 0);
+            const returnedAmount = v.lines.reduce((acc, l) => acc + (returnedByItem.get(l.id) || 0) * (l.salePrice || 0), 0);
+            return { ...v, quantity: v.quantity + returnedQty, subtotal: v.subtotal + returnedAmount, total: v.total + returnedAmount };
+        });
+    const ordersById = new Map(orders.map(o => [o.id, o]));
+    const notasCredito = returns
+        .filter(r => r.creditNote)
+        .map(r => ({ ...r, order: r.orderId ? ordersById.get(r.orderId) : undefined, saleDate: r.returnDate, total: -r.amount }));
+    const movimientos: Array<{ saleDate?: string; total: number }> = [...facturados, ...notasCredito];
 
     // Parse selected month
     const [selYear, selMonth] = selectedMonth.split('-').map(Number);
+    const isInSelectedMonth = (dateStr?: string) => {
+        if (!dateStr) return false;
+        const d = new Date(dateStr);
+        return d.getFullYear() === selYear && d.getMonth() + 1 === selMonth;
+    };
 
     // Items facturados with saleDate in selected month
-    const facturadosMes = facturados.filter(i => {
-        if (!i.saleDate) return false;
-        const d = new Date(i.saleDate);
-        return d.getFullYear() === selYear && d.getMonth() + 1 === selMonth;
-    });
+    const facturadosMes = facturados.filter(i => isInSelectedMonth(i.saleDate));
+    const notasCreditoMes = notasCredito.filter(n => isInSelectedMonth(n.saleDate));
 
-    // Total del mes
-    const totalMes = facturadosMes.reduce((acc, i) => acc + getItemTotal(i), 0);
+    // Total del mes: facturas menos notas de crédito
+    const totalFacturasMes = facturadosMes.reduce((acc, i) => acc + i.total, 0);
+    const totalNotasCreditoMes = notasCreditoMes.reduce((acc, n) => acc + n.amount, 0);
+    const totalMes = totalFacturasMes - totalNotasCreditoMes;
 
     // Total del año (based on selYear)
-    const facturadosAnio = facturados.filter(i => {
+    const movimientosAnio = movimientos.filter(i => {
         if (!i.saleDate) return false;
         return new Date(i.saleDate).getFullYear() === selYear;
     });
-    const totalAnio = facturadosAnio.reduce((acc, i) => acc + getItemTotal(i), 0);
+    const totalAnio = movimientosAnio.reduce((acc, i) => acc + i.total, 0);
+    const facturadosAnio = facturados.filter(i => i.saleDate && new Date(i.saleDate).getFullYear() === selYear);
 
     // Rolling 12 meses
     const hace12Meses = new Date(now);
     hace12Meses.setDate(hace12Meses.getDate() - 365);
-    const facturadosRolling = facturados.filter(i => {
+    const facturadosRolling = movimientos.filter(i => {
         if (!i.saleDate) return false;
         const d = new Date(i.saleDate);
         return d >= hace12Meses && d <= now;
     });
-    const totalRolling = facturadosRolling.reduce((acc, i) => acc + getItemTotal(i), 0);
-    const porcentajeRolling = TOPE.anual > 0 ? (totalRolling / TOPE.anual) * 100 : 0;
+    const totalRolling = facturadosRolling.reduce((acc, i) => acc + i.total, 0);
+
+    // Categoría vigente hoy y su tope del año (configurables en /facturacion/monotributo)
+    const categoria = getCategoryAt(categoryHistory, now)?.category;
+    const currentLimit = getLimitsForYear(limits, now.getFullYear()).find(l => l.category === categoria);
+    const tope = currentLimit ? getTope(currentLimit) : { anual: 0, mensualTope: 0, mensualSeguro: 0 };
+    const nextCategoria: MonotributoCategory | undefined = categoria ? CATEGORIAS[CATEGORIAS.indexOf(categoria) + 1] : undefined;
+    const porcentajeRolling = tope.anual > 0 ? (totalRolling / tope.anual) * 100 : 0;
 
     // Progress bar color & message
     const getProgressColor = (pct: number) => {
@@ -1297,30 +2613,30 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
         return '#10b981';
     };
     const getProgressMessage = (pct: number) => {
-        if (pct >= 100) return { icon: '\u{1F6A8}', text: `Excediste el tope categoria ${CATEGORIA_ACTUAL}`, color: 'bg-red-50 text-red-700' };
-        if (pct >= 85) return { icon: '\u26A0\uFE0F', text: `Considera pasar a categoria B`, color: 'bg-orange-50 text-orange-700' };
-        if (pct >= 70) return { icon: '\u26A0\uFE0F', text: `Acercandote al tope categoria ${CATEGORIA_ACTUAL}`, color: 'bg-amber-50 text-amber-700' };
+        if (pct >= 100) return { icon: '\u{1F6A8}', text: `Excediste el tope categoria ${categoria}`, color: 'bg-red-50 text-red-700' };
+        if (pct >= 85) return { icon: '\u26A0\uFE0F', text: nextCategoria ? `Considera pasar a categoria ${nextCategoria}` : 'Estas cerca del tope de la ultima categoria', color: 'bg-orange-50 text-orange-700' };
+        if (pct >= 70) return { icon: '\u26A0\uFE0F', text: `Acercandote al tope categoria ${categoria}`, color: 'bg-amber-50 text-amber-700' };
         return null;
     };
     const progressMsg = getProgressMessage(porcentajeRolling);
 
     // Monthly totals for the year (for bar chart)
     const monthlyTotals = Array.from({ length: 12 }, (_, m) => {
-        const monthItems = facturados.filter(i => {
+        const inMonth = (i: { saleDate?: string }) => {
             if (!i.saleDate) return false;
             const d = new Date(i.saleDate);
             return d.getFullYear() === selYear && d.getMonth() === m;
-        });
+        };
         return {
             month: m,
             label: ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'][m],
-            total: monthItems.reduce((acc, i) => acc + getItemTotal(i), 0),
-            count: monthItems.length
+            total: movimientos.filter(inMonth).reduce((acc, i) => acc + i.total, 0),
+            count: facturados.filter(inMonth).length
         };
     });
 
     // Available months for selector (from items)
-    const availableMonths = Array.from(new Set(facturados.map(i => {
+    const availableMonths = Array.from(new Set(movimientos.map(i => {
         if (!i.saleDate) return null;
         const d = new Date(i.saleDate);
         return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
@@ -1339,11 +2655,11 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
     const monthNames = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
 
     // barMax must account for reference lines
-    const barMax = Math.max(...monthlyTotals.map(m => m.total), TOPE.mensualTope * 1.15, 1);
+    const barMax = Math.max(...monthlyTotals.map(m => m.total), tope.mensualTope * 1.15, 1);
 
     // Reference line positions as percentages
-    const lineTopePercent = (TOPE.mensualTope / barMax) * 100;
-    const lineSeguroPercent = (TOPE.mensualSeguro / barMax) * 100;
+    const lineTopePercent = (tope.mensualTope / barMax) * 100;
+    const lineSeguroPercent = (tope.mensualSeguro / barMax) * 100;
 
     return (
         <div className="space-y-5 sm:space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -1357,25 +2673,89 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                         </h2>
                         <p className="text-gray-500 text-sm mt-1">Seguimiento de ventas facturadas — separado de ganancias e inventario.</p>
                     </div>
-                    <select
-                        value={selectedMonth}
-                        onChange={e => setSelectedMonth(e.target.value)}
-                        className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    >
-                        {availableMonths.map(m => {
-                            const [y, mo] = m.split('-').map(Number);
-                            return <option key={m} value={m}>{monthNames[mo - 1]} {y}</option>;
-                        })}
-                    </select>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={selectedMonth}
+                            onChange={e => onSelectMonth(e.target.value)}
+                            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {availableMonths.map(m => {
+                                const [y, mo] = m.split('-').map(Number);
+                                return <option key={m} value={m}>{monthNames[mo - 1]} {y}</option>;
+                            })}
+                        </select>
+                        <button
+                            onClick={onOpenMonotributo}
+                            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-300 flex items-center gap-1.5"
+                        >
+                            <Settings className="w-4 h-4" />
+                            Monotributo
+                        </button>
+                        <button
+                            onClick={onOpenCuotas}
+                            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-300 flex items-center gap-1.5"
+                        >
+                            <Banknote className="w-4 h-4" />
+                            Cuotas
+                        </button>
+                        <button
+                            onClick={onOpenAjustes}
+                            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-300 flex items-center gap-1.5"
+                        >
+                            <Settings className="w-4 h-4" />
+                            Reglas
+                        </button>
+                    </div>
                 </div>
             </div>
 
+            {!currentLimit && (
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-start gap-2 text-sm text-amber-800">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>
+                            {categoria
+                                ? `No hay tabla de topes cargada para la categoría ${categoria} en ${now.getFullYear()}.`
+                                : 'No hay una categoría de monotributo vigente para hoy.'}
+                        </span>
+                    </div>
+                    <button
+                        onClick={onOpenMonotributo}
+                        className="text-sm font-bold px-3 py-1.5 rounded-lg bg-amber-600 text-white hover:bg-amber-700 shrink-0"
+                    >
+                        Configurar
+                    </button>
+                </div>
+            )}
+
+            {cuotasVencidas.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-start gap-2 text-sm text-red-800">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>
+                            {cuotasVencidas.length === 1
+                                ? `La cuota de monotributo de ${formatPeriod(cuotasVencidas[0].period)} está vencida y sin registrar el pago.`
+                                : `Hay ${cuotasVencidas.length} cuotas de monotributo vencidas sin registrar el pago.`}
+                        </span>
+                    </div>
+                    <button
+                        onClick={onOpenCuotas}
+                        className="text-sm font-bold px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700 shrink-0"
+                    >
+                        Ver cuotas
+                    </button>
+                </div>
+            )}
+
             {/* Stats Cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
                     <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Facturado este mes</p>
                     <p className="text-2xl font-bold text-gray-900 mt-2">{fmtMoney(totalMes)}</p>
-                    <p className="text-sm text-gray-500 mt-1">{facturadosMes.length} {facturadosMes.length === 1 ? 'venta' : 'ventas'}</p>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {facturadosMes.length} {facturadosMes.length === 1 ? 'venta' : 'ventas'}
+                        {notasCreditoMes.length > 0 && <span className="text-teal-700"> · −{fmtMoney(totalNotasCreditoMes)} en NC</span>}
+                    </p>
                 </div>
                 <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
                     <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Facturado en {selYear}</p>
@@ -1391,16 +2771,16 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                     <p className="text-sm text-gray-500 mt-1">{facturadosRolling.length} ventas — ultimos 365 dias</p>
                 </div>
                 <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Tope anual cat. {CATEGORIA_ACTUAL}</p>
-                    <p className="text-2xl font-bold text-gray-900 mt-2">{fmtMoney(TOPE.anual)}</p>
-                    <p className="text-sm text-gray-500 mt-1">{fmtMoney(TOPE.anual - totalRolling)} restante</p>
+                    <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Tope anual cat. {categoria || '—'}</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-2">{fmtMoney(tope.anual)}</p>
+                    <p className="text-sm text-gray-500 mt-1">{fmtMoney(tope.anual - totalRolling)} restante</p>
                 </div>
             </div>
 
             {/* Progress bar — rolling 12 meses */}
             <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
                 <div className="flex justify-between items-center mb-3">
-                    <p className="text-sm font-semibold text-gray-700">Progreso rolling 12 meses vs tope cat. {CATEGORIA_ACTUAL}</p>
+                    <p className="text-sm font-semibold text-gray-700">Progreso rolling 12 meses vs tope cat. {categoria || '—'}</p>
                     <p className="text-sm font-bold" style={{ color: getProgressColor(porcentajeRolling) }}>
                         {porcentajeRolling.toFixed(1)}%
                     </p>
@@ -1416,7 +2796,7 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                 </div>
                 <div className="flex justify-between mt-2 text-xs text-gray-400">
                     <span>{fmtMoney(totalRolling)} facturado</span>
-                    <span>{fmtMoney(Math.max(TOPE.anual - totalRolling, 0))} restante</span>
+                    <span>{fmtMoney(Math.max(tope.anual - totalRolling, 0))} restante</span>
                 </div>
                 {progressMsg && (
                     <div className={`mt-3 flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${progressMsg.color}`}>
@@ -1431,27 +2811,31 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                 <p className="text-sm font-semibold text-gray-700 mb-4">Facturado por mes — {selYear}</p>
                 <div className="relative">
                     {/* Reference lines */}
-                    <div
-                        className="absolute left-0 right-0 border-t-2 border-dashed border-gray-300 z-10 pointer-events-none"
-                        style={{ bottom: `${lineTopePercent}%` }}
-                    >
-                        <span className="absolute right-0 -top-4 text-[9px] text-gray-400 font-medium bg-white px-1">
-                            {fmtMoney(TOPE.mensualTope)} tope
-                        </span>
-                    </div>
-                    <div
-                        className="absolute left-0 right-0 border-t-2 border-dashed border-emerald-400 z-10 pointer-events-none"
-                        style={{ bottom: `${lineSeguroPercent}%` }}
-                    >
-                        <span className="absolute right-0 -top-4 text-[9px] text-emerald-500 font-medium bg-white px-1">
-                            {fmtMoney(TOPE.mensualSeguro)} holgado
-                        </span>
-                    </div>
+                    {currentLimit && (
+                        <>
+                            <div
+                                className="absolute left-0 right-0 border-t-2 border-dashed border-gray-300 z-10 pointer-events-none"
+                                style={{ bottom: `${lineTopePercent}%` }}
+                            >
+                                <span className="absolute right-0 -top-4 text-[9px] text-gray-400 font-medium bg-white px-1">
+                                    {fmtMoney(tope.mensualTope)} tope
+                                </span>
+                            </div>
+                            <div
+                                className="absolute left-0 right-0 border-t-2 border-dashed border-emerald-400 z-10 pointer-events-none"
+                                style={{ bottom: `${lineSeguroPercent}%` }}
+                            >
+                                <span className="absolute right-0 -top-4 text-[9px] text-emerald-500 font-medium bg-white px-1">
+                                    {fmtMoney(tope.mensualSeguro)} holgado
+                                </span>
+                            </div>
+                        </>
+                    )}
                     <div className="flex items-end gap-1 sm:gap-2 h-44">
                         {monthlyTotals.map(m => {
-                            const barColor = m.total > TOPE.mensualTope
+                            const barColor = currentLimit && m.total > tope.mensualTope
                                 ? 'bg-red-500'
-                                : m.total > TOPE.mensualSeguro
+                                : currentLimit && m.total > tope.mensualSeguro
                                     ? 'bg-amber-400'
                                     : m.month === selMonth - 1
                                         ? 'bg-blue-600'
@@ -1467,7 +2851,7 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                                         className={`w-full rounded-t-md transition-all duration-500 cursor-pointer ${barColor}`}
                                         style={{ height: `${Math.max((m.total / barMax) * 100, m.total > 0 ? 4 : 1)}%` }}
                                         title={`${monthNames[m.month]}: ${fmtMoney(m.total)} (${m.count} ventas)`}
-                                        onClick={() => setSelectedMonth(`${selYear}-${String(m.month + 1).padStart(2, '0')}`)}
+                                        onClick={() => onSelectMonth(`${selYear}-${String(m.month + 1).padStart(2, '0')}`)}
                                     />
                                     <span className={`text-[10px] font-medium ${m.month === selMonth - 1 ? 'text-blue-600' : 'text-gray-400'}`}>
                                         {m.label}
@@ -1478,11 +2862,23 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                     </div>
                 </div>
                 {/* Sugerencia de tope mensual */}
-                <p className="mt-4 text-xs text-gray-400 text-center">
-                    Para mantenerte holgado en cat. {CATEGORIA_ACTUAL}, no factures mas de <span className="font-semibold text-gray-600">{fmtMoney(TOPE.mensualSeguro)}/mes</span> (tope anual / 12 x 0.85).
-                </p>
+                {currentLimit && (
+                    <p className="mt-4 text-xs text-gray-400 text-center">
+                        Para mantenerte holgado en cat. {categoria}, no factures mas de <span className="font-semibold text-gray-600">{fmtMoney(tope.mensualSeguro)}/mes</span> (tope anual / 12 x 0.85).
+                    </p>
+                )}
             </div>
 
+            <RecategorizacionAssistant
+                facturados={movimientos}
+                totalRolling={totalRolling}
+                categoryHistory={categoryHistory}
+                limits={limits}
+                now={now}
+                onStartCategory={onStartCategory}
+                onOpenMonotributo={onOpenMonotributo}
+            />
+
             {/* Table of facturados del mes */}
             <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
                 <div className="p-4 sm:p-6 border-b border-gray-100 flex justify-between items-center">
@@ -1502,31 +2898,44 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                     <>
                         {/* Mobile cards */}
                         <div className="sm:hidden p-3 space-y-3">
-                            {facturadosMes.map(item => (
-                                <div key={item.id} className="rounded-xl border border-gray-200 p-4">
+                            {facturadosMes.map(venta => (
+                                <div key={venta.id} className="rounded-xl border border-gray-200 p-4">
                                     <div className="flex justify-between items-start">
                                         <div>
-                                            <p className="font-semibold text-gray-900">{item.productName}</p>
-                                            <p className="text-xs text-gray-500 mt-0.5">{item.saleDate ? formatDateDDMMAAAA(item.saleDate) : '-'}</p>
+                                            <p className="font-semibold text-gray-900">{venta.productName}</p>
+                                            <p className="text-xs text-gray-500 mt-0.5">{venta.saleDate ? formatDateDDMMAAAA(venta.saleDate) : '-'}</p>
                                         </div>
-                                        <p className="font-bold text-gray-900">{fmtMoney(getItemTotal(item))}</p>
+                                        <p className="font-bold text-gray-900">{fmtMoney(venta.total)}</p>
                                     </div>
                                     <div className="mt-2 flex justify-between items-center text-sm">
                                         <div className="flex items-center gap-2">
-                                            <span className="text-gray-500">x{item.quantity} a {fmtMoney(item.salePrice || 0)}</span>
-                                            {item.envioAplica && item.envioCosto ? (
-                                                <span className="text-xs text-blue-600 flex items-center gap-0.5" title={item.envioMetodo || 'Envío'}>
-                                                    <Truck className="w-3 h-3" /> +{fmtMoney(item.envioCosto)}
+                                            <span className="text-gray-500">{venta.quantity} u. — {fmtMoney(venta.subtotal)}</span>
+                                            {venta.envioAplica && venta.envioCosto ? (
+                                                <span className="text-xs text-blue-600 flex items-center gap-0.5" title={venta.envioMetodo || 'Envío'}>
+                                                    <Truck className="w-3 h-3" /> +{fmtMoney(venta.envioCosto)}
                                                 </span>
                                             ) : null}
                                         </div>
-                                        <button
-                                            onClick={() => onToggleFacturado(item.id, false)}
-                                            className="text-xs text-red-500 hover:text-red-700 flex items-center gap-1"
-                                        >
-                                            <XCircle className="w-3 h-3" />
-                                            Desmarcar
-                                        </button>
+                                        <div className="flex items-center gap-3">
+                                            <button
+                                                onClick={() => setComprobanteVenta(venta)}
+                                                className="text-gray-400 hover:text-gray-700"
+                                                title="Factura en PDF"
+                                            >
+                                                <Printer className="w-4 h-4" />
+                                            </button>
+                                            {venta.order.cae ? (
+                                                <span className="text-xs font-mono text-gray-500" title={`CAE ${venta.order.cae}`}>C {formatComprobante(venta.order)}</span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => onUpdateOrder(venta.id, { facturado: false })}
+                                                    className="text-xs text-red-500 hover:text-red-700 flex items-center gap-1"
+                                                >
+                                                    <XCircle className="w-3 h-3" />
+                                                    Desmarcar
+                                                </button>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             ))}
@@ -1538,7 +2947,7 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                                     <tr>
                                         <th className="px-6 py-3">Producto</th>
                                         <th className="px-6 py-3 text-center">Cant.</th>
-                                        <th className="px-6 py-3 text-right">Precio Unit.</th>
+                                        <th className="px-6 py-3 text-right">Subtotal</th>
                                         <th className="px-6 py-3 text-right">Envío</th>
                                         <th className="px-6 py-3 text-right">Total</th>
                                         <th className="px-6 py-3 text-center">Fecha</th>
@@ -1546,37 +2955,49 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-100">
-                                    {facturadosMes.map(item => (
-                                        <tr key={item.id} className="hover:bg-gray-50/50 transition-colors">
-                                            <td className="px-6 py-4 font-medium text-gray-900">{item.productName}</td>
+                                    {facturadosMes.map(venta => (
+                                        <tr key={venta.id} className="hover:bg-gray-50/50 transition-colors">
+                                            <td className="px-6 py-4 font-medium text-gray-900">{venta.productName}</td>
                                             <td className="px-6 py-4 text-center">
-                                                <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded text-xs font-semibold">{item.quantity}</span>
+                                                <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded text-xs font-semibold">{venta.quantity}</span>
                                             </td>
-                                            <td className="px-6 py-4 text-right font-mono">{fmtMoney(item.salePrice || 0)}</td>
+                                            <td className="px-6 py-4 text-right font-mono">{fmtMoney(venta.subtotal)}</td>
                                             <td className="px-6 py-4 text-right font-mono text-xs">
-                                                {item.envioAplica && item.envioCosto ? (
-                                                    <span className="text-blue-600 cursor-help" title={item.envioMetodo || 'Envío'}>{fmtMoney(item.envioCosto)}</span>
+                                                {venta.envioAplica && venta.envioCosto ? (
+                                                    <span className="text-blue-600 cursor-help" title={venta.envioMetodo || 'Envío'}>{fmtMoney(venta.envioCosto)}</span>
                                                 ) : <span className="text-gray-300">-</span>}
                                             </td>
-                                            <td className="px-6 py-4 text-right font-mono font-bold text-gray-900">{fmtMoney(getItemTotal(item))}</td>
-                                            <td className="px-6 py-4 text-center text-xs text-gray-500">{item.saleDate ? formatDateDDMMAAAA(item.saleDate) : '-'}</td>
-                                            <td className="px-6 py-4 text-center">
+                                            <td className="px-6 py-4 text-right font-mono font-bold text-gray-900">{fmtMoney(venta.total)}</td>
+                                            <td className="px-6 py-4 text-center text-xs text-gray-500">{venta.saleDate ? formatDateDDMMAAAA(venta.saleDate) : '-'}</td>
+                                            <td className="px-6 py-4 text-center whitespace-nowrap">
                                                 <button
-                                                    onClick={() => onToggleFacturado(item.id, false)}
-                                                    className="text-xs text-red-500 hover:text-red-700 hover:bg-red-50 px-2 py-1 rounded transition-colors inline-flex items-center gap-1"
-                                                    title="Desmarcar facturacion"
+                                                    onClick={() => setComprobanteVenta(venta)}
+                                                    className="p-1 mr-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors align-middle"
+                                                    title="Factura en PDF"
                                                 >
-                                                    <XCircle className="w-3 h-3" />
-                                                    Desmarcar
+                                                    <Printer className="w-3.5 h-3.5" />
                                                 </button>
+                                                {/* Un comprobante con CAE no se desmarca: se anula con nota de crédito */}
+                                                {venta.order.cae ? (
+                                                    <span className="text-xs font-mono text-gray-500" title={`CAE ${venta.order.cae}`}>C {formatComprobante(venta.order)}</span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => onUpdateOrder(venta.id, { facturado: false })}
+                                                        className="text-xs text-red-500 hover:text-red-700 hover:bg-red-50 px-2 py-1 rounded transition-colors inline-flex items-center gap-1"
+                                                        title="Desmarcar facturacion"
+                                                    >
+                                                        <XCircle className="w-3 h-3" />
+                                                        Desmarcar
+                                                    </button>
+                                                )}
                                             </td>
                                         </tr>
                                     ))}
                                 </tbody>
                                 <tfoot>
                                     <tr className="bg-gray-50 font-bold text-gray-900">
-                                        <td className="px-6 py-3" colSpan={4}>Total del mes</td>
-                                        <td className="px-6 py-3 text-right font-mono">{fmtMoney(totalMes)}</td>
+                                        <td className="px-6 py-3" colSpan={4}>Total facturado del mes</td>
+                                        <td className="px-6 py-3 text-right font-mono">{fmtMoney(totalFacturasMes)}</td>
                                         <td colSpan={2}></td>
                                     </tr>
                                 </tfoot>
@@ -1586,11 +3007,61 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                 )}
             </div>
 
-            {facturarItem && <FacturarModal item={facturarItem} onClose={() => setFacturarItem(null)} onFacturado={(id) => onToggleFacturado(id, true)} onUpdateEnvio={onUpdateEnvio} />}
+            {/* Notas de crédito del mes: devoluciones de ventas facturadas */}
+            {notasCreditoMes.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                    <div className="p-4 sm:p-6 border-b border-gray-100 flex justify-between items-center">
+                        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                            <Undo2 className="w-4 h-4 text-teal-600" />
+                            Notas de crédito — {monthNames[selMonth - 1]} {selYear}
+                        </h3>
+                        <span className="text-sm font-mono font-bold text-teal-700">−{fmtMoney(totalNotasCreditoMes)}</span>
+                    </div>
+                    <div className="divide-y divide-gray-100">
+                        {notasCreditoMes.map(nota => (
+                            <div key={nota.id} className="px-4 sm:px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-gray-900 truncate">
+                                        {nota.lines.map(l => `${l.quantity}× ${l.productName}`).join(' + ')}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {formatDateDDMMAAAA(nota.returnDate)} · {returnReasonLabels[nota.reason] || nota.reason}
+                                        {nota.order?.cae ? ` · Factura C ${formatComprobante(nota.order)}` : ''}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-3 shrink-0">
+                                    <span className="font-mono font-bold text-teal-700">−{fmtMoney(nota.amount)}</span>
+                                    {nota.cae ? (
+                                        <span className="text-xs font-mono text-gray-500" title={`CAE ${nota.cae}`}>NC C {formatComprobante(nota)}</span>
+                                    ) : nota.order?.cae ? (
+                                        <button
+                                            onClick={async () => {
+                                                setEmittingId(nota.id);
+                                                await onEmitNotaCredito(nota);
+                                                setEmittingId(null);
+                                            }}
+                                            disabled={emittingId === nota.id}
+                                            className="text-xs font-bold px-2.5 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60 inline-flex items-center gap-1"
+                                        >
+                                            {emittingId === nota.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileText className="w-3 h-3" />}
+                                            Emitir NC
+                                        </button>
+                                    ) : (
+                                        <span className="text-xs text-gray-400">Emitida a mano</span>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {facturarVenta && <FacturarModal order={facturarVenta.order} lines={facturarVenta.lines} customers={customers} invoicingSettings={invoicingSettings} onCreateCustomer={onCreateCustomer} onClose={() => setFacturarVenta(null)} onFacturado={() => onUpdateOrder(facturarVenta.order.id, { facturado: true })} onInvoiced={(factura) => onOrderInvoiced(facturarVenta.order.id, factura)} onUpdateEnvio={(envio) => onUpdateOrder(facturarVenta.order.id, envio)} />}
+            {comprobanteVenta && <ComprobanteModal order={comprobanteVenta.order} lines={comprobanteVenta.lines} customer={customers.find(c => c.id === comprobanteVenta.order.customerId)} onClose={() => setComprobanteVenta(null)} />}
 
             {/* Ventas sin facturar */}
             {(() => {
-                const sinFacturar = items.filter(i => !i.facturado && !i.noFacturar && i.saleDate && afterCutoff(i.saleDate) && (i.itemType === 'personal' || i.condition !== 'usado'));
+                const sinFacturar = ventas.filter(v => !v.facturado && !v.noFacturar && v.quantity > 0 && canFacturarOrder(invoicingSettings, v.order, v.lines));
                 if (sinFacturar.length === 0) return null;
                 return (
                     <div className="bg-white rounded-2xl shadow-sm border border-amber-200 overflow-hidden">
@@ -1607,7 +3078,7 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                                     <tr>
                                         <th className="px-6 py-3">Producto</th>
                                         <th className="px-6 py-3 text-center">Cant.</th>
-                                        <th className="px-6 py-3 text-right">Precio</th>
+                                        <th className="px-6 py-3 text-right">Subtotal</th>
                                         <th className="px-6 py-3 text-right">Envío</th>
                                         <th className="px-6 py-3 text-right">Total</th>
                                         <th className="px-6 py-3 text-center">Fecha Venta</th>
@@ -1615,29 +3086,29 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-100">
-                                    {sinFacturar.slice(0, 20).map(item => (
-                                        <tr key={item.id} className="hover:bg-gray-50/50 transition-colors">
-                                            <td className="px-6 py-3 font-medium text-gray-900">{item.productName}</td>
-                                            <td className="px-6 py-3 text-center text-xs">{item.quantity}</td>
-                                            <td className="px-6 py-3 text-right font-mono text-xs">{fmtMoney(item.salePrice || 0)}</td>
+                                    {sinFacturar.slice(0, 20).map(venta => (
+                                        <tr key={venta.id} className="hover:bg-gray-50/50 transition-colors">
+                                            <td className="px-6 py-3 font-medium text-gray-900">{venta.productName}</td>
+                                            <td className="px-6 py-3 text-center text-xs">{venta.quantity}</td>
+                                            <td className="px-6 py-3 text-right font-mono text-xs">{fmtMoney(venta.subtotal)}</td>
                                             <td className="px-6 py-3 text-right font-mono text-xs">
-                                                {item.envioAplica && item.envioCosto ? (
-                                                    <span className="text-blue-600 cursor-help" title={item.envioMetodo || 'Envío'}>{fmtMoney(item.envioCosto)}</span>
+                                                {venta.envioAplica && venta.envioCosto ? (
+                                                    <span className="text-blue-600 cursor-help" title={venta.envioMetodo || 'Envío'}>{fmtMoney(venta.envioCosto)}</span>
                                                 ) : <span className="text-gray-300">-</span>}
                                             </td>
-                                            <td className="px-6 py-3 text-right font-mono font-medium">{fmtMoney(getItemTotal(item))}</td>
-                                            <td className="px-6 py-3 text-center text-xs text-gray-500">{item.saleDate ? formatDateDDMMAAAA(item.saleDate) : '-'}</td>
+                                            <td className="px-6 py-3 text-right font-mono font-medium">{fmtMoney(venta.total)}</td>
+                                            <td className="px-6 py-3 text-center text-xs text-gray-500">{venta.saleDate ? formatDateDDMMAAAA(venta.saleDate) : '-'}</td>
                                             <td className="px-6 py-3 text-center">
                                                 <div className="flex items-center justify-center gap-1">
                                                     <button
-                                                        onClick={() => setFacturarItem(item)}
+                                                        onClick={() => setFacturarVenta(venta)}
                                                         className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-2 py-1 rounded transition-colors inline-flex items-center gap-1"
                                                     >
                                                         <FileText className="w-3 h-3" />
                                                         Facturar
                                                     </button>
                                                     <button
-                                                        onClick={() => onToggleNoFacturar(item.id, true)}
+                                                        onClick={() => onUpdateOrder(venta.id, { noFacturar: true })}
                                                         className="text-gray-400 hover:text-red-500 hover:bg-red-50 p-1 rounded transition-colors"
                                                         title="Excluir de facturacion"
                                                     >
@@ -1651,25 +3122,25 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
                             </table>
                         </div>
                         <div className="sm:hidden p-3 space-y-2">
-                            {sinFacturar.slice(0, 20).map(item => (
-                                <div key={item.id} className="flex justify-between items-center rounded-lg border border-gray-200 p-3">
+                            {sinFacturar.slice(0, 20).map(venta => (
+                                <div key={venta.id} className="flex justify-between items-center rounded-lg border border-gray-200 p-3">
                                     <div>
-                                        <p className="font-medium text-gray-900 text-sm">{item.productName}</p>
+                                        <p className="font-medium text-gray-900 text-sm">{venta.productName}</p>
                                         <p className="text-xs text-gray-500">
-                                            {fmtMoney((item.salePrice || 0) * item.quantity)}
-                                            {item.envioAplica && item.envioCosto ? <span className="text-blue-600"> +envío {fmtMoney(item.envioCosto)}</span> : null}
-                                            {' — '}{item.saleDate ? formatDateDDMMAAAA(item.saleDate) : ''}
+                                            {fmtMoney(venta.subtotal)}
+                                            {venta.envioAplica && venta.envioCosto ? <span className="text-blue-600"> +envío {fmtMoney(venta.envioCosto)}</span> : null}
+                                            {' — '}{venta.saleDate ? formatDateDDMMAAAA(venta.saleDate) : ''}
                                         </p>
                                     </div>
                                     <div className="flex gap-1 flex-shrink-0">
                                         <button
-                                            onClick={() => setFacturarItem(item)}
+                                            onClick={() => setFacturarVenta(venta)}
                                             className="bg-blue-600 text-white text-xs px-2 py-1 rounded"
                                         >
                                             Facturar
                                         </button>
                                         <button
-                                            onClick={() => onToggleNoFacturar(item.id, true)}
+                                            onClick={() => onUpdateOrder(venta.id, { noFacturar: true })}
                                             className="text-gray-400 hover:text-red-500 p-1 rounded"
                                             title="No facturar"
                                         >
@@ -1686,173 +3157,2670 @@ function FacturacionTab({ items, onToggleFacturado, onToggleNoFacturar, onUpdate
     );
 }
 
-// Helper: format date to DD/MM/AAAA with zero-padded day/month
-function formatDateDDMMAAAA(dateStr: string): string {
-    const d = new Date(dateStr);
-    const day = String(d.getDate()).padStart(2, '0');
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const year = d.getFullYear();
-    return `${day}/${month}/${year}`;
+// Fecha AAAA-MM-DD local, sin pasar por UTC
+function toDateKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 }
 
-// Facturar ARCA Modal
-function FacturarModal({ item, onClose, onFacturado, onUpdateEnvio }: { item: Item; onClose: () => void; onFacturado?: (id: string) => void; onUpdateEnvio?: (id: string, envio: { envioAplica: boolean; envioCosto: number; envioMetodo: string; formasPago?: string[]; montoEfectivo?: number; montoTransferencia?: number; montoTarjeta?: number; montoMercadoPago?: number; montoOtro?: number }) => void }) {
-    const [producto, setProducto] = useState(
-        item.itemType === 'personal' ? `${item.productName} usado` : item.productName
-    );
-    const [cantidad, setCantidad] = useState(item.quantity);
-    const [precio, setPrecio] = useState(item.salePrice || 0);
-    const [fecha, setFecha] = useState(() => {
-        const now = new Date();
-        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const maxPastDate = new Date(today);
-        maxPastDate.setDate(today.getDate() - 3);
+// AAAA-MM-DD -> DD/MM/AAAA (los campos date de la base no tienen hora)
+function formatDateKey(dateKey: string): string {
+    return dateKey.split('-').reverse().join('/');
+}
 
-        let saleDate = today;
-        if (item.saleDate) {
-            if (/^\d{4}-\d{2}-\d{2}$/.test(item.saleDate)) {
-                const [y, m, d] = item.saleDate.split('-').map(Number);
-                saleDate = new Date(y, m - 1, d);
-            } else {
-                const parsed = new Date(item.saleDate);
-                if (!isNaN(parsed.getTime())) {
-                    saleDate = new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
-                }
-            }
-        }
+const mesesRecategorizacion = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
 
-        // ARCA limit: Max 3 days in the past from today
-        const targetDate = saleDate < maxPastDate ? maxPastDate : saleDate;
+// AAAA-MM -> "abril 2026"
+function formatPeriod(period: string): string {
+    const [year, month] = period.split('-').map(Number);
+    return `${mesesRecategorizacion[month - 1]} ${year}`;
+}
 
-        const yyyy = targetDate.getFullYear();
-        const mm = String(targetDate.getMonth() + 1).padStart(2, '0');
-        const dd = String(targetDate.getDate()).padStart(2, '0');
-        return `${yyyy}-${mm}-${dd}`;
-    });
+// Asistente de recategorización semestral (enero / julio)
+function RecategorizacionAssistant({ facturados, totalRolling, categoryHistory, limits, now, onStartCategory, onOpenMonotributo }: {
+    facturados: Array<{ saleDate?: string; total: number }>,
+    totalRolling: number,
+    categoryHistory: MonotributoCategoryPeriod[],
+    limits: MonotributoLimit[],
+    now: Date,
+    onStartCategory: (period: Omit<MonotributoCategoryPeriod, 'id' | 'validTo'>) => Promise<boolean>,
+    onOpenMonotributo: () => void
+}) {
+    const [isSaving, setIsSaving] = useState(false);
+    const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+    const fmtMonth = (date: Date) => `${mesesRecategorizacion[date.getMonth()]} ${date.getFullYear()}`;
+
+    const recategorizacion = getRecategorizacion(now);
+    const totalVentana = facturados
+        .filter(v => {
+            if (!v.saleDate) return false;
+            const d = new Date(v.saleDate);
+            return d >= recategorizacion.from && d <= recategorizacion.to;
+        })
+        .reduce((acc, v) => acc + v.total, 0);
+
+    const table = getLimitsForYear(limits, recategorizacion.checkDate.getFullYear());
+    const recommended = recommendCategory(totalVentana, table);
+    const actual = getCategoryAt(categoryHistory, now);
+    const actualLimit = table.find(l => l.category === actual?.category);
+    const effectiveKey = toDateKey(recategorizacion.effectiveFrom);
+    const latestFrom = categoryHistory.reduce((max, p) => p.validFrom > max ? p.validFrom : max, '');
+    const yaAplicada = !!recommended && (
+        actual?.category === recommended.category ||
+        categoryHistory.some(p => p.validFrom === effectiveKey && p.category === recommended.category)
+    );
+    const diferenciaCuota = recommended?.cuotaMensual != null && actualLimit?.cuotaMensual != null
+        ? recommended.cuotaMensual - actualLimit.cuotaMensual
+        : null;
 
-    const isDateAdjusted = (() => {
-        if (!item.saleDate) return false;
-        let origStr = '';
-        if (/^\d{4}-\d{2}-\d{2}$/.test(item.saleDate)) {
-            origStr = item.saleDate;
-        } else {
-            const parsed = new Date(item.saleDate);
-            if (!isNaN(parsed.getTime())) {
-                const yyyy = parsed.getFullYear();
-                const mm = String(parsed.getMonth() + 1).padStart(2, '0');
-                const dd = String(parsed.getDate()).padStart(2, '0');
-                origStr = `${yyyy}-${mm}-${dd}`;
-            }
-        }
-        return origStr !== '' && origStr < fecha;
-    })();
-    const [formasPagoSelected, setFormasPagoSelected] = useState<string[]>(item.formasPago || ['transferencia']);
-    const [montos, setMontos] = useState<Record<string, number>>({});
-    const [envioAplica, setEnvioAplica] = useState(item.envioAplica || false);
-    const [envioCosto, setEnvioCosto] = useState(item.envioCosto || 0);
-    const [envioMetodo, setEnvioMetodo] = useState(item.envioMetodo || '');
-    const [showEnvioWarning, setShowEnvioWarning] = useState(false);
-    const [step, setStep] = useState<'form' | 'confirm'>('form');
-
-    const formasPago = [
-        { label: 'Contado', value: 'contado' },
-        { label: 'Tarjeta de Débito', value: 'tarjeta_debito' },
-        { label: 'Tarjeta de Crédito', value: 'tarjeta_credito' },
-        { label: 'Cuenta Corriente', value: 'cuenta_corriente' },
-        { label: 'Cheque', value: 'cheque' },
-        { label: 'Transferencia Bancaria', value: 'transferencia' },
-        { label: 'Otra', value: 'otra' },
-        { label: 'Otros medios de pago electrónico', value: 'electronico' },
-    ];
+    // Proyección: si los próximos 12 meses se parecen a los últimos 12
+    const nextCheck = getNextRecategorizacion(now);
+    const proyectada = recommendCategory(totalRolling, getLimitsForYear(limits, nextCheck.getFullYear()));
 
-    const metodosEnvio = [
-        'Uber Flash',
-        'Mensajería local',
-        'Correo Andreani',
-        'Correo OCA',
-        'Vía Cargo',
-        'Otro',
-    ];
+    const handleApply = async () => {
+        if (!recommended) return;
+        setIsSaving(true);
+        await onStartCategory({
+            category: recommended.category,
+            validFrom: effectiveKey,
+            notes: `Recategorización ${fmtMonth(recategorizacion.checkDate)}`
+        });
+        setIsSaving(false);
+    };
 
-    const totalProducto = cantidad * Math.round(precio);
-    const totalConEnvio = totalProducto + (envioAplica ? Math.round(envioCosto) : 0);
+    return (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+            <div className="flex justify-between items-start gap-3">
+                <div>
+                    <p className="text-sm font-semibold text-gray-700">Recategorización de {fmtMonth(recategorizacion.checkDate)}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                        Ingresos facturados del {formatDateKey(toDateKey(recategorizacion.from))} al {formatDateKey(toDateKey(recategorizacion.to))} — la categoría rige desde {formatDateKey(effectiveKey)}.
+                    </p>
+                </div>
+                <p className="text-lg font-bold text-gray-900 shrink-0">{fmtMoney(totalVentana)}</p>
+            </div>
 
-    const sumaMontos = Object.values(montos).reduce((a, b) => a + b, 0);
-    const multiPago = formasPagoSelected.length > 1;
+            {table.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    Cargá la tabla de topes de {recategorizacion.checkDate.getFullYear()} para calcular la categoría.{' '}
+                    <button onClick={onOpenMonotributo} className="text-blue-600 font-semibold hover:underline">Configurar</button>
+                </p>
+            ) : !recommended ? (
+                <div className="flex items-start gap-2 px-3 py-2 rounded-lg text-sm bg-red-50 text-red-700">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>Los ingresos superan el tope de la categoría K ({fmtMoney(table[table.length - 1].ingresosAnuales)}): corresponde la exclusión del monotributo.</span>
+                </div>
+            ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="text-sm text-gray-600 space-y-1">
+                        <p>
+                            Categoría actual <span className="font-bold text-gray-900">{actual?.category || '—'}</span>
+                            {' → '}corresponde <span className="font-bold text-gray-900">{recommended.category}</span>
+                            <span className="text-gray-400"> (tope {fmtMoney(recommended.ingresosAnuales)})</span>
+                        </p>
+                        {diferenciaCuota != null && diferenciaCuota !== 0 && (
+                            <p className={diferenciaCuota > 0 ? 'text-orange-600' : 'text-emerald-600'}>
+                                Cuota mensual {fmtMoney(recommended.cuotaMensual || 0)} ({diferenciaCuota > 0 ? '+' : '-'}{fmtMoney(Math.abs(diferenciaCuota))}/mes)
+                            </p>
+                        )}
+                    </div>
+                    {yaAplicada ? (
+                        <span className="text-xs font-bold px-2.5 py-1.5 rounded-lg bg-emerald-50 text-emerald-700 flex items-center gap-1.5 shrink-0">
+                            <CheckCircle className="w-3.5 h-3.5" />
+                            Registrada
+                        </span>
+                    ) : effectiveKey > latestFrom ? (
+                        <button
+                            onClick={handleApply}
+                            disabled={isSaving}
+                            className="text-sm font-bold px-3 py-1.5 rounded-lg bg-black text-white hover:bg-gray-800 disabled:opacity-50 shrink-0"
+                        >
+                            {isSaving ? 'Guardando...' : `Registrar categoría ${recommended.category}`}
+                        </button>
+                    ) : null}
+                </div>
+            )}
 
-    const toggleFormaPago = (value: string) => {
-        setFormasPagoSelected(prev => {
-            if (prev.includes(value)) {
-                if (prev.length === 1) return prev;
-                setMontos(m => { const next = { ...m }; delete next[value]; return next; });
-                return prev.filter(v => v !== value);
-            }
-            return [...prev, value];
+            <p className="text-xs text-gray-400 border-t border-gray-100 pt-3">
+                Próxima recategorización: {fmtMonth(nextCheck)}.{' '}
+                {proyectada
+                    ? <>Al ritmo de los últimos 12 meses ({fmtMoney(totalRolling)}) correspondería la categoría <span className="font-semibold text-gray-600">{proyectada.category}</span>.</>
+                    : getLimitsForYear(limits, nextCheck.getFullYear()).length > 0 && <>Al ritmo de los últimos 12 meses ({fmtMoney(totalRolling)}) se superaría la categoría K.</>}
+            </p>
+        </div>
+    );
+}
+
+// Configuración del monotributo: historial de categorías y tablas anuales de topes
+function MonotributoSettings({ categoryHistory, limits, onStartCategory, onDeleteCategoryPeriod, onSaveYearLimits, onBack }: {
+    categoryHistory: MonotributoCategoryPeriod[],
+    limits: MonotributoLimit[],
+    onStartCategory: (period: Omit<MonotributoCategoryPeriod, 'id' | 'validTo'>) => Promise<boolean>,
+    onDeleteCategoryPeriod: (period: MonotributoCategoryPeriod) => void,
+    onSaveYearLimits: (year: number, rows: Array<Omit<MonotributoLimit, 'id' | 'year'>>) => Promise<boolean>,
+    onBack: () => void
+}) {
+    const sortedHistory = [...categoryHistory].sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+    const latestFrom = sortedHistory[0]?.validFrom || '';
+    const years = Array.from(new Set(limits.map(l => l.year))).sort((a, b) => b - a);
+
+    const [newPeriod, setNewPeriod] = useState<{ category: MonotributoCategory; validFrom: string; notes: string }>({
+        category: sortedHistory[0]?.category || 'A',
+        validFrom: toDateKey(new Date()),
+        notes: ''
+    });
+    const [isSavingPeriod, setIsSavingPeriod] = useState(false);
+    const [selectedYear, setSelectedYear] = useState<number>(years[0] || new Date().getFullYear());
+    const [isSavingLimits, setIsSavingLimits] = useState(false);
+
+    // Filas editables del año elegido; un año nuevo arranca copiando el último cargado
+    const buildDraft = (year: number) => {
+        const source = getLimitsForYear(limits, year);
+        return CATEGORIAS.map(category => {
+            const limit = source.find(l => l.category === category);
+            return {
+                category,
+                ingresosAnuales: limit ? String(limit.ingresosAnuales) : '',
+                cuotaMensual: limit?.cuotaMensual != null ? String(limit.cuotaMensual) : '',
+                cuotaImpuesto: limit?.cuotaImpuesto != null ? String(limit.cuotaImpuesto) : '',
+                cuotaJubilacion: limit?.cuotaJubilacion != null ? String(limit.cuotaJubilacion) : '',
+                cuotaObraSocial: limit?.cuotaObraSocial != null ? String(limit.cuotaObraSocial) : ''
+            };
         });
     };
+    type DraftRow = ReturnType<typeof buildDraft>[number];
+    const optionalNumber = (value: string) => value.trim() ? Number(value) : undefined;
+
+    // Con los componentes cargados el total es su suma; si no, se edita el total a mano
+    const draftCuota = (row: DraftRow) => getCuotaFromLimit({
+        id: '',
+        year: selectedYear,
+        category: row.category,
+        ingresosAnuales: 0,
+        cuotaMensual: optionalNumber(row.cuotaMensual),
+        cuotaImpuesto: optionalNumber(row.cuotaImpuesto),
+        cuotaJubilacion: optionalNumber(row.cuotaJubilacion),
+        cuotaObraSocial: optionalNumber(row.cuotaObraSocial)
+    });
+    const hasComponents = (row: DraftRow) => [row.cuotaImpuesto, row.cuotaJubilacion, row.cuotaObraSocial].some(v => v.trim());
+    const [draft, setDraft] = useState(() => buildDraft(selectedYear));
 
-    const mapMontosToDb = () => {
-        let efectivo = 0, transferencia = 0, tarjeta = 0, mercadoPago = 0, otro = 0;
-        for (const [key, val] of Object.entries(montos)) {
-            switch (key) {
-                case 'contado': efectivo += val; break;
-                case 'transferencia': transferencia += val; break;
-                case 'tarjeta_debito': case 'tarjeta_credito': tarjeta += val; break;
-                case 'electronico': mercadoPago += val; break;
-                default: otro += val; break;
-            }
+    const selectYear = (year: number) => {
+        setSelectedYear(year);
+        setDraft(buildDraft(year));
+    };
+
+    const handleAddPeriod = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPeriod.validFrom <= latestFrom) {
+            alert(`La nueva categoría tiene que empezar después del ${formatDateKey(latestFrom)}.`);
+            return;
         }
-        return { montoEfectivo: efectivo, montoTransferencia: transferencia, montoTarjeta: tarjeta, montoMercadoPago: mercadoPago, montoOtro: otro };
+        setIsSavingPeriod(true);
+        const ok = await onStartCategory(newPeriod);
+        setIsSavingPeriod(false);
+        if (ok) setNewPeriod(prev => ({ ...prev, notes: '' }));
     };
 
-    const handleFacturar = () => {
-        if (formasPagoSelected.length === 0) {
-            alert('Seleccioná al menos una forma de pago');
+    const handleSaveLimits = async () => {
+        const rows = draft.map(row => ({
+            category: row.category,
+            ingresosAnuales: Number(row.ingresosAnuales),
+            cuotaMensual: draftCuota(row).total,
+            cuotaImpuesto: optionalNumber(row.cuotaImpuesto),
+            cuotaJubilacion: optionalNumber(row.cuotaJubilacion),
+            cuotaObraSocial: optionalNumber(row.cuotaObraSocial)
+        }));
+        if (rows.some(r => !(r.ingresosAnuales > 0))) {
+            alert('Completá el tope de ingresos anuales de todas las categorías.');
             return;
         }
-        if (envioAplica && envioCosto <= 0) {
-            alert('El costo de envío debe ser mayor a $0');
+        if (rows.some((r, i) => i > 0 && r.ingresosAnuales <= rows[i - 1].ingresosAnuales)) {
+            alert('Los topes tienen que crecer de la categoría A a la K.');
             return;
         }
-        if (envioAplica && envioCosto > precio * cantidad) {
-            if (!showEnvioWarning) {
+        setIsSavingLimits(true);
+        await onSaveYearLimits(selectedYear, rows);
+        setIsSavingLimits(false);
+    };
+
+    const yearOptions = Array.from(new Set([...years, selectedYear, new Date().getFullYear(), (years[0] || new Date().getFullYear()) + 1])).sort((a, b) => b - a);
+
+    return (
+        <div className="space-y-6">
+            <button onClick={onBack} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1.5">
+                <ArrowLeft className="w-4 h-4" />
+                Volver a facturación
+            </button>
+
+            {/* Historial de categorías */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-800">Categoría de monotributo</h2>
+                    <p className="text-sm text-gray-500 mt-1">Cada categoría rige hasta el día anterior a la siguiente.</p>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Categoría</th>
+                                <th className="py-2 pr-3 font-semibold">Desde</th>
+                                <th className="py-2 pr-3 font-semibold">Hasta</th>
+                                <th className="py-2 pr-3 font-semibold">Notas</th>
+                                <th className="py-2 w-10"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {sortedHistory.length === 0 && (
+                                <tr>
+                                    <td colSpan={5} className="py-4 text-center text-gray-400">Sin categorías cargadas</td>
+                                </tr>
+                            )}
+                            {sortedHistory.map((period, index) => (
+                                <tr key={period.id}>
+                                    <td className="py-2 pr-3 font-bold text-gray-900">{period.category}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{formatDateKey(period.validFrom)}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{period.validTo ? formatDateKey(period.validTo) : 'Vigente'}</td>
+                                    <td className="py-2 pr-3 text-gray-500">{period.notes || '—'}</td>
+                                    <td className="py-2 text-right">
+                                        {index === 0 && (
+                                            <button
+                                                onClick={() => onDeleteCategoryPeriod(period)}
+                                                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                                title="Eliminar"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <form onSubmit={handleAddPeriod} className="flex flex-col sm:flex-row gap-2 sm:items-end border-t border-gray-100 pt-4">
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Categoría
+                        <select
+                            value={newPeriod.category}
+                            onChange={e => setNewPeriod({ ...newPeriod, category: e.target.value as MonotributoCategory })}
+                            className="mt-1 block w-full sm:w-24 px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800"
+                        >
+                            {CATEGORIAS.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Desde
+                        <input
+                            type="date"
+                            required
+                            value={newPeriod.validFrom}
+                            onChange={e => setNewPeriod({ ...newPeriod, validFrom: e.target.value })}
+                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800"
+                        />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold flex-1">
+                        Notas
+                        <input
+                            type="text"
+                            value={newPeriod.notes}
+                            onChange={e => setNewPeriod({ ...newPeriod, notes: e.target.value })}
+                            placeholder="Ej: Recategorización julio"
+                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800"
+                        />
+                    </label>
+                    <button
+                        type="submit"
+                        disabled={isSavingPeriod}
+                        className="h-10 px-4 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Cambiar categoría
+                    </button>
+                </form>
+            </div>
+
+            {/* Tabla anual de topes */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-800">Topes y cuotas</h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {years.includes(selectedYear)
+                                ? `Tabla ${selectedYear} (venta de cosas muebles).`
+                                : `Todavía no hay tabla ${selectedYear}: se copió la del año anterior para editarla.`}
+                        </p>
+                    </div>
+                    <select
+                        value={selectedYear}
+                        onChange={e => selectYear(Number(e.target.value))}
+                        className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700"
+                    >
+                        {yearOptions.map(y => (
+                            <option key={y} value={y}>{y}{years.includes(y) ? '' : ' (nuevo)'}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Cat.</th>
+                                <th className="py-2 pr-3 font-semibold">Ingresos brutos anuales</th>
+                                <th className="py-2 pr-3 font-semibold">Impositivo</th>
+                                <th className="py-2 pr-3 font-semibold">Jubilación</th>
+                                <th className="py-2 pr-3 font-semibold">Obra social</th>
+                                <th className="py-2 font-semibold">Cuota mensual</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {draft.map((row, index) => (
+                                <tr key={row.category}>
+                                    <td className="py-1.5 pr-3 font-bold text-gray-900">{row.category}</td>
+                                    <td className="py-1.5 pr-3">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={row.ingresosAnuales}
+                                            onChange={e => setDraft(draft.map((r, i) => i === index ? { ...r, ingresosAnuales: e.target.value } : r))}
+                                            className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-800"
+                                        />
+                                    </td>
+                                    {(['cuotaImpuesto', 'cuotaJubilacion', 'cuotaObraSocial'] as const).map(field => (
+                                        <td key={field} className="py-1.5 pr-3">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={row[field]}
+                                                onChange={e => setDraft(draft.map((r, i) => i === index ? { ...r, [field]: e.target.value } : r))}
+                                                className="w-full min-w-24 px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-800"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="py-1.5">
+                                        {hasComponents(row) ? (
+                                            <span className="block px-2 py-1.5 text-sm font-semibold text-gray-900">
+                                                ${Math.round(draftCuota(row).total || 0).toLocaleString('es-AR')}
+                                            </span>
+                                        ) : (
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={row.cuotaMensual}
+                                                onChange={e => setDraft(draft.map((r, i) => i === index ? { ...r, cuotaMensual: e.target.value } : r))}
+                                                className="w-full min-w-24 px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-800"
+                                            />
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex justify-end">
+                    <button
+                        onClick={handleSaveLimits}
+                        disabled={isSavingLimits}
+                        className="h-10 px-4 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center gap-1.5"
+                    >
+                        <Save className="w-4 h-4" />
+                        {isSavingLimits ? 'Guardando...' : `Guardar ${selectedYear}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Cuotas mensuales de monotributo: lo que corresponde cada mes y su pago
+function MonotributoCuotas({ cuotas, onSavePayment, onDeletePayment, onOpenMonotributo, onBack }: {
+    cuotas: CuotaMensual[],
+    onSavePayment: (payment: Omit<MonotributoPayment, 'id'>, receipt?: File) => Promise<boolean>,
+    onDeletePayment: (payment: MonotributoPayment) => void,
+    onOpenMonotributo: () => void,
+    onBack: () => void
+}) {
+    const [payForm, setPayForm] = useState<{ period: string; paidAt: string; amount: string; notes: string; receipt: File | null } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fmtMoney = (n?: number) => n != null ? '$' + Math.round(n).toLocaleString('es-AR') : '—';
+    const currentYear = String(new Date().getFullYear());
+    const vencidas = cuotas.filter(c => c.status === 'vencida');
+    const totalVencido = getTotalCuotas(vencidas);
+    const pagadoAnio = cuotas
+        .filter(c => c.payment && c.payment.paidAt.startsWith(currentYear))
+        .reduce((acc, c) => acc + (c.payment?.amount || 0), 0);
+    const sinCuota = cuotas.some(c => c.status !== 'pagada' && c.total == null);
+
+    const openPayForm = (cuota: CuotaMensual) => setPayForm({
+        period: cuota.period,
+        paidAt: toDateKey(new Date()),
+        amount: cuota.total != null ? String(cuota.total) : '',
+        notes: '',
+        receipt: null
+    });
+
+    const handlePay = async (e: React.FormEvent, cuota: CuotaMensual) => {
+        e.preventDefault();
+        if (!payForm) return;
+        const amount = Number(payForm.amount);
+        if (!(amount > 0)) {
+            alert('Ingresá el monto pagado.');
+            return;
+        }
+        setIsSaving(true);
+        const ok = await onSavePayment({
+            period: cuota.period,
+            category: cuota.category,
+            impuesto: cuota.impuesto,
+            jubilacion: cuota.jubilacion,
+            obraSocial: cuota.obraSocial,
+            dueDate: cuota.dueDate,
+            paidAt: payForm.paidAt,
+            amount,
+            notes: payForm.notes
+        }, payForm.receipt || undefined);
+        setIsSaving(false);
+        if (ok) setPayForm(null);
+    };
+
+    const statusBadge = (cuota: CuotaMensual) => {
+        if (cuota.payment) {
+            return (
+                <span className="inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">
+                    <CheckCircle className="w-3 h-3" />
+                    Pagada {formatDateKey(cuota.payment.paidAt)}
+                </span>
+            );
+        }
+        return cuota.status === 'vencida' ? (
+            <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-red-100 text-red-700">Vencida</span>
+        ) : (
+            <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">Pendiente</span>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <button onClick={onBack} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1.5">
+                <ArrowLeft className="w-4 h-4" />
+                Volver a facturación
+            </button>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className={`p-5 rounded-2xl shadow-sm border ${vencidas.length > 0 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-100'}`}>
+                    <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Vencido sin pagar</p>
+                    <p className={`text-2xl font-bold mt-2 ${vencidas.length > 0 ? 'text-red-700' : 'text-gray-900'}`}>{fmtMoney(totalVencido)}</p>
+                    <p className="text-sm text-gray-500 mt-1">{vencidas.length} {vencidas.length === 1 ? 'cuota' : 'cuotas'}</p>
+                </div>
+                <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+                    <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Pagado en {currentYear}</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-2">{fmtMoney(pagadoAnio)}</p>
+                </div>
+            </div>
+
+            {sinCuota && (
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-start gap-2 text-sm text-amber-800">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>Hay meses sin cuota cargada en la tabla del año: no se suman a la ganancia neta.</span>
+                    </div>
+                    <button
+                        onClick={onOpenMonotributo}
+                        className="text-sm font-bold px-3 py-1.5 rounded-lg bg-amber-600 text-white hover:bg-amber-700 shrink-0"
+                    >
+                        Cargar cuotas
+                    </button>
+                </div>
+            )}
+
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-800">Cuotas de monotributo</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                        Vencen el día {DIA_VENCIMIENTO_CUOTA} de cada mes, según la categoría vigente ese mes.
+                    </p>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Mes</th>
+                                <th className="py-2 pr-3 font-semibold">Cat.</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Impositivo</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Jubilación</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Obra social</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Total</th>
+                                <th className="py-2 pr-3 font-semibold">Vence</th>
+                                <th className="py-2 pr-3 font-semibold">Estado</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {cuotas.length === 0 && (
+                                <tr>
+                                    <td colSpan={9} className="py-4 text-center text-gray-400">Sin categoría de monotributo cargada</td>
+                                </tr>
+                            )}
+                            {cuotas.map(cuota => (
+                                <Fragment key={cuota.period}>
+                                    <tr className={cuota.status === 'vencida' ? 'bg-red-50/50' : ''}>
+                                        <td className="py-2 pr-3 font-medium text-gray-900 capitalize">{formatPeriod(cuota.period)}</td>
+                                        <td className="py-2 pr-3 font-bold text-gray-900">{cuota.category}</td>
+                                        <td className="py-2 pr-3 text-right text-gray-600">{fmtMoney(cuota.impuesto)}</td>
+                                        <td className="py-2 pr-3 text-right text-gray-600">{fmtMoney(cuota.jubilacion)}</td>
+                                        <td className="py-2 pr-3 text-right text-gray-600">{fmtMoney(cuota.obraSocial)}</td>
+                                        <td className="py-2 pr-3 text-right font-semibold text-gray-900">{fmtMoney(cuota.total)}</td>
+                                        <td className="py-2 pr-3 text-gray-600">{formatDateKey(cuota.dueDate)}</td>
+                                        <td className="py-2 pr-3 whitespace-nowrap">{statusBadge(cuota)}</td>
+                                        <td className="py-2 text-right whitespace-nowrap">
+                                            {cuota.payment ? (
+                                                <div className="flex items-center justify-end gap-1">
+                                                    {cuota.payment.receiptUrl && (
+                                                        <a
+                                                            href={cuota.payment.receiptUrl}
+                                                            target="_blank"
+                                                            rel="noreferrer"
+                                                            className="p-1.5 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-blue-50"
+                                                            title="Ver comprobante"
+                                                        >
+                                                            <ImageIcon className="w-4 h-4" />
+                                                        </a>
+                                                    )}
+                                                    <button
+                                                        onClick={() => onDeletePayment(cuota.payment!)}
+                                                        className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                                        title="Desmarcar pago"
+                                                    >
+                                                        <Undo2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <button
+                                                    onClick={() => payForm?.period === cuota.period ? setPayForm(null) : openPayForm(cuota)}
+                                                    className="text-xs font-bold px-2.5 py-1.5 rounded-lg bg-black text-white hover:bg-gray-800"
+                                                >
+                                                    Registrar pago
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                    {payForm?.period === cuota.period && !cuota.payment && (
+                                        <tr>
+                                            <td colSpan={9} className="py-3">
+                                                <form onSubmit={e => handlePay(e, cuota)} className="flex flex-col sm:flex-row gap-2 sm:items-end bg-gray-50 rounded-xl p-3">
+                                                    <label className="text-xs text-gray-500 font-semibold">
+                                                        Fecha de pago
+                                                        <input
+                                                            type="date"
+                                                            required
+                                                            value={payForm.paidAt}
+                                                            onChange={e => setPayForm({ ...payForm, paidAt: e.target.value })}
+                                                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800"
+                                                        />
+                                                    </label>
+                                                    <label className="text-xs text-gray-500 font-semibold">
+                                                        Monto pagado
+                                                        <input
+                                                            type="number"
+                                                            min="0"
+                                                            step="0.01"
+                                                            required
+                                                            value={payForm.amount}
+                                                            onChange={e => setPayForm({ ...payForm, amount: e.target.value })}
+                                                            className="mt-1 block w-full sm:w-32 px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800"
+                                                        />
+                                                    </label>
+                                                    <label className="text-xs text-gray-500 font-semibold">
+                                                        Comprobante
+                                                        <input
+                                                            type="file"
+                                                            accept="image/*"
+                                                            onChange={e => setPayForm({ ...payForm, receipt: e.target.files?.[0] || null })}
+                                                            className="mt-1 block w-full text-sm text-gray-700 file:mr-2 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-white file:text-gray-700"
+                                                        />
+                                                    </label>
+                                                    <label className="text-xs text-gray-500 font-semibold flex-1">
+                                                        Notas
+                                                        <input
+                                                            type="text"
+                                                            value={payForm.notes}
+                                                            onChange={e => setPayForm({ ...payForm, notes: e.target.value })}
+                                                            placeholder="Ej: Débito automático"
+                                                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800"
+                                                        />
+                                                    </label>
+                                                    <button
+                                                        type="submit"
+                                                        disabled={isSaving}
+                                                        className="h-10 px-4 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                                                    >
+                                                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                                        Marcar pagada
+                                                    </button>
+                                                </form>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Reglas de facturación por período: corte, qué se factura, retroactividad y forma de pago
+function InvoicingSettingsPanel({ settings, onSave, onDelete, onBack }: {
+    settings: InvoicingSettings[],
+    onSave: (settings: Omit<InvoicingSettings, 'id'>, id?: string) => Promise<boolean>,
+    onDelete: (settings: InvoicingSettings) => void,
+    onBack: () => void
+}) {
+    const sorted = [...settings].sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+    const cutoff = getFacturacionCutoff(settings);
+    const labelOf = (options: Array<{ label: string; value: string }>, value: string) => options.find(o => o.value === value)?.label || value;
+
+    // Un período nuevo arranca con las reglas del último
+    const emptyForm = (): Omit<InvoicingSettings, 'id'> => ({
+        validFrom: toDateKey(new Date()),
+        eligibleConditions: sorted[0]?.eligibleConditions || ['nuevo', 'semi_uso'],
+        alwaysEligibleTypes: sorted[0]?.alwaysEligibleTypes || ['personal'],
+        maxBackdateDays: sorted[0]?.maxBackdateDays ?? 3,
+        defaultPaymentMethod: sorted[0]?.defaultPaymentMethod || 'transferencia'
+    });
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<Omit<InvoicingSettings, 'id'>>(emptyForm);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const startEdit = (period: InvoicingSettings) => {
+        setEditingId(period.id);
+        setForm({
+            validFrom: period.validFrom,
+            eligibleConditions: period.eligibleConditions,
+            alwaysEligibleTypes: period.alwaysEligibleTypes,
+            maxBackdateDays: period.maxBackdateDays,
+            defaultPaymentMethod: period.defaultPaymentMethod
+        });
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(emptyForm());
+    };
+
+    const toggle = <T extends string>(list: T[], value: T) =>
+        list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (settings.some(s => s.validFrom === form.validFrom && s.id !== editingId)) {
+            alert(`Ya hay reglas que empiezan el ${formatDateKey(form.validFrom)}.`);
+            return;
+        }
+        if (!(form.maxBackdateDays >= 0)) {
+            alert('Los días hacia atrás no pueden ser negativos.');
+            return;
+        }
+        setIsSaving(true);
+        const ok = await onSave(form, editingId || undefined);
+        setIsSaving(false);
+        if (ok) resetForm();
+    };
+
+    return (
+        <div className="space-y-6">
+            <button onClick={onBack} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1.5">
+                <ArrowLeft className="w-4 h-4" />
+                Volver a facturación
+            </button>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-800">Reglas de facturación</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {cutoff
+                            ? `Fecha de corte: ${formatDateKey(cutoff)}. Las ventas anteriores no se facturan; cada período rige hasta que empieza el siguiente.`
+                            : 'Sin reglas cargadas: no se puede facturar ninguna venta.'}
+                    </p>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Desde</th>
+                                <th className="py-2 pr-3 font-semibold">Condiciones (reventa)</th>
+                                <th className="py-2 pr-3 font-semibold">Siempre</th>
+                                <th className="py-2 pr-3 font-semibold">Días atrás</th>
+                                <th className="py-2 pr-3 font-semibold">Pago por defecto</th>
+                                <th className="py-2 w-20"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {sorted.map(period => (
+                                <tr key={period.id} className={editingId === period.id ? 'bg-blue-50/50' : ''}>
+                                    <td className="py-2 pr-3 font-bold text-gray-900">{formatDateKey(period.validFrom)}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{period.eligibleConditions.map(c => labelOf(CONDICIONES, c)).join(', ') || '—'}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{period.alwaysEligibleTypes.map(t => labelOf(TIPOS, t)).join(', ') || '—'}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{period.maxBackdateDays}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{labelOf(FORMAS_PAGO, period.defaultPaymentMethod)}</td>
+                                    <td className="py-2 text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => startEdit(period)}
+                                            className="p-1.5 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-blue-50"
+                                            title="Editar"
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                        </button>
+                                        {sorted.length > 1 && (
+                                            <button
+                                                onClick={() => onDelete(period)}
+                                                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                                title="Eliminar"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <h3 className="font-bold text-gray-800">{editingId ? 'Editar período' : 'Nuevo período'}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Desde
+                        <input
+                            type="date"
+                            required
+                            value={form.validFrom}
+                            onChange={e => setForm({ ...form, validFrom: e.target.value })}
+                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800"
+                        />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Días hacia atrás (ARCA)
+                        <input
+                            type="number"
+                            min={0}
+                            required
+                            value={form.maxBackdateDays}
+                            onChange={e => setForm({ ...form, maxBackdateDays: Number(e.target.value) })}
+                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800"
+                        />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Forma de pago por defecto
+                        <select
+                            value={form.defaultPaymentMethod}
+                            onChange={e => setForm({ ...form, defaultPaymentMethod: e.target.value })}
+                            className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800"
+                        >
+                            {FORMAS_PAGO.map(fp => <option key={fp.value} value={fp.value}>{fp.label}</option>)}
+                        </select>
+                    </label>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <p className="text-xs text-gray-500 font-semibold mb-2">Se facturan los artículos de reventa en estado</p>
+                        <div className="flex flex-wrap gap-3">
+                            {CONDICIONES.map(c => (
+                                <label key={c.value} className="flex items-center gap-1.5 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={form.eligibleConditions.includes(c.value)}
+                                        onChange={() => setForm({ ...form, eligibleConditions: toggle(form.eligibleConditions, c.value) })}
+                                    />
+                                    {c.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-xs text-gray-500 font-semibold mb-2">Se facturan siempre, en cualquier estado</p>
+                        <div className="flex flex-wrap gap-3">
+                            {TIPOS.map(t => (
+                                <label key={t.value} className="flex items-center gap-1.5 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={form.alwaysEligibleTypes.includes(t.value)}
+                                        onChange={() => setForm({ ...form, alwaysEligibleTypes: toggle(form.alwaysEligibleTypes, t.value) })}
+                                    />
+                                    {t.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="h-10 px-4 rounded-xl border border-gray-200 text-sm font-medium text-gray-600 hover:border-gray-300">
+                            Cancelar
+                        </button>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className="h-10 px-4 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center gap-1.5"
+                    >
+                        <Save className="w-4 h-4" />
+                        {isSaving ? 'Guardando...' : 'Guardar'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
+
+function CustomerForm({ initial, onSubmit, onCancel }: {
+    initial?: Customer,
+    onSubmit: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<void>,
+    onCancel: () => void
+}) {
+    const [name, setName] = useState(initial?.name || '');
+    const [phone, setPhone] = useState(initial?.phone || '');
+    const [city, setCity] = useState(initial?.city || '');
+    const [notes, setNotes] = useState(initial?.notes || '');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setIsSubmitting(true);
+        await onSubmit({ name, phone, city, notes });
+        setIsSubmitting(false);
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Nombre</label>
+                    <input type="text" required value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">WhatsApp</label>
+                    <input type="tel" placeholder="Ej: 5493885551234" value={phone} onChange={e => setPhone(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Ciudad</label>
+                    <input type="text" value={city} onChange={e => setCity(e.target.value)} className={inputClass} />
+                </div>
+            </div>
+            <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Notas</label>
+                <textarea rows={2} value={notes} onChange={e => setNotes(e.target.value)} className={inputClass} placeholder="Talles, preferencias, cómo prefiere pagar..." />
+            </div>
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                    Cancelar
+                </button>
+                <button type="submit" disabled={isSubmitting} className="px-4 py-2 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center gap-2">
+                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Guardar
+                </button>
+            </div>
+        </form>
+    );
+}
+
+const cajaTipoLabels: Record<CajaMovimientoTipo, { label: string; className: string }> = {
+    venta: { label: 'Venta', className: 'bg-emerald-100 text-emerald-700' },
+    liquidacion: { label: 'Liquidación', className: 'bg-lime-100 text-lime-700' },
+    sena: { label: 'Seña', className: 'bg-fuchsia-100 text-fuchsia-700' },
+    envio: { label: 'Envío', className: 'bg-blue-100 text-blue-700' },
+    tanda: { label: 'Tanda', className: 'bg-violet-100 text-violet-700' },
+    gasto: { label: 'Gasto', className: 'bg-amber-100 text-amber-700' },
+    devolucion: { label: 'Devolución', className: 'bg-teal-100 text-teal-700' },
+    ajuste: { label: 'Arqueo', className: 'bg-gray-200 text-gray-700' },
+};
+
+// Caja por medio de cobro: saldos, libro de movimientos, gastos y arqueos
+function CajaTab({ items, orders, batches, expenses, returns, reconciliations, resellers, settlements, reservations, invoicingSettings, onDeleteExpense, onSaveReconciliation, onDeleteReconciliation, onUpdateBatchChannel, month, onSelectMonth, onOpenGastos }: {
+    items: Item[],
+    orders: Order[],
+    batches: BatchRecord[],
+    expenses: Expense[],
+    returns: SaleReturn[],
+    reconciliations: CashReconciliation[],
+    resellers: Reseller[],
+    settlements: ResellerSettlement[],
+    reservations: Reservation[],
+    invoicingSettings: InvoicingSettings[],
+    onDeleteExpense: (expense: Expense) => void,
+    onSaveReconciliation: (reconciliation: Omit<CashReconciliation, 'id'>) => Promise<boolean>,
+    onDeleteReconciliation: (reconciliation: CashReconciliation) => void,
+    onUpdateBatchChannel: (batchId: string, channel: CashChannel) => void,
+    month?: string,
+    onSelectMonth: (month: string) => void,
+    onOpenGastos: () => void
+}) {
+    const todayKey = toDateKey(new Date());
+    const selectedMonth = month || todayKey.slice(0, 7);
+    const [channelFilter, setChannelFilter] = useState<CashChannel | 'todos'>('todos');
+    const [showArqueo, setShowArqueo] = useState(false);
+    const [arqueoForm, setArqueoForm] = useState({ date: todayKey, balance: '', channel: 'transferencia' as CashChannel, notes: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fmtMoney = (n: number) => (n < 0 ? '−$' : '$') + Math.abs(Math.round(n)).toLocaleString('es-AR');
+    const channelLabel = (channel: CashChannel) => CANALES.find(c => c.value === channel)?.label || channel;
+
+    // Entra lo cobrado: las ventas de vendedores solo cuando se marcan cobradas,
+    // y las liquidadas por lo que pagó el vendedor
+    const linesByOrder = groupLinesByOrder(items);
+    const ventas = orders
+        .filter(order => (order.cobrado || !order.vendedor) && linesByOrder.has(order.id))
+        .map(order => {
+            const lines = linesByOrder.get(order.id) || [];
+            return { order, total: getOrderTotal(order, lines), title: getOrderTitle(lines) };
+        });
+    const liquidaciones = settlements.map(settlement => ({ settlement, reseller: resellers.find(r => r.id === settlement.resellerId)?.name || 'vendedor' }));
+    const cajaInput = { ventas, liquidaciones, senas: reservations, tandas: batches, gastos: expenses, devoluciones: returns, settings: invoicingSettings };
+    const libro = buildLibroCaja({ ...cajaInput, arqueos: reconciliations });
+    const saldos = getSaldosCaja(libro, todayKey);
+    const saldoTotal = CANALES.reduce((acc, c) => acc + saldos[c.value], 0);
+
+    // Saldos al cierre de cada mes, del primero con movimientos al actual
+    const firstMonth = libro[0]?.date.slice(0, 7) || todayKey.slice(0, 7);
+    const months: string[] = [];
+    const [firstYear, firstMonthNumber] = firstMonth.split('-').map(Number);
+    for (let date = new Date(firstYear, firstMonthNumber - 1, 1); toDateKey(date) <= todayKey; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+        months.push(toDateKey(date).slice(0, 7));
+    }
+    const monthEnd = (monthKey: string) => {
+        const [y, m] = monthKey.split('-').map(Number);
+        return toDateKey(new Date(y, m, 0));
+    };
+    const monthly = months.map(monthKey => {
+        const movimientos = libro.filter(mov => mov.date.startsWith(monthKey) && mov.tipo !== 'ajuste');
+        return {
+            month: monthKey,
+            entradas: movimientos.filter(mov => mov.amount > 0).reduce((acc, mov) => acc + mov.amount, 0),
+            salidas: movimientos.filter(mov => mov.amount < 0).reduce((acc, mov) => acc + mov.amount, 0),
+            saldos: getSaldosCaja(libro, monthEnd(monthKey))
+        };
+    }).reverse();
+
+    const movimientosMes = libro
+        .filter(mov => mov.date.startsWith(selectedMonth) && (channelFilter === 'todos' || mov.channel === channelFilter))
+        .reverse();
+
+    // Saldo calculado sin el arqueo que se está cargando (ni los posteriores del mismo medio)
+    const saldoEsperado = showArqueo && arqueoForm.date
+        ? getSaldosCaja(buildLibroCaja({
+            ...cajaInput,
+            arqueos: reconciliations.filter(r => !(r.channel === arqueoForm.channel && r.date >= arqueoForm.date))
+        }), arqueoForm.date)[arqueoForm.channel]
+        : 0;
+
+    const handleSaveArqueo = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (arqueoForm.balance.trim() === '' || isNaN(Number(arqueoForm.balance))) {
+            alert('Ingresá el saldo real del medio.');
+            return;
+        }
+        setIsSaving(true);
+        const ok = await onSaveReconciliation({ ...arqueoForm, balance: Number(arqueoForm.balance) });
+        setIsSaving(false);
+        if (ok) {
+            setArqueoForm(prev => ({ ...prev, balance: '', notes: '' }));
+            setShowArqueo(false);
+        }
+    };
+
+    const inputClass = 'mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800';
+
+    return (
+        <div className="space-y-5 sm:space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            {/* Header */}
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-100">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                            <Wallet className="w-5 h-5 text-emerald-600" />
+                            Caja
+                        </h2>
+                        <p className="text-gray-500 text-sm mt-1">Cobros, pagos de tandas, envíos y gastos por medio de pago.</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={onOpenGastos}
+                            className="px-3 py-2 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 flex items-center gap-1.5"
+                        >
+                            <Receipt className="w-4 h-4" />
+                            Gastos
+                        </button>
+                        <button
+                            onClick={() => setShowArqueo(!showArqueo)}
+                            className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-300 flex items-center gap-1.5"
+                        >
+                            <CheckCircle className="w-4 h-4" />
+                            Arqueo
+                        </button>
+                    </div>
+                </div>
+
+                {showArqueo && (
+                    <form onSubmit={handleSaveArqueo} className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 sm:items-end">
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Medio
+                                <select value={arqueoForm.channel} onChange={e => setArqueoForm({ ...arqueoForm, channel: e.target.value as CashChannel })} className={inputClass}>
+                                    {CANALES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Al cierre del
+                                <input type="date" required max={todayKey} value={arqueoForm.date} onChange={e => setArqueoForm({ ...arqueoForm, date: e.target.value })} className={inputClass} />
+                            </label>
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Saldo real
+                                <input type="number" step="0.01" required value={arqueoForm.balance} onChange={e => setArqueoForm({ ...arqueoForm, balance: e.target.value })} placeholder="Según el banco o la app" className={inputClass} />
+                            </label>
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Notas
+                                <input type="text" value={arqueoForm.notes} onChange={e => setArqueoForm({ ...arqueoForm, notes: e.target.value })} className={inputClass} />
+                            </label>
+                            <button type="submit" disabled={isSaving} className="h-10 px-4 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-1.5">
+                                <Save className="w-4 h-4" />
+                                Guardar arqueo
+                            </button>
+                        </div>
+                        <p className="text-sm text-gray-600">
+                            Saldo calculado: <span className="font-semibold">{fmtMoney(saldoEsperado)}</span>
+                            {arqueoForm.balance.trim() !== '' && !isNaN(Number(arqueoForm.balance)) && (
+                                <span className={Math.round(Number(arqueoForm.balance) - saldoEsperado) === 0 ? 'text-emerald-700' : 'text-amber-700'}>
+                                    {' · '}diferencia {fmtMoney(Number(arqueoForm.balance) - saldoEsperado)} (queda como ajuste)
+                                </span>
+                            )}
+                        </p>
+                    </form>
+                )}
+            </div>
+
+            {/* Saldos actuales */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {CANALES.map(c => (
+                    <button
+                        key={c.value}
+                        onClick={() => setChannelFilter(channelFilter === c.value ? 'todos' : c.value)}
+                        className={`text-left p-4 rounded-2xl shadow-sm border transition-colors ${channelFilter === c.value ? 'bg-emerald-50 border-emerald-300' : 'bg-white border-gray-100 hover:border-gray-200'}`}
+                    >
+                        <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">{c.label}</p>
+                        <p className={`text-xl font-bold mt-1 ${saldos[c.value] < 0 ? 'text-rose-600' : 'text-gray-900'}`}>{fmtMoney(saldos[c.value])}</p>
+                        {(() => {
+                            const ultimo = reconciliations.filter(r => r.channel === c.value).sort((a, b) => b.date.localeCompare(a.date))[0];
+                            return <p className="text-[11px] text-gray-400 mt-1">{ultimo ? `Arqueo ${formatDateKey(ultimo.date)}` : 'Sin arqueo'}</p>;
+                        })()}
+                    </button>
+                ))}
+                <div className="p-4 rounded-2xl shadow-sm border border-gray-100 bg-gray-900 text-white">
+                    <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">Total</p>
+                    <p className="text-xl font-bold mt-1">{fmtMoney(saldoTotal)}</p>
+                </div>
+            </div>
+
+            {/* Saldos al cierre de cada mes */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="text-base font-bold text-gray-800">Saldos por mes</h3>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Mes</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Entradas</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Salidas</th>
+                                {CANALES.map(c => <th key={c.value} className="py-2 pr-3 font-semibold text-right">{c.label}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {monthly.map(row => (
+                                <tr
+                                    key={row.month}
+                                    onClick={() => onSelectMonth(row.month)}
+                                    className={`cursor-pointer ${row.month === selectedMonth ? 'bg-emerald-50/60' : 'hover:bg-gray-50'}`}
+                                >
+                                    <td className="py-2 pr-3 font-medium text-gray-900 capitalize">{formatPeriod(row.month)}</td>
+                                    <td className="py-2 pr-3 text-right text-emerald-700">{fmtMoney(row.entradas)}</td>
+                                    <td className="py-2 pr-3 text-right text-rose-600">{fmtMoney(row.salidas)}</td>
+                                    {CANALES.map(c => <td key={c.value} className="py-2 pr-3 text-right text-gray-700">{fmtMoney(row.saldos[c.value])}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Libro del mes */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-3">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                    <h3 className="text-base font-bold text-gray-800 capitalize">
+                        Movimientos — {formatPeriod(selectedMonth)}
+                        {channelFilter !== 'todos' && <span className="normal-case text-gray-500 font-medium"> · {channelLabel(channelFilter)}</span>}
+                    </h3>
+                    {channelFilter !== 'todos' && (
+                        <button onClick={() => setChannelFilter('todos')} className="text-sm text-gray-500 hover:text-gray-800">Ver todos los medios</button>
+                    )}
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Fecha</th>
+                                <th className="py-2 pr-3 font-semibold">Tipo</th>
+                                <th className="py-2 pr-3 font-semibold">Detalle</th>
+                                <th className="py-2 pr-3 font-semibold">Medio</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Monto</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Saldo</th>
+                                <th className="py-2 w-10"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {movimientosMes.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="py-4 text-center text-gray-400">Sin movimientos en el mes</td>
+                                </tr>
+                            )}
+                            {movimientosMes.map((mov: CajaMovimiento) => {
+                                const expense = mov.tipo === 'gasto' ? expenses.find(e => e.id === mov.refId) : undefined;
+                                const reconciliation = mov.tipo === 'ajuste' ? reconciliations.find(r => r.id === mov.refId) : undefined;
+                                const batch = mov.tipo === 'tanda' ? batches.find(b => b.id === mov.refId) : undefined;
+                                return (
+                                    <tr key={mov.id}>
+                                        <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{formatDateKey(mov.date)}</td>
+                                        <td className="py-2 pr-3">
+                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${cajaTipoLabels[mov.tipo].className}`}>{cajaTipoLabels[mov.tipo].label}</span>
+                                        </td>
+                                        <td className="py-2 pr-3 text-gray-800">{mov.description}</td>
+                                        <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">
+                                            {batch ? (
+                                                <select
+                                                    value={batch.paymentChannel || ''}
+                                                    onChange={e => onUpdateBatchChannel(batch.id, e.target.value as CashChannel)}
+                                                    className={`px-2 py-1 rounded-lg border text-xs ${batch.paymentChannel ? 'border-gray-200 bg-white' : 'border-amber-300 bg-amber-50 text-amber-800'}`}
+                                                    title="Medio con el que se pagó la tanda"
+                                                >
+                                                    {!batch.paymentChannel && <option value="">Sin medio</option>}
+                                                    {CANALES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                                </select>
+                                            ) : channelLabel(mov.channel)}
+                                        </td>
+                                        <td className={`py-2 pr-3 text-right font-semibold whitespace-nowrap ${mov.amount < 0 ? 'text-rose-600' : 'text-emerald-700'}`}>{fmtMoney(mov.amount)}</td>
+                                        <td className="py-2 pr-3 text-right text-gray-700 whitespace-nowrap">{fmtMoney(mov.balance)}</td>
+                                        <td className="py-2 text-right">
+                                            {(expense || reconciliation) && (
+                                                <button
+                                                    onClick={() => expense ? onDeleteExpense(expense) : onDeleteReconciliation(reconciliation!)}
+                                                    className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                                    title="Eliminar"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Gastos operativos: únicos o fijos mensuales, imputables a una tanda o una venta
+function ExpensesPanel({ expenses, recurringExpenses, batches, orders, soldItems, onCreateExpense, onDeleteExpense, onCreateRecurringExpense, onEndRecurringExpense, onBack }: {
+    expenses: Expense[],
+    recurringExpenses: RecurringExpense[],
+    batches: BatchRecord[],
+    orders: Order[],
+    soldItems: Item[],
+    onCreateExpense: (expense: Omit<Expense, 'id' | 'createdAt'>) => Promise<boolean>,
+    onDeleteExpense: (expense: Expense) => void,
+    onCreateRecurringExpense: (recurring: Omit<RecurringExpense, 'id' | 'generatedThrough'>) => Promise<boolean>,
+    onEndRecurringExpense: (recurring: RecurringExpense) => void,
+    onBack: () => void
+}) {
+    const todayKey = toDateKey(new Date());
+    const emptyForm = () => ({
+        expenseDate: todayKey,
+        description: '',
+        category: 'embalaje' as ExpenseCategory,
+        amount: '',
+        channel: 'efectivo' as CashChannel,
+        assignTo: 'ninguna' as 'ninguna' | 'tanda' | 'venta',
+        batchId: '',
+        orderId: '',
+        recurring: false,
+        notes: ''
+    });
+    const [form, setForm] = useState(emptyForm);
+    const [isSaving, setIsSaving] = useState(false);
+    const [selectedMonth, setSelectedMonth] = useState(todayKey.slice(0, 7));
+    const [categoryFilter, setCategoryFilter] = useState<ExpenseCategory | 'todas'>('todas');
+
+    const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+    const categoryLabel = (category: ExpenseCategory) => CATEGORIAS_GASTO.find(c => c.value === category)?.label || category;
+    const channelLabel = (channel: CashChannel) => CANALES.find(c => c.value === channel)?.label || channel;
+
+    // Ventas recientes para imputar un gasto (ej: un envío que se absorbió)
+    const linesByOrder = groupLinesByOrder(soldItems);
+    const recentOrders = [...orders]
+        .filter(o => linesByOrder.has(o.id))
+        .sort((a, b) => b.orderDate.localeCompare(a.orderDate))
+        .slice(0, 100);
+    const orderLabel = (order: Order) => `${formatDateKey(getDateKey(order.orderDate))} · ${getOrderTitle(linesByOrder.get(order.id) || [])}`;
+    const assignmentLabel = (expense: Expense) => {
+        if (expense.batchId) {
+            const batch = batches.find(b => b.id === expense.batchId);
+            return batch ? `Tanda ${batch.batchCode}` : 'Tanda';
+        }
+        if (expense.orderId) {
+            const order = orders.find(o => o.id === expense.orderId);
+            return order ? `Venta ${orderLabel(order)}` : 'Venta';
+        }
+        return null;
+    };
+
+    const months = Array.from(new Set([todayKey.slice(0, 7), ...expenses.map(e => e.expenseDate.slice(0, 7))])).sort().reverse();
+    const monthExpenses = expenses
+        .filter(e => e.expenseDate.startsWith(selectedMonth))
+        .sort((a, b) => b.expenseDate.localeCompare(a.expenseDate));
+    const visibleExpenses = monthExpenses.filter(e => categoryFilter === 'todas' || e.category === categoryFilter);
+    const totalsByCategory = CATEGORIAS_GASTO
+        .map(c => ({ ...c, total: monthExpenses.filter(e => e.category === c.value).reduce((acc, e) => acc + e.amount, 0) }))
+        .filter(c => c.total > 0);
+    const totalMonth = monthExpenses.reduce((acc, e) => acc + e.amount, 0);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = Number(form.amount);
+        if (!form.description.trim() || !(amount > 0)) {
+            alert('Completá la descripción y el monto del gasto.');
+            return;
+        }
+        if (form.assignTo === 'tanda' && !form.batchId) {
+            alert('Elegí la tanda a la que se imputa el gasto.');
+            return;
+        }
+        if (form.assignTo === 'venta' && !form.orderId) {
+            alert('Elegí la venta a la que se imputa el gasto.');
+            return;
+        }
+        setIsSaving(true);
+        const ok = form.recurring
+            ? await onCreateRecurringExpense({
+                description: form.description,
+                category: form.category,
+                amount,
+                channel: form.channel,
+                dayOfMonth: Math.min(Number(form.expenseDate.slice(8, 10)), 28),
+                startsOn: form.expenseDate,
+                notes: form.notes
+            })
+            : await onCreateExpense({
+                expenseDate: form.expenseDate,
+                description: form.description,
+                category: form.category,
+                amount,
+                channel: form.channel,
+                batchId: form.assignTo === 'tanda' ? form.batchId : undefined,
+                orderId: form.assignTo === 'venta' ? form.orderId : undefined,
+                notes: form.notes
+            });
+        setIsSaving(false);
+        if (ok) setForm(emptyForm());
+    };
+
+    const inputClass = 'mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800';
+
+    return (
+        <div className="space-y-6">
+            <button onClick={onBack} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1.5">
+                <ArrowLeft className="w-4 h-4" />
+                Volver a caja
+            </button>
+
+            {/* Nuevo gasto */}
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-800">Nuevo gasto</h2>
+                    <p className="text-sm text-gray-500 mt-1">Se descuenta de la ganancia neta y sale de la caja por el medio elegido.</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 sm:items-end">
+                    <label className="text-xs text-gray-500 font-semibold">
+                        {form.recurring ? 'Primer gasto' : 'Fecha'}
+                        <input type="date" required value={form.expenseDate} onChange={e => setForm({ ...form, expenseDate: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold sm:col-span-2">
+                        Descripción
+                        <input type="text" required value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} placeholder="Ej: Bolsas y cinta" className={inputClass} />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Categoría
+                        <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value as ExpenseCategory })} className={inputClass}>
+                            {CATEGORIAS_GASTO.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Monto
+                        <input type="number" min="0" step="0.01" required value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Pagado con
+                        <select value={form.channel} onChange={e => setForm({ ...form, channel: e.target.value as CashChannel })} className={inputClass}>
+                            {CANALES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                        </select>
+                    </label>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 sm:items-end">
+                    <label className="text-xs text-gray-500 font-semibold">
+                        Imputar a
+                        <select
+                            value={form.assignTo}
+                            disabled={form.recurring}
+                            onChange={e => setForm({ ...form, assignTo: e.target.value as 'ninguna' | 'tanda' | 'venta' })}
+                            className={inputClass}
+                        >
+                            <option value="ninguna">General</option>
+                            <option value="tanda">Una tanda</option>
+                            <option value="venta">Una venta</option>
+                        </select>
+                    </label>
+                    {form.assignTo === 'tanda' && !form.recurring && (
+                        <label className="text-xs text-gray-500 font-semibold sm:col-span-2">
+                            Tanda
+                            <select value={form.batchId} onChange={e => setForm({ ...form, batchId: e.target.value })} className={inputClass}>
+                                <option value="">Elegir…</option>
+                                {batches.map(b => <option key={b.id} value={b.id}>{b.batchCode}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {form.assignTo === 'venta' && !form.recurring && (
+                        <label className="text-xs text-gray-500 font-semibold sm:col-span-2">
+                            Venta
+                            <select value={form.orderId} onChange={e => setForm({ ...form, orderId: e.target.value })} className={inputClass}>
+                                <option value="">Elegir…</option>
+                                {recentOrders.map(o => <option key={o.id} value={o.id}>{orderLabel(o)}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    <label className="text-xs text-gray-500 font-semibold sm:col-span-2">
+                        Notas
+                        <input type="text" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 h-10">
+                        <input
+                            type="checkbox"
+                            checked={form.recurring}
+                            onChange={e => setForm({ ...form, recurring: e.target.checked, assignTo: 'ninguna' })}
+                            className="rounded"
+                        />
+                        Todos los meses
+                    </label>
+                    <button type="submit" disabled={isSaving} className="h-10 px-4 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-1.5">
+                        <Save className="w-4 h-4" />
+                        {form.recurring ? 'Guardar fijo' : 'Guardar'}
+                    </button>
+                </div>
+            </form>
+
+            {/* Gastos fijos */}
+            {recurringExpenses.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-3">
+                    <h3 className="text-base font-bold text-gray-800">Gastos fijos</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                    <th className="py-2 pr-3 font-semibold">Descripción</th>
+                                    <th className="py-2 pr-3 font-semibold">Categoría</th>
+                                    <th className="py-2 pr-3 font-semibold">Medio</th>
+                                    <th className="py-2 pr-3 font-semibold">Día</th>
+                                    <th className="py-2 pr-3 font-semibold">Vigencia</th>
+                                    <th className="py-2 pr-3 font-semibold text-right">Monto</th>
+                                    <th className="py-2 w-24"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {recurringExpenses.map(r => {
+                                    const ended = !!r.endsOn && r.endsOn <= todayKey;
+                                    return (
+                                        <tr key={r.id} className={ended ? 'text-gray-400' : ''}>
+                                            <td className="py-2 pr-3 font-medium">{r.description}</td>
+                                            <td className="py-2 pr-3">{categoryLabel(r.category)}</td>
+                                            <td className="py-2 pr-3">{channelLabel(r.channel)}</td>
+                                            <td className="py-2 pr-3">{r.dayOfMonth}</td>
+                                            <td className="py-2 pr-3 whitespace-nowrap">
+                                                {formatDateKey(r.startsOn)} — {r.endsOn ? formatDateKey(r.endsOn) : 'vigente'}
+                                            </td>
+                                            <td className="py-2 pr-3 text-right font-semibold">{fmtMoney(r.amount)}</td>
+                                            <td className="py-2 text-right">
+                                                {!ended && (
+                                                    <button onClick={() => onEndRecurringExpense(r)} className="text-xs font-medium text-gray-500 hover:text-red-600">
+                                                        Dar de baja
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* Gastos del mes */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 sm:p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                    <div>
+                        <h3 className="text-base font-bold text-gray-800 capitalize">Gastos — {formatPeriod(selectedMonth)}</h3>
+                        <p className="text-sm text-gray-500 mt-1">Total del mes: <span className="font-semibold text-gray-800">{fmtMoney(totalMonth)}</span></p>
+                    </div>
+                    <select
+                        value={selectedMonth}
+                        onChange={e => setSelectedMonth(e.target.value)}
+                        className="px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-medium text-gray-700 capitalize"
+                    >
+                        {months.map(m => <option key={m} value={m}>{formatPeriod(m)}</option>)}
+                    </select>
+                </div>
+
+                {totalsByCategory.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => setCategoryFilter('todas')}
+                            className={`text-xs font-semibold px-2.5 py-1 rounded-full border ${categoryFilter === 'todas' ? 'bg-black text-white border-black' : 'bg-white text-gray-600 border-gray-200'}`}
+                        >
+                            Todas
+                        </button>
+                        {totalsByCategory.map(c => (
+                            <button
+                                key={c.value}
+                                onClick={() => setCategoryFilter(categoryFilter === c.value ? 'todas' : c.value)}
+                                className={`text-xs font-semibold px-2.5 py-1 rounded-full border ${categoryFilter === c.value ? 'bg-black text-white border-black' : 'bg-white text-gray-600 border-gray-200'}`}
+                            >
+                                {c.label} · {fmtMoney(c.total)}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                                <th className="py-2 pr-3 font-semibold">Fecha</th>
+                                <th className="py-2 pr-3 font-semibold">Descripción</th>
+                                <th className="py-2 pr-3 font-semibold">Categoría</th>
+                                <th className="py-2 pr-3 font-semibold">Imputado a</th>
+                                <th className="py-2 pr-3 font-semibold">Medio</th>
+                                <th className="py-2 pr-3 font-semibold text-right">Monto</th>
+                                <th className="py-2 w-10"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {visibleExpenses.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="py-4 text-center text-gray-400">Sin gastos en el mes</td>
+                                </tr>
+                            )}
+                            {visibleExpenses.map(expense => (
+                                <tr key={expense.id}>
+                                    <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{formatDateKey(expense.expenseDate)}</td>
+                                    <td className="py-2 pr-3 text-gray-900">
+                                        {expense.description}
+                                        {expense.recurringExpenseId && <span className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">FIJO</span>}
+                                        {expense.notes && <p className="text-xs text-gray-400">{expense.notes}</p>}
+                                    </td>
+                                    <td className="py-2 pr-3 text-gray-600">{categoryLabel(expense.category)}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{assignmentLabel(expense) || '—'}</td>
+                                    <td className="py-2 pr-3 text-gray-600">{channelLabel(expense.channel)}</td>
+                                    <td className="py-2 pr-3 text-right font-semibold text-gray-900 whitespace-nowrap">{fmtMoney(expense.amount)}</td>
+                                    <td className="py-2 text-right">
+                                        <button
+                                            onClick={() => onDeleteExpense(expense)}
+                                            className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                            title="Eliminar"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function CustomersTab({ customers, orders, soldItems, selectedCustomerId, onSelectCustomer, onCreate, onUpdate, onDelete, onOpenVendedores }: {
+    customers: Customer[],
+    orders: Order[],
+    soldItems: Item[],
+    selectedCustomerId?: string,
+    onSelectCustomer: (id: string | null) => void,
+    onCreate: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
+    onUpdate: (id: string, updates: Partial<Customer>) => Promise<void>,
+    onDelete: (id: string) => void,
+    onOpenVendedores: () => void
+}) {
+    const [search, setSearch] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+
+    const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+
+    // Historial y valor de vida (total comprado) de cada cliente según sus ventas
+    const linesByOrder = groupLinesByOrder(soldItems);
+    const statsById = new Map<string, { orders: Array<{ order: Order; lines: Item[]; total: number }>; total: number }>();
+    for (const order of orders) {
+        const lines = order.customerId ? linesByOrder.get(order.id) : undefined;
+        if (!order.customerId || !lines) continue;
+        const stats = statsById.get(order.customerId) || { orders: [], total: 0 };
+        const total = getOrderTotal(order, lines);
+        stats.orders.push({ order, lines, total });
+        stats.total += total;
+        statsById.set(order.customerId, stats);
+    }
+    for (const stats of statsById.values()) {
+        stats.orders.sort((a, b) => new Date(b.order.orderDate).getTime() - new Date(a.order.orderDate).getTime());
+    }
+
+    const whatsAppLink = (customer: Customer) => customer.phone ? getWhatsAppUrl(`Hola ${customer.name}!`, customer.phone) : null;
+
+    const selected = selectedCustomerId ? customers.find(c => c.id === selectedCustomerId) : undefined;
+
+    if (selected) {
+        const stats = statsById.get(selected.id);
+        const waUrl = whatsAppLink(selected);
+        return (
+            <div className="space-y-5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <button onClick={() => { setIsEditing(false); onSelectCustomer(null); }} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5">
+                    <ArrowLeft className="w-4 h-4" />
+                    Todos los clientes
+                </button>
+
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+                    {isEditing ? (
+                        <CustomerForm
+                            initial={selected}
+                            onSubmit={async (updates) => {
+                                await onUpdate(selected.id, updates);
+                                setIsEditing(false);
+                            }}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-900">{selected.name}</h2>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    {[selected.city, selected.phone].filter(Boolean).join(' · ') || 'Sin datos de contacto'}
+                                </p>
+                                {selected.notes && <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{selected.notes}</p>}
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                {waUrl && (
+                                    <a href={waUrl} target="_blank" rel="noopener noreferrer" className="h-9 px-3 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium flex items-center gap-1.5 transition-colors">
+                                        <MessageCircle className="w-4 h-4" />
+                                        WhatsApp
+                                    </a>
+                                )}
+                                <button onClick={() => setIsEditing(true)} className="h-9 px-3 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium flex items-center gap-1.5">
+                                    <Edit2 className="w-4 h-4" />
+                                    Editar
+                                </button>
+                                <button onClick={() => onDelete(selected.id)} className="h-9 px-3 rounded-xl border border-rose-100 bg-rose-50 text-rose-700 text-sm font-medium flex items-center gap-1.5">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="rounded-xl bg-gray-50 border border-gray-100 p-3">
+                            <p className="text-xs text-gray-400">Compras</p>
+                            <p className="text-lg font-bold text-gray-900">{stats?.orders.length || 0}</p>
+                        </div>
+                        <div className="rounded-xl bg-gray-50 border border-gray-100 p-3">
+                            <p className="text-xs text-gray-400">Total comprado</p>
+                            <p className="text-lg font-bold text-gray-900">{fmtMoney(stats?.total || 0)}</p>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-4 sm:p-6 border-b border-gray-100">
+                        <h3 className="font-bold text-gray-800">Historial de compras</h3>
+                    </div>
+                    {!stats ? (
+                        <div className="p-8 text-center text-gray-400">Todavía no hay ventas asignadas a este cliente.</div>
+                    ) : (
+                        <div className="divide-y divide-gray-100">
+                            {stats.orders.map(({ order, lines, total }) => (
+                                <div key={order.id} className="p-4 sm:px-6 flex justify-between items-start gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-xs text-gray-400">{formatDateDDMMAAAA(order.orderDate)}</p>
+                                        {lines.map(line => (
+                                            <p key={line.id} className="text-sm text-gray-700 truncate">
+                                                {line.quantity} × {line.productName}
+                                            </p>
+                                        ))}
+                                    </div>
+                                    <p className="font-bold text-gray-900 shrink-0">{fmtMoney(total)}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    const query = normalizeText(search);
+    const filtered = customers.filter(c => !query || normalizeText([c.name, c.phone, c.city].filter(Boolean).join(' ')).includes(query));
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="p-4 sm:p-6 border-b border-gray-100 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                <div>
+                    <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                        <Users className="w-5 h-5" />
+                        Clientes ({customers.length})
+                    </h2>
+                    <p className="text-sm text-gray-500 mt-1">Quién compró, cuánto y cómo contactarlo</p>
+                </div>
+                <div className="flex gap-2">
+                    <div className="relative flex-1 sm:w-64">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <input
+                            type="text"
+                            placeholder="Buscar cliente"
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                            className="w-full pl-9 pr-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm"
+                        />
+                    </div>
+                    <button onClick={onOpenVendedores} className="h-10 px-4 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium flex items-center gap-2 shrink-0">
+                        <Banknote className="w-4 h-4" />
+                        Vendedores
+                    </button>
+                    <button onClick={() => setIsCreating(true)} className="h-10 px-4 rounded-xl bg-black text-white hover:bg-gray-800 text-sm font-medium flex items-center gap-2 shrink-0">
+                        <Plus className="w-4 h-4" />
+                        Nuevo
+                    </button>
+                </div>
+            </div>
+
+            {isCreating && (
+                <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50">
+                    <CustomerForm
+                        onSubmit={async (customer) => {
+                            const created = await onCreate(customer);
+                            if (created) setIsCreating(false);
+                        }}
+                        onCancel={() => setIsCreating(false)}
+                    />
+                </div>
+            )}
+
+            {filtered.length === 0 ? (
+                <div className="p-8 sm:p-12 text-center text-gray-400">
+                    {customers.length === 0 ? 'Todavía no cargaste clientes.' : 'Ningún cliente coincide con la búsqueda.'}
+                </div>
+            ) : (
+                <div className="divide-y divide-gray-100">
+                    {filtered.map(customer => {
+                        const stats = statsById.get(customer.id);
+                        const waUrl = whatsAppLink(customer);
+                        return (
+                            <div key={customer.id} className="p-4 sm:px-6 flex items-center justify-between gap-3 hover:bg-gray-50/50 transition-colors">
+                                <button onClick={() => onSelectCustomer(customer.id)} className="min-w-0 flex-1 text-left">
+                                    <p className="font-semibold text-gray-900 truncate flex items-center gap-2">
+                                        {customer.name}
+                                        {stats && stats.orders.length > 1 && (
+                                            <span className="text-[10px] font-bold bg-emerald-100 text-emerald-700 px-1.5 py-0.5 rounded">RECURRENTE</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {customer.city || 'Sin ciudad'} · {stats ? `${stats.orders.length} ${stats.orders.length === 1 ? 'compra' : 'compras'} · última ${formatDateDDMMAAAA(stats.orders[0].order.orderDate)}` : 'Sin compras'}
+                                    </p>
+                                </button>
+                                <p className="font-bold text-gray-900 text-sm shrink-0">{fmtMoney(stats?.total || 0)}</p>
+                                {waUrl ? (
+                                    <a href={waUrl} target="_blank" rel="noopener noreferrer" className="p-2 rounded-lg text-emerald-600 hover:bg-emerald-50 transition-colors shrink-0" title="Abrir chat de WhatsApp">
+                                        <MessageCircle className="w-4 h-4" />
+                                    </a>
+                                ) : (
+                                    <span className="w-8 shrink-0" />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+const estadoEnvioStyles: Record<ShipmentStatus, string> = {
+    preparando: 'bg-amber-100 text-amber-700',
+    despachado: 'bg-blue-100 text-blue-700',
+    entregado: 'bg-emerald-100 text-emerald-700',
+    devuelto: 'bg-rose-100 text-rose-700',
+};
+
+// Tablero de envíos: una columna por estado con las ventas que llevan envío
+function ShipmentsBoard({ orders, soldItems, customers, shipments, onSave, onBack }: {
+    orders: Order[],
+    soldItems: Item[],
+    customers: Customer[],
+    shipments: Shipment[],
+    onSave: (shipment: Omit<Shipment, 'id'>) => Promise<boolean>,
+    onBack: () => void
+}) {
+    const [editing, setEditing] = useState<Omit<Shipment, 'id'> | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [showAll, setShowAll] = useState(false);
+
+    const todayKey = toDateKey(new Date());
+    const linesByOrder = groupLinesByOrder(soldItems);
+    const shipmentByOrder = new Map(shipments.map(s => [s.orderId, s]));
+    const envios = orders
+        .filter(o => o.envioAplica && linesByOrder.has(o.id))
+        .sort((a, b) => b.orderDate.localeCompare(a.orderDate))
+        .map(order => {
+            const lines = linesByOrder.get(order.id) || [];
+            const customer = order.customerId ? customers.find(c => c.id === order.customerId) : undefined;
+            return { order, lines, customer, shipment: shipmentByOrder.get(order.id) || getEnvioInicial(order, customer) };
+        });
+
+    // Los cerrados hace más de 30 días se ocultan salvo que se pidan
+    const [todayYear, todayMonth, todayDay] = todayKey.split('-').map(Number);
+    const since = toDateKey(new Date(todayYear, todayMonth - 1, todayDay - 30));
+    const isVisible = (envio: typeof envios[number]) => showAll
+        || envio.shipment.status === 'preparando'
+        || envio.shipment.status === 'despachado'
+        || getDateKey(envio.order.orderDate) >= since
+        || (envio.shipment.deliveredAt || '') >= since;
+
+    const changeStatus = async (shipment: Omit<Shipment, 'id'>, status: ShipmentStatus) => {
+        await onSave({ ...shipment, status, ...getFechasEstado(shipment, status, todayKey) });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        setIsSaving(true);
+        const ok = await onSave({ ...editing, ...getFechasEstado(editing, editing.status, todayKey) });
+        setIsSaving(false);
+        if (ok) setEditing(null);
+    };
+
+    const inputClass = 'mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800';
+
+    return (
+        <div className="space-y-5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex items-center justify-between gap-3">
+                <button onClick={onBack} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5">
+                    <ArrowLeft className="w-4 h-4" />
+                    Volver al dashboard
+                </button>
+                <label className="flex items-center gap-2 text-sm text-gray-600 select-none">
+                    <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} className="rounded" />
+                    Ver también los cerrados hace más de 30 días
+                </label>
+            </div>
+
+            {envios.length === 0 ? (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8 sm:p-12 text-center text-gray-400">
+                    Todavía no hay ventas con envío.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 items-start">
+                    {ESTADOS_ENVIO.map(estado => {
+                        const column = envios.filter(e => e.shipment.status === estado.value && isVisible(e));
+                        return (
+                            <div key={estado.value} className="bg-gray-50 rounded-2xl border border-gray-200 p-3 space-y-3">
+                                <div className="flex items-center justify-between px-1">
+                                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${estadoEnvioStyles[estado.value]}`}>{estado.label}</span>
+                                    <span className="text-xs text-gray-400">{column.length}</span>
+                                </div>
+                                {column.map(({ order, lines, customer, shipment }) => {
+                                    const title = getOrderTitle(lines);
+                                    const phone = shipment.recipientPhone || customer?.phone;
+                                    const isEditing = editing?.orderId === order.id;
+                                    const address = [shipment.address, shipment.city, shipment.province, shipment.postalCode && `CP ${shipment.postalCode}`].filter(Boolean).join(', ');
+                                    return (
+                                        <div key={order.id} className="bg-white rounded-xl border border-gray-200 p-3 space-y-2 shadow-sm">
+                                            <div className="flex items-start justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-semibold text-gray-900 truncate">{title}</p>
+                                                    <p className="text-xs text-gray-400">
+                                                        {formatDateDDMMAAAA(order.orderDate)} · {shipment.recipientName || customer?.name || 'Sin destinatario'}
+                                                    </p>
+                                                </div>
+                                                <button onClick={() => setEditing(isEditing ? null : { ...shipment })} className="p-1 text-gray-400 hover:text-gray-700 shrink-0" title="Editar envío">
+                                                    <Edit2 className="w-3.5 h-3.5" />
+                                                </button>
+                                            </div>
+                                            <p className="text-xs text-gray-600 flex items-center gap-1.5">
+                                                <Truck className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+                                                <span className="truncate">{shipment.carrier || 'Sin transporte'}{shipment.trackingNumber ? ` · ${shipment.trackingNumber}` : ''}</span>
+                                            </p>
+                                            {address && (
+                                                <p className="text-xs text-gray-500 flex items-start gap-1.5">
+                                                    <MapPin className="w-3.5 h-3.5 text-gray-400 shrink-0 mt-0.5" />
+                                                    <span>{address}</span>
+                                                </p>
+                                            )}
+                                            <p className="text-[11px] text-gray-400">
+                                                {PAGADORES_ENVIO.find(p => p.value === shipment.paidBy)?.label}
+                                                {order.envioCosto ? ` · $${order.envioCosto.toLocaleString('es-AR')}` : ''}
+                                                {shipment.dispatchedAt ? ` · salió ${formatDateKey(shipment.dispatchedAt)}` : ''}
+                                                {shipment.deliveredAt ? ` · entregado ${formatDateKey(shipment.deliveredAt)}` : ''}
+                                            </p>
+
+                                            {isEditing && editing ? (
+                                                <form onSubmit={handleSubmit} className="pt-2 border-t border-gray-100 space-y-2">
+                                                    <div className="grid grid-cols-2 gap-2">
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Transporte
+                                                            <select value={editing.carrier || ''} onChange={e => setEditing({ ...editing, carrier: e.target.value })} className={inputClass}>
+                                                                <option value="">Sin especificar</option>
+                                                                {ENVIO_METODOS.map(m => <option key={m} value={m}>{m}</option>)}
+                                                            </select>
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Seguimiento
+                                                            <input type="text" value={editing.trackingNumber || ''} onChange={e => setEditing({ ...editing, trackingNumber: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Destinatario
+                                                            <input type="text" value={editing.recipientName || ''} onChange={e => setEditing({ ...editing, recipientName: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            WhatsApp
+                                                            <input type="tel" value={editing.recipientPhone || ''} onChange={e => setEditing({ ...editing, recipientPhone: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold col-span-2">
+                                                            Dirección
+                                                            <input type="text" value={editing.address || ''} onChange={e => setEditing({ ...editing, address: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Ciudad
+                                                            <input type="text" value={editing.city || ''} onChange={e => setEditing({ ...editing, city: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Provincia
+                                                            <input type="text" value={editing.province || ''} onChange={e => setEditing({ ...editing, province: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Código postal
+                                                            <input type="text" value={editing.postalCode || ''} onChange={e => setEditing({ ...editing, postalCode: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold">
+                                                            Estado
+                                                            <select value={editing.status} onChange={e => setEditing({ ...editing, status: e.target.value as ShipmentStatus })} className={inputClass}>
+                                                                {ESTADOS_ENVIO.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                                            </select>
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold col-span-2">
+                                                            Pagó el envío
+                                                            <select value={editing.paidBy} onChange={e => setEditing({ ...editing, paidBy: e.target.value as Shipment['paidBy'] })} className={inputClass}>
+                                                                {PAGADORES_ENVIO.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                                            </select>
+                                                        </label>
+                                                        <label className="text-[11px] text-gray-500 font-semibold col-span-2">
+                                                            Notas
+                                                            <input type="text" value={editing.notes || ''} onChange={e => setEditing({ ...editing, notes: e.target.value })} className={inputClass} />
+                                                        </label>
+                                                    </div>
+                                                    <div className="flex justify-end gap-2">
+                                                        <button type="button" onClick={() => setEditing(null)} className="px-3 py-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 text-xs font-medium">
+                                                            Cancelar
+                                                        </button>
+                                                        <button type="submit" disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-xs font-medium flex items-center gap-1.5">
+                                                            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                                                            Guardar
+                                                        </button>
+                                                    </div>
+                                                </form>
+                                            ) : (
+                                                <div className="flex items-center gap-2 pt-1">
+                                                    <select
+                                                        value={shipment.status}
+                                                        onChange={e => changeStatus(shipment, e.target.value as ShipmentStatus)}
+                                                        className="flex-1 px-2 py-1 rounded-lg border border-gray-200 bg-white text-xs text-gray-700"
+                                                    >
+                                                        {ESTADOS_ENVIO.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                                    </select>
+                                                    {phone && (shipment.status === 'despachado' || shipment.status === 'entregado') && (
+                                                        <a
+                                                            href={getWhatsAppUrl(getMensajeSeguimiento({ ...shipment, recipientName: shipment.recipientName || customer?.name }, title), phone)}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="p-1.5 rounded-lg text-emerald-600 hover:bg-emerald-50 transition-colors"
+                                                            title="Avisar al comprador por WhatsApp"
+                                                        >
+                                                            <MessageCircle className="w-4 h-4" />
+                                                        </a>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                                {column.length === 0 && <p className="text-xs text-gray-400 text-center py-4">Sin envíos</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ResellerForm({ initial, onSubmit, onCancel }: {
+    initial?: Reseller,
+    onSubmit: (reseller: Omit<Reseller, 'id' | 'createdAt'>) => Promise<void>,
+    onCancel: () => void
+}) {
+    const [name, setName] = useState(initial?.name || '');
+    const [phone, setPhone] = useState(initial?.phone || '');
+    const [commissionType, setCommissionType] = useState<Reseller['commissionType']>(initial?.commissionType || 'porcentaje');
+    const [commissionValue, setCommissionValue] = useState(initial ? String(initial.commissionValue) : '');
+    const [location, setLocation] = useState(initial?.location || '');
+    const [notes, setNotes] = useState(initial?.notes || '');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        const value = Number(commissionValue) || 0;
+        if (value < 0 || (commissionType === 'porcentaje' && value > 100)) {
+            alert('La comisión debe ser un porcentaje entre 0 y 100 o un monto positivo.');
+            return;
+        }
+        setIsSubmitting(true);
+        await onSubmit({
+            name,
+            phone,
+            commissionType,
+            commissionValue: value,
+            location: location || getUbicacionConsignacion(name),
+            active: initial?.active ?? true,
+            notes
+        });
+        setIsSubmitting(false);
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Nombre</label>
+                    <input type="text" required value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">WhatsApp</label>
+                    <input type="tel" placeholder="Ej: 5493885551234" value={phone} onChange={e => setPhone(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Comisión</label>
+                    <select value={commissionType} onChange={e => setCommissionType(e.target.value as Reseller['commissionType'])} className={inputClass}>
+                        {TIPOS_COMISION.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">{commissionType === 'porcentaje' ? 'Porcentaje' : 'Monto por venta'}</label>
+                    <input type="number" min="0" step="0.01" value={commissionValue} onChange={e => setCommissionValue(e.target.value)} className={inputClass} />
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Ubicación de consignación</label>
+                    <input type="text" value={location} onChange={e => setLocation(e.target.value)} className={inputClass} placeholder={name.trim() ? getUbicacionConsignacion(name) : 'Ej: Consignación María'} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Notas</label>
+                    <input type="text" value={notes} onChange={e => setNotes(e.target.value)} className={inputClass} />
+                </div>
+            </div>
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                    Cancelar
+                </button>
+                <button type="submit" disabled={isSubmitting} className="px-4 py-2 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center gap-2">
+                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Guardar
+                </button>
+            </div>
+        </form>
+    );
+}
+
+// Vendedores: comisión, stock en consignación, estado de cuenta y liquidaciones
+function ResellersPanel({ resellers, settlements, orders, items, selectedResellerId, onSelectReseller, onCreate, onUpdate, onSettle, onDeleteSettlement, onMoveItem, onBack }: {
+    resellers: Reseller[],
+    settlements: ResellerSettlement[],
+    orders: Order[],
+    items: Item[],
+    selectedResellerId?: string,
+    onSelectReseller: (id: string | null) => void,
+    onCreate: (reseller: Omit<Reseller, 'id' | 'createdAt'>) => Promise<Reseller | null>,
+    onUpdate: (id: string, updates: Partial<Reseller>) => Promise<boolean>,
+    onSettle: (reseller: Reseller, ventas: VentaVendedor[], payment: Pick<ResellerSettlement, 'settledOn' | 'channel' | 'notes'>) => Promise<boolean>,
+    onDeleteSettlement: (settlement: ResellerSettlement) => void,
+    onMoveItem: (item: Item, toLocation: string) => Promise<void>,
+    onBack: () => void
+}) {
+    const [isCreating, setIsCreating] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [payment, setPayment] = useState({ settledOn: toDateKey(new Date()), channel: 'efectivo' as CashChannel, notes: '' });
+    const [isSettling, setIsSettling] = useState(false);
+    const [deliverItemId, setDeliverItemId] = useState('');
+    const [returnLocation, setReturnLocation] = useState('');
+
+    const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+    const channelLabel = (channel: CashChannel) => CANALES.find(c => c.value === channel)?.label || channel;
+
+    const linesByOrder = groupLinesByOrder(items.filter(i => i.status === 'sold'));
+    const ventas = orders
+        .filter(o => o.resellerId && linesByOrder.has(o.id))
+        .map(order => {
+            const lines = linesByOrder.get(order.id) || [];
+            return { order, title: getOrderTitle(lines), subtotal: getLinesSubtotal(lines), total: getOrderTotal(order, lines) };
+        });
+    const stock = items.filter(i => i.status === 'in_stock' || i.status === 'consigned');
+    const consignacion = (reseller: Reseller) => reseller.location ? stock.filter(i => i.status === 'consigned' && i.location === reseller.location) : [];
+    // Adonde vuelve el stock retirado: las ubicaciones propias, no las de consignación
+    const consignmentLocations = new Set(resellers.map(r => r.location).filter(Boolean));
+    const ownLocations = Array.from(new Set(stock.map(i => i.location).filter((l): l is string => !!l && !consignmentLocations.has(l)))).sort();
+
+    const selected = selectedResellerId ? resellers.find(r => r.id === selectedResellerId) : undefined;
+
+    if (selected) {
+        const cuenta = getEstadoCuenta(selected, ventas, settlements);
+        const enConsignacion = consignacion(selected);
+        const toSettle = cuenta.pendientes.filter(v => !excluded.has(v.order.id));
+        const toSettleTotal = toSettle.reduce((acc, v) => acc + v.total, 0);
+        const toSettleCommission = toSettle.reduce((acc, v) => acc + v.commission, 0);
+        const settlementById = new Map(cuenta.liquidaciones.map(s => [s.id, s]));
+
+        const toggleVenta = (orderId: string) => {
+            setExcluded(prev => {
+                const next = new Set(prev);
+                if (next.has(orderId)) next.delete(orderId); else next.add(orderId);
+                return next;
+            });
+        };
+
+        const handleSettle = async (e: React.FormEvent) => {
+            e.preventDefault();
+            if (toSettle.length === 0) return;
+            if (!confirm(`¿Liquidar ${toSettle.length} ${toSettle.length === 1 ? 'venta' : 'ventas'} de ${selected.name} por ${fmtMoney(toSettleTotal - toSettleCommission)}?`)) return;
+            setIsSettling(true);
+            const ok = await onSettle(selected, toSettle, payment);
+            setIsSettling(false);
+            if (ok) {
+                setExcluded(new Set());
+                setPayment(prev => ({ ...prev, notes: '' }));
+            }
+        };
+
+        const handleDeliver = async () => {
+            const item = stock.find(i => i.id === deliverItemId);
+            if (!item || !selected.location) return;
+            await onMoveItem(item, selected.location);
+            setDeliverItemId('');
+        };
+
+        return (
+            <div className="space-y-5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <button onClick={() => { setIsEditing(false); onSelectReseller(null); }} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5">
+                    <ArrowLeft className="w-4 h-4" />
+                    Todos los vendedores
+                </button>
+
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+                    {isEditing ? (
+                        <ResellerForm
+                            initial={selected}
+                            onSubmit={async (updates) => {
+                                if (await onUpdate(selected.id, updates)) setIsEditing(false);
+                            }}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                                    {selected.name}
+                                    {!selected.active && <span className="text-[10px] font-bold bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">DE BAJA</span>}
+                                </h2>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    Comisión {getComisionLabel(selected)}{selected.location ? ` · ${selected.location}` : ''}{selected.phone ? ` · ${selected.phone}` : ''}
+                                </p>
+                                {selected.notes && <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{selected.notes}</p>}
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={() => setIsEditing(true)} className="h-9 px-3 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium flex items-center gap-1.5">
+                                    <Edit2 className="w-4 h-4" />
+                                    Editar
+                                </button>
+                                <button onClick={() => onUpdate(selected.id, { active: !selected.active })} className="h-9 px-3 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                                    {selected.active ? 'Dar de baja' : 'Reactivar'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        <div className="rounded-xl bg-gray-50 border border-gray-100 p-3">
+                            <p className="text-xs text-gray-400">Vendido</p>
+                            <p className="text-lg font-bold text-gray-900">{fmtMoney(cuenta.vendido)}</p>
+                        </div>
+                        <div className="rounded-xl bg-gray-50 border border-gray-100 p-3">
+                            <p className="text-xs text-gray-400">Comisión</p>
+                            <p className="text-lg font-bold text-gray-900">{fmtMoney(cuenta.comision)}</p>
+                        </div>
+                        <div className="rounded-xl bg-amber-50 border border-amber-100 p-3">
+                            <p className="text-xs text-amber-600">Adeuda</p>
+                            <p className="text-lg font-bold text-amber-700">{fmtMoney(cuenta.adeudado)}</p>
+                        </div>
+                        <div className="rounded-xl bg-emerald-50 border border-emerald-100 p-3">
+                            <p className="text-xs text-emerald-600">Pagado</p>
+                            <p className="text-lg font-bold text-emerald-700">{fmtMoney(cuenta.cobrado)}</p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Stock en consignación */}
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-4 sm:p-6 border-b border-gray-100 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                        <div>
+                            <h3 className="font-bold text-gray-800">Stock en consignación</h3>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {enConsignacion.reduce((acc, i) => acc + i.quantity, 0)} u. · valor de venta {fmtMoney(enConsignacion.reduce((acc, i) => acc + (i.salePrice || i.estimatedSalePrice || 0) * i.quantity, 0))}
+                            </p>
+                        </div>
+                        {selected.location ? (
+                            <div className="flex gap-2">
+                                <select value={deliverItemId} onChange={e => setDeliverItemId(e.target.value)} className="flex-1 sm:w-72 px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-700">
+                                    <option value="">Elegir producto para entregar…</option>
+                                    {stock.filter(i => i.status === 'in_stock').map(i => (
+                                        <option key={i.id} value={i.id}>{i.productName}{i.location ? ` — ${i.location}` : ''} (x{i.quantity})</option>
+                                    ))}
+                                </select>
+                                <button onClick={handleDeliver} disabled={!deliverItemId} className="h-10 px-4 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-50 text-sm font-medium flex items-center gap-2 shrink-0">
+                                    <MapPin className="w-4 h-4" />
+                                    Entregar
+                                </button>
+                            </div>
+                        ) : (
+                            <p className="text-xs text-amber-600">Cargá una ubicación de consignación para entregarle stock.</p>
+                        )}
+                    </div>
+                    {enConsignacion.length === 0 ? (
+                        <div className="p-6 text-center text-gray-400 text-sm">No tiene stock en consignación.</div>
+                    ) : (
+                        <>
+                            <div className="px-4 sm:px-6 py-2 bg-gray-50/50 border-b border-gray-100 flex items-center gap-2 text-xs text-gray-500">
+                                Al retirar, vuelve a
+                                <select value={returnLocation} onChange={e => setReturnLocation(e.target.value)} className="px-2 py-1 rounded-lg border border-gray-200 bg-white text-xs text-gray-700">
+                                    <option value="">Sin ubicación</option>
+                                    {ownLocations.map(l => <option key={l} value={l}>{l}</option>)}
+                                </select>
+                            </div>
+                            <div className="divide-y divide-gray-100">
+                                {enConsignacion.map(item => (
+                                    <div key={item.id} className="px-4 sm:px-6 py-3 flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900 truncate">{item.quantity} × {item.productName}</p>
+                                            <p className="text-xs text-gray-400">{fmtMoney((item.salePrice || item.estimatedSalePrice || 0) * item.quantity)}</p>
+                                        </div>
+                                        <button onClick={() => onMoveItem(item, returnLocation)} className="text-xs font-medium text-gray-500 hover:text-gray-900 shrink-0">
+                                            Retirar
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* Estado de cuenta */}
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-4 sm:p-6 border-b border-gray-100">
+                        <h3 className="font-bold text-gray-800">Ventas</h3>
+                        <p className="text-xs text-gray-500 mt-1">Elegí las ventas pendientes que te pagó y liquidalas en un solo pago.</p>
+                    </div>
+                    {cuenta.ventas.length === 0 ? (
+                        <div className="p-8 text-center text-gray-400">Todavía no hay ventas de este vendedor.</div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-400 uppercase tracking-wider border-b border-gray-100">
+                                        <th className="py-2 pl-4 sm:pl-6 w-8"></th>
+                                        <th className="py-2 pr-3 font-semibold">Fecha</th>
+                                        <th className="py-2 pr-3 font-semibold">Venta</th>
+                                        <th className="py-2 pr-3 font-semibold text-right">Total</th>
+                                        <th className="py-2 pr-3 font-semibold text-right">Comisión</th>
+                                        <th className="py-2 pr-3 font-semibold text-right">A cobrar</th>
+                                        <th className="py-2 pr-4 sm:pr-6 font-semibold">Estado</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {cuenta.ventas.map(venta => {
+                                        const pending = !venta.order.cobrado;
+                                        const settlement = venta.order.settlementId ? settlementById.get(venta.order.settlementId) : undefined;
+                                        return (
+                                            <tr key={venta.order.id} className={pending ? '' : 'text-gray-400'}>
+                                                <td className="py-2 pl-4 sm:pl-6">
+                                                    {pending && (
+                                                        <input type="checkbox" checked={!excluded.has(venta.order.id)} onChange={() => toggleVenta(venta.order.id)} className="rounded" />
+                                                    )}
+                                                </td>
+                                                <td className="py-2 pr-3 whitespace-nowrap">{formatDateDDMMAAAA(venta.order.orderDate)}</td>
+                                                <td className="py-2 pr-3 max-w-[16rem] truncate">{venta.title}</td>
+                                                <td className="py-2 pr-3 text-right">{fmtMoney(venta.total)}</td>
+                                                <td className="py-2 pr-3 text-right">{fmtMoney(venta.commission)}</td>
+                                                <td className={`py-2 pr-3 text-right font-semibold ${pending ? 'text-gray-900' : ''}`}>{fmtMoney(venta.total - venta.commission)}</td>
+                                                <td className="py-2 pr-4 sm:pr-6 whitespace-nowrap text-xs">
+                                                    {pending
+                                                        ? <span className="font-semibold text-amber-600">Pendiente</span>
+                                                        : settlement ? `Liquidada ${formatDateKey(settlement.settledOn)}` : 'Cobrada'}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {cuenta.pendientes.length > 0 && (
+                        <form onSubmit={handleSettle} className="p-4 sm:p-6 border-t border-gray-100 bg-gray-50/50 grid grid-cols-1 sm:grid-cols-5 gap-2 sm:items-end">
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Fecha de pago
+                                <input type="date" required value={payment.settledOn} onChange={e => setPayment({ ...payment, settledOn: e.target.value })} className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800" />
+                            </label>
+                            <label className="text-xs text-gray-500 font-semibold">
+                                Medio
+                                <select value={payment.channel} onChange={e => setPayment({ ...payment, channel: e.target.value as CashChannel })} className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800">
+                                    {CANALES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-xs text-gray-500 font-semibold sm:col-span-2">
+                                Notas
+                                <input type="text" value={payment.notes} onChange={e => setPayment({ ...payment, notes: e.target.value })} className="mt-1 block w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-800" />
+                            </label>
+                            <button type="submit" disabled={isSettling || toSettle.length === 0} className="h-10 px-4 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-1.5">
+                                {isSettling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Banknote className="w-4 h-4" />}
+                                Liquidar {fmtMoney(toSettleTotal - toSettleCommission)}
+                            </button>
+                        </form>
+                    )}
+                </div>
+
+                {/* Liquidaciones */}
+                {cuenta.liquidaciones.length > 0 && (
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                        <div className="p-4 sm:p-6 border-b border-gray-100">
+                            <h3 className="font-bold text-gray-800">Liquidaciones</h3>
+                        </div>
+                        <div className="divide-y divide-gray-100">
+                            {cuenta.liquidaciones.map(settlement => {
+                                const count = cuenta.ventas.filter(v => v.order.settlementId === settlement.id).length;
+                                return (
+                                    <div key={settlement.id} className="px-4 sm:px-6 py-3 flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900">
+                                                {formatDateKey(settlement.settledOn)} · {count} {count === 1 ? 'venta' : 'ventas'} · {channelLabel(settlement.channel)}
+                                            </p>
+                                            <p className="text-xs text-gray-400">
+                                                Vendido {fmtMoney(settlement.salesTotal)} − comisión {fmtMoney(settlement.commission)}{settlement.notes ? ` · ${settlement.notes}` : ''}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2 shrink-0">
+                                            <span className="font-bold text-emerald-700 text-sm">{fmtMoney(settlement.amount)}</span>
+                                            <button onClick={() => onDeleteSettlement(settlement)} className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50" title="Anular liquidación">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-5 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <button onClick={onBack} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5">
+                <ArrowLeft className="w-4 h-4" />
+                Volver a clientes
+            </button>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="p-4 sm:p-6 border-b border-gray-100 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                            <Banknote className="w-5 h-5" />
+                            Vendedores ({resellers.length})
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">Quién vende por vos, qué stock tiene y cuánto te debe</p>
+                    </div>
+                    <button onClick={() => setIsCreating(true)} className="h-10 px-4 rounded-xl bg-black text-white hover:bg-gray-800 text-sm font-medium flex items-center gap-2 shrink-0">
+                        <Plus className="w-4 h-4" />
+                        Nuevo
+                    </button>
+                </div>
+
+                {isCreating && (
+                    <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50">
+                        <ResellerForm
+                            onSubmit={async (reseller) => {
+                                const created = await onCreate(reseller);
+                                if (created) setIsCreating(false);
+                            }}
+                            onCancel={() => setIsCreating(false)}
+                        />
+                    </div>
+                )}
+
+                {resellers.length === 0 ? (
+                    <div className="p-8 sm:p-12 text-center text-gray-400">Todavía no cargaste vendedores.</div>
+                ) : (
+                    <div className="divide-y divide-gray-100">
+                        {resellers.map(reseller => {
+                            const cuenta = getEstadoCuenta(reseller, ventas, settlements);
+                            const unidades = consignacion(reseller).reduce((acc, i) => acc + i.quantity, 0);
+                            return (
+                                <button key={reseller.id} onClick={() => onSelectReseller(reseller.id)} className={`w-full p-4 sm:px-6 flex items-center justify-between gap-3 text-left hover:bg-gray-50/50 transition-colors ${reseller.active ? '' : 'opacity-60'}`}>
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-gray-900 truncate flex items-center gap-2">
+                                            {reseller.name}
+                                            {!reseller.active && <span className="text-[10px] font-bold bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">DE BAJA</span>}
+                                        </p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            Comisión {getComisionLabel(reseller)} · {unidades} u. en consignación · {cuenta.pendientes.length} {cuenta.pendientes.length === 1 ? 'venta pendiente' : 'ventas pendientes'}
+                                        </p>
+                                    </div>
+                                    <div className="text-right shrink-0">
+                                        <p className={`font-bold text-sm ${cuenta.adeudado > 0 ? 'text-amber-700' : 'text-gray-900'}`}>{fmtMoney(cuenta.adeudado)}</p>
+                                        <p className="text-[10px] text-gray-400">adeuda</p>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Helper: format date to DD/MM/AAAA with zero-padded day/month
+function formatDateDDMMAAAA(dateStr: string): string {
+    const d = new Date(dateStr);
+    const day = String(d.getDate()).padStart(2, '0');
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const year = d.getFullYear();
+    return `${day}/${month}/${year}`;
+}
+
+// Venta que se pasa al facturador en línea de ARCA (?venta=, JSON en base64)
+type VentaArcaLinea = { producto: string; cantidad: number; precio: number };
+type VentaArca = VentaArcaLinea & {
+    fecha: string; // DD/MM/AAAA
+    formasPago: string[];
+    tipo: 'producto';
+    envio?: { metodo: string; costo: number };
+    /** Solo con varias líneas: el detalle, y la venta resumida en una sola línea. */
+    items?: VentaArcaLinea[];
+};
+
+// Facturar ARCA Modal
+// Factura una venta completa: todas sus líneas y el envío una sola vez
+function FacturarModal({ order, lines, customers, invoicingSettings, onCreateCustomer, onClose, onFacturado, onInvoiced, onUpdateEnvio }: { order: Order; lines: Item[]; customers: Customer[]; invoicingSettings: InvoicingSettings[]; onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>; onClose: () => void; onFacturado?: () => void; onInvoiced?: (factura: FacturaEmitida) => void; onUpdateEnvio?: (envio: OrderEnvioUpdate) => void }) {
+    const [customerId, setCustomerId] = useState(order.customerId || '');
+    const [lineas, setLineas] = useState(() => lines.map(line => ({
+        id: line.id,
+        producto: line.itemType === 'personal' ? `${line.productName} usado` : line.productName,
+        cantidad: line.quantity,
+        precio: line.salePrice || 0
+    })));
+    // Reglas vigentes hoy: la fecha del comprobante y la forma de pago se emiten con ellas
+    const reglas = getInvoicingSettingsAt(invoicingSettings, toDateKey(new Date()))
+        || [...invoicingSettings].sort((a, b) => b.validFrom.localeCompare(a.validFrom))[0];
+    const maxBackdateDays = reglas?.maxBackdateDays ?? 0;
+    const minFecha = (() => {
+        const now = new Date();
+        return toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - maxBackdateDays));
+    })();
+    const [fecha, setFecha] = useState(() => {
+        const now = new Date();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const maxPastDate = new Date(today);
+        maxPastDate.setDate(today.getDate() - maxBackdateDays);
+
+        let saleDate = today;
+        if (order.orderDate) {
+            if (/^\d{4}-\d{2}-\d{2}$/.test(order.orderDate)) {
+                const [y, m, d] = order.orderDate.split('-').map(Number);
+                saleDate = new Date(y, m - 1, d);
+            } else {
+                const parsed = new Date(order.orderDate);
+                if (!isNaN(parsed.getTime())) {
+                    saleDate = new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+                }
+            }
+        }
+
+        // Límite de ARCA: como máximo maxBackdateDays días hacia atrás
+        const targetDate = saleDate < maxPastDate ? maxPastDate : saleDate;
+
+        const yyyy = targetDate.getFullYear();
+        const mm = String(targetDate.getMonth() + 1).padStart(2, '0');
+        const dd = String(targetDate.getDate()).padStart(2, '0');
+        return `${yyyy}-${mm}-${dd}`;
+    });
+
+    const isDateAdjusted = (() => {
+        if (!order.orderDate) return false;
+        let origStr = '';
+        if (/^\d{4}-\d{2}-\d{2}$/.test(order.orderDate)) {
+            origStr = order.orderDate;
+        } else {
+            const parsed = new Date(order.orderDate);
+            if (!isNaN(parsed.getTime())) {
+                const yyyy = parsed.getFullYear();
+                const mm = String(parsed.getMonth() + 1).padStart(2, '0');
+                const dd = String(parsed.getDate()).padStart(2, '0');
+                origStr = `${yyyy}-${mm}-${dd}`;
+            }
+        }
+        return origStr !== '' && origStr < fecha;
+    })();
+    const [formasPagoSelected, setFormasPagoSelected] = useState<string[]>(order.formasPago || [reglas?.defaultPaymentMethod || 'transferencia']);
+    // Con varias formas de pago (p. ej. seña y resto) se parte de lo ya guardado por medio
+    const [montos, setMontos] = useState<Record<string, number>>(() => {
+        const guardados: Record<CashChannel, number | undefined> = { efectivo: order.montoEfectivo, transferencia: order.montoTransferencia, tarjeta: order.montoTarjeta, mercado_pago: order.montoMercadoPago, otro: order.montoOtro };
+        const iniciales: Record<string, number> = {};
+        if ((order.formasPago?.length || 0) < 2) return iniciales;
+        const usados = new Set<CashChannel>();
+        for (const forma of order.formasPago || []) {
+            const canal = getCanalFormaPago(forma);
+            const monto = guardados[canal];
+            if (usados.has(canal) || !monto) continue;
+            usados.add(canal);
+            iniciales[forma] = monto;
+        }
+        return iniciales;
+    });
+    const [envioAplica, setEnvioAplica] = useState(order.envioAplica || false);
+    const [envioCosto, setEnvioCosto] = useState(order.envioCosto || 0);
+    const [envioMetodo, setEnvioMetodo] = useState(order.envioMetodo || '');
+    const [showEnvioWarning, setShowEnvioWarning] = useState(false);
+    const [step, setStep] = useState<'form' | 'confirm' | 'emitted'>('form');
+    const [isEmitting, setIsEmitting] = useState(false);
+    const [emitida, setEmitida] = useState<FacturaEmitida | null>(null);
+    const [showComprobante, setShowComprobante] = useState(false);
+
+    const totalProducto = lineas.reduce((acc, l) => acc + l.cantidad * Math.round(l.precio), 0);
+    const cantidadTotal = lineas.reduce((acc, l) => acc + l.cantidad, 0);
+    const descripcion = lineas.map(l => l.producto).join(' + ');
+
+    const updateLinea = (id: string, patch: Partial<{ producto: string; cantidad: number; precio: number }>) => {
+        setLineas(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+    };
+    const totalConEnvio = totalProducto + (envioAplica ? Math.round(envioCosto) : 0);
+
+    const sumaMontos = Object.values(montos).reduce((a, b) => a + b, 0);
+    const multiPago = formasPagoSelected.length > 1;
+
+    const toggleFormaPago = (value: string) => {
+        setFormasPagoSelected(prev => {
+            if (prev.includes(value)) {
+                if (prev.length === 1) return prev;
+                setMontos(m => { const next = { ...m }; delete next[value]; return next; });
+                return prev.filter(v => v !== value);
+            }
+            return [...prev, value];
+        });
+    };
+
+    const mapMontosToDb = () => {
+        const porCanal: Record<CashChannel, number> = { efectivo: 0, transferencia: 0, tarjeta: 0, mercado_pago: 0, otro: 0 };
+        for (const [key, val] of Object.entries(montos)) porCanal[getCanalFormaPago(key)] += val;
+        return { montoEfectivo: porCanal.efectivo, montoTransferencia: porCanal.transferencia, montoTarjeta: porCanal.tarjeta, montoMercadoPago: porCanal.mercado_pago, montoOtro: porCanal.otro };
+    };
+
+    const validate = () => {
+        if (formasPagoSelected.length === 0) {
+            alert('Seleccioná al menos una forma de pago');
+            return false;
+        }
+        if (envioAplica && envioCosto <= 0) {
+            alert('El costo de envío debe ser mayor a $0');
+            return false;
+        }
+        if (envioAplica && envioCosto > totalProducto) {
+            if (!showEnvioWarning) {
                 setShowEnvioWarning(true);
-                return;
+                return false;
             }
         }
+        return true;
+    };
+
+    const saveEnvioYPago = () => {
+        const pagoDb = multiPago ? mapMontosToDb() : {};
+        onUpdateEnvio?.({ customerId, envioAplica, envioCosto: Math.round(envioCosto), envioMetodo, formasPago: formasPagoSelected, ...pagoDb });
+    };
+
+    // Emite la Factura C por WSFEv1; la función guarda el CAE en la venta
+    const handleEmitir = async () => {
+        if (!validate()) return;
+        setIsEmitting(true);
+        try {
+            const factura = await invoiceService.emitFacturaC({
+                orderId: order.id,
+                fecha,
+                lineas: lineas.map(l => ({ producto: l.producto, cantidad: l.cantidad, precio: Math.round(l.precio) })),
+                envio: envioAplica && envioCosto > 0 ? { metodo: envioMetodo || 'Envío', costo: Math.round(envioCosto) } : undefined
+            });
+            saveEnvioYPago();
+            onInvoiced?.(factura);
+            setEmitida(factura);
+            setStep('emitted');
+        } catch (err) {
+            console.error('Error emitting invoice:', err);
+            alert(err instanceof Error ? err.message : 'Error al emitir la factura.');
+        } finally {
+            setIsEmitting(false);
+        }
+    };
+
+    // Carga manual en el facturador en línea de ARCA, por si el web service no responde
+    const handleFacturar = () => {
+        if (!validate()) return;
 
         const [y, m, d] = fecha.split('-');
         const fechaFormatted = `${d}/${m}/${y}`;
-        const ventaObj: any = {
+        // Una sola línea viaja igual que siempre; varias se resumen en una línea
+        // con el subtotal y el detalle completo en `items`
+        const envio = envioAplica && envioCosto > 0
+            ? { envio: { metodo: envioMetodo || 'Envío', costo: Math.round(envioCosto) } }
+            : {};
+        const ventaObj: VentaArca = lineas.length === 1 ? {
+            fecha: fechaFormatted,
+            producto: lineas[0].producto,
+            cantidad: lineas[0].cantidad,
+            precio: Math.round(lineas[0].precio),
+            formasPago: formasPagoSelected,
+            tipo: 'producto',
+            ...envio,
+        } : {
             fecha: fechaFormatted,
-            producto,
-            cantidad,
-            precio: Math.round(precio),
+            producto: descripcion,
+            cantidad: 1,
+            precio: totalProducto,
+            items: lineas.map(l => ({ producto: l.producto, cantidad: l.cantidad, precio: Math.round(l.precio) })),
             formasPago: formasPagoSelected,
             tipo: 'producto',
+            ...envio,
         };
-        if (envioAplica && envioCosto > 0) {
-            ventaObj.envio = {
-                metodo: envioMetodo || 'Envío',
-                costo: Math.round(envioCosto),
-            };
-        }
         const base64 = btoa(JSON.stringify(ventaObj));
         const url = `https://fe.afip.gob.ar/rcel/jsp/index_bis.jsp?venta=${encodeURIComponent(base64)}`;
         window.open(url, '_blank');
 
-        const pagoDb = multiPago ? mapMontosToDb() : {};
-        onUpdateEnvio?.(item.id, { envioAplica, envioCosto: Math.round(envioCosto), envioMetodo, formasPago: formasPagoSelected, ...pagoDb });
+        saveEnvioYPago();
         setStep('confirm');
     };
 
     const handleConfirmFacturado = () => {
-        onFacturado?.(item.id);
+        onFacturado?.();
         onClose();
     };
 
+    // La venta tal como quedó guardada, para armar el PDF sin volver a leerla
+    if (showComprobante && emitida) {
+        const facturada: Order = { ...order, ...emitida, customerId: customerId || undefined, formasPago: formasPagoSelected, envioAplica, envioCosto: Math.round(envioCosto), envioMetodo, ...(multiPago ? mapMontosToDb() : {}) };
+        return <ComprobanteModal order={facturada} lines={lines} customer={customers.find(c => c.id === customerId)} onClose={onClose} />;
+    }
+
     return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={step === 'form' ? onClose : undefined}>
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={step === 'form' && !isEmitting ? onClose : undefined}>
             <div className="bg-gray-900 rounded-2xl shadow-2xl w-full max-w-md ring-1 ring-white/10 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
                 {step === 'form' ? (
                     <>
@@ -1872,55 +5840,70 @@ function FacturarModal({ item, onClose, onFacturado, onUpdateEnvio }: { item: It
                         </div>
                         <div className="p-6 space-y-4">
                             <div>
-                                <label className="block text-sm font-medium text-gray-300 mb-1.5">Producto</label>
-                                <input
-                                    type="text"
-                                    value={producto}
-                                    onChange={e => setProducto(e.target.value)}
+                                <label className="block text-sm font-medium text-gray-300 mb-1.5">Cliente</label>
+                                <CustomerSelect
+                                    customers={customers}
+                                    value={customerId}
+                                    onChange={setCustomerId}
+                                    onCreate={onCreateCustomer}
                                     className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                                 />
                             </div>
-                            <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-300 mb-1.5">Cantidad</label>
-                                    <input
-                                        type="number"
-                                        min={1}
-                                        value={cantidad}
-                                        onChange={e => setCantidad(Number(e.target.value))}
-                                        className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                                    />
-                                </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-300 mb-1.5">Precio unitario</label>
-                                    <input
-                                        type="number"
-                                        min={0}
-                                        value={precio}
-                                        onChange={e => setPrecio(Number(e.target.value))}
-                                        className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                                    />
+                            {lineas.map(linea => (
+                                <div key={linea.id} className={lineas.length > 1 ? 'space-y-3 border border-gray-700/50 rounded-xl p-3' : 'space-y-4'}>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-300 mb-1.5">Producto</label>
+                                        <input
+                                            type="text"
+                                            value={linea.producto}
+                                            onChange={e => updateLinea(linea.id, { producto: e.target.value })}
+                                            className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-300 mb-1.5">Cantidad</label>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={linea.cantidad}
+                                                onChange={e => updateLinea(linea.id, { cantidad: Number(e.target.value) })}
+                                                className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-300 mb-1.5">Precio unitario</label>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={linea.precio}
+                                                onChange={e => updateLinea(linea.id, { precio: Number(e.target.value) })}
+                                                className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                            />
+                                        </div>
+                                    </div>
                                 </div>
-                            </div>
+                            ))}
                             <div>
                                 <label className="block text-sm font-medium text-gray-300 mb-1.5">Fecha</label>
                                 <input
                                     type="date"
                                     value={fecha}
+                                    min={minFecha}
                                     onChange={e => setFecha(e.target.value)}
                                     className="w-full px-3 py-2.5 bg-gray-800 border border-gray-700 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all [color-scheme:dark]"
                                 />
                                 {isDateAdjusted && (
                                     <p className="text-xs text-amber-400 mt-1.5 flex items-center gap-1.5 bg-amber-950/40 border border-amber-800/40 p-2 rounded-lg">
                                         <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 text-amber-400" />
-                                        <span>Fecha ajustada automáticamente a 3 días atrás (máximo permitido por ARCA para ventas anteriores).</span>
+                                        <span>Fecha ajustada automáticamente a {maxBackdateDays} {maxBackdateDays === 1 ? 'día' : 'días'} atrás (máximo permitido por ARCA para ventas anteriores).</span>
                                     </p>
                                 )}
                             </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-300 mb-2">Forma de pago</label>
                                 <div className="border border-gray-700/50 rounded-xl p-3 space-y-1.5 max-h-52 overflow-y-auto">
-                                    {formasPago.map(fp => {
+                                    {FORMAS_PAGO.map(fp => {
                                         const checked = formasPagoSelected.includes(fp.value);
                                         return (
                                             <div key={fp.value} className="flex items-center gap-2">
@@ -1994,7 +5977,7 @@ function FacturarModal({ item, onClose, onFacturado, onUpdateEnvio }: { item: It
                                                 className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all appearance-none"
                                             >
                                                 <option value="">Sin especificar</option>
-                                                {metodosEnvio.map(m => (
+                                                {ENVIO_METODOS.map(m => (
                                                     <option key={m} value={m}>{m}</option>
                                                 ))}
                                             </select>
@@ -2021,10 +6004,12 @@ function FacturarModal({ item, onClose, onFacturado, onUpdateEnvio }: { item: It
                             </div>
 
                             <div className="bg-gray-800/50 rounded-xl p-3 border border-gray-700/50 space-y-1">
-                                <div className="flex justify-between text-xs text-gray-400">
-                                    <span>Producto ({cantidad} x ${Math.round(precio).toLocaleString()})</span>
-                                    <span className="text-gray-300">${totalProducto.toLocaleString()}</span>
-                                </div>
+                                {lineas.map(linea => (
+                                    <div key={linea.id} className="flex justify-between text-xs text-gray-400">
+                                        <span>{lineas.length > 1 ? linea.producto : 'Producto'} ({linea.cantidad} x ${Math.round(linea.precio).toLocaleString()})</span>
+                                        <span className="text-gray-300">${(linea.cantidad * Math.round(linea.precio)).toLocaleString()}</span>
+                                    </div>
+                                ))}
                                 {envioAplica && envioCosto > 0 && (
                                     <div className="flex justify-between text-xs text-gray-400">
                                         <span className="flex items-center gap-1"><Truck className="w-3 h-3" /> Envío{envioMetodo ? ` (${envioMetodo})` : ''}</span>
@@ -2037,84 +6022,705 @@ function FacturarModal({ item, onClose, onFacturado, onUpdateEnvio }: { item: It
                                 </div>
                             </div>
                         </div>
-                        <div className="p-6 border-t border-gray-700/50 flex gap-3">
-                            <button
-                                onClick={onClose}
-                                className="flex-1 px-4 py-2.5 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-700 transition-colors font-medium text-sm"
-                            >
-                                Cancelar
-                            </button>
-                            <button
-                                onClick={handleFacturar}
-                                className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors font-medium text-sm flex items-center justify-center gap-2"
-                            >
-                                <FileText className="w-4 h-4" />
-                                Facturar en ARCA
-                            </button>
+                        <div className="p-6 border-t border-gray-700/50 flex gap-3">
+                            <button
+                                onClick={onClose}
+                                className="flex-1 px-4 py-2.5 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-700 transition-colors font-medium text-sm"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleEmitir}
+                                disabled={isEmitting}
+                                className="flex-1 px-4 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors font-medium text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                {isEmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+                                {isEmitting ? 'Emitiendo...' : 'Emitir Factura C'}
+                            </button>
+                        </div>
+                        <div className="px-6 pb-5 -mt-2 text-center">
+                            <button
+                                onClick={handleFacturar}
+                                disabled={isEmitting}
+                                className="text-xs text-gray-500 hover:text-gray-300 underline underline-offset-2"
+                            >
+                                Cargar a mano en el facturador de ARCA
+                            </button>
+                        </div>
+                    </>
+                ) : step === 'emitted' && emitida ? (
+                    <>
+                        <div className="p-6 border-b border-gray-700/50 flex items-center gap-3">
+                            <div className="h-10 w-10 rounded-xl bg-emerald-600/20 flex items-center justify-center">
+                                <CheckCircle className="w-5 h-5 text-emerald-400" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-white">Factura C emitida</h2>
+                                <p className="text-sm text-gray-400">Comprobante {formatComprobante(emitida)}</p>
+                            </div>
+                        </div>
+                        <div className="p-6 space-y-2 text-sm">
+                            <div className="flex justify-between text-gray-400">
+                                <span>CAE</span>
+                                <span className="text-white font-mono">{emitida.cae}</span>
+                            </div>
+                            {emitida.caeVencimiento && (
+                                <div className="flex justify-between text-gray-400">
+                                    <span>Vencimiento CAE</span>
+                                    <span className="text-gray-200">{formatDateKey(emitida.caeVencimiento)}</span>
+                                </div>
+                            )}
+                            <div className="flex justify-between text-gray-400">
+                                <span>Fecha</span>
+                                <span className="text-gray-200">{emitida.facturaFecha ? formatDateKey(emitida.facturaFecha) : '—'}</span>
+                            </div>
+                            <div className="flex justify-between pt-2 border-t border-gray-700/50">
+                                <span className="text-gray-400">Total</span>
+                                <span className="text-white font-semibold">${(emitida.facturaImporte || 0).toLocaleString()}</span>
+                            </div>
+                        </div>
+                        <div className="p-6 border-t border-gray-700/50 flex gap-3">
+                            <button
+                                onClick={() => setShowComprobante(true)}
+                                className="flex-1 px-4 py-2.5 border border-gray-600 text-gray-200 rounded-xl hover:bg-gray-800 transition-colors font-medium text-sm flex items-center justify-center gap-2"
+                            >
+                                <Printer className="w-4 h-4" />
+                                PDF
+                            </button>
+                            <button
+                                onClick={onClose}
+                                className="flex-1 px-4 py-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-medium text-sm"
+                            >
+                                Listo
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="p-6 border-b border-gray-700/50 flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <div className="h-10 w-10 rounded-xl bg-amber-600/20 flex items-center justify-center">
+                                    <AlertTriangle className="w-5 h-5 text-amber-400" />
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-bold text-white">Confirmar facturación</h2>
+                                    <p className="text-sm text-gray-400">¿Se completó correctamente en ARCA?</p>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+                                <p className="text-sm text-gray-300 font-medium">{descripcion}</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {lineas.length === 1 ? `${lineas[0].cantidad} x $${Math.round(lineas[0].precio).toLocaleString()}` : `${cantidadTotal} unidades — $${totalProducto.toLocaleString()}`}
+                                    {envioAplica && envioCosto > 0 ? ` + envío $${Math.round(envioCosto).toLocaleString()}` : ''}
+                                    {' = '}<span className="text-white font-semibold">${totalConEnvio.toLocaleString()}</span>
+                                </p>
+                            </div>
+                            <p className="text-sm text-gray-400 text-center">
+                                Si la facturación fue exitosa, marcala como facturada. Si hubo algún problema, podés cerrar sin marcar.
+                            </p>
+                        </div>
+                        <div className="p-6 border-t border-gray-700/50 flex gap-3">
+                            <button
+                                onClick={onClose}
+                                className="flex-1 px-4 py-2.5 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-700 transition-colors font-medium text-sm flex items-center justify-center gap-2"
+                            >
+                                <XCircle className="w-4 h-4" />
+                                No se facturó
+                            </button>
+                            <button
+                                onClick={handleConfirmFacturado}
+                                className="flex-1 px-4 py-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-medium text-sm flex items-center justify-center gap-2"
+                            >
+                                <CheckCircle className="w-4 h-4" />
+                                Sí, facturada
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Registrar una venta: arranca con el item elegido y permite sumar más productos del stock
+// Selector de cliente con alta rápida; vacío ('') significa "sin cliente"
+function CustomerSelect({ customers, value, onChange, onCreate, className }: {
+    customers: Customer[],
+    value: string,
+    onChange: (customerId: string) => void,
+    onCreate: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
+    className: string
+}) {
+    const [isCreating, setIsCreating] = useState(false);
+    const [draft, setDraft] = useState({ name: '', phone: '', city: '' });
+    const [isSavingCustomer, setIsSavingCustomer] = useState(false);
+
+    const handleCreate = async () => {
+        if (!draft.name.trim() || isSavingCustomer) return;
+        setIsSavingCustomer(true);
+        const created = await onCreate({ name: draft.name, phone: draft.phone || undefined, city: draft.city || undefined });
+        setIsSavingCustomer(false);
+        if (!created) return;
+        onChange(created.id);
+        setDraft({ name: '', phone: '', city: '' });
+        setIsCreating(false);
+    };
+
+    // Vive dentro de otros formularios: Enter crea el cliente en vez de enviar la venta
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key !== 'Enter') return;
+        e.preventDefault();
+        handleCreate();
+    };
+
+    if (isCreating) {
+        return (
+            <div className="space-y-2">
+                <input type="text" autoFocus placeholder="Nombre" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} onKeyDown={handleKeyDown} className={className} />
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="tel" placeholder="WhatsApp (549...)" value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} onKeyDown={handleKeyDown} className={className} />
+                    <input type="text" placeholder="Ciudad" value={draft.city} onChange={e => setDraft({ ...draft, city: e.target.value })} onKeyDown={handleKeyDown} className={className} />
+                </div>
+                <div className="flex gap-2">
+                    <button type="button" onClick={() => setIsCreating(false)} className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 text-gray-500 hover:bg-gray-50 text-xs font-medium">
+                        Cancelar
+                    </button>
+                    <button type="button" onClick={handleCreate} disabled={!draft.name.trim() || isSavingCustomer} className="flex-1 px-3 py-1.5 rounded-lg bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-xs font-medium flex items-center justify-center gap-1">
+                        {isSavingCustomer ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                        Guardar cliente
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <select
+            value={value}
+            onChange={e => {
+                if (e.target.value === '__new__') setIsCreating(true);
+                else onChange(e.target.value);
+            }}
+            className={className}
+        >
+            <option value="">Sin cliente</option>
+            {customers.map(c => (
+                <option key={c.id} value={c.id}>{c.name}{c.city ? ` — ${c.city}` : ''}</option>
+            ))}
+            <option value="__new__">+ Nuevo cliente…</option>
+        </select>
+    );
+}
+
+function SaleOrderModal({ initialItem, stockItems, customers, resellers, onCreateCustomer, isSaving, onSubmit, onClose }: {
+    initialItem: Item,
+    stockItems: Item[],
+    customers: Customer[],
+    resellers: Reseller[],
+    onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
+    isSaving: boolean,
+    onSubmit: (draft: SaleDraft) => void,
+    onClose: () => void
+}) {
+    const [lines, setLines] = useState<SaleDraft['lines']>([
+        { item: initialItem, quantity: 1, unitPrice: initialItem.salePrice || initialItem.purchasePrice }
+    ]);
+    const [saleDate, setSaleDate] = useState(new Date().toISOString().split('T')[0]);
+    const [resellerId, setResellerId] = useState('');
+    const [customerId, setCustomerId] = useState('');
+    const [envioAplica, setEnvioAplica] = useState(false);
+    const [envioCosto, setEnvioCosto] = useState(0);
+    const [envioMetodo, setEnvioMetodo] = useState('');
+
+    const availableToAdd = stockItems.filter(i => !lines.some(l => l.item.id === i.id));
+    const subtotal = lines.reduce((acc, l) => acc + l.quantity * l.unitPrice, 0);
+    const total = subtotal + (envioAplica ? envioCosto : 0);
+
+    const updateLine = (id: string, patch: Partial<SaleDraft['lines'][number]>) => {
+        setLines(prev => prev.map(l => l.item.id === id ? { ...l, ...patch } : l));
+    };
+
+    const addLine = (id: string) => {
+        const item = stockItems.find(i => i.id === id);
+        if (!item) return;
+        setLines(prev => [...prev, { item, quantity: 1, unitPrice: item.salePrice || item.purchasePrice }]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (envioAplica && envioCosto <= 0) {
+            alert('El costo de envío debe ser mayor a $0');
+            return;
+        }
+        const reseller = resellers.find(r => r.id === resellerId);
+        onSubmit({ lines, saleDate, vendedor: reseller?.name, resellerId: reseller?.id, customerId: customerId || undefined, envioAplica, envioCosto, envioMetodo });
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/30 backdrop-blur-sm transition-opacity">
+            <form onSubmit={handleSubmit} className="bg-white rounded-t-3xl sm:rounded-2xl shadow-2xl w-full max-w-lg max-h-[92vh] sm:max-h-[88vh] overflow-y-auto ring-1 ring-black/5 animate-in zoom-in-95 duration-200">
+                <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50 flex justify-between items-center sticky top-0 z-10">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800">Registrar Venta</h2>
+                        <p className="text-sm text-gray-500 mt-1">Sumá todos los productos que se llevó el cliente</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
+                        <span className="text-2xl leading-none">&times;</span>
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4">
+                    <div className="space-y-2">
+                        {lines.map(line => (
+                            <div key={line.item.id} className="rounded-xl border border-gray-200 p-3 space-y-2">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-gray-900 text-sm truncate">{line.item.productName}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {conditionLabelMap[line.item.condition || 'nuevo']} · {getBatchLabel(line.item.batchRef)}
+                                            {line.item.location ? ` · ${line.item.location}` : ''} · {line.item.quantity} en stock
+                                        </p>
+                                    </div>
+                                    {lines.length > 1 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setLines(prev => prev.filter(l => l.item.id !== line.item.id))}
+                                            className="p-1 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-md transition-colors"
+                                            title="Quitar de la venta"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Cantidad</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={line.item.quantity}
+                                            required
+                                            value={line.quantity}
+                                            onChange={e => updateLine(line.item.id, { quantity: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Precio unitario</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            required
+                                            value={line.unitPrice}
+                                            onChange={e => updateLine(line.item.id, { unitPrice: Number(e.target.value) || 0 })}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {availableToAdd.length > 0 && (
+                        <select
+                            value=""
+                            onChange={e => addLine(e.target.value)}
+                            className={inputClass}
+                        >
+                            <option value="">+ Agregar otro producto a esta venta</option>
+                            {availableToAdd.map(i => (
+                                <option key={i.id} value={i.id}>
+                                    {i.productName}{i.location ? ` — ${i.location}` : ''} (x{i.quantity})
+                                </option>
+                            ))}
+                        </select>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                            <input type="date" required value={saleDate} onChange={e => setSaleDate(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Vendedor (opcional)</label>
+                            <select value={resellerId} onChange={e => setResellerId(e.target.value)} className={inputClass}>
+                                <option value="">Ninguno, cobraste vos</option>
+                                {resellers.filter(r => r.active).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                            </select>
                         </div>
-                    </>
-                ) : (
-                    <>
-                        <div className="p-6 border-b border-gray-700/50 flex items-center justify-between">
-                            <div className="flex items-center gap-3">
-                                <div className="h-10 w-10 rounded-xl bg-amber-600/20 flex items-center justify-center">
-                                    <AlertTriangle className="w-5 h-5 text-amber-400" />
-                                </div>
-                                <div>
-                                    <h2 className="text-lg font-bold text-white">Confirmar facturación</h2>
-                                    <p className="text-sm text-gray-400">¿Se completó correctamente en ARCA?</p>
-                                </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Cliente (opcional)</label>
+                        <CustomerSelect
+                            customers={customers}
+                            value={customerId}
+                            onChange={setCustomerId}
+                            onCreate={onCreateCustomer}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="rounded-xl border border-gray-200 p-3 space-y-3">
+                        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer select-none">
+                            <input type="checkbox" checked={envioAplica} onChange={e => setEnvioAplica(e.target.checked)} className="rounded" />
+                            <Truck className="w-4 h-4 text-gray-400" />
+                            Incluye envío
+                        </label>
+                        {envioAplica && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <select value={envioMetodo} onChange={e => setEnvioMetodo(e.target.value)} className={inputClass}>
+                                    <option value="">Sin especificar</option>
+                                    {ENVIO_METODOS.map(m => <option key={m} value={m}>{m}</option>)}
+                                </select>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    placeholder="Costo"
+                                    value={envioCosto || ''}
+                                    onChange={e => setEnvioCosto(Number(e.target.value) || 0)}
+                                    className={inputClass}
+                                />
                             </div>
+                        )}
+                    </div>
+
+                    <div className="rounded-xl bg-gray-50 border border-gray-100 p-3 text-sm space-y-1">
+                        <div className="flex justify-between text-gray-500">
+                            <span>Productos ({lines.reduce((acc, l) => acc + l.quantity, 0)} u.)</span>
+                            <span>${Math.round(subtotal).toLocaleString('es-AR')}</span>
                         </div>
-                        <div className="p-6 space-y-4">
-                            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
-                                <p className="text-sm text-gray-300 font-medium">{producto}</p>
-                                <p className="text-xs text-gray-500 mt-1">
-                                    {cantidad} x ${Math.round(precio).toLocaleString()}
-                                    {envioAplica && envioCosto > 0 ? ` + envío $${Math.round(envioCosto).toLocaleString()}` : ''}
-                                    {' = '}<span className="text-white font-semibold">${totalConEnvio.toLocaleString()}</span>
-                                </p>
+                        {envioAplica && envioCosto > 0 && (
+                            <div className="flex justify-between text-gray-500">
+                                <span>Envío</span>
+                                <span>${Math.round(envioCosto).toLocaleString('es-AR')}</span>
                             </div>
-                            <p className="text-sm text-gray-400 text-center">
-                                Si la facturación fue exitosa, marcala como facturada. Si hubo algún problema, podés cerrar sin marcar.
-                            </p>
+                        )}
+                        <div className="flex justify-between font-bold text-gray-900 pt-1 border-t border-gray-200">
+                            <span>Total</span>
+                            <span>${Math.round(total).toLocaleString('es-AR')}</span>
                         </div>
-                        <div className="p-6 border-t border-gray-700/50 flex gap-3">
-                            <button
-                                onClick={onClose}
-                                className="flex-1 px-4 py-2.5 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-700 transition-colors font-medium text-sm flex items-center justify-center gap-2"
-                            >
-                                <XCircle className="w-4 h-4" />
-                                No se facturó
-                            </button>
-                            <button
-                                onClick={handleConfirmFacturado}
-                                className="flex-1 px-4 py-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-medium text-sm flex items-center justify-center gap-2"
-                            >
-                                <CheckCircle className="w-4 h-4" />
-                                Sí, facturada
-                            </button>
+                    </div>
+                </div>
+
+                <div className="p-4 sm:p-6 border-t border-gray-100 flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                        Cancelar
+                    </button>
+                    <button type="submit" disabled={isSaving} className="flex-1 px-4 py-2.5 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center justify-center gap-2">
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        Registrar venta
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
+
+// Reserva con seña: aparta unidades del stock para un comprador hasta una fecha
+function ReservationModal({ item, customers, onCreateCustomer, isSaving, onSubmit, onClose }: {
+    item: Item,
+    customers: Customer[],
+    onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
+    isSaving: boolean,
+    onSubmit: (draft: ReservationDraft) => void,
+    onClose: () => void
+}) {
+    const [quantity, setQuantity] = useState(1);
+    const [unitPrice, setUnitPrice] = useState(item.salePrice || item.purchasePrice);
+    const [customerId, setCustomerId] = useState('');
+    const [depositAmount, setDepositAmount] = useState(0);
+    const [depositMethod, setDepositMethod] = useState('transferencia');
+    const [expiresOn, setExpiresOn] = useState(() => {
+        const date = new Date();
+        date.setDate(date.getDate() + DIAS_RESERVA);
+        return toDateKey(date);
+    });
+    const [notes, setNotes] = useState('');
+
+    const total = quantity * unitPrice;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (depositAmount > total) {
+            alert('La seña no puede superar el total de la reserva.');
+            return;
+        }
+        if (expiresOn < toDateKey(new Date())) {
+            alert('La reserva no puede vencer antes de hoy.');
+            return;
+        }
+        onSubmit({ item, quantity, unitPrice, customerId: customerId || undefined, depositAmount, depositMethod, expiresOn, notes });
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/30 backdrop-blur-sm transition-opacity">
+            <form onSubmit={handleSubmit} className="bg-white rounded-t-3xl sm:rounded-2xl shadow-2xl w-full max-w-lg max-h-[92vh] sm:max-h-[88vh] overflow-y-auto ring-1 ring-black/5 animate-in zoom-in-95 duration-200">
+                <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50 flex justify-between items-center sticky top-0 z-10">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800">Reservar</h2>
+                        <p className="text-sm text-gray-500 mt-1">{item.productName} · {item.quantity} en stock</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
+                        <span className="text-2xl leading-none">&times;</span>
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cantidad</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={item.quantity}
+                                required
+                                value={quantity}
+                                onChange={e => setQuantity(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                                className={inputClass}
+                            />
                         </div>
-                    </>
-                )}
-            </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Precio unitario</label>
+                            <input type="number" min={0} required value={unitPrice} onChange={e => setUnitPrice(Number(e.target.value) || 0)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                        <CustomerSelect
+                            customers={customers}
+                            value={customerId}
+                            onChange={setCustomerId}
+                            onCreate={onCreateCustomer}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Seña</label>
+                            <input type="number" min={0} value={depositAmount || ''} placeholder="0" onChange={e => setDepositAmount(Number(e.target.value) || 0)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Pagada con</label>
+                            <select value={depositMethod} onChange={e => setDepositMethod(e.target.value)} disabled={!(depositAmount > 0)} className={inputClass}>
+                                {FORMAS_PAGO.map(fp => <option key={fp.value} value={fp.value}>{fp.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Vence</label>
+                        <input type="date" required value={expiresOn} onChange={e => setExpiresOn(e.target.value)} className={inputClass} />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notas (opcional)</label>
+                        <input type="text" value={notes} onChange={e => setNotes(e.target.value)} className={inputClass} />
+                    </div>
+
+                    <div className="rounded-xl bg-gray-50 border border-gray-100 p-3 text-sm space-y-1">
+                        <div className="flex justify-between text-gray-500">
+                            <span>Total ({quantity} u.)</span>
+                            <span>${Math.round(total).toLocaleString('es-AR')}</span>
+                        </div>
+                        <div className="flex justify-between text-gray-500">
+                            <span>Seña</span>
+                            <span>−${Math.round(depositAmount).toLocaleString('es-AR')}</span>
+                        </div>
+                        <div className="flex justify-between font-bold text-gray-900 pt-1 border-t border-gray-200">
+                            <span>Resta cobrar al retirar</span>
+                            <span>${Math.round(Math.max(0, total - depositAmount)).toLocaleString('es-AR')}</span>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="p-4 sm:p-6 border-t border-gray-100 flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                        Cancelar
+                    </button>
+                    <button type="submit" disabled={isSaving} className="flex-1 px-4 py-2.5 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center justify-center gap-2">
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bookmark className="w-4 h-4" />}
+                        Reservar
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
+
+// Devolución parcial o total de una venta: elige líneas y cantidades, motivo y reintegro
+function ReturnModal({ initialItem, order, lines, isSaving, onSubmit, onClose }: {
+    initialItem: Item,
+    order?: Order,
+    lines: Item[],
+    isSaving: boolean,
+    onSubmit: (draft: ReturnDraft) => void,
+    onClose: () => void
+}) {
+    const returnable = lines.filter(l => l.quantity > 0);
+    const [quantities, setQuantities] = useState<Record<string, number>>({ [initialItem.id]: initialItem.quantity });
+    const [returnDate, setReturnDate] = useState(toDateKey(new Date()));
+    const [reason, setReason] = useState<ReturnReason>('arrepentimiento');
+    const [notes, setNotes] = useState('');
+    const [refundMethod, setRefundMethod] = useState<RefundMethod>('transferencia');
+
+    const selected = returnable
+        .map(item => ({ item, quantity: quantities[item.id] || 0 }))
+        .filter(l => l.quantity > 0);
+    const amount = selected.reduce((acc, l) => acc + l.quantity * (l.item.salePrice || 0), 0);
+    const minDate = order ? getDateKey(order.orderDate) : undefined;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (selected.length === 0) {
+            alert('Elegí al menos una unidad para devolver');
+            return;
+        }
+        onSubmit({ order, lines: selected, returnDate, reason, notes, refundMethod });
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/30 backdrop-blur-sm transition-opacity">
+            <form onSubmit={handleSubmit} className="bg-white rounded-t-3xl sm:rounded-2xl shadow-2xl w-full max-w-lg max-h-[92vh] sm:max-h-[88vh] overflow-y-auto ring-1 ring-black/5 animate-in zoom-in-95 duration-200">
+                <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50 flex justify-between items-center sticky top-0 z-10">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800">Registrar Devolución</h2>
+                        <p className="text-sm text-gray-500 mt-1">Las unidades vuelven al stock de su tanda y ubicación</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center">
+                        <span className="text-2xl leading-none">&times;</span>
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4">
+                    {returnable.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-4">Esta venta ya se devolvió completa.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {returnable.map(line => (
+                                <div key={line.id} className="rounded-xl border border-gray-200 p-3 flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-gray-900 text-sm truncate">{line.productName}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {line.quantity} vendidas · ${(line.salePrice || 0).toLocaleString('es-AR')} c/u · {getBatchLabel(line.batchRef)}
+                                            {line.location ? ` · ${line.location}` : ''}
+                                        </p>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={line.quantity}
+                                        value={quantities[line.id] || 0}
+                                        onChange={e => setQuantities(prev => ({ ...prev, [line.id]: Math.min(line.quantity, Math.max(0, Math.floor(Number(e.target.value) || 0))) }))}
+                                        className={`${inputClass} w-20 text-center`}
+                                        aria-label={`Unidades de ${line.productName} a devolver`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                            <input type="date" required min={minDate} max={toDateKey(new Date())} value={returnDate} onChange={e => setReturnDate(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                            <select value={reason} onChange={e => setReason(e.target.value as ReturnReason)} className={inputClass}>
+                                {(Object.keys(returnReasonLabels) as ReturnReason[]).map(r => <option key={r} value={r}>{returnReasonLabels[r]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reintegro</label>
+                        <select value={refundMethod} onChange={e => setRefundMethod(e.target.value as RefundMethod)} className={inputClass}>
+                            {(Object.keys(refundMethodLabels) as RefundMethod[]).map(r => <option key={r} value={r}>{refundMethodLabels[r]}</option>)}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notas (opcional)</label>
+                        <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Estado en que volvió, acuerdo con el cliente..." className={inputClass} />
+                    </div>
+
+                    <div className="rounded-xl bg-gray-50 border border-gray-100 p-3 text-sm space-y-1">
+                        <div className="flex justify-between font-bold text-gray-900">
+                            <span>A reintegrar ({selected.reduce((acc, l) => acc + l.quantity, 0)} u.)</span>
+                            <span>${Math.round(amount).toLocaleString('es-AR')}</span>
+                        </div>
+                        {order?.facturado && (
+                            <p className="text-xs text-gray-500 flex items-start gap-1.5 pt-1">
+                                <Receipt className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                {order.cae
+                                    ? `Se emite una Nota de Crédito C asociada a la factura ${formatComprobante(order)}.`
+                                    : 'La venta se facturó a mano: queda registrada la nota de crédito, emitila también en ARCA.'}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 sm:p-6 border-t border-gray-100 flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 px-4 py-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+                        Cancelar
+                    </button>
+                    <button type="submit" disabled={isSaving || selected.length === 0} className="flex-1 px-4 py-2.5 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center justify-center gap-2">
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />}
+                        Registrar devolución
+                    </button>
+                </div>
+            </form>
         </div>
     );
 }
 
-function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturado, onToggleNoFacturar, onUpdateEnvio, onToggleCobrado }: {
+function SalesTable({ items, orders, customers, returns, invoicingSettings, onCreateCustomer, onEdit, onDelete, onShowHistory, onReturn, onUpdateOrder, onOrderInvoiced }: {
     items: Item[],
+    orders: Order[],
+    customers: Customer[],
+    returns: SaleReturn[],
+    invoicingSettings: InvoicingSettings[],
+    onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
     onEdit: (i: Item) => void,
     onDelete: (id: string) => void,
-    resolveBatchRef: (item: Item) => string | undefined,
-    onToggleFacturado: (id: string, value: boolean) => void,
-    onToggleNoFacturar: (id: string, value: boolean) => void,
-    onUpdateEnvio: (id: string, envio: { envioAplica: boolean; envioCosto: number; envioMetodo: string; formasPago?: string[]; montoEfectivo?: number; montoTransferencia?: number; montoTarjeta?: number; montoMercadoPago?: number; montoOtro?: number }) => void,
-    onToggleCobrado: (id: string, value: boolean) => void
+    onShowHistory: (i: Item) => void,
+    onReturn: (i: Item) => void,
+    onUpdateOrder: (id: string, updates: Partial<Order>) => void,
+    onOrderInvoiced: (id: string, factura: FacturaEmitida) => void
 }) {
-    const [facturarItem, setFacturarItem] = useState<Item | null>(null);
-    const FACTURACION_CUTOFF = new Date('2026-04-18T00:00:00');
-    const canFacturar = (item: Item) => item.saleDate && new Date(item.saleDate) >= FACTURACION_CUTOFF && (item.itemType === 'personal' || item.condition !== 'usado');
+    const [facturarOrder, setFacturarOrder] = useState<{ order: Order; lines: Item[] } | null>(null);
+    const [comprobanteOrder, setComprobanteOrder] = useState<{ order: Order; lines: Item[] } | null>(null);
+
+    // Las líneas de una misma venta van juntas; cobro y facturación se muestran
+    // una sola vez, en la primera línea
+    const ordersById = new Map(orders.map(o => [o.id, o]));
+    const customersById = new Map(customers.map(c => [c.id, c]));
+    const linesByOrder = groupLinesByOrder(items);
+    const returnedByItem = getReturnedQuantities(returns);
+    const seenOrders = new Set<string>();
+    const rows: Array<{ item: Item; order?: Order; lines: Item[]; isFirst: boolean }> = [];
+    for (const item of items) {
+        const order = item.orderId ? ordersById.get(item.orderId) : undefined;
+        if (!order) {
+            rows.push({ item, lines: [item], isFirst: true });
+            continue;
+        }
+        if (seenOrders.has(order.id)) continue;
+        seenOrders.add(order.id);
+        const lines = linesByOrder.get(order.id) || [item];
+        lines.forEach((line, idx) => rows.push({ item: line, order, lines, isFirst: idx === 0 }));
+    }
 
     if (items.length === 0) {
         return <div className="p-8 sm:p-12 text-center text-gray-400">No hay ventas registradas aún.</div>;
@@ -2122,9 +6728,10 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
 
     return (
         <>
-            {facturarItem && <FacturarModal item={facturarItem} onClose={() => setFacturarItem(null)} onFacturado={(id) => onToggleFacturado(id, true)} onUpdateEnvio={onUpdateEnvio} />}
+            {facturarOrder && <FacturarModal order={facturarOrder.order} lines={facturarOrder.lines} customers={customers} invoicingSettings={invoicingSettings} onCreateCustomer={onCreateCustomer} onClose={() => setFacturarOrder(null)} onFacturado={() => onUpdateOrder(facturarOrder.order.id, { facturado: true })} onInvoiced={(factura) => onOrderInvoiced(facturarOrder.order.id, factura)} onUpdateEnvio={(envio) => onUpdateOrder(facturarOrder.order.id, envio)} />}
+            {comprobanteOrder && <ComprobanteModal order={comprobanteOrder.order} lines={comprobanteOrder.lines} customer={comprobanteOrder.order.customerId ? customersById.get(comprobanteOrder.order.customerId) : undefined} onClose={() => setComprobanteOrder(null)} />}
             <div className="sm:hidden p-3 space-y-3">
-                {items.map((item) => {
+                {rows.map(({ item, order, lines, isFirst }) => {
                     const profit = ((item.salePrice || 0) * item.quantity) - (item.purchasePrice * item.quantity);
                     const isPositive = profit >= 0;
 
@@ -2141,7 +6748,7 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                         <h3 className="font-semibold text-gray-900 leading-tight">{item.productName}</h3>
                                         <div className="flex gap-1 flex-wrap mt-0.5">
                                             {item.itemType === 'personal' && <span className="text-[10px] font-bold bg-violet-100 text-violet-600 px-1.5 py-0.5 rounded inline-block">PROPIO</span>}
-                                            {item.withdrawalReason && (() => { const w = withdrawalLabels[item.withdrawalReason]; return w ? <span className={`text-[10px] font-bold ${w.bgColor} ${w.color} px-1.5 py-0.5 rounded inline-block`}>{w.label}</span> : null; })()}
+                                            {returnedByItem.has(item.id) && <span className="text-[10px] font-bold bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded inline-block">DEVUELTO x{returnedByItem.get(item.id)}</span>}
                                         </div>
                                     </div>
                                 </div>
@@ -2185,23 +6792,35 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                 </div>
                                 <div className="col-span-2">
                                     <p className="text-gray-400 text-xs">Tanda</p>
-                                    <p className="font-medium text-gray-700">{resolveBatchRef(item) || 'Venta directa'}</p>
+                                    <p className="font-medium text-gray-700">{item.batchRef || 'Venta directa'}</p>
                                 </div>
-                                {item.vendedor && (
+                                {order && lines.length > 1 && (
+                                    <div className="col-span-2">
+                                        <p className="text-gray-400 text-xs">Venta</p>
+                                        <p className="font-medium text-gray-700">{isFirst ? `${lines.length} productos — $${getOrderTotal(order, lines).toLocaleString()}` : `Parte de: ${getOrderTitle(lines)}`}</p>
+                                    </div>
+                                )}
+                                {isFirst && order?.customerId && customersById.has(order.customerId) && (
+                                    <div className="col-span-2">
+                                        <p className="text-gray-400 text-xs">Cliente</p>
+                                        <p className="font-medium text-gray-700">{customersById.get(order.customerId)?.name}</p>
+                                    </div>
+                                )}
+                                {isFirst && order?.vendedor && (
                                     <div className="col-span-2">
                                         <p className="text-gray-400 text-xs">Vendedor</p>
                                         <div className="flex items-center gap-2">
-                                            <p className="font-medium text-gray-700">{item.vendedor}</p>
-                                            {item.cobrado === false ? (
+                                            <p className="font-medium text-gray-700">{order.vendedor}</p>
+                                            {order.cobrado === false ? (
                                                 <button
-                                                    onClick={() => onToggleCobrado(item.id, true)}
+                                                    onClick={() => onUpdateOrder(order.id, { cobrado: true })}
                                                     className="text-[10px] font-bold bg-amber-500/20 text-amber-600 dark:text-amber-400 px-2 py-0.5 rounded hover:bg-emerald-500/20 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors"
                                                 >
                                                     PENDIENTE
                                                 </button>
                                             ) : (
                                                 <button
-                                                    onClick={() => onToggleCobrado(item.id, false)}
+                                                    onClick={() => onUpdateOrder(order.id, { cobrado: false })}
                                                     className="text-[10px] font-bold bg-emerald-500/20 text-emerald-600 dark:text-emerald-400 px-2 py-0.5 rounded hover:bg-amber-500/20 hover:text-amber-600 dark:hover:text-amber-400 transition-colors"
                                                 >
                                                     COBRADO
@@ -2219,6 +6838,31 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                     <Edit2 className="w-4 h-4" />
                                     Editar
                                 </button>
+                                <button
+                                    onClick={() => onShowHistory(item)}
+                                    className="h-10 px-3 rounded-xl border border-gray-200 bg-white text-gray-500 flex items-center justify-center"
+                                    title="Historial de movimientos"
+                                >
+                                    <HistoryIcon className="w-4 h-4" />
+                                </button>
+                                {item.quantity > 0 && (
+                                    <button
+                                        onClick={() => onReturn(item)}
+                                        className="h-10 px-3 rounded-xl border border-gray-200 bg-white text-gray-500 flex items-center justify-center"
+                                        title="Registrar devolución"
+                                    >
+                                        <Undo2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                                {order && isFirst && (
+                                    <button
+                                        onClick={() => setComprobanteOrder({ order, lines })}
+                                        className="h-10 px-3 rounded-xl border border-gray-200 bg-white text-gray-500 flex items-center justify-center"
+                                        title={order.facturado ? 'Factura en PDF' : 'Remito / recibo en PDF'}
+                                    >
+                                        <Printer className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => onDelete(item.id)}
                                     className="flex-1 h-10 rounded-xl border border-rose-100 bg-rose-50 text-rose-700 text-sm font-medium flex items-center justify-center gap-2"
@@ -2226,33 +6870,34 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                     <Trash2 className="w-4 h-4" />
                                     Eliminar
                                 </button>
-                                {item.facturado ? (
+                                {!order || !isFirst ? null : order.facturado ? (
                                     <button
-                                        onClick={() => onToggleFacturado(item.id, false)}
-                                        className="flex-1 h-10 rounded-xl bg-green-600 hover:bg-green-700 text-white text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                                        onClick={() => onUpdateOrder(order.id, { facturado: false })}
+                                        disabled={!!order.cae}
+                                        className="flex-1 h-10 rounded-xl bg-green-600 hover:bg-green-700 disabled:hover:bg-green-600 text-white text-sm font-medium flex items-center justify-center gap-2 transition-colors"
                                     >
                                         <CheckCircle className="w-4 h-4" />
-                                        Facturada
+                                        {order.cae ? `C ${formatComprobante(order)}` : 'Facturada'}
                                     </button>
-                                ) : item.noFacturar ? (
+                                ) : order.noFacturar ? (
                                     <button
-                                        onClick={() => onToggleNoFacturar(item.id, false)}
+                                        onClick={() => onUpdateOrder(order.id, { noFacturar: false })}
                                         className="flex-1 h-10 rounded-xl bg-gray-400 hover:bg-gray-500 text-white text-sm font-medium flex items-center justify-center gap-2 transition-colors"
                                     >
                                         <XCircle className="w-4 h-4" />
                                         Excluida
                                     </button>
-                                ) : canFacturar(item) ? (
+                                ) : canFacturarOrder(invoicingSettings, order, lines) ? (
                                     <div className="flex-1 flex gap-1">
                                         <button
-                                            onClick={() => setFacturarItem(item)}
+                                            onClick={() => setFacturarOrder({ order, lines })}
                                             className="flex-1 h-10 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium flex items-center justify-center gap-2 transition-colors"
                                         >
                                             <FileText className="w-4 h-4" />
                                             Facturar
                                         </button>
                                         <button
-                                            onClick={() => onToggleNoFacturar(item.id, true)}
+                                            onClick={() => onUpdateOrder(order.id, { noFacturar: true })}
                                             className="h-10 px-2 rounded-xl border border-gray-200 text-gray-400 hover:text-red-500 hover:border-red-200 flex items-center justify-center transition-colors"
                                             title="No facturar"
                                         >
@@ -2287,11 +6932,11 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
-                        {items.map((item) => {
+                        {rows.map(({ item, order, lines, isFirst }) => {
                             const profit = ((item.salePrice || 0) * item.quantity) - (item.purchasePrice * item.quantity);
                             const isPositive = profit >= 0;
                             return (
-                                <tr key={item.id} className={`hover:bg-gray-50/50 transition-colors group ${item.itemType === 'personal' ? 'bg-violet-50/30' : ''}`}>
+                                <tr key={item.id} className={`hover:bg-gray-50/50 transition-colors group ${item.itemType === 'personal' ? 'bg-violet-50/30' : ''} ${order && !isFirst ? 'border-t-0' : ''}`}>
                                     <td className="px-2 py-2">
                                         {item.imageUrl ? (
                                             <div className="w-8 h-8 rounded-md overflow-hidden border border-gray-100">
@@ -2307,8 +6952,11 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                         <div className="flex items-center gap-1.5 truncate">
                                             <span className="truncate" title={item.productName}>{item.productName}</span>
                                             {item.itemType === 'personal' && <span className="text-[9px] font-bold bg-violet-100 text-violet-600 px-1 py-0.5 rounded shrink-0">PROPIO</span>}
-                                            {item.withdrawalReason && (() => { const w = withdrawalLabels[item.withdrawalReason]; return w ? <span className={`text-[9px] font-bold ${w.bgColor} ${w.color} px-1 py-0.5 rounded shrink-0`}>{w.label}</span> : null; })()}
+                                            {returnedByItem.has(item.id) && <span className="text-[9px] font-bold bg-teal-100 text-teal-700 px-1 py-0.5 rounded shrink-0">DEVUELTO x{returnedByItem.get(item.id)}</span>}
                                         </div>
+                                        {isFirst && order?.customerId && customersById.has(order.customerId) && (
+                                            <span className="block text-[10px] text-gray-400 font-normal truncate">{customersById.get(order.customerId)?.name}</span>
+                                        )}
                                     </td>
                                     <td className="px-2 py-2 text-center">
                                         <span className="bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded text-[11px] font-semibold">{item.quantity}</span>
@@ -2332,15 +6980,16 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                         {item.location || '-'}
                                     </td>
                                     <td className="px-2 py-2 text-center text-[11px] text-gray-600 font-medium whitespace-nowrap">
-                                        {resolveBatchRef(item) || 'Directa'}
+                                        {item.batchRef || 'Directa'}
                                     </td>
-                                    <td className="px-2 py-2 text-center whitespace-nowrap">
-                                        {item.vendedor ? (
+                                    {isFirst && (
+                                    <td rowSpan={lines.length} className="px-2 py-2 text-center whitespace-nowrap">
+                                        {order?.vendedor ? (
                                             <div className="flex flex-col items-center gap-1">
-                                                <span className="text-[10px] text-gray-500 dark:text-gray-400 leading-none">{item.vendedor}</span>
-                                                {item.cobrado === false ? (
+                                                <span className="text-[10px] text-gray-500 dark:text-gray-400 leading-none">{order.vendedor}</span>
+                                                {order.cobrado === false ? (
                                                     <button
-                                                        onClick={() => onToggleCobrado(item.id, true)}
+                                                        onClick={() => onUpdateOrder(order.id, { cobrado: true })}
                                                         className="bg-amber-500/20 hover:bg-emerald-500/20 text-amber-600 dark:text-amber-400 hover:text-emerald-600 dark:hover:text-emerald-400 text-[10px] font-bold px-2 py-0.5 rounded transition-colors"
                                                         title="Click para marcar como cobrado"
                                                     >
@@ -2348,7 +6997,7 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                                     </button>
                                                 ) : (
                                                     <button
-                                                        onClick={() => onToggleCobrado(item.id, false)}
+                                                        onClick={() => onUpdateOrder(order.id, { cobrado: false })}
                                                         className="bg-emerald-500/20 hover:bg-amber-500/20 text-emerald-600 dark:text-emerald-400 hover:text-amber-600 dark:hover:text-amber-400 text-[10px] font-bold px-2 py-0.5 rounded transition-colors"
                                                         title="Click para marcar como pendiente"
                                                     >
@@ -2360,39 +7009,44 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                             <span className="text-[11px] text-gray-400">—</span>
                                         )}
                                     </td>
+                                    )}
                                     <td className="px-2 py-2 text-center text-gray-400 text-[11px] whitespace-nowrap">
                                         {item.saleDate ? formatDateDDMMAAAA(item.saleDate) : '-'}
                                     </td>
-                                    <td className="px-2 py-2 text-center">
-                                        {item.facturado ? (
+                                    {isFirst && (
+                                    <td rowSpan={lines.length} className="px-2 py-2 text-center">
+                                        {!order ? (
+                                            <span className="text-gray-500 text-xs">—</span>
+                                        ) : order.facturado ? (
                                             <button
-                                                onClick={() => onToggleFacturado(item.id, false)}
-                                                className="bg-green-600 hover:bg-green-700 text-white text-[11px] px-1.5 py-0.5 rounded transition-colors inline-flex items-center gap-0.5"
-                                                title="Click para desmarcar facturacion"
+                                                onClick={() => onUpdateOrder(order.id, { facturado: false })}
+                                                disabled={!!order.cae}
+                                                className="bg-green-600 hover:bg-green-700 disabled:hover:bg-green-600 text-white text-[11px] px-1.5 py-0.5 rounded transition-colors inline-flex items-center gap-0.5"
+                                                title={order.cae ? `Factura C ${formatComprobante(order)} — CAE ${order.cae}` : 'Click para desmarcar facturacion'}
                                             >
                                                 <CheckCircle className="w-3 h-3" />
                                                 Facturada
                                             </button>
-                                        ) : item.noFacturar ? (
+                                        ) : order.noFacturar ? (
                                             <button
-                                                onClick={() => onToggleNoFacturar(item.id, false)}
+                                                onClick={() => onUpdateOrder(order.id, { noFacturar: false })}
                                                 className="bg-gray-400 hover:bg-gray-500 text-white text-[11px] px-1.5 py-0.5 rounded transition-colors inline-flex items-center gap-0.5"
                                                 title="Click para volver a incluir en facturacion"
                                             >
                                                 <XCircle className="w-3 h-3" />
                                                 Excluida
                                             </button>
-                                        ) : canFacturar(item) ? (
+                                        ) : canFacturarOrder(invoicingSettings, order, lines) ? (
                                             <div className="flex items-center justify-center gap-1">
                                                 <button
-                                                    onClick={() => setFacturarItem(item)}
+                                                    onClick={() => setFacturarOrder({ order, lines })}
                                                     className="bg-blue-600 hover:bg-blue-700 text-white text-[11px] px-1.5 py-0.5 rounded transition-colors inline-flex items-center gap-0.5"
                                                 >
                                                     <FileText className="w-3 h-3" />
                                                     Facturar
                                                 </button>
                                                 <button
-                                                    onClick={() => onToggleNoFacturar(item.id, true)}
+                                                    onClick={() => onUpdateOrder(order.id, { noFacturar: true })}
                                                     className="text-gray-400 hover:text-red-500 hover:bg-red-50 p-0.5 rounded transition-colors"
                                                     title="Excluir de facturacion"
                                                 >
@@ -2403,6 +7057,7 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                             <span className="text-gray-500 text-xs">—</span>
                                         )}
                                     </td>
+                                    )}
                                     <td className="px-2 py-2 text-center">
                                         <div className="flex justify-center gap-1">
                                             <button
@@ -2412,6 +7067,31 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                             >
                                                 <Edit2 className="w-3.5 h-3.5" />
                                             </button>
+                                            <button
+                                                onClick={() => onShowHistory(item)}
+                                                className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-all"
+                                                title="Historial de movimientos"
+                                            >
+                                                <HistoryIcon className="w-3.5 h-3.5" />
+                                            </button>
+                                            {item.quantity > 0 && (
+                                                <button
+                                                    onClick={() => onReturn(item)}
+                                                    className="p-1.5 text-gray-400 hover:text-teal-600 hover:bg-teal-50 rounded-md transition-all"
+                                                    title="Registrar devolución"
+                                                >
+                                                    <Undo2 className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                            {order && isFirst && (
+                                                <button
+                                                    onClick={() => setComprobanteOrder({ order, lines })}
+                                                    className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-all"
+                                                    title={order.facturado ? 'Factura en PDF' : 'Remito / recibo en PDF'}
+                                                >
+                                                    <Printer className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
                                             <button
                                                 onClick={() => onDelete(item.id)}
                                                 className="p-1.5 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-md transition-all"
@@ -2420,32 +7100,382 @@ function SalesTable({ items, onEdit, onDelete, resolveBatchRef, onToggleFacturad
                                                 <Trash2 className="w-3.5 h-3.5" />
                                             </button>
                                         </div>
-                                    </td>
-                                </tr>
-                            );
-                        })}
-                    </tbody>
-                </table>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+}
+
+const estadoReservaStyles: Record<Reservation['status'], { label: string; className: string }> = {
+    activa: { label: 'Activa', className: 'bg-violet-100 text-violet-700' },
+    convertida: { label: 'Vendida', className: 'bg-emerald-100 text-emerald-700' },
+    cancelada: { label: 'Cancelada', className: 'bg-gray-100 text-gray-600' },
+};
+
+// Reservas activas (las vencidas primero) con retiro o cancelación, y el historial
+function ReservationsPanel({ reservations, customers, onConvert, onCancel, onBack }: {
+    reservations: Reservation[],
+    customers: Customer[],
+    onConvert: (reservation: Reservation, sale: { saleDate: string; unitPrice: number; formaPago: string }) => Promise<void>,
+    onCancel: (reservation: Reservation, depositRefunded: boolean) => Promise<void>,
+    onBack: () => void
+}) {
+    const todayKey = toDateKey(new Date());
+    const [convertingId, setConvertingId] = useState<string | null>(null);
+    const [cancelingId, setCancelingId] = useState<string | null>(null);
+    const [saleForm, setSaleForm] = useState({ saleDate: todayKey, unitPrice: 0, formaPago: 'contado' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+    const customerName = (id?: string) => customers.find(c => c.id === id)?.name || 'Sin cliente';
+    const formaPagoLabel = (value?: string) => FORMAS_PAGO.find(fp => fp.value === value)?.label || value || '';
+
+    const activas = reservations
+        .filter(r => r.status === 'activa')
+        .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+    const historial = reservations.filter(r => r.status !== 'activa');
+
+    const startConvert = (reservation: Reservation) => {
+        setCancelingId(null);
+        setConvertingId(reservation.id);
+        setSaleForm({ saleDate: todayKey, unitPrice: reservation.unitPrice, formaPago: reservation.depositMethod || 'contado' });
+    };
+
+    const handleConvert = async (reservation: Reservation) => {
+        if (saleForm.unitPrice * reservation.quantity < reservation.depositAmount) {
+            alert('El total de la venta no puede ser menor a la seña.');
+            return;
+        }
+        setIsSaving(true);
+        await onConvert(reservation, saleForm);
+        setIsSaving(false);
+        setConvertingId(null);
+    };
+
+    const handleCancel = async (reservation: Reservation, depositRefunded: boolean) => {
+        setIsSaving(true);
+        await onCancel(reservation, depositRefunded);
+        setIsSaving(false);
+        setCancelingId(null);
+    };
+
+    const inputClass = "w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-sm";
+
+    return (
+        <div className="space-y-4 sm:space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-100">
+                <button onClick={onBack} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5 mb-3">
+                    <ArrowLeft className="w-4 h-4" />
+                    Volver al inventario
+                </button>
+                <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                    <Bookmark className="w-5 h-5" />
+                    Reservas
+                </h2>
+                <p className="text-gray-500 text-sm mt-1">
+                    Unidades apartadas con seña: no se venden ni se ven en la tienda hasta que el comprador retira o se cancela la reserva.
+                </p>
+            </div>
+
+            {activas.length === 0 ? (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 sm:p-12 text-center text-gray-400">
+                    <CheckCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                    No hay reservas activas.
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {activas.map(reservation => {
+                        const vencida = isReservaVencida(reservation, todayKey);
+                        const total = reservation.quantity * reservation.unitPrice;
+                        return (
+                            <div key={reservation.id} className={`bg-white rounded-2xl shadow-sm border p-4 space-y-3 ${vencida ? 'border-rose-200' : 'border-gray-100'}`}>
+                                <div className="flex flex-wrap items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-gray-900 truncate">{reservation.productName} <span className="text-gray-500 font-normal">×{reservation.quantity}</span></p>
+                                        <p className="text-xs text-gray-500 mt-0.5">
+                                            {customerName(reservation.customerId)} · Reservado el {formatDateKey(reservation.reservedOn)}
+                                            {reservation.notes ? ` · ${reservation.notes}` : ''}
+                                        </p>
+                                    </div>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${vencida ? 'bg-rose-100 text-rose-700' : 'bg-violet-100 text-violet-700'}`}>
+                                        {vencida ? 'Vencida' : 'Vence'} el {formatDateKey(reservation.expiresOn)}
+                                    </span>
+                                </div>
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                                    <span>Total {fmtMoney(total)}</span>
+                                    <span>Seña {fmtMoney(reservation.depositAmount)}{reservation.depositMethod ? ` (${formaPagoLabel(reservation.depositMethod)})` : ''}</span>
+                                    <span className="font-semibold text-gray-900">Resta {fmtMoney(Math.max(0, total - reservation.depositAmount))}</span>
+                                </div>
+
+                                {convertingId === reservation.id ? (
+                                    <div className="rounded-xl border border-gray-200 p-3 space-y-2">
+                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                            <input type="date" value={saleForm.saleDate} onChange={e => setSaleForm(prev => ({ ...prev, saleDate: e.target.value }))} className={inputClass} />
+                                            <input type="number" min={0} value={saleForm.unitPrice} onChange={e => setSaleForm(prev => ({ ...prev, unitPrice: Number(e.target.value) || 0 }))} className={inputClass} title="Precio unitario" />
+                                            <select value={saleForm.formaPago} onChange={e => setSaleForm(prev => ({ ...prev, formaPago: e.target.value }))} className={inputClass} title="Forma de pago del resto">
+                                                {FORMAS_PAGO.map(fp => <option key={fp.value} value={fp.value}>{fp.label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div className="flex gap-2 justify-end">
+                                            <button onClick={() => setConvertingId(null)} className="px-3 py-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 text-xs font-medium">Volver</button>
+                                            <button onClick={() => handleConvert(reservation)} disabled={isSaving || !saleForm.saleDate} className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white disabled:opacity-60 text-xs font-bold flex items-center gap-1">
+                                                {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                                                Registrar venta por {fmtMoney(saleForm.unitPrice * reservation.quantity)}
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : cancelingId === reservation.id ? (
+                                    <div className="rounded-xl border border-rose-100 bg-rose-50/50 p-3 flex flex-wrap items-center justify-end gap-2">
+                                        <span className="text-xs text-gray-600 mr-auto">Las unidades vuelven a estar disponibles.</span>
+                                        <button onClick={() => setCancelingId(null)} className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 text-xs font-medium">Volver</button>
+                                        {reservation.depositAmount > 0 && (
+                                            <button onClick={() => handleCancel(reservation, false)} disabled={isSaving} className="px-3 py-1.5 rounded-lg border border-rose-200 bg-white text-rose-700 hover:bg-rose-50 disabled:opacity-60 text-xs font-bold">
+                                                Cancelar y retener la seña
+                                            </button>
+                                        )}
+                                        <button onClick={() => handleCancel(reservation, reservation.depositAmount > 0)} disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-rose-600 hover:bg-rose-700 text-white disabled:opacity-60 text-xs font-bold">
+                                            {reservation.depositAmount > 0 ? 'Cancelar y devolver la seña' : 'Cancelar reserva'}
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2 justify-end">
+                                        <button onClick={() => { setConvertingId(null); setCancelingId(reservation.id); }} className="px-3 py-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 text-xs font-medium flex items-center gap-1">
+                                            <X className="w-3 h-3" /> Cancelar
+                                        </button>
+                                        <button onClick={() => startConvert(reservation)} className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold flex items-center gap-1">
+                                            <DollarSign className="w-3 h-3" /> Retiró: registrar venta
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {historial.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                    <h3 className="px-4 sm:px-6 py-3 text-sm font-semibold text-gray-700 border-b border-gray-100">Historial</h3>
+                    <div className="divide-y divide-gray-100">
+                        {historial.map(reservation => (
+                            <div key={reservation.id} className="px-4 sm:px-6 py-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-gray-800 truncate">{reservation.productName} ×{reservation.quantity}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {customerName(reservation.customerId)} · {formatDateKey(reservation.reservedOn)}
+                                        {reservation.status === 'cancelada' && reservation.depositAmount > 0 && ` · Seña ${fmtMoney(reservation.depositAmount)} ${reservation.depositRefunded ? 'devuelta' : 'retenida'}`}
+                                    </p>
+                                </div>
+                                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${estadoReservaStyles[reservation.status].className}`}>{estadoReservaStyles[reservation.status].label}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function DuplicatesPanel({ groups, onMerge, onBack }: {
+    groups: Item[][],
+    onMerge: (survivor: Item, others: Item[]) => Promise<void>,
+    onBack: () => void
+}) {
+    const [survivorIds, setSurvivorIds] = useState<Record<string, string>>({});
+    const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+    // Por defecto sobrevive el registro con más datos de tienda cargados
+    const storeDataScore = (item: Item) =>
+        (item.storeTitle ? 4 : 0) + (item.description ? 2 : 0) + (item.storeImages?.length ? 1 : 0) + (item.imageUrl ? 1 : 0) + (item.publicInStore ? 1 : 0);
+
+    const handleMerge = async (groupKey: string, survivor: Item, others: Item[]) => {
+        if (!confirm(`¿Fusionar ${others.length + 1} registros de "${survivor.productName}" en uno solo?`)) return;
+        setMergingKey(groupKey);
+        await onMerge(survivor, others);
+        setMergingKey(null);
+    };
+
+    return (
+        <div className="space-y-4 sm:space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-white p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-100">
+                <button onClick={onBack} className="text-sm font-medium text-gray-500 hover:text-gray-900 flex items-center gap-1.5 mb-3">
+                    <ArrowLeft className="w-4 h-4" />
+                    Volver al inventario
+                </button>
+                <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                    <Merge className="w-5 h-5" />
+                    Duplicados
+                </h2>
+                <p className="text-gray-500 text-sm mt-1">
+                    Registros en stock con el mismo producto, precios, estado, tanda y ubicación. Elegí cuál se conserva: sus datos mandan y los demás completan lo que falte.
+                </p>
             </div>
-        </>
+
+            {groups.length === 0 ? (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 sm:p-12 text-center text-gray-400">
+                    <CheckCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                    No hay duplicados para revisar.
+                </div>
+            ) : groups.map(group => {
+                const groupKey = group.map(i => i.id).sort().join('|');
+                const fallback = [...group].sort((a, b) => storeDataScore(b) - storeDataScore(a))[0];
+                const survivor = group.find(i => i.id === survivorIds[groupKey]) || fallback;
+                const others = group.filter(i => i.id !== survivor.id);
+                const merged = mergeDuplicateItems(survivor, others);
+                const conflicts = duplicateConflictFields.filter(f => new Set(group.map(i => JSON.stringify(i[f.key] ?? null))).size > 1);
+                const first = group[0];
+
+                return (
+                    <div key={groupKey} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                        <div className="p-4 sm:px-6 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                            <div>
+                                <h3 className="font-bold text-gray-900">{first.productName}</h3>
+                                <p className="text-xs text-gray-500">
+                                    {conditionLabelMap[first.condition || 'nuevo']} · {getBatchLabel(first.batchRef)} · {first.location || 'Sin ubicación'} · ${first.purchasePrice.toLocaleString('es-AR')}/u
+                                </p>
+                            </div>
+                            <span className="text-sm font-semibold text-gray-700">{group.length} registros · {merged.quantity} u. en total</span>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-xs text-gray-600">
+                                <thead className="bg-gray-50 text-gray-700 uppercase font-semibold text-[11px] tracking-wider">
+                                    <tr>
+                                        <th className="px-3 py-2">Conservar</th>
+                                        <th className="px-3 py-2 text-center">Ud</th>
+                                        <th className="px-3 py-2">Alta</th>
+                                        {conflicts.map(f => <th key={f.key} className="px-3 py-2">{f.label}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {group.map(item => (
+                                        <tr key={item.id} className={item.id === survivor.id ? 'bg-emerald-50/50' : ''}>
+                                            <td className="px-3 py-2">
+                                                <input
+                                                    type="radio"
+                                                    name={`survivor-${groupKey}`}
+                                                    checked={item.id === survivor.id}
+                                                    onChange={() => setSurvivorIds(prev => ({ ...prev, [groupKey]: item.id }))}
+                                                />
+                                            </td>
+                                            <td className="px-3 py-2 text-center font-semibold">{item.quantity}</td>
+                                            <td className="px-3 py-2 whitespace-nowrap">{formatDateDDMMAAAA(item.date)}</td>
+                                            {conflicts.map(f => (
+                                                <td key={f.key} className="px-3 py-2 max-w-[180px] truncate" title={formatDuplicateField(item[f.key])}>
+                                                    {formatDuplicateField(item[f.key])}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                    {conflicts.length > 0 && (
+                                        <tr className="bg-gray-50 font-semibold text-gray-800">
+                                            <td className="px-3 py-2" colSpan={3}>Resultado</td>
+                                            {conflicts.map(f => (
+                                                <td key={f.key} className="px-3 py-2 max-w-[180px] truncate" title={formatDuplicateField(merged[f.key] ?? survivor[f.key])}>
+                                                    {formatDuplicateField(merged[f.key] ?? survivor[f.key])}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="p-4 sm:px-6 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <p className="text-xs text-gray-500">
+                                {conflicts.length === 0 ? 'Los registros no tienen diferencias de datos.' : `${conflicts.length} ${conflicts.length === 1 ? 'campo difiere' : 'campos difieren'}. Las fotos y links de todos se conservan.`}
+                            </p>
+                            <button
+                                onClick={() => handleMerge(groupKey, survivor, others)}
+                                disabled={mergingKey !== null}
+                                className="px-4 py-2 rounded-xl bg-black text-white hover:bg-gray-800 disabled:opacity-60 text-sm font-medium flex items-center justify-center gap-2"
+                            >
+                                {mergingKey === groupKey ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+                                Fusionar
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+// En stock es lo normal: solo se marca el resto de los estados
+function ItemStatusBadge({ status }: { status: ItemStatus }) {
+    if (status === 'in_stock') return null;
+    return <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full shrink-0 ${estadoItemStyles[status]}`}>{getEstadoLabel(status)}</span>;
+}
+
+// Bajas de stock (regalos, uso personal, pérdidas): no son ventas
+function WithdrawnItemsList({ items, onUndo, onShowHistory }: {
+    items: Item[],
+    onUndo: (item: Item) => void,
+    onShowHistory: (item: Item) => void
+}) {
+    const [isOpen, setIsOpen] = useState(false);
+    const totalCost = items.reduce((acc, i) => acc + i.purchasePrice * i.quantity, 0);
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full px-4 sm:px-6 py-3 flex items-center justify-between gap-3 text-sm hover:bg-gray-50 transition-colors">
+                <span className="flex items-center gap-2 font-semibold text-gray-700">
+                    {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    Dados de baja ({items.reduce((acc, i) => acc + i.quantity, 0)} u.)
+                </span>
+                <span className="text-xs text-gray-500">Costo ${totalCost.toLocaleString('es-AR')}</span>
+            </button>
+            {isOpen && (
+                <div className="divide-y divide-gray-100 border-t border-gray-100">
+                    {items.map(item => {
+                        const w = item.withdrawalReason ? withdrawalLabels[item.withdrawalReason] : undefined;
+                        return (
+                            <div key={item.id} className="px-4 sm:px-6 py-2.5 flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <div className="min-w-0 flex items-center gap-2">
+                                    <span className="font-medium text-gray-800 truncate">{item.productName}</span>
+                                    <span className="text-xs text-gray-500 shrink-0">×{item.quantity}</span>
+                                    {w && <span className={`text-[10px] font-bold ${w.bgColor} ${w.color} px-1.5 py-0.5 rounded shrink-0`}>{w.label}</span>}
+                                    {item.saleDate && <span className="text-xs text-gray-400 shrink-0">{formatDateKey(item.saleDate.slice(0, 10))}</span>}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => onShowHistory(item)} className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-all" title="Historial de movimientos">
+                                        <HistoryIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => onUndo(item)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-all" title="Deshacer la baja">
+                                        <Undo2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
     );
 }
 
-function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatchRef, onSplit, onWithdraw, onTogglePublicInStore, onManageImages, batchHistory }: {
+function InventoryTable({ items, allItems, onEdit, onDelete, onSell, onReserve, onRestock, onShowHistory, onSplit, onWithdraw, onTogglePublicInStore, onManageImages, batchHistory, viewMode, onViewModeChange }: {
     items: Item[],
     allItems: Item[],
     onEdit: (i: Item) => void,
     onDelete: (id: string) => void,
     onSell: (i: Item) => void,
-    resolveBatchRef: (item: Item) => string | undefined,
+    onReserve: (i: Item) => void,
+    onRestock: (i: Item) => void,
+    onShowHistory: (i: Item) => void,
     onSplit: (i: Item) => void,
     onWithdraw: (item: Item, reason: WithdrawalReason) => void,
     onTogglePublicInStore: (id: string, value: boolean) => void,
     onManageImages: (item: Item) => void,
-    batchHistory: BatchRecord[]
+    batchHistory: BatchRecord[],
+    viewMode: InventoryViewMode,
+    onViewModeChange: (mode: InventoryViewMode) => void
 }) {
-    type ViewMode = 'products' | 'locations' | 'batches';
-    const [viewMode, setViewMode] = useState<ViewMode>('products');
     const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
     const [searchQuery, setSearchQuery] = useState('');
     const [withdrawMenuId, setWithdrawMenuId] = useState<string | null>(null);
@@ -2466,9 +7496,9 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
             const batch = batchHistory.find(b => b.batchCode === code);
             if (!batch) return null;
             // Check if ALL sell-disposition items from this batch are sold
-            const batchItems = allItems.filter(i => (i.batchRef || '') === code || resolveBatchRef(i) === code);
+            const batchItems = allItems.filter(i => i.batchRef === code);
             const sellItems = batchItems.filter(i => i.itemType !== 'personal');
-            const allSold = sellItems.length > 0 && sellItems.every(i => i.status === 'sold');
+            const allSold = sellItems.length > 0 && sellItems.every(i => !isEnStock(i.status));
             if (allSold) return 'completado' as BatchStatus;
             return batch.batchStatus;
         }).filter(Boolean) as BatchStatus[];
@@ -2490,7 +7520,7 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
             const q = normalizeText(searchQuery);
             return normalizeText(item.productName).includes(q)
                 || normalizeText(item.location || '').includes(q)
-                || normalizeText(resolveBatchRef(item) || '').includes(q);
+                || normalizeText(item.batchRef || '').includes(q);
         })
         : items;
 
@@ -2525,7 +7555,7 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
             const existingLoc = grp.locations.find(l => normalizeText(l.loc) === normalizeText(loc));
             if (existingLoc) existingLoc.qty += item.quantity;
             else grp.locations.push({ loc, qty: item.quantity });
-            const bRef = resolveBatchRef(item);
+            const bRef = item.batchRef;
             if (bRef && !grp.batches.includes(bRef)) grp.batches.push(bRef);
         });
         for (const grp of map.values()) {
@@ -2594,7 +7624,7 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
     const batchGroups: BatchGroup[] = (() => {
         const map = new Map<string, BatchGroup>();
         filteredItems.forEach(item => {
-            const bRef = resolveBatchRef(item) || '';
+            const bRef = item.batchRef || '';
             const bKey = bRef || '__direct__';
             let grp = map.get(bKey);
             if (!grp) {
@@ -2633,21 +7663,21 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                     </p>
                     <div className="flex gap-1.5">
                         <button
-                            onClick={() => { setViewMode('products'); setExpandedGroups(new Set()); }}
+                            onClick={() => { onViewModeChange('products'); setExpandedGroups(new Set()); }}
                             className={`text-xs font-bold px-3 py-1.5 rounded-lg border transition-all flex items-center gap-1.5 ${viewMode === 'products' ? 'bg-blue-600 border-blue-600 text-white shadow-sm' : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'}`}
                         >
                             <Layers className="w-3.5 h-3.5" />
                             Por Producto
                         </button>
                         <button
-                            onClick={() => { setViewMode('locations'); setExpandedGroups(new Set()); }}
+                            onClick={() => { onViewModeChange('locations'); setExpandedGroups(new Set()); }}
                             className={`text-xs font-bold px-3 py-1.5 rounded-lg border transition-all flex items-center gap-1.5 ${viewMode === 'locations' ? 'bg-blue-600 border-blue-600 text-white shadow-sm' : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'}`}
                         >
                             <MapPin className="w-3.5 h-3.5" />
                             Por Ubicación
                         </button>
                         <button
-                            onClick={() => { setViewMode('batches'); setExpandedGroups(new Set()); }}
+                            onClick={() => { onViewModeChange('batches'); setExpandedGroups(new Set()); }}
                             className={`text-xs font-bold px-3 py-1.5 rounded-lg border transition-all flex items-center gap-1.5 ${viewMode === 'batches' ? 'bg-blue-600 border-blue-600 text-white shadow-sm' : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'}`}
                         >
                             <Box className="w-3.5 h-3.5" />
@@ -2724,19 +7754,32 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                     <div key={item.id} className="bg-white rounded-xl border border-gray-100 p-3">
                                         <div className="flex justify-between items-center text-sm">
                                             <div>
-                                                <span className="text-gray-700 font-medium">{getBatchLabel(resolveBatchRef(item))}</span>
+                                                <span className="text-gray-700 font-medium">{getBatchLabel(item.batchRef)}</span>
                                                 <span className="text-gray-400 mx-2">·</span>
                                                 <span className="text-gray-500">{item.location || 'Sin ubicación'}</span>
                                             </div>
-                                            <span className="text-xs font-semibold text-gray-600">×{item.quantity}</span>
+                                            <span className="flex items-center gap-1.5">
+                                                <ItemStatusBadge status={item.status} />
+                                                <span className="text-xs font-semibold text-gray-600">×{item.quantity}</span>
+                                            </span>
                                         </div>
                                         <div className="flex gap-4 text-xs text-gray-500 mt-1">
                                             <span>Costo: ${item.purchasePrice.toLocaleString('es-AR')}/u</span>
                                             <span>{conditionLabelMap[item.condition || 'nuevo']}</span>
                                         </div>
                                         <div className="flex gap-2 mt-2 flex-wrap">
-                                            <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">Vender</button>
+                                            {item.status === 'reserved' ? (
+                                                <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-violet-50 text-violet-700 px-2 py-1 rounded-md">Reservado</button>
+                                            ) : item.status === 'returned' ? (
+                                                <button onClick={() => onRestock(item)} className="text-[10px] font-bold bg-teal-50 text-teal-700 px-2 py-1 rounded-md">Revisado: a stock</button>
+                                            ) : (
+                                                <>
+                                                    <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">Vender</button>
+                                                    {item.status === 'in_stock' && <button onClick={() => onReserve(item)} className="text-[10px] font-bold bg-violet-50 text-violet-700 px-2 py-1 rounded-md">Reservar</button>}
+                                                </>
+                                            )}
                                             <button onClick={() => onEdit(item)} className="text-[10px] font-bold bg-blue-50 text-blue-700 px-2 py-1 rounded-md">Editar</button>
+                                            <button onClick={() => onShowHistory(item)} className="text-[10px] font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-md">Historial</button>
                                             {item.quantity > 1 && <button onClick={() => onSplit(item)} className="text-[10px] font-bold bg-amber-50 text-amber-700 px-2 py-1 rounded-md">Separar</button>}
                                             <div className="relative">
                                                 <button onClick={() => setWithdrawMenuId(withdrawMenuId === item.id ? null : item.id)} className="text-[10px] font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-md">Dar de baja</button>
@@ -2807,7 +7850,7 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                         <div className="flex gap-2 mt-2 flex-wrap">
                                             {prod.items.map(item => (
                                                 <div key={item.id} className="flex gap-1">
-                                                    <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">Vender</button>
+                                                    <button onClick={() => item.status === 'returned' ? onRestock(item) : onSell(item)} className={`text-[10px] font-bold px-2 py-1 rounded-md ${isVendible(item.status) ? 'bg-emerald-50 text-emerald-700' : 'bg-violet-50 text-violet-700'}`}>{isVendible(item.status) ? 'Vender' : getEstadoLabel(item.status)}</button>
                                                     <button onClick={() => onEdit(item)} className="text-[10px] font-bold bg-blue-50 text-blue-700 px-2 py-1 rounded-md">Editar</button>
                                                 </div>
                                             ))}
@@ -2839,7 +7882,10 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                     <div key={item.id} className="bg-white rounded-xl border border-gray-100 p-3">
                                         <div className="flex justify-between items-center text-sm">
                                             <span className="font-medium text-gray-900">{item.productName}</span>
-                                            <span className="text-xs font-semibold text-gray-600">×{item.quantity}</span>
+                                            <span className="flex items-center gap-1.5">
+                                                <ItemStatusBadge status={item.status} />
+                                                <span className="text-xs font-semibold text-gray-600">×{item.quantity}</span>
+                                            </span>
                                         </div>
                                         <div className="flex gap-4 text-xs text-gray-500 mt-1">
                                             <span>Costo: ${item.purchasePrice.toLocaleString('es-AR')}/u</span>
@@ -2847,8 +7893,18 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                             <span>{conditionLabelMap[item.condition || 'nuevo']}</span>
                                         </div>
                                         <div className="flex gap-2 mt-2 flex-wrap">
-                                            <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">Vender</button>
+                                            {item.status === 'reserved' ? (
+                                                <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-violet-50 text-violet-700 px-2 py-1 rounded-md">Reservado</button>
+                                            ) : item.status === 'returned' ? (
+                                                <button onClick={() => onRestock(item)} className="text-[10px] font-bold bg-teal-50 text-teal-700 px-2 py-1 rounded-md">Revisado: a stock</button>
+                                            ) : (
+                                                <>
+                                                    <button onClick={() => onSell(item)} className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md">Vender</button>
+                                                    {item.status === 'in_stock' && <button onClick={() => onReserve(item)} className="text-[10px] font-bold bg-violet-50 text-violet-700 px-2 py-1 rounded-md">Reservar</button>}
+                                                </>
+                                            )}
                                             <button onClick={() => onEdit(item)} className="text-[10px] font-bold bg-blue-50 text-blue-700 px-2 py-1 rounded-md">Editar</button>
+                                            <button onClick={() => onShowHistory(item)} className="text-[10px] font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-md">Historial</button>
                                             {item.quantity > 1 && <button onClick={() => onSplit(item)} className="text-[10px] font-bold bg-amber-50 text-amber-700 px-2 py-1 rounded-md">Separar</button>}
                                             <div className="relative">
                                                 <button onClick={() => setWithdrawMenuId(withdrawMenuId === item.id ? null : item.id)} className="text-[10px] font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-md">Dar de baja</button>
@@ -2962,11 +8018,12 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                                 {/* Chips de metadatos */}
                                                 <div className="flex items-center gap-1.5 flex-wrap">
                                                     <span className="text-[10px] font-bold bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
-                                                        {getBatchLabel(resolveBatchRef(item))}
+                                                        {getBatchLabel(item.batchRef)}
                                                     </span>
                                                     <span className="text-[10px] font-semibold bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
                                                         {conditionLabelMap[item.condition || 'nuevo']}
                                                     </span>
+                                                    <ItemStatusBadge status={item.status} />
                                                     <span className="text-[10px] text-gray-400">
                                                         {new Date(item.date).toLocaleDateString('es-AR')}
                                                     </span>
@@ -2995,10 +8052,30 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                                 {/* Acciones organizadas */}
                                                 <div className="flex items-center gap-1">
                                                     {/* Primaria */}
-                                                    <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
-                                                        className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 active:scale-95 text-white px-2.5 py-1.5 rounded-lg text-[11px] font-bold shadow-sm transition-all">
-                                                        <DollarSign className="w-3 h-3" /> Vender
-                                                    </button>
+                                                    {item.status === 'reserved' ? (
+                                                        <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
+                                                            className="flex items-center gap-1 bg-violet-100 hover:bg-violet-200 text-violet-700 px-2.5 py-1.5 rounded-lg text-[11px] font-bold transition-all">
+                                                            <Bookmark className="w-3 h-3" /> Reservado
+                                                        </button>
+                                                    ) : item.status === 'returned' ? (
+                                                        <button onClick={(e) => { e.stopPropagation(); onRestock(item); }}
+                                                            className="flex items-center gap-1 bg-teal-100 hover:bg-teal-200 text-teal-700 px-2.5 py-1.5 rounded-lg text-[11px] font-bold transition-all" title="Revisado: vuelve al stock">
+                                                            <Check className="w-3 h-3" /> A stock
+                                                        </button>
+                                                    ) : (
+                                                        <>
+                                                            <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
+                                                                className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 active:scale-95 text-white px-2.5 py-1.5 rounded-lg text-[11px] font-bold shadow-sm transition-all">
+                                                                <DollarSign className="w-3 h-3" /> Vender
+                                                            </button>
+                                                            {item.status === 'in_stock' && (
+                                                                <button onClick={(e) => { e.stopPropagation(); onReserve(item); }}
+                                                                    className="p-1.5 text-violet-500 hover:text-violet-700 hover:bg-violet-50 rounded-lg transition-all" title="Reservar con seña">
+                                                                    <Bookmark className="w-3.5 h-3.5" />
+                                                                </button>
+                                                            )}
+                                                        </>
+                                                    )}
 
                                                     {/* Separador */}
                                                     <div className="w-px h-5 bg-gray-200 mx-0.5" />
@@ -3028,6 +8105,10 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                                         title={item.publicInStore ? 'En tienda — pausar' : 'Publicar en tienda'}>
                                                         {item.publicInStore ? '🏪' : item.description || item.storeTitle ? '⏸' : '🏪'}
                                                     </button>
+                                                    <button onClick={(e) => { e.stopPropagation(); onShowHistory(item); }}
+                                                        className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all" title="Historial de movimientos">
+                                                        <HistoryIcon className="w-3.5 h-3.5" />
+                                                    </button>
                                                     {item.quantity > 1 && (
                                                         <button onClick={(e) => { e.stopPropagation(); onSplit(item); }}
                                                             className="p-1.5 text-amber-500 hover:text-amber-700 hover:bg-amber-50 rounded-lg transition-all" title="Separar">
@@ -3108,8 +8189,8 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                                 <div className="flex justify-end items-center gap-1">
                                                     {prod.items.map(item => (
                                                         <div key={item.id} className="flex gap-0.5">
-                                                            <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
-                                                                className="bg-emerald-600 hover:bg-emerald-700 text-white px-1.5 py-0.5 rounded text-[10px] font-bold">Vender</button>
+                                                            <button onClick={(e) => { e.stopPropagation(); if (item.status === 'returned') onRestock(item); else onSell(item); }}
+                                                                className={`${isVendible(item.status) ? 'bg-emerald-600 hover:bg-emerald-700 text-white' : 'bg-violet-100 hover:bg-violet-200 text-violet-700'} px-1.5 py-0.5 rounded text-[10px] font-bold`}>{isVendible(item.status) ? 'Vender' : getEstadoLabel(item.status)}</button>
                                                             <button onClick={(e) => { e.stopPropagation(); onEdit(item); }}
                                                                 className="p-1 text-gray-400 hover:text-blue-600 rounded" title="Editar">
                                                                 <Edit2 className="w-3 h-3" />
@@ -3168,7 +8249,10 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                         <tr key={item.id} className="bg-blue-50/30 border-l-2 border-blue-200">
                                             <td className="px-4 py-2"></td>
                                             <td className="px-4 py-2 text-gray-700 font-medium text-xs">
-                                                {item.productName}
+                                                <span className="flex items-center gap-1.5">
+                                                    {item.productName}
+                                                    <ItemStatusBadge status={item.status} />
+                                                </span>
                                             </td>
                                             <td className="px-4 py-2 text-center text-xs text-gray-500">
                                                 {conditionLabelMap[item.condition || 'nuevo']}
@@ -3180,14 +8264,38 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
                                             <td className="px-4 py-2 text-right">
                                                 <div className="flex justify-end items-center gap-1">
                                                     <span className="text-xs font-mono mr-2">${item.purchasePrice.toLocaleString('es-AR')}/u</span>
-                                                    <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
-                                                        className="bg-emerald-600 hover:bg-emerald-700 text-white px-2 py-1 rounded text-[10px] font-bold flex items-center gap-0.5">
-                                                        <DollarSign className="w-3 h-3" /> Vender
-                                                    </button>
+                                                    {item.status === 'reserved' ? (
+                                                        <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
+                                                            className="bg-violet-100 hover:bg-violet-200 text-violet-700 px-2 py-1 rounded text-[10px] font-bold flex items-center gap-0.5">
+                                                            <Bookmark className="w-3 h-3" /> Reservado
+                                                        </button>
+                                                    ) : item.status === 'returned' ? (
+                                                        <button onClick={(e) => { e.stopPropagation(); onRestock(item); }}
+                                                            className="bg-teal-100 hover:bg-teal-200 text-teal-700 px-2 py-1 rounded text-[10px] font-bold flex items-center gap-0.5" title="Revisado: vuelve al stock">
+                                                            <Check className="w-3 h-3" /> A stock
+                                                        </button>
+                                                    ) : (
+                                                        <>
+                                                            <button onClick={(e) => { e.stopPropagation(); onSell(item); }}
+                                                                className="bg-emerald-600 hover:bg-emerald-700 text-white px-2 py-1 rounded text-[10px] font-bold flex items-center gap-0.5">
+                                                                <DollarSign className="w-3 h-3" /> Vender
+                                                            </button>
+                                                            {item.status === 'in_stock' && (
+                                                                <button onClick={(e) => { e.stopPropagation(); onReserve(item); }}
+                                                                    className="p-1.5 text-gray-400 hover:text-violet-600 hover:bg-violet-50 rounded transition-all" title="Reservar con seña">
+                                                                    <Bookmark className="w-3.5 h-3.5" />
+                                                                </button>
+                                                            )}
+                                                        </>
+                                                    )}
                                                     <button onClick={(e) => { e.stopPropagation(); onEdit(item); }}
                                                         className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-all" title="Editar">
                                                         <Edit2 className="w-3.5 h-3.5" />
                                                     </button>
+                                                    <button onClick={(e) => { e.stopPropagation(); onShowHistory(item); }}
+                                                        className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-all" title="Historial de movimientos">
+                                                        <HistoryIcon className="w-3.5 h-3.5" />
+                                                    </button>
                                                     <div className="relative">
                                                         <button onClick={(e) => { e.stopPropagation(); setWithdrawMenuId(withdrawMenuId === item.id ? null : item.id); }}
                                                             className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-all" title="Dar de baja">
@@ -3219,6 +8327,106 @@ function InventoryTable({ items, allItems, onEdit, onDelete, onSell, resolveBatc
     );
 }
 
+// Línea de tiempo de un registro de stock: de dónde vinieron sus unidades y a dónde fueron
+function ItemHistoryModal({ itemId, item, onClose, onOpenItem }: {
+    itemId: string;
+    item?: Item;
+    onClose: () => void;
+    onOpenItem: (id: string) => void;
+}) {
+    const [movements, setMovements] = useState<StockMovement[] | null>(null);
+    const [loadError, setLoadError] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        stockMovementService.getItemMovements(itemId)
+            .then(data => { if (!cancelled) setMovements(data); })
+            .catch(err => {
+                console.error('Error loading stock movements:', err);
+                if (!cancelled) setLoadError(true);
+            });
+        return () => { cancelled = true; };
+    }, [itemId]);
+
+    // Una separación deja una fila en cada registro: si ya está la propia, la del otro sobra
+    const timeline = (movements || []).filter(m =>
+        m.itemId === itemId ||
+        !(movements || []).some(own => own.itemId === itemId && own.movementType === m.movementType && own.relatedItemId === m.itemId)
+    );
+    const title = item?.productName || timeline[0]?.productName || 'Registro';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/30 backdrop-blur-sm transition-opacity">
+            <div className="bg-white rounded-t-3xl sm:rounded-2xl shadow-2xl w-full max-w-lg max-h-[92vh] sm:max-h-[88vh] overflow-y-auto ring-1 ring-black/5 animate-in zoom-in-95 duration-200">
+                <div className="p-4 sm:p-6 border-b border-gray-100 bg-gray-50/50 flex justify-between items-center sticky top-0 z-10">
+                    <div className="min-w-0">
+                        <h2 className="text-lg sm:text-xl font-bold text-gray-800 flex items-center gap-2">
+                            <HistoryIcon className="w-5 h-5 shrink-0" />
+                            <span className="truncate">{title}</span>
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {item
+                                ? `${getEstadoLabel(item.status)}: ${item.quantity} u.${item.location ? ` en ${item.location}` : ''}`
+                                : 'Este registro ya no existe en el inventario'}
+                        </p>
+                    </div>
+                    <button type="button" onClick={onClose} className="h-9 w-9 rounded-full bg-white border border-gray-200 text-gray-400 hover:text-gray-600 flex items-center justify-center shrink-0">
+                        <span className="text-2xl leading-none">&times;</span>
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6">
+                    {loadError ? (
+                        <p className="text-sm text-rose-600 text-center py-6">No se pudo cargar el historial.</p>
+                    ) : !movements ? (
+                        <div className="flex justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-gray-400" /></div>
+                    ) : timeline.length === 0 ? (
+                        <p className="text-sm text-gray-400 text-center py-6">Sin movimientos registrados.</p>
+                    ) : (
+                        <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+                            {timeline.map(m => {
+                                const label = movementLabels[m.movementType];
+                                const isOwn = m.itemId === itemId;
+                                const linkedId = isOwn ? m.relatedItemId : m.itemId;
+                                return (
+                                    <li key={m.id} className="ml-4">
+                                        <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${label.bgColor}`} />
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className={`text-[10px] font-bold ${label.bgColor} ${label.color} px-1.5 py-0.5 rounded`}>{label.label}</span>
+                                            {isOwn && m.delta !== 0 && (
+                                                <span className={`text-sm font-bold ${m.delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                                                    {m.delta > 0 ? '+' : '−'}{Math.abs(m.delta)} u.
+                                                </span>
+                                            )}
+                                            <span className="text-xs text-gray-400">{new Date(m.createdAt).toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                        </div>
+                                        <p className="text-sm text-gray-600 mt-1">
+                                            {m.fromLocation || m.toLocation
+                                                ? `${m.fromLocation || 'Sin ubicación'}${m.toLocation !== undefined && m.toLocation !== m.fromLocation ? ` → ${m.toLocation || 'Sin ubicación'}` : ''}`
+                                                : null}
+                                            {m.batchRef ? `${m.fromLocation || m.toLocation ? ' · ' : ''}${m.batchRef}` : null}
+                                            {m.note ? ` · ${m.note}` : null}
+                                            {!isOwn ? ` · ${Math.abs(m.delta)} u. desde otro registro` : null}
+                                        </p>
+                                        <div className="flex items-center gap-3 mt-0.5">
+                                            {m.userEmail && <span className="text-[11px] text-gray-400">{m.userEmail}</span>}
+                                            {linkedId && (
+                                                <button type="button" onClick={() => onOpenItem(linkedId)} className="text-[11px] font-medium text-blue-600 hover:text-blue-700">
+                                                    Ver registro vinculado
+                                                </button>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
 function StoreImagesModal({ item, onClose, onSave, onClearAll, onGeneratePlaca }: {
     item: Item;
     onClose: () => void;
@@ -3790,9 +8998,9 @@ function ComboboxInput({ value, onChange, suggestions, placeholder, className, r
     );
 }
 
-function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, editingItemStatus, suggestedNames = [], suggestedLocations = [], batchCodes = [], existingImages = [], isSaving = false }: {
-    formData: Partial<Item>,
-    setFormData: React.Dispatch<React.SetStateAction<Partial<Item>>>,
+function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, editingItemStatus, suggestedNames = [], suggestedLocations = [], batchCodes = [], customers = [], resellers = [], onCreateCustomer, existingImages = [], isSaving = false }: {
+    formData: ItemFormData,
+    setFormData: React.Dispatch<React.SetStateAction<ItemFormData>>,
     onSubmit: (e: React.FormEvent) => void,
     onCancel: () => void,
     isEditing: boolean,
@@ -3800,6 +9008,9 @@ function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, edi
     suggestedNames?: string[],
     suggestedLocations?: string[],
     batchCodes?: string[],
+    customers?: Customer[],
+    resellers?: Reseller[],
+    onCreateCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<Customer | null>,
     existingImages?: { url: string; name: string }[],
     isSaving?: boolean
 }) {
@@ -3834,10 +9045,10 @@ function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, edi
         }
 
         if (editingItemStatus === 'sold' && formData.status === 'in_stock') {
-            return 'Volver al Stock';
+            return 'Registrar devolución';
         }
 
-        if (editingItemStatus === 'in_stock' && formData.status === 'sold') {
+        if (editingItemStatus && isEnStock(editingItemStatus) && formData.status === 'sold') {
             return 'Vender y Descontar';
         }
 
@@ -3929,7 +9140,7 @@ function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, edi
                             setFormData({ ...formData, salePrice: value });
                         }}
                     />
-                    {isEditing && editingItemStatus === 'in_stock' && formData.status === 'sold' && (
+                    {isEditing && editingItemStatus && isEnStock(editingItemStatus) && formData.status === 'sold' && (
                         <p className="text-xs text-gray-500 mt-1">Precio por unidad. Puedes editarlo antes de confirmar la venta.</p>
                     )}
                 </div>
@@ -3987,20 +9198,34 @@ function ProductForm({ formData, setFormData, onSubmit, onCancel, isEditing, edi
             {formData.status === 'sold' && (
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Vendedor (opcional)</label>
-                    <input
-                        type="text"
-                        placeholder="Ej: María, Juan — dejar vacío si cobraste vos"
+                    <select
                         className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-gray-700"
-                        value={formData.vendedor || ''}
+                        value={formData.resellerId || ''}
                         onChange={e => {
-                            const vendedor = e.target.value;
-                            setFormData({ ...formData, vendedor: vendedor || undefined, cobrado: vendedor ? false : true });
+                            const reseller = resellers.find(r => r.id === e.target.value);
+                            setFormData({ ...formData, vendedor: reseller?.name || '', resellerId: reseller?.id || '', cobrado: !reseller });
                         }}
-                    />
+                    >
+                        <option value="">Ninguno, cobraste vos</option>
+                        {resellers.filter(r => r.active || r.id === formData.resellerId).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                    </select>
                     <p className="text-xs text-gray-400 mt-1">Si indicás un vendedor, la venta queda como "cobro pendiente"</p>
                 </div>
             )}
 
+            {formData.status === 'sold' && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cliente (opcional)</label>
+                    <CustomerSelect
+                        customers={customers}
+                        value={formData.customerId || ''}
+                        onChange={customerId => setFormData(prev => ({ ...prev, customerId }))}
+                        onCreate={onCreateCustomer}
+                        className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-black focus:ring-1 focus:ring-black outline-none transition-all bg-gray-50 focus:bg-white text-gray-700"
+                    />
+                </div>
+            )}
+
             {isEditing && batchCodes.length > 0 && (
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Tanda</label>
@@ -4049,10 +9274,11 @@ function BulkPricingBoard({
     setBatchItems,
     inventoryItems,
     onInventoryRefresh,
-    itemBatchMap,
-    setItemBatchMap,
     batchHistory,
-    setBatchHistory
+    setBatchHistory,
+    selectedBatchCode,
+    expenses,
+    onSelectBatch
 }: {
     totalPaid: number;
     setTotalPaid: React.Dispatch<React.SetStateAction<number>>;
@@ -4060,10 +9286,11 @@ function BulkPricingBoard({
     setBatchItems: React.Dispatch<React.SetStateAction<PricingItem[]>>;
     inventoryItems: Item[];
     onInventoryRefresh: () => Promise<void>;
-    itemBatchMap: Record<string, string>;
-    setItemBatchMap: React.Dispatch<React.SetStateAction<Record<string, string>>>;
     batchHistory: BatchRecord[];
     setBatchHistory: React.Dispatch<React.SetStateAction<BatchRecord[]>>;
+    selectedBatchCode: string | null;
+    expenses: Expense[];
+    onSelectBatch: (batchCode: string | null) => void;
 }) {
     const [newName, setNewName] = useState('');
     const [newQty, setNewQty] = useState('1');
@@ -4072,7 +9299,6 @@ function BulkPricingBoard({
     const [newDisposition, setNewDisposition] = useState<'sell' | 'keep'>('sell');
     const [newCategory, setNewCategory] = useState('');
     const [totalPaidInput, setTotalPaidInput] = useState('');
-    const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
     const [batchDefaultLocation, setBatchDefaultLocation] = useState('');
     const [bulkLocationInput, setBulkLocationInput] = useState('');
     const [isUpdatingBulk, setIsUpdatingBulk] = useState(false);
@@ -4102,21 +9328,21 @@ function BulkPricingBoard({
     const [importError, setImportError] = useState('');
     const [importCreditMode, setImportCreditMode] = useState<'already_applied' | 'manual'>('already_applied');
 
-    // When editing a batch, check which items have sold copies in inventory (cannot be removed)
-    const editingBatch = batchHistory.find(b => b.id === editingBatchId) || null;
+    // Al editar una tanda, las líneas con unidades vendidas o retiradas no se pueden quitar
     const getSoldQtyForBatchItem = (pItem: PricingItem): number => {
-        if (!editingBatch) return 0;
-        return inventoryItems.filter(inv =>
-            inv.status === 'sold' &&
-            normalizeText(inv.productName) === normalizeText(pItem.productName) &&
-            (inv.batchRef || itemBatchMap[inv.id]) === editingBatch.batchCode &&
-            (inv.condition || 'nuevo') === (pItem.condition || 'nuevo')
-        ).reduce((a, i) => a + i.quantity, 0);
+        if (!editingBatchId) return 0;
+        const counts = getBatchItemCounts(pItem.id, inventoryItems);
+        return counts.soldQty + counts.withdrawnQty;
     };
 
     const handleReturnFromBatch = async (batch: BatchRecord, pricingItem: PricingItem) => {
-        const qtyToReturn = pricingItem.quantity;
-        
+        // Solo se devuelve lo que sigue en stock; lo vendido queda en la línea
+        const qtyToReturn = getBatchItemCounts(pricingItem.id, inventoryItems).remainingQty;
+        if (qtyToReturn <= 0) {
+            alert(`No quedan unidades de "${pricingItem.productName}" en stock para devolver.`);
+            return;
+        }
+
         // Calculate original unit cost (approximate based on allocation)
         
         // Use listed price ratio for better approximation if possible
@@ -4132,13 +9358,8 @@ function BulkPricingBoard({
 
         setIsProcessingReturn(true);
         try {
-            // 1. Update the inventory items (only in_stock items from this batch)
-            const matchingItems = inventoryItems.filter(i =>
-                i.status === 'in_stock' &&
-                (i.batchRef || itemBatchMap[i.id]) === batch.batchCode &&
-                normalizeText(i.productName) === normalizeText(pricingItem.productName) &&
-                (i.condition || 'nuevo') === pricingItem.condition
-            );
+            // 1. Update the inventory items (only available stock from this batch)
+            const matchingItems = inventoryItems.filter(i => isVendible(i.status) && i.batchItemId === pricingItem.id);
 
             let remainingToReturn = qtyToReturn;
             for (const item of matchingItems) {
@@ -4149,12 +9370,16 @@ function BulkPricingBoard({
                 } else {
                     await itemService.deleteItem(item.id);
                 }
+                await recordStockMovements([{
+                    movementType: 'devolucion_tanda', itemId: item.id, productName: item.productName,
+                    delta: -reduceBy, fromLocation: item.location, batchRef: batch.batchCode
+                }]);
                 remainingToReturn -= reduceBy;
             }
 
             // 2. Update the batch record
             const updatedItems = batch.items.map(item => {
-                if (item.productName === pricingItem.productName && item.condition === pricingItem.condition) {
+                if (item.id === pricingItem.id) {
                     return { ...item, quantity: item.quantity - qtyToReturn };
                 }
                 return item;
@@ -4280,57 +9505,8 @@ function BulkPricingBoard({
         }));
     };
 
-    const selectedRecord = batchHistory.find((record) => record.id === selectedHistoryId) || null;
-    const selectedRecordItems: PricingItem[] = (() => {
-        if (!selectedRecord) return [];
-        const storedItems = selectedRecord.items && selectedRecord.items.length > 0 ? selectedRecord.items : [];
-        if (storedItems.length === 0) {
-            // No stored items — reconstruct from inventory
-            return inventoryItems
-                .filter((item) => (item.batchRef || itemBatchMap[item.id]) === selectedRecord.batchCode)
-                .map((item) => ({
-                    id: item.id,
-                    productName: item.productName,
-                    quantity: item.quantity,
-                    listedUnitPrice: item.purchasePrice,
-                    unitSalePrice: item.salePrice || item.purchasePrice,
-                    condition: item.condition,
-                    disposition: 'sell' as const
-                }));
-        }
-        // Merge stored items with sold inventory items missing from the stored list
-        const batchInv = inventoryItems.filter(i =>
-            (i.batchRef || itemBatchMap[i.id]) === selectedRecord.batchCode
-        );
-        const missingItems: PricingItem[] = [];
-        for (const inv of batchInv) {
-            const alreadyInStored = storedItems.some(si =>
-                normalizeText(si.productName) === normalizeText(inv.productName) &&
-                (si.condition || 'nuevo') === (inv.condition || 'nuevo')
-            );
-            if (!alreadyInStored) {
-                // Check if we already added this product+condition to missingItems
-                const existing = missingItems.find(m =>
-                    normalizeText(m.productName) === normalizeText(inv.productName) &&
-                    (m.condition || 'nuevo') === (inv.condition || 'nuevo')
-                );
-                if (existing) {
-                    existing.quantity += inv.quantity;
-                } else {
-                    missingItems.push({
-                        id: crypto.randomUUID(),
-                        productName: inv.productName,
-                        quantity: inv.quantity,
-                        listedUnitPrice: inv.purchasePrice,
-                        unitSalePrice: inv.salePrice || inv.purchasePrice,
-                        condition: inv.condition,
-                        disposition: inv.itemType === 'personal' ? 'keep' : 'sell'
-                    });
-                }
-            }
-        }
-        return [...storedItems, ...missingItems];
-    })();
+    const selectedRecord = batchHistory.find((record) => record.batchCode === selectedBatchCode) || null;
+    const selectedRecordItems: PricingItem[] = selectedRecord?.items || [];
 
     const deleteBatchRecord = async (recordId: string) => {
         const target = batchHistory.find((record) => record.id === recordId);
@@ -4340,10 +9516,14 @@ function BulkPricingBoard({
         if (!ok) return;
 
         try {
-            const relatedItems = inventoryItems.filter((item) => (item.batchRef || itemBatchMap[item.id]) === target.batchCode);
+            const relatedItems = inventoryItems.filter((item) => item.batchRef === target.batchCode);
             for (const item of relatedItems) {
                 await itemService.deleteItem(item.id);
             }
+            await recordStockMovements(relatedItems.filter(item => isEnStock(item.status)).map((item): StockMovementInput => ({
+                movementType: 'eliminacion', itemId: item.id, productName: item.productName, delta: -item.quantity,
+                fromLocation: item.location, batchRef: target.batchCode, note: `Tanda ${target.batchCode} eliminada`
+            })));
 
             // Delete from Supabase
             await itemService.deleteBatch(recordId);
@@ -4351,14 +9531,9 @@ function BulkPricingBoard({
             const nextHistory = batchHistory.filter((record) => record.id !== recordId);
             setBatchHistory(nextHistory);
             localStorage.setItem('pricing_batch_history_v1', JSON.stringify(nextHistory));
-            if (selectedHistoryId === recordId) {
-                setSelectedHistoryId(null);
+            if (selectedRecord?.id === recordId) {
+                onSelectBatch(null);
             }
-            setItemBatchMap((prev) => {
-                const next = { ...prev };
-                for (const item of relatedItems) delete next[item.id];
-                return next;
-            });
 
             await onInventoryRefresh();
             alert(`Tanda ${target.batchCode} eliminada.`);
@@ -4436,7 +9611,7 @@ function BulkPricingBoard({
                 let historyMatch: { totalSold: number; lastSalePrice: number; avgSalePrice: number; inStock: number } | null = null;
                 if (historyItems.length > 0) {
                     const sold = historyItems.filter((it: Item) => it.status === 'sold' && it.salePrice);
-                    const inStock = historyItems.filter((it: Item) => it.status === 'in_stock').reduce((s: number, it: Item) => s + it.quantity, 0);
+                    const inStock = historyItems.filter((it: Item) => isEnStock(it.status)).reduce((s: number, it: Item) => s + it.quantity, 0);
                     const totalSold = sold.reduce((s: number, it: Item) => s + it.quantity, 0);
                     const lastSold = sold.sort((a: Item, b: Item) => (b.saleDate || '').localeCompare(a.saleDate || ''))[0];
                     const avgSalePrice = totalSold > 0 ? sold.reduce((s: number, it: Item) => s + (it.salePrice || 0) * it.quantity, 0) / totalSold : 0;
@@ -4560,100 +9735,17 @@ function BulkPricingBoard({
         }
 
         try {
-            const rawItemsToSell = normalizedItems.filter((item) => item.disposition === 'sell');
-            const itemsToSell: PricingItem[] = [];
-            for (const item of rawItemsToSell) {
-                const existing = itemsToSell.find(i =>
-                    i.productName === item.productName &&
-                    i.condition === item.condition &&
-                    i.listedUnitPrice === item.listedUnitPrice &&
-                    i.unitSalePrice === item.unitSalePrice
-                );
-                if (existing) {
-                    existing.quantity += item.quantity;
-                } else {
-                    itemsToSell.push({ ...item });
-                }
-            }
-
+            const sellCount = normalizedItems.filter((item) => item.disposition === 'sell').length;
             const lastBatchCode = batchHistory.length > 0
                 ? batchHistory.map(h => parseInt(h.batchCode.split('-')[1]) || 0).reduce((a, b) => Math.max(a, b), 0)
                 : 0;
             const batchIndex = lastBatchCode + 1;
             const batchCode = `T-${batchIndex.toString().padStart(3, '0')}`;
             const batchType: BatchRecord['batchType'] =
-                rawItemsToSell.length === 0 ? 'retenido' : (rawItemsToSell.length === normalizedItems.length ? 'venta' : 'mixta');
-
-            for (const item of itemsToSell) {
-                const adjustedUnitCost = Math.round(item.listedUnitPrice * allocationFactor);
-                const nowIso = new Date().toISOString();
-
-                const existingStock = inventoryItems.find((stockItem) =>
-                    stockItem.status === 'in_stock' &&
-                    stockItem.productName === item.productName &&
-                    stockItem.condition === item.condition &&
-                    Math.round(stockItem.purchasePrice) === adjustedUnitCost &&
-                    (stockItem.batchRef || itemBatchMap[stockItem.id]) === batchCode
-                );
-
-                if (existingStock) {
-                    await itemService.updateItem(existingStock.id, {
-                        quantity: existingStock.quantity + item.quantity,
-                        salePrice: item.unitSalePrice,
-                        condition: item.condition,
-                        batchRef: batchCode,
-                        location: batchDefaultLocation || existingStock.location
-                    });
-                    setItemBatchMap((prev) => ({ ...prev, [existingStock.id]: batchCode }));
-                } else {
-                    const created = await itemService.createItem({
-                        productName: item.productName,
-                        purchasePrice: adjustedUnitCost,
-                        salePrice: item.unitSalePrice,
-                        quantity: item.quantity,
-                        date: nowIso,
-                        status: 'in_stock',
-                        condition: item.condition,
-                        itemType: 'resale',
-                        batchRef: batchCode,
-                        location: batchDefaultLocation,
-                        category: item.category
-                    });
-                    setItemBatchMap((prev) => ({ ...prev, [created.id]: batchCode }));
-                }
-            }
-
-            // Create personal inventory items for "keep" products
-            const rawItemsToKeep = normalizedItems.filter((item) => item.disposition === 'keep');
-            const itemsToKeep: PricingItem[] = [];
-            for (const item of rawItemsToKeep) {
-                const existing = itemsToKeep.find(i =>
-                    i.productName === item.productName &&
-                    i.condition === item.condition
-                );
-                if (existing) {
-                    existing.quantity += item.quantity;
-                } else {
-                    itemsToKeep.push({ ...item });
-                }
-            }
-            for (const item of itemsToKeep) {
-                const nowIso = new Date().toISOString();
-                const created = await itemService.createItem({
-                    productName: item.productName,
-                    purchasePrice: 0,
-                    quantity: item.quantity,
-                    date: nowIso,
-                    status: 'in_stock',
-                    condition: item.condition,
-                    itemType: 'personal',
-                    batchRef: batchCode,
-                    location: batchDefaultLocation,
-                    category: item.category
-                });
-                setItemBatchMap((prev) => ({ ...prev, [created.id]: batchCode }));
-            }
+                sellCount === 0 ? 'retenido' : (sellCount === normalizedItems.length ? 'venta' : 'mixta');
 
+            // Ids nuevos: la tabla puede venir de una tanda cargada para editar
+            const lines = cloneItemsForTable(normalizedItems);
             const record: Omit<BatchRecord, 'id'> = {
                 batchCode,
                 batchType,
@@ -4663,12 +9755,35 @@ function BulkPricingBoard({
                 totalSellRevenue,
                 cashProfit: expectedProfit,
                 retainedValue,
-                itemsCount: normalizedItems.length,
-                items: normalizedItems.map((item) => ({ ...item }))
+                itemsCount: lines.length,
+                items: lines
             };
 
-            // Save to Supabase
+            // La tanda se guarda primero: cada item del inventario apunta a su línea
             const savedBatch = await itemService.createBatch(record);
+
+            for (const item of lines) {
+                const isKeep = item.disposition === 'keep';
+                const created = await itemService.createItem({
+                    productName: item.productName,
+                    purchasePrice: isKeep ? 0 : Math.round(item.listedUnitPrice * allocationFactor),
+                    salePrice: isKeep ? undefined : item.unitSalePrice,
+                    quantity: item.quantity,
+                    date: new Date().toISOString(),
+                    status: 'in_transit',
+                    condition: item.condition,
+                    itemType: isKeep ? 'personal' : 'resale',
+                    batchRef: batchCode,
+                    batchItemId: item.id,
+                    location: batchDefaultLocation,
+                    category: item.category
+                });
+                await recordStockMovements([{
+                    movementType: 'ingreso', itemId: created.id, productName: item.productName, delta: item.quantity,
+                    toLocation: batchDefaultLocation, batchRef: batchCode, note: isKeep ? 'Uso propio' : undefined
+                }]);
+            }
+
             const nextHistory = [savedBatch, ...batchHistory].slice(0, 50);
             setBatchHistory(nextHistory);
             localStorage.setItem('pricing_batch_history_v1', JSON.stringify(nextHistory));
@@ -4705,46 +9820,25 @@ function BulkPricingBoard({
             const sellCostAdj = sellItems.reduce((acc, i) => acc + ((i.listedUnitPrice * allocFactor) * i.quantity), 0);
             const newProfit = newSellRevenue - sellCostAdj;
 
-            // Sync product name AND price changes to inventory/sales items
-            const oldItems = target.items;
+            // Nombre y precio de cada línea pasan a sus items (el precio solo al stock:
+            // en los vendidos es el precio real de venta)
             for (const newItem of normalizedItems) {
-                const oldItem = oldItems.find(oi => oi.id === newItem.id);
+                const oldItem = target.items.find(oi => oi.id === newItem.id);
                 if (!oldItem) continue;
 
                 const nameChanged = normalizeText(oldItem.productName) !== normalizeText(newItem.productName);
                 const priceChanged = newItem.disposition === 'sell' && oldItem.unitSalePrice !== newItem.unitSalePrice;
+                if (!nameChanged && !priceChanged) continue;
 
-                if (nameChanged || priceChanged) {
-                    // Find matching inventory items (in_stock)
-                    const relatedInvItems = inventoryItems.filter(inv =>
-                        normalizeText(inv.productName) === normalizeText(oldItem.productName) &&
-                        (inv.batchRef || itemBatchMap[inv.id]) === target.batchCode &&
-                        (inv.condition || 'nuevo') === (oldItem.condition || 'nuevo')
-                    );
-                    for (const inv of relatedInvItems) {
-                        try {
-                            const upd: Partial<Item> = {};
-                            if (nameChanged) upd.productName = newItem.productName;
-                            if (priceChanged) upd.salePrice = newItem.unitSalePrice;
-                            await itemService.updateItem(inv.id, upd);
-                        } catch (e) {
-                            console.error("Error syncing to inventory item", e);
-                        }
-                    }
-                    // Also sync sold items with same name + batch (name only — sale price is the actual sold price)
-                    if (nameChanged) {
-                        const soldRelated = inventoryItems.filter(i =>
-                            i.status === 'sold' &&
-                            normalizeText(i.productName) === normalizeText(oldItem.productName) &&
-                            (i.batchRef || itemBatchMap[i.id]) === target.batchCode
-                        );
-                        for (const sold of soldRelated) {
-                            try {
-                                await itemService.updateItem(sold.id, { productName: newItem.productName });
-                            } catch (e) {
-                                console.error("Error syncing name to sold item", e);
-                            }
-                        }
+                for (const inv of getBatchItemCounts(newItem.id, inventoryItems).linked) {
+                    const upd: Partial<Item> = {};
+                    if (nameChanged) upd.productName = newItem.productName;
+                    if (priceChanged && isEnStock(inv.status)) upd.salePrice = newItem.unitSalePrice;
+                    if (Object.keys(upd).length === 0) continue;
+                    try {
+                        await itemService.updateItem(inv.id, upd);
+                    } catch (e) {
+                        console.error("Error syncing to inventory item", e);
                     }
                 }
             }
@@ -5326,11 +10420,11 @@ function BulkPricingBoard({
                         {batchHistory.map((record) => (
                             <div
                                 key={record.id}
-                                className={`w-full rounded-xl border px-4 py-3 text-sm flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 transition-colors ${selectedHistoryId === record.id ? 'border-blue-300 bg-blue-50/40' : 'border-gray-200 bg-gray-50 hover:bg-gray-100/70'}`}
+                                className={`w-full rounded-xl border px-4 py-3 text-sm flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 transition-colors ${selectedRecord?.id === record.id ? 'border-blue-300 bg-blue-50/40' : 'border-gray-200 bg-gray-50 hover:bg-gray-100/70'}`}
                             >
                                 <button
                                     type="button"
-                                    onClick={() => setSelectedHistoryId((prev) => prev === record.id ? null : record.id)}
+                                    onClick={() => onSelectBatch(selectedRecord?.id === record.id ? null : record.batchCode)}
                                     className="flex-1 text-left"
                                 >
                                     <div className="text-gray-700">
@@ -5354,7 +10448,7 @@ function BulkPricingBoard({
                                             Est: ${safeMoney(record.cashProfit).toLocaleString('es-AR')}
                                         </p>
                                         {(() => {
-                                            const relatedItems = inventoryItems.filter((i: Item) => (i.batchRef || itemBatchMap[i.id]) === record.batchCode);
+                                            const relatedItems = inventoryItems.filter((i: Item) => i.batchRef === record.batchCode);
                                             const actualProfit = relatedItems.reduce((acc: number, item: Item) => {
                                                 if (item.status === 'sold') {
                                                     return acc + ((item.salePrice || 0) - item.purchasePrice) * item.quantity;
@@ -5375,6 +10469,11 @@ function BulkPricingBoard({
                                             try {
                                                 await itemService.updateBatch(record.id, { batchStatus: newStatus });
                                                 setBatchHistory((prev) => prev.map((b) => b.id === record.id ? { ...b, batchStatus: newStatus } : b));
+                                                // Al recibir la tanda sus unidades pasan de en camino a stock (y al revés)
+                                                if ((record.batchStatus === 'en_camino') !== (newStatus === 'en_camino')) {
+                                                    await itemService.updateItemStatusByBatch(record.batchCode, newStatus === 'en_camino' ? 'in_stock' : 'in_transit', newStatus === 'en_camino' ? 'in_transit' : 'in_stock');
+                                                    await onInventoryRefresh();
+                                                }
                                             } catch { alert('Error al cambiar estado.'); }
                                         }}
                                         className="text-xs px-2 py-1.5 rounded-lg border border-gray-200 bg-gray-50"
@@ -5420,6 +10519,12 @@ function BulkPricingBoard({
                                         setIsUpdatingBulk(true);
                                         try {
                                             await itemService.updateItemsByBatch(selectedRecord.batchCode, { location: bulkLocationInput });
+                                            await recordStockMovements(inventoryItems
+                                                .filter(inv => isEnStock(inv.status) && inv.batchRef === selectedRecord.batchCode && (inv.location || '') !== bulkLocationInput)
+                                                .map((inv): StockMovementInput => ({
+                                                    movementType: 'traslado', itemId: inv.id, productName: inv.productName, delta: 0,
+                                                    fromLocation: inv.location, toLocation: bulkLocationInput, batchRef: selectedRecord.batchCode, note: `${inv.quantity} u.`
+                                                })));
                                             await onInventoryRefresh();
                                             alert(`Ubicación actualizada a "${bulkLocationInput}" para todos los items de la tanda.`);
                                             setBulkLocationInput('');
@@ -5438,7 +10543,8 @@ function BulkPricingBoard({
                                 type="button"
                                 onClick={() => {
                                     setTotalPaid(selectedRecord.totalPaid);
-                                    setBatchItems(cloneItemsForTable(selectedRecordItems));
+                                    // Se conservan los ids: son las líneas a las que apuntan los items
+                                    setBatchItems(selectedRecordItems.map((item) => ({ ...item })));
                                     setEditingBatchId(selectedRecord.id);
                                 }}
                                 disabled={selectedRecordItems.length === 0}
@@ -5460,23 +10566,19 @@ function BulkPricingBoard({
                     {(() => {
                         const detailTotalListed = selectedRecordItems.reduce((acc, i) => acc + (i.listedUnitPrice * i.quantity), 0);
                         const detailAllocFactor = detailTotalListed > 0 ? selectedRecord.totalPaid / detailTotalListed : 1;
+                        const batchExpenses = expenses.filter(e => e.batchId === selectedRecord.id);
+                        const batchExpensesTotal = batchExpenses.reduce((acc, e) => acc + e.amount, 0);
 
-                        // Build a map of actual inventory data per product in this batch
-                        const batchInvItems = inventoryItems.filter((inv: Item) =>
-                            (inv.batchRef || itemBatchMap[inv.id]) === selectedRecord.batchCode
-                        );
                         const getActualData = (pItem: PricingItem) => {
-                            const matches = batchInvItems.filter((inv: Item) =>
-                                normalizeText(inv.productName) === normalizeText(pItem.productName) &&
-                                (inv.condition || 'nuevo') === pItem.condition
-                            );
-                            const soldItems = matches.filter((inv: Item) => inv.status === 'sold');
-                            const inStockItems = matches.filter((inv: Item) => inv.status === 'in_stock');
-                            const totalSoldQty = soldItems.reduce((a: number, i: Item) => a + i.quantity, 0);
-                            const totalInStockQty = inStockItems.reduce((a: number, i: Item) => a + i.quantity, 0);
-                            const totalSoldRevenue = soldItems.reduce((a: number, i: Item) => a + (i.salePrice || 0) * i.quantity, 0);
-                            const avgSalePrice = totalSoldQty > 0 ? totalSoldRevenue / totalSoldQty : 0;
-                            return { totalSoldQty, totalInStockQty, totalSoldRevenue, avgSalePrice, matches };
+                            const counts = getBatchItemCounts(pItem.id, inventoryItems);
+                            return {
+                                totalSoldQty: counts.soldQty,
+                                totalWithdrawnQty: counts.withdrawnQty,
+                                totalInStockQty: counts.remainingQty,
+                                totalSoldRevenue: counts.soldRevenue,
+                                avgSalePrice: counts.soldQty > 0 ? counts.soldRevenue / counts.soldQty : 0,
+                                matches: counts.linked
+                            };
                         };
 
                         let grandTotalCost = 0;
@@ -5488,7 +10590,8 @@ function BulkPricingBoard({
                             const totalCost = unitCost * item.quantity;
                             const actual = getActualData(item);
                             const expectedRevenue = item.disposition === 'sell' ? item.unitSalePrice * item.quantity : 0;
-                            const realProfit = actual.totalSoldRevenue - (unitCost * actual.totalSoldQty);
+                            // Lo retirado (regalo, uso propio, pérdida) es costo sin venta
+                            const realProfit = actual.totalSoldRevenue - (unitCost * (actual.totalSoldQty + actual.totalWithdrawnQty));
 
                             grandTotalCost += totalCost;
                             grandTotalRevenue += actual.totalSoldRevenue;
@@ -5518,7 +10621,7 @@ function BulkPricingBoard({
                                         </thead>
                                         <tbody className="divide-y divide-gray-100">
                                             {rows.map(({ item, unitCost, totalCost, actual, expectedRevenue, realProfit }) => {
-                                                const allSold = actual.totalSoldQty >= item.quantity && item.disposition === 'sell';
+                                                const allSold = actual.totalSoldQty > 0 && actual.totalSoldQty + actual.totalWithdrawnQty >= item.quantity && item.disposition === 'sell';
                                                 return (
                                                 <tr key={item.id} className={allSold ? 'bg-emerald-50/40' : item.disposition === 'keep' ? 'bg-amber-50/40' : ''}>
                                                     <td className="px-3 py-2">
@@ -5526,7 +10629,7 @@ function BulkPricingBoard({
                                                         {item.category && <span className="ml-1.5 text-[10px] text-gray-400">({item.category})</span>}
                                                         {item.disposition === 'keep' && <span className="ml-1.5 text-[10px] font-bold text-amber-600">RETENIDO</span>}
                                                         {allSold && <span className="ml-1.5 text-[10px] font-bold text-emerald-600">VENDIDO</span>}
-                                                        {(() => { const wItems = actual.matches.filter((m: Item) => m.withdrawalReason); return wItems.map((m: Item) => { const w = withdrawalLabels[m.withdrawalReason!]; return w ? <span key={m.id} className={`ml-1.5 text-[10px] font-bold ${w.color}`}>{w.label}</span> : null; }); })()}
+                                                        {(() => { const wItems = actual.matches.filter((m: Item) => m.status === 'withdrawn' && m.withdrawalReason); return wItems.map((m: Item) => { const w = withdrawalLabels[m.withdrawalReason!]; return w ? <span key={m.id} className={`ml-1.5 text-[10px] font-bold ${w.color}`}>{w.label}</span> : null; }); })()}
                                                     </td>
                                                     <td className="px-3 py-2 text-center">{item.quantity}</td>
                                                     <td className="px-3 py-2 text-right text-gray-600">${safeMoney(unitCost).toLocaleString('es-AR')}</td>
@@ -5535,7 +10638,7 @@ function BulkPricingBoard({
                                                         {item.disposition === 'sell' ? `$${safeMoney(expectedRevenue).toLocaleString('es-AR')}` : '—'}
                                                     </td>
                                                     <td className="px-3 py-2 text-center">
-                                                        {actual.totalSoldQty > 0 || actual.totalInStockQty > 0 ? (
+                                                        {actual.totalSoldQty > 0 || actual.totalInStockQty > 0 || actual.totalWithdrawnQty > 0 ? (
                                                             <div>
                                                                 <span className={`font-semibold ${allSold ? 'text-emerald-600' : actual.totalSoldQty > 0 ? 'text-emerald-600' : 'text-blue-500'}`}>
                                                                     {actual.totalSoldQty} / {item.quantity}
@@ -5543,6 +10646,9 @@ function BulkPricingBoard({
                                                                 {actual.totalInStockQty > 0 && (
                                                                     <span className="block text-[10px] text-blue-500">{actual.totalInStockQty} en stock</span>
                                                                 )}
+                                                                {actual.totalWithdrawnQty > 0 && (
+                                                                    <span className="block text-[10px] text-pink-500">{actual.totalWithdrawnQty} retirado{actual.totalWithdrawnQty > 1 ? 's' : ''}</span>
+                                                                )}
                                                             </div>
                                                         ) : (
                                                             <span className="text-gray-400">—</span>
@@ -5580,21 +10686,24 @@ function BulkPricingBoard({
                                                                             const price = Number(editingSalePrice);
                                                                             if (!price || price <= 0) return;
                                                                             try {
-                                                                                const stockMatches = actual.matches.filter((inv: Item) => inv.status === 'in_stock');
+                                                                                const stockMatches = actual.matches.filter((inv: Item) => isVendible(inv.status));
                                                                                 for (const inv of stockMatches) {
                                                                                     await itemService.updateItem(inv.id, {
                                                                                         salePrice: price,
                                                                                         status: 'sold',
                                                                                         saleDate: new Date().toISOString()
                                                                                     });
+                                                                                    await recordStockMovements([{
+                                                                                        movementType: 'venta', itemId: inv.id, productName: inv.productName, delta: -inv.quantity,
+                                                                                        fromLocation: inv.location, batchRef: selectedRecord.batchCode
+                                                                                    }]);
                                                                                 }
                                                                                 // Sync price back to batch unitSalePrice
                                                                                 if (price !== item.unitSalePrice) {
-                                                                                    const updBatchItems = selectedRecord.items.map(bi =>
-                                                                                        bi.id === item.id ? { ...bi, unitSalePrice: price } : bi
-                                                                                    );
-                                                                                    await itemService.updateBatch(selectedRecord.id, { items: updBatchItems });
-                                                                                    setBatchHistory(prev => prev.map(b => b.id === selectedRecord.id ? { ...b, items: updBatchItems } : b));
+                                                                                    await itemService.updateBatchItem(item.id, { unitSalePrice: price });
+                                                                                    setBatchHistory(prev => prev.map(b => b.id === selectedRecord.id
+                                                                                        ? { ...b, items: b.items.map(bi => bi.id === item.id ? { ...bi, unitSalePrice: price } : bi) }
+                                                                                        : b));
                                                                                 }
                                                                                 await onInventoryRefresh();
                                                                                 setEditingSaleItemId(null);
@@ -5658,9 +10767,19 @@ function BulkPricingBoard({
                                         )}
                                     </table>
                                 </div>
+                                {batchExpenses.length > 0 && (
+                                    <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-600">
+                                        <span>
+                                            Gastos asignados ({batchExpenses.length}): <span className="font-semibold text-red-600">-${safeMoney(batchExpensesTotal).toLocaleString('es-AR')}</span>
+                                        </span>
+                                        <span>
+                                            Ganancia después de gastos: <span className={`font-semibold ${grandTotalProfit - batchExpensesTotal >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>${safeMoney(grandTotalProfit - batchExpensesTotal).toLocaleString('es-AR')}</span>
+                                        </span>
+                                    </div>
+                                )}
                                 {selectedRecordItems.length === 0 && (
                                     <p className="text-xs text-amber-600 mt-3">
-                                        No hay detalle guardado para esta tanda (registro antiguo sin productos vinculados).
+                                        Esta tanda no tiene productos cargados.
                                     </p>
                                 )}
                             </>
@@ -5713,19 +10832,23 @@ function MetricCard({ title, value, icon, trend, trendColor, bgColor }: { title:
     );
 }
 
-function ProfitChart({ items }: { items: Item[] }) {
+function ProfitChart({ items, deductions }: { items: Item[], deductions?: Array<{ date: string; amount: number }> }) {
     // Group by Date 
     const dataMap = new Map<string, number>();
 
-    // Sort items by date first
-    // Use saleDate for profit charting, or generic date if saleDate missing (fallback)
-    const sortedItems = [...items].sort((a, b) => new Date(a.saleDate || a.date).getTime() - new Date(b.saleDate || b.date).getTime());
-
-    sortedItems.forEach(item => {
-        const dateKey = item.saleDate || item.date;
-        const date = new Date(dateKey).toLocaleDateString('es-ES', { day: '2-digit', month: 'short' });
-        const profit = ((item.salePrice || 0) - item.purchasePrice) * item.quantity;
-        dataMap.set(date, (dataMap.get(date) || 0) + profit);
+    // Use saleDate for profit charting, or generic date if saleDate missing (fallback).
+    // En modo neto los gastos y cuotas restan el día que corresponden.
+    const entries = [
+        ...items.map(item => ({
+            time: new Date(item.saleDate || item.date).getTime(),
+            profit: ((item.salePrice || 0) - item.purchasePrice) * item.quantity
+        })),
+        ...(deductions || []).map(d => ({ time: new Date(`${d.date}T12:00:00`).getTime(), profit: -d.amount }))
+    ].sort((a, b) => a.time - b.time);
+
+    entries.forEach(entry => {
+        const date = new Date(entry.time).toLocaleDateString('es-ES', { day: '2-digit', month: 'short' });
+        dataMap.set(date, (dataMap.get(date) || 0) + entry.profit);
     });
 
     const data = Array.from(dataMap.entries()).map(([date, profit]) => ({
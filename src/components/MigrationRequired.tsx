@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Database, Copy, Check, RefreshCw } from 'lucide-react';
+import type { Migration } from '../services/schemaService';
+
+// Pantalla bloqueante: el panel no se usa hasta que la base tenga el esquema
+// que espera el código, así ninguna escritura descarta columnas en silencio.
+export default function MigrationRequired({ currentVersion, pending }: {
+    currentVersion: number;
+    pending: Migration[];
+}) {
+    const [copiedFile, setCopiedFile] = useState<string | null>(null);
+    const target = pending[0];
+
+    const copySql = async (migration: Migration) => {
+        try {
+            const sql = await migration.loadSql();
+            await navigator.clipboard.writeText(sql);
+            setCopiedFile(migration.file);
+        } catch (err) {
+            console.error('Error copying migration SQL:', err);
+            alert('No se pudo copiar el SQL.');
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center px-4 bg-gradient-to-b from-slate-50 to-white">
+            <div className="w-full max-w-lg bg-white rounded-2xl shadow-xl border border-gray-100 p-6 space-y-5">
+                <div className="flex items-start gap-3">
+                    <div className="w-11 h-11 rounded-xl bg-amber-100 text-amber-700 flex items-center justify-center shrink-0">
+                        <Database className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h1 className="text-lg font-bold text-gray-900">La base de datos necesita la migración {target?.version}</h1>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Versión actual: {currentVersion}. Hasta aplicar las migraciones pendientes el panel queda bloqueado para no perder datos.
+                        </p>
+                    </div>
+                </div>
+
+                <ul className="space-y-2">
+                    {pending.map(migration => (
+                        <li key={migration.file} className="flex items-center justify-between gap-3 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2">
+                            <span className="text-sm font-mono text-gray-700 truncate">{migration.file}</span>
+                            <button
+                                onClick={() => copySql(migration)}
+                                className="text-xs font-bold px-2.5 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-600 hover:border-gray-300 flex items-center gap-1.5 shrink-0"
+                            >
+                                {copiedFile === migration.file ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                                {copiedFile === migration.file ? 'Copiado' : 'Copiar SQL'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="text-xs text-gray-500 space-y-1">
+                    <p>Opción 1: <code className="font-mono bg-gray-100 px-1 rounded">DATABASE_URL=... npm run migrate</code></p>
+                    <p>Opción 2: pegá cada archivo, en orden, en el SQL Editor de Supabase.</p>
+                </div>
+
+                <button
+                    onClick={() => window.location.reload()}
+                    className="w-full h-10 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
+                >
+                    <RefreshCw className="w-4 h-4" />
+                    Ya la apliqué, reintentar
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,394 @@
+import { useState, useEffect } from 'react';
+import { ChevronLeft, MapPin, MessageCircle, Package, Search, ShoppingBag } from 'lucide-react';
+import type { Item, ItemCondition } from '../types';
+import { itemService } from '../services/itemService';
+import { STORE_CONFIG, getWhatsAppUrl } from '../config/storeConfig';
+import { matchPath, navigate as navigateTo, useLocation } from '../lib/router';
+import { conditionLabelMap, getItemImages as getImages, getItemPrice as getPrice, getListingKey, getVariantKey, groupListings, mergeVariants, pickRepresentative } from '../lib/catalogo';
+
+// Una publicación de la tienda: un producto suelto o un grupo de variantes (store_group)
+type StoreListing = {
+    key: string;
+    title: string;
+    image?: string;
+    minPrice: number;
+    maxPrice: number;
+    stock: number;
+    rep: Item;
+    items: Item[];
+};
+
+// Variante = nombre de variante + ubicación (lib/catalogo)
+type StoreVariant = {
+    key: string;
+    id: string;
+    name: string;
+    price: number;
+    quantity: number;
+    condition: ItemCondition;
+    location?: string;
+    item: Item;
+};
+
+const fmtMoney = (n: number) => '$' + Math.round(n).toLocaleString('es-AR');
+
+const normalizeSearch = (value: string) => value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+const buildListings = (items: Item[]): StoreListing[] => groupListings(items)
+    .map(group => {
+        const rep = pickRepresentative(group);
+        const prices = group.map(getPrice).filter(p => p > 0);
+        return {
+            key: getListingKey(rep),
+            title: rep.storeTitle || rep.productName,
+            image: getImages(rep)[0] || group.map(i => getImages(i)[0]).find(Boolean),
+            minPrice: prices.length ? Math.min(...prices) : 0,
+            maxPrice: prices.length ? Math.max(...prices) : 0,
+            stock: group.reduce((acc, i) => acc + (i.quantity || 0), 0),
+            rep,
+            items: group
+        };
+    })
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+const buildVariants = (items: Item[]): StoreVariant[] => mergeVariants(items)
+    .map(item => ({
+        key: getVariantKey(item),
+        id: item.id,
+        name: item.storeVariantName || item.productName,
+        price: getPrice(item),
+        quantity: item.quantity,
+        condition: item.condition || 'nuevo',
+        location: item.location,
+        item
+    }))
+    .sort((a, b) => a.price - b.price || a.name.localeCompare(b.name));
+
+/** Convierte un link de YouTube a su URL embebible; devuelve null si no es de YouTube. */
+const getYouTubeEmbed = (url: string): string | null => {
+    const match = url.match(/(?:youtube\.com\/(?:watch\?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{6,})/);
+    return match ? `https://www.youtube.com/embed/${match[1]}` : null;
+};
+
+// Página de producto abierta: al elegir una variante la URL pasa a la de esa
+// unidad, pero la página (y lo que ya cargó) sigue siendo la misma
+type StoreProductPageSource = { productId?: string; group?: string };
+
+export default function Storefront() {
+    const { pathname, state } = useLocation();
+
+    const navigate = (to: string) => {
+        navigateTo(to);
+        window.scrollTo(0, 0);
+    };
+
+    const productMatch = matchPath('/tienda/producto/:id', pathname);
+    const groupMatch = matchPath('/tienda/grupo/:group', pathname);
+    const source = productMatch ? (state as { source?: StoreProductPageSource } | null)?.source : undefined;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white text-gray-900">
+            <header className="sticky top-0 z-20 bg-white/90 backdrop-blur border-b border-gray-100">
+                <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between gap-3">
+                    <button onClick={() => navigate('/tienda')} className="flex items-center gap-2">
+                        <div className="w-9 h-9 rounded-xl bg-black flex items-center justify-center">
+                            <ShoppingBag className="w-4 h-4 text-white" />
+                        </div>
+                        <span className="font-bold text-lg tracking-tight">{STORE_CONFIG.storeName}</span>
+                    </button>
+                    <a
+                        href={getWhatsAppUrl(`Hola! Vi la tienda de ${STORE_CONFIG.storeName} y quería consultar.`)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="h-9 px-3 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium flex items-center gap-2 transition-colors"
+                    >
+                        <MessageCircle className="w-4 h-4" />
+                        <span className="hidden sm:inline">WhatsApp</span>
+                    </a>
+                </div>
+            </header>
+
+            <main className="max-w-6xl mx-auto px-4 py-6 sm:py-10">
+                {source ? (
+                    <StoreProductPage key={source.group ? `g:${source.group}` : `p:${source.productId}`} {...source} variantId={productMatch?.id} navigate={navigate} />
+                ) : productMatch ? (
+                    <StoreProductPage key={`p:${productMatch.id}`} productId={productMatch.id} navigate={navigate} />
+                ) : groupMatch ? (
+                    <StoreProductPage key={`g:${groupMatch.group}`} group={groupMatch.group} navigate={navigate} />
+                ) : (
+                    <StoreCatalog navigate={navigate} />
+                )}
+            </main>
+        </div>
+    );
+}
+
+function StoreCatalog({ navigate }: { navigate: (to: string) => void }) {
+    const [items, setItems] = useState<Item[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+
+    useEffect(() => {
+        itemService.getPublicItems()
+            .then(setItems)
+            .catch((err) => {
+                console.error('Error loading store catalog:', err);
+                setError('No se pudo cargar el catálogo. Intentá de nuevo en unos minutos.');
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const listings = buildListings(items);
+    const q = normalizeSearch(searchQuery);
+    const filtered = q
+        ? listings.filter(l => l.items.some(i => normalizeSearch([l.title, i.productName, i.storeVariantName, i.description, i.category].filter(Boolean).join(' ')).includes(q)))
+        : listings;
+
+    if (loading) {
+        return (
+            <div className="py-24 flex items-center justify-center">
+                <div className="w-8 h-8 border-3 border-gray-200 border-t-black rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    if (error) {
+        return <p className="py-24 text-center text-gray-500">{error}</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-extrabold tracking-tight">Catálogo</h1>
+                    <p className="text-gray-500 text-sm mt-1">{listings.length} producto{listings.length !== 1 ? 's' : ''} disponible{listings.length !== 1 ? 's' : ''}</p>
+                </div>
+                <div className="relative sm:w-72">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar producto..."
+                        value={searchQuery}
+                        onChange={e => setSearchQuery(e.target.value)}
+                        className="w-full pl-9 pr-3 py-2.5 rounded-xl border border-gray-200 bg-white text-sm outline-none focus:border-black focus:ring-1 focus:ring-black"
+                    />
+                </div>
+            </div>
+
+            {filtered.length === 0 ? (
+                <div className="py-16 text-center text-gray-400">
+                    <Package className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                    <p>{q ? 'No encontramos productos con esa búsqueda.' : 'No hay productos publicados por ahora.'}</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-5">
+                    {filtered.map(listing => (
+                        <button
+                            key={listing.key}
+                            onClick={() => navigate(listing.rep.storeGroup ? `/tienda/grupo/${encodeURIComponent(listing.rep.storeGroup)}` : `/tienda/producto/${listing.rep.id}`)}
+                            className="text-left bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden hover:shadow-md transition-all group"
+                        >
+                            <div className="aspect-square bg-gray-50 overflow-hidden">
+                                {listing.image ? (
+                                    <img src={listing.image} alt={listing.title} loading="lazy" className="w-full h-full object-cover group-hover:scale-[1.03] transition-transform duration-300" />
+                                ) : (
+                                    <div className="w-full h-full flex items-center justify-center text-gray-300">
+                                        <Package className="w-10 h-10" />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="p-3 sm:p-4">
+                                <p className="font-semibold text-sm sm:text-base leading-tight line-clamp-2">{listing.title}</p>
+                                <p className="mt-1.5 font-bold text-base sm:text-lg">
+                                    {listing.minPrice === listing.maxPrice ? fmtMoney(listing.maxPrice) : `Desde ${fmtMoney(listing.minPrice)}`}
+                                </p>
+                                {listing.items.length > 1 && (
+                                    <p className="text-xs text-gray-500 mt-0.5">{buildVariants(listing.items).length} opciones</p>
+                                )}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function StoreProductPage({ productId, group, variantId, navigate }: {
+    productId?: string;
+    group?: string;
+    /** Variante que indica la URL, si no es la que se cargó. */
+    variantId?: string;
+    navigate: (to: string) => void;
+}) {
+    const [items, setItems] = useState<Item[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(variantId || productId || null);
+    const [activeImage, setActiveImage] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                if (group) {
+                    setItems(await itemService.getPublicItemsByGroup(group));
+                    return;
+                }
+                if (!productId) return;
+                const item = await itemService.getPublicItemById(productId);
+                if (!item) return;
+                const siblings = item.storeGroup ? await itemService.getPublicItemsByGroup(item.storeGroup) : [];
+                setItems(siblings.some(s => s.id === item.id) ? siblings : [item, ...siblings]);
+            } catch (err) {
+                console.error('Error loading store product:', err);
+            } finally {
+                setLoading(false);
+            }
+        };
+        load();
+    }, [productId, group]);
+
+    if (loading) {
+        return (
+            <div className="py-24 flex items-center justify-center">
+                <div className="w-8 h-8 border-3 border-gray-200 border-t-black rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    const inStock = items.filter(i => i.status === 'in_stock' && i.quantity > 0);
+    if (inStock.length === 0) {
+        return (
+            <div className="py-20 text-center">
+                <Package className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+                <p className="text-gray-500">Este producto ya no está disponible.</p>
+                <button onClick={() => navigate('/tienda')} className="mt-4 text-sm font-medium text-blue-600 hover:text-blue-700">
+                    Ver el catálogo
+                </button>
+            </div>
+        );
+    }
+
+    const rep = pickRepresentative(inStock);
+    const variants = buildVariants(inStock);
+    const selected = variants.find(v => v.id === selectedId || v.item.id === selectedId)
+        || variants.find(v => v.item.id === rep.id)
+        || variants[0];
+    const title = rep.storeTitle || rep.productName;
+    const description = rep.description;
+    const images = selected.item.storeImages?.length ? getImages(selected.item) : getImages(rep);
+    const videoUrl = selected.item.storeVideoUrl || rep.storeVideoUrl;
+    const embedUrl = videoUrl ? getYouTubeEmbed(videoUrl) : null;
+    const productUrl = `${window.location.origin}/tienda/producto/${selected.id}`;
+    const variantLabel = variants.length > 1 ? ` (${selected.name})` : '';
+    const whatsAppText = `Hola! Quería consultar por "${title}"${variantLabel} — ${fmtMoney(selected.price)}\n${productUrl}`;
+
+    const selectVariant = (variant: StoreVariant) => {
+        setSelectedId(variant.id);
+        setActiveImage(0);
+        // Solo reflejar la variante en la URL (para compartir el link) sin recargar la página
+        navigateTo(`/tienda/producto/${variant.id}`, { replace: true, state: { source: { productId, group } } });
+    };
+
+    return (
+        <div className="space-y-5">
+            <button onClick={() => navigate('/tienda')} className="text-sm text-gray-500 hover:text-gray-900 flex items-center gap-1">
+                <ChevronLeft className="w-4 h-4" />
+                Volver al catálogo
+            </button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-10">
+                {/* Galería */}
+                <div className="space-y-3">
+                    <div className="aspect-square rounded-2xl overflow-hidden bg-gray-50 border border-gray-100">
+                        {images.length > 0 ? (
+                            <img src={images[Math.min(activeImage, images.length - 1)]} alt={title} className="w-full h-full object-contain" />
+                        ) : (
+                            <div className="w-full h-full flex items-center justify-center text-gray-300">
+                                <Package className="w-16 h-16" />
+                            </div>
+                        )}
+                    </div>
+                    {images.length > 1 && (
+                        <div className="flex gap-2 overflow-x-auto pb-1">
+                            {images.map((url, i) => (
+                                <button
+                                    key={url}
+                                    onClick={() => setActiveImage(i)}
+                                    className={`w-16 h-16 rounded-xl overflow-hidden border-2 flex-shrink-0 transition-all ${i === activeImage ? 'border-black' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                                >
+                                    <img src={url} alt="" className="w-full h-full object-cover" />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {videoUrl && (
+                        <div className="rounded-2xl overflow-hidden border border-gray-100 bg-black">
+                            {embedUrl ? (
+                                <iframe src={embedUrl} title={title} className="w-full aspect-video" allow="accelerometer; encrypted-media; picture-in-picture" allowFullScreen />
+                            ) : (
+                                <video src={videoUrl} controls playsInline className="w-full max-h-[480px]" />
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {/* Datos */}
+                <div className="space-y-5">
+                    <div>
+                        <h1 className="text-2xl sm:text-3xl font-extrabold tracking-tight leading-tight">{title}</h1>
+                        <p className="text-3xl font-bold mt-3">{fmtMoney(selected.price)}</p>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                            <span className="font-semibold bg-gray-100 text-gray-700 px-2 py-1 rounded-lg">{conditionLabelMap[selected.condition]}</span>
+                            <span className="text-gray-500">{selected.quantity} disponible{selected.quantity !== 1 ? 's' : ''}</span>
+                            {selected.location && (
+                                <span className="text-gray-500 flex items-center gap-1"><MapPin className="w-3 h-3" />{selected.location}</span>
+                            )}
+                        </div>
+                    </div>
+
+                    {variants.length > 1 && (
+                        <div>
+                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Opciones</p>
+                            <div className="flex flex-wrap gap-2">
+                                {variants.map(v => (
+                                    <button
+                                        key={v.key}
+                                        onClick={() => selectVariant(v)}
+                                        className={`px-3 py-2 rounded-xl border text-sm transition-all text-left ${v.key === selected.key ? 'border-black bg-black text-white' : 'border-gray-200 bg-white text-gray-700 hover:border-gray-400'}`}
+                                    >
+                                        <span className="font-medium">{v.name}</span>
+                                        <span className={`block text-xs ${v.key === selected.key ? 'text-gray-300' : 'text-gray-500'}`}>
+                                            {fmtMoney(v.price)}{v.location ? ` · ${v.location}` : ''}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <a
+                        href={getWhatsAppUrl(whatsAppText)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="w-full h-12 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-semibold flex items-center justify-center gap-2 shadow-lg shadow-emerald-200 transition-colors"
+                    >
+                        <MessageCircle className="w-5 h-5" />
+                        Consultar por WhatsApp
+                    </a>
+
+                    {description && (
+                        <div>
+                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Descripción</p>
+                            <p className="text-sm text-gray-700 whitespace-pre-line leading-relaxed">{description}</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
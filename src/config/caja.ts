@@ -0,0 +1,194 @@
+import type { CashChannel, CashReconciliation, Expense, InvoicingSettings, Order, RefundMethod, Reservation, ResellerSettlement, SaleReturn } from '../types';
+import { getDateKey, getInvoicingSettingsAt } from './facturacion';
+
+// La caja no se guarda: se arma con las ventas, liquidaciones de vendedores,
+// señas, tandas, devoluciones y gastos,
+// y los arqueos la corrigen al saldo real.
+
+export const CANALES: Array<{ label: string; value: CashChannel }> = [
+  { label: 'Efectivo', value: 'efectivo' },
+  { label: 'Banco', value: 'transferencia' },
+  { label: 'Tarjeta', value: 'tarjeta' },
+  { label: 'Mercado Pago', value: 'mercado_pago' },
+  { label: 'Otro', value: 'otro' },
+];
+
+/** Medio de caja al que va una forma de pago de FORMAS_PAGO. */
+export function getCanalFormaPago(formaPago: string): CashChannel {
+  switch (formaPago) {
+    case 'contado': return 'efectivo';
+    case 'transferencia': return 'transferencia';
+    case 'tarjeta_debito': case 'tarjeta_credito': return 'tarjeta';
+    case 'electronico': return 'mercado_pago';
+    default: return 'otro';
+  }
+}
+
+/** Medio por el que sale un reintegro; null si no mueve plata (saldo a favor o cambio). */
+export function getCanalReembolso(method: RefundMethod): CashChannel | null {
+  switch (method) {
+    case 'efectivo': return 'efectivo';
+    case 'transferencia': return 'transferencia';
+    case 'mercado_pago': return 'mercado_pago';
+    default: return null;
+  }
+}
+
+/**
+ * Lo cobrado en una venta por medio. Con pago mixto valen los montos
+ * cargados; con una sola forma de pago (o ninguna: la de las reglas de esa
+ * fecha) entra el total completo por ese medio.
+ */
+export function getCobrosVenta(order: Order, total: number, settings: InvoicingSettings[]): Array<{ channel: CashChannel; amount: number }> {
+  const montos: Array<[CashChannel, number | undefined]> = [
+    ['efectivo', order.montoEfectivo],
+    ['transferencia', order.montoTransferencia],
+    ['tarjeta', order.montoTarjeta],
+    ['mercado_pago', order.montoMercadoPago],
+    ['otro', order.montoOtro],
+  ];
+  if (montos.some(([, amount]) => (amount || 0) > 0)) {
+    return montos.filter(([, amount]) => (amount || 0) > 0).map(([channel, amount]) => ({ channel, amount: amount! }));
+  }
+  const formaPago = order.formasPago?.[0] || getInvoicingSettingsAt(settings, order.orderDate)?.defaultPaymentMethod || 'transferencia';
+  return [{ channel: getCanalFormaPago(formaPago), amount: total }];
+}
+
+export type CajaMovimientoTipo = 'venta' | 'liquidacion' | 'sena' | 'envio' | 'tanda' | 'gasto' | 'devolucion' | 'ajuste';
+
+export type CajaMovimiento = {
+  id: string;
+  date: string; // AAAA-MM-DD
+  channel: CashChannel;
+  tipo: CajaMovimientoTipo;
+  /** Positivo entra, negativo sale. */
+  amount: number;
+  description: string;
+  /** Venta, liquidación, reserva, tanda, gasto, devolución o arqueo que originó el movimiento. */
+  refId: string;
+  /** Saldo del medio después del movimiento. */
+  balance: number;
+};
+
+export type CajaTanda = { id: string; batchCode: string; createdAt: string; totalPaid: number; paymentChannel?: CashChannel };
+
+export type CajaInput = {
+  /** Ventas cobradas con su total actual (líneas + envío). */
+  ventas: Array<{ order: Order; total: number; title: string }>;
+  /** Pagos de los vendedores por sus ventas, con el nombre del vendedor. */
+  liquidaciones: Array<{ settlement: ResellerSettlement; reseller: string }>;
+  /** Las señas de reservas convertidas entran con la venta, no acá. */
+  senas: Reservation[];
+  tandas: CajaTanda[];
+  gastos: Expense[];
+  devoluciones: SaleReturn[];
+  arqueos: CashReconciliation[];
+  settings: InvoicingSettings[];
+};
+
+/**
+ * Libro de caja en orden cronológico con el saldo de cada medio. Cada arqueo
+ * agrega un ajuste al cierre de su día por la diferencia entre el saldo
+ * calculado y el real, así el saldo de ahí en adelante parte del real.
+ */
+export function buildLibroCaja({ ventas, liquidaciones, senas, tandas, gastos, devoluciones, arqueos, settings }: CajaInput): CajaMovimiento[] {
+  const movimientos: Array<Omit<CajaMovimiento, 'balance'>> = [];
+
+  // El total actual ya descuenta lo devuelto: se suma para registrar lo cobrado
+  // en la venta, y el reintegro sale en la fecha de la devolución
+  const devueltoPorVenta = new Map<string, number>();
+  for (const devolucion of devoluciones) {
+    if (!devolucion.orderId) continue;
+    devueltoPorVenta.set(devolucion.orderId, (devueltoPorVenta.get(devolucion.orderId) || 0) + devolucion.amount);
+  }
+
+  // Una venta liquidada no entra por sí sola: entra lo que pagó el vendedor
+  const canalLiquidacion = new Map(liquidaciones.map(({ settlement }) => [settlement.id, settlement.channel]));
+
+  for (const { order, total, title } of ventas) {
+    const date = getDateKey(order.orderDate);
+    const canal = order.settlementId ? canalLiquidacion.get(order.settlementId) : undefined;
+    if (canal) {
+      if (order.envioAplica && order.envioCosto) {
+        movimientos.push({ id: `envio-${order.id}`, date, channel: canal, tipo: 'envio', amount: -order.envioCosto, description: order.envioMetodo || 'Envío', refId: order.id });
+      }
+      continue;
+    }
+    const cobros = getCobrosVenta(order, total + (devueltoPorVenta.get(order.id) || 0), settings);
+    cobros.forEach(({ channel, amount }, index) => {
+      movimientos.push({ id: `venta-${order.id}-${index}`, date, channel, tipo: 'venta', amount, description: title, refId: order.id });
+    });
+    // El envío se cobra con la venta y se le paga al transporte por el medio principal
+    if (order.envioAplica && order.envioCosto) {
+      const principal = cobros.reduce((max, c) => c.amount > max.amount ? c : max, cobros[0]);
+      movimientos.push({ id: `envio-${order.id}`, date, channel: principal.channel, tipo: 'envio', amount: -order.envioCosto, description: order.envioMetodo || 'Envío', refId: order.id });
+    }
+  }
+
+  for (const { settlement, reseller } of liquidaciones) {
+    if (!(settlement.amount > 0)) continue;
+    movimientos.push({ id: `liquidacion-${settlement.id}`, date: settlement.settledOn, channel: settlement.channel, tipo: 'liquidacion', amount: settlement.amount, description: `Liquidación ${reseller}`, refId: settlement.id });
+  }
+
+  // Seña de una reserva activa, o cancelada sin devolver la seña
+  for (const reserva of senas) {
+    if (!(reserva.depositAmount > 0) || reserva.status === 'convertida' || (reserva.status === 'cancelada' && reserva.depositRefunded)) continue;
+    const channel = getCanalFormaPago(reserva.depositMethod || '');
+    movimientos.push({ id: `sena-${reserva.id}`, date: reserva.reservedOn, channel, tipo: 'sena', amount: reserva.depositAmount, description: `Seña: ${reserva.productName}`, refId: reserva.id });
+  }
+
+  for (const tanda of tandas) {
+    if (!(tanda.totalPaid > 0)) continue;
+    movimientos.push({ id: `tanda-${tanda.id}`, date: getDateKey(tanda.createdAt), channel: tanda.paymentChannel || 'otro', tipo: 'tanda', amount: -tanda.totalPaid, description: `Tanda ${tanda.batchCode}`, refId: tanda.id });
+  }
+
+  for (const gasto of gastos) {
+    movimientos.push({ id: `gasto-${gasto.id}`, date: gasto.expenseDate, channel: gasto.channel, tipo: 'gasto', amount: -gasto.amount, description: gasto.description, refId: gasto.id });
+  }
+
+  for (const devolucion of devoluciones) {
+    const channel = getCanalReembolso(devolucion.refundMethod);
+    if (!channel || !(devolucion.amount > 0)) continue;
+    const description = `Devolución: ${devolucion.lines.map(l => l.productName).join(', ')}`;
+    movimientos.push({ id: `devolucion-${devolucion.id}`, date: getDateKey(devolucion.returnDate), channel, tipo: 'devolucion', amount: -devolucion.amount, description, refId: devolucion.id });
+  }
+
+  const eventos = [
+    ...movimientos.map(m => ({ date: m.date, orden: 0, movimiento: m, arqueo: null as CashReconciliation | null })),
+    ...arqueos.map(a => ({ date: a.date, orden: 1, movimiento: null, arqueo: a })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.orden - b.orden);
+
+  const saldos = new Map<CashChannel, number>();
+  const libro: CajaMovimiento[] = [];
+  for (const evento of eventos) {
+    if (evento.movimiento) {
+      const balance = (saldos.get(evento.movimiento.channel) || 0) + evento.movimiento.amount;
+      saldos.set(evento.movimiento.channel, balance);
+      libro.push({ ...evento.movimiento, balance });
+    } else if (evento.arqueo) {
+      const arqueo = evento.arqueo;
+      libro.push({
+        id: `ajuste-${arqueo.id}`,
+        date: arqueo.date,
+        channel: arqueo.channel,
+        tipo: 'ajuste',
+        amount: arqueo.balance - (saldos.get(arqueo.channel) || 0),
+        description: arqueo.notes ? `Arqueo: ${arqueo.notes}` : 'Arqueo',
+        refId: arqueo.id,
+        balance: arqueo.balance,
+      });
+      saldos.set(arqueo.channel, arqueo.balance);
+    }
+  }
+  return libro;
+}
+
+/** Saldo de cada medio al cierre de un día (AAAA-MM-DD). */
+export function getSaldosCaja(libro: CajaMovimiento[], date: string): Record<CashChannel, number> {
+  const saldos: Record<CashChannel, number> = { efectivo: 0, transferencia: 0, tarjeta: 0, mercado_pago: 0, otro: 0 };
+  for (const movimiento of libro) {
+    if (movimiento.date > date) break;
+    saldos[movimiento.channel] = movimiento.balance;
+  }
+  return saldos;
+}
@@ -0,0 +1,63 @@
+import type { Order, Shipment, ShipmentPayer, ShipmentStatus } from '../types';
+import { STORE_CONFIG } from './storeConfig';
+
+export const ENVIO_METODOS = [
+  'Uber Flash',
+  'Mensajería local',
+  'Correo Andreani',
+  'Correo OCA',
+  'Vía Cargo',
+  'Otro',
+];
+
+export const ESTADOS_ENVIO: Array<{ label: string; value: ShipmentStatus }> = [
+  { label: 'Preparando', value: 'preparando' },
+  { label: 'Despachado', value: 'despachado' },
+  { label: 'Entregado', value: 'entregado' },
+  { label: 'Devuelto', value: 'devuelto' },
+];
+
+export const PAGADORES_ENVIO: Array<{ label: string; value: ShipmentPayer }> = [
+  { label: 'Comprador (cobrado con la venta)', value: 'comprador' },
+  { label: 'Tienda (absorbido)', value: 'tienda' },
+  { label: 'Comprador al recibir', value: 'destino' },
+];
+
+/** Envío de una venta con envío que todavía no se cargó. */
+export function getEnvioInicial(order: Order, recipient?: { name?: string; phone?: string; city?: string }): Omit<Shipment, 'id'> {
+  return {
+    orderId: order.id,
+    carrier: order.envioMetodo,
+    recipientName: recipient?.name,
+    recipientPhone: recipient?.phone,
+    city: recipient?.city,
+    status: 'preparando',
+    paidBy: 'comprador',
+  };
+}
+
+/**
+ * Fechas que acompañan un cambio de estado: se fijan la primera vez y se
+ * borran ('') si el envío vuelve atrás.
+ */
+export function getFechasEstado(shipment: Pick<Shipment, 'dispatchedAt' | 'deliveredAt'>, status: ShipmentStatus, today: string): Pick<Shipment, 'dispatchedAt' | 'deliveredAt'> {
+  return {
+    dispatchedAt: status === 'preparando' ? '' : shipment.dispatchedAt || today,
+    deliveredAt: status === 'entregado' ? shipment.deliveredAt || today : '',
+  };
+}
+
+/** Mensaje para el comprador con el transporte y el código de seguimiento. */
+export function getMensajeSeguimiento(shipment: Omit<Shipment, 'id'>, title: string): string {
+  const saludo = shipment.recipientName ? `Hola ${shipment.recipientName.split(' ')[0]}!` : 'Hola!';
+  const transporte = shipment.carrier ? ` por ${shipment.carrier}` : '';
+  const lineas = [
+    shipment.status === 'entregado'
+      ? `${saludo} Tu compra (${title}) figura como entregada.`
+      : `${saludo} Tu compra (${title}) ya salió${transporte}.`,
+  ];
+  if (shipment.trackingNumber) lineas.push(`Código de seguimiento: ${shipment.trackingNumber}`);
+  if (shipment.paidBy === 'destino') lineas.push('El envío se paga al recibirlo.');
+  lineas.push(`Gracias por comprar en ${STORE_CONFIG.storeName}!`);
+  return lineas.join('\n');
+}
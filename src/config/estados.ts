@@ -0,0 +1,26 @@
+import type { ItemStatus } from '../types';
+
+export const ESTADOS_ITEM: Array<{ label: string; value: ItemStatus }> = [
+  { label: 'En camino', value: 'in_transit' },
+  { label: 'En stock', value: 'in_stock' },
+  { label: 'Reservado', value: 'reserved' },
+  { label: 'En consignación', value: 'consigned' },
+  { label: 'Devuelto', value: 'returned' },
+  { label: 'Vendido', value: 'sold' },
+  { label: 'Dado de baja', value: 'withdrawn' },
+];
+
+/** Estados de las unidades propias que todavía no se vendieron ni se dieron de baja. */
+export const ESTADOS_STOCK: ItemStatus[] = ['in_transit', 'in_stock', 'reserved', 'consigned', 'returned'];
+
+export const isEnStock = (status: ItemStatus) => ESTADOS_STOCK.includes(status);
+
+/**
+ * Se pueden vender directamente. Lo reservado se vende al convertir la
+ * reserva y lo devuelto por falla, después de revisarlo.
+ */
+export const isVendible = (status: ItemStatus) =>
+  status === 'in_stock' || status === 'in_transit' || status === 'consigned';
+
+export const getEstadoLabel = (status: ItemStatus) =>
+  ESTADOS_ITEM.find(e => e.value === status)?.label || status;
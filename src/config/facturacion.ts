@@ -0,0 +1,63 @@
+import type { InvoicingSettings, Item, ItemCondition, ItemType, Order } from '../types';
+
+// Las reglas viven en la base (invoicing_settings) con vigencia por período;
+// acá solo queda la lógica para aplicarlas.
+
+export const FORMAS_PAGO = [
+  { label: 'Contado', value: 'contado' },
+  { label: 'Tarjeta de Débito', value: 'tarjeta_debito' },
+  { label: 'Tarjeta de Crédito', value: 'tarjeta_credito' },
+  { label: 'Cuenta Corriente', value: 'cuenta_corriente' },
+  { label: 'Cheque', value: 'cheque' },
+  { label: 'Transferencia Bancaria', value: 'transferencia' },
+  { label: 'Otra', value: 'otra' },
+  { label: 'Otros medios de pago electrónico', value: 'electronico' },
+];
+
+export const CONDICIONES: Array<{ label: string; value: ItemCondition }> = [
+  { label: 'Nuevo', value: 'nuevo' },
+  { label: 'Semi uso', value: 'semi_uso' },
+  { label: 'Usado', value: 'usado' },
+];
+
+export const TIPOS: Array<{ label: string; value: ItemType }> = [
+  { label: 'Reventa', value: 'resale' },
+  { label: 'Propio', value: 'personal' },
+];
+
+/** AAAA-MM-DD local de una fecha guardada como AAAA-MM-DD o ISO. */
+export function getDateKey(dateStr: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return dateStr;
+  const d = new Date(dateStr);
+  if (isNaN(d.getTime())) return '';
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Reglas vigentes en una fecha; null si es anterior a la fecha de corte. */
+export function getInvoicingSettingsAt(settings: InvoicingSettings[], dateStr?: string): InvoicingSettings | null {
+  if (!dateStr) return null;
+  const key = getDateKey(dateStr);
+  if (!key) return null;
+  return [...settings]
+    .sort((a, b) => b.validFrom.localeCompare(a.validFrom))
+    .find(s => s.validFrom <= key) || null;
+}
+
+/** Fecha de corte: el inicio del primer período. */
+export function getFacturacionCutoff(settings: InvoicingSettings[]): string | null {
+  return settings.reduce<string | null>((min, s) => (min === null || s.validFrom < min ? s.validFrom : min), null);
+}
+
+export function isAfterFacturacionCutoff(settings: InvoicingSettings[], dateStr?: string): boolean {
+  return getInvoicingSettingsAt(settings, dateStr) !== null;
+}
+
+export function isLineFacturable(rules: InvoicingSettings, line: Item): boolean {
+  return rules.alwaysEligibleTypes.includes(line.itemType) || rules.eligibleConditions.includes(line.condition);
+}
+
+/** Una venta es facturable si cae después del corte y tiene al menos una línea facturable. */
+export function canFacturarOrder(settings: InvoicingSettings[], order: Order, lines: Item[]): boolean {
+  const rules = getInvoicingSettingsAt(settings, order.orderDate);
+  return !!rules && lines.some(l => isLineFacturable(rules, l));
+}
@@ -0,0 +1,31 @@
+import type { ExpenseCategory, RecurringExpense } from '../types';
+
+export const CATEGORIAS_GASTO: Array<{ label: string; value: ExpenseCategory }> = [
+  { label: 'Embalaje', value: 'embalaje' },
+  { label: 'Combustible', value: 'combustible' },
+  { label: 'Publicidad', value: 'publicidad' },
+  { label: 'Envíos absorbidos', value: 'envios' },
+  { label: 'Comisiones', value: 'comisiones' },
+  { label: 'Servicios', value: 'servicios' },
+  { label: 'Otro', value: 'otro' },
+];
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Fechas (AAAA-MM-DD) de los gastos que un gasto fijo todavía no generó,
+ * desde su inicio o lo ya generado hasta hoy (o su fin, si es antes).
+ */
+export function getPendingOccurrences(recurring: RecurringExpense, today: string): string[] {
+  const until = recurring.endsOn && recurring.endsOn < today ? recurring.endsOn : today;
+  const after = recurring.generatedThrough;
+  const [year, month] = recurring.startsOn.split('-').map(Number);
+  const dates: string[] = [];
+  for (let date = new Date(year, month - 1, recurring.dayOfMonth); toDateKey(date) <= until; date = new Date(date.getFullYear(), date.getMonth() + 1, recurring.dayOfMonth)) {
+    const key = toDateKey(date);
+    if (key < recurring.startsOn || (after && key <= after)) continue;
+    dates.push(key);
+  }
+  return dates;
+}
@@ -1,17 +1,165 @@
-export const CATEGORIA_ACTUAL = 'A' as const;
-
-export const TOPES_2026 = {
-  A: { anual: 8992597.87, mensualSeguro: 636900, mensualTope: 749383 },
-  B: { anual: 13175201.52, mensualSeguro: 933034, mensualTope: 1097933 },
-  C: { anual: 18473166.15, mensualSeguro: 1308516, mensualTope: 1539430 },
-  D: { anual: 22934610.05, mensualSeguro: 1624201, mensualTope: 1911217 },
-  E: { anual: 26977793.60, mensualSeguro: 1910928, mensualTope: 2248149 },
-  F: { anual: 33809379.57, mensualSeguro: 2394831, mensualTope: 2817448 },
-  G: { anual: 40431835.35, mensualSeguro: 2864421, mensualTope: 3369319 },
-  H: { anual: 61344853.64, mensualSeguro: 4345260, mensualTope: 5112071 },
-  I: { anual: 68664410.05, mensualSeguro: 4863729, mensualTope: 5722034 },
-  J: { anual: 78632948.76, mensualSeguro: 5569833, mensualTope: 6552746 },
-  K: { anual: 94805682.90, mensualSeguro: 6715403, mensualTope: 7900473 },
+import type { MonotributoCategory, MonotributoCategoryPeriod, MonotributoLimit, MonotributoPayment } from '../types';
+
+// Las categorías y los topes viven en la base (monotributo_categories y
+// monotributo_limits); acá solo queda la lógica para usarlos.
+
+export const CATEGORIAS: MonotributoCategory[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K'];
+
+// Margen para facturar "holgado": tope anual / 12 x 0.85
+export const MARGEN_SEGURO = 0.85;
+
+export type Tope = {
+  anual: number;
+  mensualTope: number;
+  mensualSeguro: number;
+  cuotaMensual?: number;
+};
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Categoría vigente en una fecha según el historial. */
+export function getCategoryAt(history: MonotributoCategoryPeriod[], date: Date): MonotributoCategoryPeriod | null {
+  const key = toDateKey(date);
+  return [...history]
+    .sort((a, b) => b.validFrom.localeCompare(a.validFrom))
+    .find(p => p.validFrom <= key && (!p.validTo || p.validTo >= key)) || null;
+}
+
+/** Tabla de topes de un año; si todavía no se cargó, la del último año anterior. */
+export function getLimitsForYear(limits: MonotributoLimit[], year: number): MonotributoLimit[] {
+  const years = Array.from(new Set(limits.map(l => l.year))).filter(y => y <= year).sort((a, b) => b - a);
+  if (years.length === 0) return [];
+  return limits
+    .filter(l => l.year === years[0])
+    .sort((a, b) => CATEGORIAS.indexOf(a.category) - CATEGORIAS.indexOf(b.category));
+}
+
+export function getTope(limit: MonotributoLimit): Tope {
+  const mensualTope = limit.ingresosAnuales / 12;
+  return {
+    anual: limit.ingresosAnuales,
+    mensualTope,
+    mensualSeguro: mensualTope * MARGEN_SEGURO,
+    cuotaMensual: limit.cuotaMensual,
+  };
+}
+
+/** Menor categoría cuyo tope cubre los ingresos; null si supera la última (exclusión). */
+export function recommendCategory(total: number, table: MonotributoLimit[]): MonotributoLimit | null {
+  return table.find(l => total <= l.ingresosAnuales) || null;
+}
+
+export type Recategorizacion = {
+  /** Mes en que corresponde recategorizarse (enero o julio). */
+  checkDate: Date;
+  /** Ingresos considerados: los 12 meses cerrados antes del mes de control. */
+  from: Date;
+  to: Date;
+  /** Desde cuándo rige la categoría que resulte. */
+  effectiveFrom: Date;
 };
 
-export const TOPE = TOPES_2026[CATEGORIA_ACTUAL];
+/** Última recategorización semestral (enero o julio) a la fecha. */
+export function getRecategorizacion(now: Date): Recategorizacion {
+  const checkMonth = now.getMonth() >= 6 ? 6 : 0;
+  const checkDate = new Date(now.getFullYear(), checkMonth, 1);
+  return {
+    checkDate,
+    from: new Date(checkDate.getFullYear() - 1, checkMonth, 1),
+    to: new Date(checkDate.getFullYear(), checkMonth, 0, 23, 59, 59),
+    effectiveFrom: new Date(checkDate.getFullYear(), checkMonth + 1, 1),
+  };
+}
+
+export function getNextRecategorizacion(now: Date): Date {
+  return now.getMonth() >= 6 ? new Date(now.getFullYear() + 1, 0, 1) : new Date(now.getFullYear(), 6, 1);
+}
+
+// La cuota de cada mes vence el día 20 de ese mes
+export const DIA_VENCIMIENTO_CUOTA = 20;
+
+export type CuotaMensual = {
+  period: string; // AAAA-MM
+  category: MonotributoCategory;
+  impuesto?: number;
+  jubilacion?: number;
+  obraSocial?: number;
+  /** Cuota total; sin definir si la tabla del año no tiene cuotas cargadas. */
+  total?: number;
+  dueDate: string; // AAAA-MM-DD
+  payment?: MonotributoPayment;
+  status: 'pagada' | 'vencida' | 'pendiente';
+};
+
+/** Cuota que corresponde a una categoría según la tabla del año; el total sale de los componentes si están cargados. */
+export function getCuotaFromLimit(limit: MonotributoLimit | undefined) {
+  const componentes = [limit?.cuotaImpuesto, limit?.cuotaJubilacion, limit?.cuotaObraSocial];
+  const total = componentes.some(c => c != null)
+    ? componentes.reduce<number>((acc, c) => acc + (c || 0), 0)
+    : limit?.cuotaMensual;
+  return {
+    impuesto: limit?.cuotaImpuesto,
+    jubilacion: limit?.cuotaJubilacion,
+    obraSocial: limit?.cuotaObraSocial,
+    total,
+  };
+}
+
+/**
+ * Cuotas desde el primer mes con categoría hasta el mes actual, la más
+ * reciente primero. Cada mes toma la categoría vigente a fin de mes (o hoy, si
+ * es el mes en curso); un mes pagado conserva lo registrado en el pago.
+ */
+export function getCuotasMensuales(
+  history: MonotributoCategoryPeriod[],
+  limits: MonotributoLimit[],
+  payments: MonotributoPayment[],
+  now: Date
+): CuotaMensual[] {
+  const first = history.reduce((min, p) => !min || p.validFrom < min ? p.validFrom : min, '');
+  if (!first) return [];
+
+  const todayKey = toDateKey(now);
+  const paymentsByPeriod = new Map(payments.map(p => [p.period, p]));
+  const cuotas: CuotaMensual[] = [];
+  const [firstYear, firstMonth] = first.split('-').map(Number);
+  for (let date = new Date(firstYear, firstMonth - 1, 1); date <= now; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    const period = toDateKey(date).slice(0, 7);
+    const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    const dueDate = toDateKey(new Date(date.getFullYear(), date.getMonth(), DIA_VENCIMIENTO_CUOTA));
+    const payment = paymentsByPeriod.get(period);
+
+    if (payment) {
+      cuotas.push({
+        period,
+        category: payment.category,
+        impuesto: payment.impuesto,
+        jubilacion: payment.jubilacion,
+        obraSocial: payment.obraSocial,
+        total: payment.amount,
+        dueDate: payment.dueDate,
+        payment,
+        status: 'pagada',
+      });
+      continue;
+    }
+
+    const category = getCategoryAt(history, monthEnd < now ? monthEnd : now);
+    if (!category) continue;
+    const limit = getLimitsForYear(limits, date.getFullYear()).find(l => l.category === category.category);
+    cuotas.push({
+      period,
+      category: category.category,
+      ...getCuotaFromLimit(limit),
+      dueDate,
+      status: todayKey > dueDate ? 'vencida' : 'pendiente',
+    });
+  }
+  return cuotas.reverse();
+}
+
+/** Lo que se lleva pagado o adeudado de cuotas: lo pagado en los meses pagados y la cuota en el resto. */
+export function getTotalCuotas(cuotas: CuotaMensual[]): number {
+  return cuotas.reduce((acc, c) => acc + (c.total || 0), 0);
+}
@@ -0,0 +1,35 @@
+import type { CashChannel, Order, Reservation } from '../types';
+import { getCanalFormaPago } from './caja';
+
+/** Días que se guarda una reserva si no se indica otra fecha. */
+export const DIAS_RESERVA = 7;
+
+export const isReservaVencida = (reservation: Reservation, today: string) =>
+  reservation.status === 'activa' && reservation.expiresOn < today;
+
+/**
+ * Formas de pago y montos de la venta en que se convierte una reserva: la
+ * seña entra por la forma con que se pagó y el resto por la del retiro. Con
+ * una sola forma de pago alcanza con esa (entra el total).
+ */
+export function getPagosConSena(
+  sena: number,
+  senaFormaPago: string,
+  resto: number,
+  restoFormaPago: string,
+): Pick<Order, 'formasPago' | 'montoEfectivo' | 'montoTransferencia' | 'montoTarjeta' | 'montoMercadoPago' | 'montoOtro'> {
+  if (!(sena > 0) || senaFormaPago === restoFormaPago) return { formasPago: [restoFormaPago] };
+  if (!(resto > 0)) return { formasPago: [senaFormaPago] };
+
+  const porCanal: Record<CashChannel, number> = { efectivo: 0, transferencia: 0, tarjeta: 0, mercado_pago: 0, otro: 0 };
+  porCanal[getCanalFormaPago(senaFormaPago)] += sena;
+  porCanal[getCanalFormaPago(restoFormaPago)] += resto;
+  return {
+    formasPago: [senaFormaPago, restoFormaPago],
+    montoEfectivo: porCanal.efectivo,
+    montoTransferencia: porCanal.transferencia,
+    montoTarjeta: porCanal.tarjeta,
+    montoMercadoPago: porCanal.mercado_pago,
+    montoOtro: porCanal.otro,
+  };
+}
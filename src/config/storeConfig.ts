@@ -1,6 +1,10 @@
 export const STORE_CONFIG = {
   storeName: 'Lucas Shop',
   defaultWhatsApp: '5493885925942', // Código de país 549 + área 388 + 5925942
+  // Datos del emisor para los comprobantes en PDF (vacío: no se imprime)
+  razonSocial: '',
+  domicilioFiscal: '',
+  inicioActividades: '', // DD/MM/AAAA
 };
 
 /**
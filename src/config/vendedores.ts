@@ -0,0 +1,74 @@
+import type { Order, Reseller, ResellerSettlement } from '../types';
+
+export const TIPOS_COMISION: Array<{ label: string; value: Reseller['commissionType'] }> = [
+  { label: 'Porcentaje de lo vendido', value: 'porcentaje' },
+  { label: 'Monto fijo por venta', value: 'fijo' },
+];
+
+/** Ubicación de consignación que se propone para un vendedor nuevo. */
+export const getUbicacionConsignacion = (name: string) => `Consignación ${name.trim()}`;
+
+export function getComisionLabel(reseller: Reseller): string {
+  return reseller.commissionType === 'porcentaje'
+    ? `${reseller.commissionValue}%`
+    : `$${reseller.commissionValue.toLocaleString('es-AR')} por venta`;
+}
+
+/**
+ * Comisión de una venta. El porcentaje se calcula sobre los productos (sin
+ * el envío) y nunca supera lo vendido.
+ */
+export function getComision(reseller: Reseller, subtotal: number): number {
+  const comision = reseller.commissionType === 'porcentaje'
+    ? Math.round(subtotal * reseller.commissionValue / 100)
+    : reseller.commissionValue;
+  return Math.min(comision, subtotal);
+}
+
+export type VentaVendedor = {
+  order: Order;
+  title: string;
+  subtotal: number;
+  total: number;
+  /** Fijada al liquidar; si no, la que corresponde con la comisión actual. */
+  commission: number;
+};
+
+export type EstadoCuentaVendedor = {
+  ventas: VentaVendedor[];
+  /** Vendidas y todavía no cobradas: lo que el vendedor nos debe. */
+  pendientes: VentaVendedor[];
+  liquidaciones: ResellerSettlement[];
+  vendido: number;
+  comision: number;
+  adeudado: number;
+  cobrado: number;
+};
+
+/**
+ * Estado de cuenta de un vendedor: lo vendido, lo que debe (ventas sin
+ * cobrar menos su comisión) y lo que ya pagó en liquidaciones o cobros
+ * sueltos. Las ventas llegan con su título y totales ya calculados.
+ */
+export function getEstadoCuenta(
+  reseller: Reseller,
+  ventas: Array<{ order: Order; title: string; subtotal: number; total: number }>,
+  settlements: ResellerSettlement[],
+): EstadoCuentaVendedor {
+  const propias: VentaVendedor[] = ventas
+    .filter(v => v.order.resellerId === reseller.id)
+    .map(v => ({ ...v, commission: v.order.commission ?? getComision(reseller, v.subtotal) }))
+    .sort((a, b) => b.order.orderDate.localeCompare(a.order.orderDate));
+  const pendientes = propias.filter(v => !v.order.cobrado);
+  const cobradas = propias.filter(v => v.order.cobrado);
+
+  return {
+    ventas: propias,
+    pendientes,
+    liquidaciones: settlements.filter(s => s.resellerId === reseller.id),
+    vendido: propias.reduce((acc, v) => acc + v.total, 0),
+    comision: propias.reduce((acc, v) => acc + v.commission, 0),
+    adeudado: pendientes.reduce((acc, v) => acc + v.total - v.commission, 0),
+    cobrado: cobradas.reduce((acc, v) => acc + v.total - v.commission, 0),
+  };
+}
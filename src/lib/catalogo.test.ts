@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Item } from '../types';
+import { getListingKey, groupListings, mergeVariants, pickRepresentative, toCatalogProduct } from './catalogo';
+
+const makeItem = (overrides: Partial<Item>): Item => ({
+    id: 'item',
+    productName: 'iPhone 13',
+    purchasePrice: 100,
+    quantity: 1,
+    date: '2026-01-01',
+    status: 'in_stock',
+    condition: 'nuevo',
+    itemType: 'resale',
+    publicInStore: true,
+    storeImages: [],
+    ...overrides,
+});
+
+describe('mergeVariants', () => {
+    it('une la misma variante en la misma ubicación sumando cantidades', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', storeVariantName: '128GB', location: 'Jujuy', quantity: 2, salePrice: 900 }),
+            makeItem({ id: 'b', storeVariantName: '128GB', location: 'Jujuy', quantity: 3, salePrice: 900 }),
+        ]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].id).toBe('a');
+        expect(merged[0].quantity).toBe(5);
+    });
+
+    it('se queda con el precio más alto', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', storeVariantName: '128GB', location: 'Jujuy', salePrice: 800 }),
+            makeItem({ id: 'b', storeVariantName: '128GB', location: 'Jujuy', salePrice: 950 }),
+            makeItem({ id: 'c', storeVariantName: '128GB', location: 'Jujuy', salePrice: 900 }),
+        ]);
+        expect(merged[0].salePrice).toBe(950);
+    });
+
+    it('usa el precio estimado cuando no hay precio de venta', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', location: 'Jujuy', salePrice: 500 }),
+            makeItem({ id: 'b', location: 'Jujuy', estimatedSalePrice: 700 }),
+        ]);
+        expect(merged[0].salePrice).toBeUndefined();
+        expect(merged[0].estimatedSalePrice).toBe(700);
+    });
+
+    it('separa la misma variante en ubicaciones distintas', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', storeVariantName: '128GB', location: 'Jujuy' }),
+            makeItem({ id: 'b', storeVariantName: '128GB', location: 'Salta' }),
+        ]);
+        expect(merged.map(i => i.id)).toEqual(['a', 'b']);
+    });
+
+    it('separa variantes distintas en la misma ubicación', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', storeVariantName: '128GB', location: 'Jujuy' }),
+            makeItem({ id: 'b', storeVariantName: '256GB', location: 'Jujuy' }),
+        ]);
+        expect(merged).toHaveLength(2);
+    });
+
+    it('no distingue mayúsculas ni espacios en variante y ubicación', () => {
+        const merged = mergeVariants([
+            makeItem({ id: 'a', storeVariantName: '128GB', location: 'Jujuy', quantity: 1 }),
+            makeItem({ id: 'b', storeVariantName: ' 128gb ', location: 'JUJUY ', quantity: 1 }),
+        ]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].quantity).toBe(2);
+    });
+
+    it('no modifica los items recibidos', () => {
+        const first = makeItem({ id: 'a', location: 'Jujuy', quantity: 1, salePrice: 100 });
+        mergeVariants([first, makeItem({ id: 'b', location: 'Jujuy', quantity: 4, salePrice: 300 })]);
+        expect(first.quantity).toBe(1);
+        expect(first.salePrice).toBe(100);
+    });
+});
+
+describe('pickRepresentative', () => {
+    it('elige la unidad con más datos de tienda', () => {
+        const rep = pickRepresentative([
+            makeItem({ id: 'a', imageUrl: 'a.jpg' }),
+            makeItem({ id: 'b', storeTitle: 'iPhone 13 libre', description: 'Impecable' }),
+            makeItem({ id: 'c', description: 'Con caja', storeImages: ['c.jpg'] }),
+        ]);
+        expect(rep.id).toBe('b');
+    });
+});
+
+describe('groupListings', () => {
+    it('junta por store_group y deja las sueltas de a una', () => {
+        const listings = groupListings([
+            makeItem({ id: 'a', storeGroup: 'iphone-13' }),
+            makeItem({ id: 'b' }),
+            makeItem({ id: 'c', storeGroup: ' iphone-13 ' }),
+        ]);
+        expect(listings.map(group => group.map(i => i.id))).toEqual([['a', 'c'], ['b']]);
+        expect(listings.map(group => getListingKey(group[0]))).toEqual(['iphone-13', 'b']);
+    });
+});
+
+describe('toCatalogProduct', () => {
+    it('arma la publicación con sus variantes unidas', () => {
+        const producto = toCatalogProduct([
+            makeItem({ id: 'a', storeGroup: 'iphone-13', storeVariantName: '128GB', location: 'Jujuy', quantity: 1, salePrice: 900, storeImages: ['a1.jpg', 'a2.jpg'] }),
+            makeItem({ id: 'b', storeGroup: 'iphone-13', storeVariantName: '128GB', location: 'Jujuy', quantity: 2, salePrice: 950, condition: 'usado' }),
+            makeItem({ id: 'c', storeGroup: 'iphone-13', storeVariantName: '256GB', location: 'Jujuy', quantity: 1, salePrice: 1200, imageUrl: 'a1.jpg' }),
+        ], 'https://tienda.test', { withImages: true });
+
+        expect(producto.clave).toBe('iphone-13');
+        expect(producto.link).toBe('https://tienda.test/tienda/producto/a');
+        expect(producto.stockTotal).toBe(4);
+        expect(producto.imagenes).toEqual(['a1.jpg', 'a2.jpg']);
+        expect(producto.variantes).toEqual([
+            { nombre: '128GB', precio: 950, condicion: 'Nuevo', cantidad: 3, ubicacion: 'Jujuy', link: 'https://tienda.test/tienda/producto/a' },
+            { nombre: '256GB', precio: 1200, condicion: 'Nuevo', cantidad: 1, ubicacion: 'Jujuy', link: 'https://tienda.test/tienda/producto/c' },
+        ]);
+    });
+});
@@ -0,0 +1,128 @@
+// Armado del catálogo público: publicaciones (store_group o unidad suelta) y
+// sus variantes. Lo comparten la tienda (Storefront) y api/catalogo.ts, así
+// el bot y la web muestran lo mismo. Solo importa tipos: corre en el browser
+// y en la función de Vercel.
+import type { Item, ItemCondition } from '../types';
+
+export const conditionLabelMap: Record<ItemCondition, string> = {
+    nuevo: 'Nuevo',
+    semi_uso: 'Semi uso',
+    usado: 'Usado'
+};
+
+export type CatalogVariant = {
+    nombre: string;
+    precio: number;
+    condicion: string;
+    cantidad: number;
+    ubicacion: string | null;
+    link: string;
+};
+
+export type CatalogProduct = {
+    /** store_group de la publicación o, si es suelta, el id del item. */
+    clave: string;
+    titulo: string;
+    descripcion: string | null;
+    categoria: string | null;
+    ubicacion: string | null;
+    imagen: string | null;
+    imagenes?: string[];
+    video: string | null;
+    link: string;
+    stockTotal: number;
+    variantes: CatalogVariant[];
+};
+
+export const getItemPrice = (item: Item) => Number(item.salePrice || item.estimatedSalePrice || 0);
+
+/** Fotos de la tienda del item; si no cargó ninguna, la imagen del inventario. */
+export const getItemImages = (item: Item) => {
+    const images = (item.storeImages || []).filter(Boolean);
+    if (images.length > 0) return images;
+    return item.imageUrl ? [item.imageUrl] : [];
+};
+
+/** Todas las fotos de una publicación, sin repetir, empezando por las del representante. */
+export const getListingImages = (rep: Item, items: Item[]) => {
+    const images = [rep, ...items.filter(item => item !== rep)]
+        .flatMap(item => [...(item.storeImages || []), item.imageUrl])
+        .filter((url): url is string => Boolean(url));
+    return [...new Set(images)];
+};
+
+// El representante del grupo es el que tiene más datos de tienda cargados
+const scoreItem = (item: Item) => (item.storeTitle ? 4 : 0) + (item.description ? 2 : 0) + ((item.storeImages || []).length ? 1 : 0) + (item.imageUrl ? 1 : 0);
+
+export const pickRepresentative = (items: Item[]) => [...items].sort((a, b) => scoreItem(b) - scoreItem(a))[0];
+
+/** Variante = nombre de variante + ubicación, sin distinguir mayúsculas. */
+export const getVariantKey = (item: Item) =>
+    `${(item.storeVariantName || '').trim().toLowerCase()}|${(item.location || '').trim().toLowerCase()}`;
+
+/**
+ * Une las unidades de una misma variante en una sola: suma las cantidades y
+ * se queda con el precio más alto. El resto de los datos (id, fotos,
+ * condición) son los de la primera unidad.
+ */
+export function mergeVariants(items: Item[]): Item[] {
+    const map = new Map<string, Item>();
+    for (const item of items) {
+        const key = getVariantKey(item);
+        const existing = map.get(key);
+        if (existing) {
+            existing.quantity = (existing.quantity || 0) + (item.quantity || 0);
+            if (getItemPrice(item) > getItemPrice(existing)) {
+                existing.salePrice = item.salePrice;
+                existing.estimatedSalePrice = item.estimatedSalePrice;
+            }
+        } else {
+            map.set(key, { ...item, quantity: item.quantity || 0 });
+        }
+    }
+    return [...map.values()];
+}
+
+export const getListingKey = (item: Item) => (item.storeGroup || '').trim() || item.id;
+
+/** Publicaciones: las unidades de un mismo store_group juntas y las sueltas de a una. */
+export function groupListings(items: Item[]): Item[][] {
+    const byGroup = new Map<string, Item[]>();
+    const singles: Item[][] = [];
+    for (const item of items) {
+        const group = (item.storeGroup || '').trim();
+        if (group) {
+            if (!byGroup.has(group)) byGroup.set(group, []);
+            byGroup.get(group)!.push(item);
+        } else {
+            singles.push([item]);
+        }
+    }
+    return [...byGroup.values(), ...singles];
+}
+
+export const toCatalogVariant = (item: Item, baseUrl: string): CatalogVariant => ({
+    nombre: item.storeVariantName || item.productName,
+    precio: getItemPrice(item),
+    condicion: conditionLabelMap[item.condition] || 'Nuevo',
+    cantidad: item.quantity,
+    ubicacion: item.location || null,
+    link: `${baseUrl}/tienda/producto/${item.id}`,
+});
+
+export function toCatalogProduct(items: Item[], baseUrl: string, { withImages = false } = {}): CatalogProduct {
+    const rep = pickRepresentative(items);
+    return {
+        clave: getListingKey(rep),
+        titulo: rep.storeTitle || rep.productName,
+        descripcion: rep.description || null,
+        categoria: rep.category || null,
+        ubicacion: rep.location || null,
+        imagen: rep.imageUrl || (rep.storeImages || [])[0] || null,
+        ...(withImages ? { imagenes: getListingImages(rep, items) } : {}),
+        video: rep.storeVideoUrl || null,
+        link: `${baseUrl}/tienda/producto/${rep.id}`,
+        stockTotal: items.reduce((acc, item) => acc + (item.quantity || 0), 0),
+        variantes: mergeVariants(items).map(item => toCatalogVariant(item, baseUrl)),
+    };
+}
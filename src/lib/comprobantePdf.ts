@@ -0,0 +1,262 @@
+import { jsPDF } from 'jspdf';
+import qrcode from 'qrcode-generator';
+import type { Customer, Item, Order } from '../types';
+import { FORMAS_PAGO } from '../config/facturacion';
+import { STORE_CONFIG, getWhatsAppUrl } from '../config/storeConfig';
+
+// Comprobantes en PDF generados en el navegador: la factura de una venta
+// facturada (con CAE y QR de ARCA si se emitió por web service) y un
+// remito/recibo para las ventas que no se facturan.
+
+export type ComprobanteKind = 'factura' | 'recibo';
+
+export type ComprobanteInput = {
+    order: Order;
+    lines: Item[];
+    customer?: Customer;
+};
+
+type Linea = { producto: string; cantidad: number; precio: number };
+
+export const getComprobanteKind = (order: Order): ComprobanteKind => order.facturado ? 'factura' : 'recibo';
+
+// Lo facturado manda: si se emitió por WSFE se usan las líneas enviadas a ARCA
+function getLineas(order: Order, lines: Item[]): { lineas: Linea[]; envio?: { metodo: string; costo: number } } {
+    if (order.facturaDetalle) return order.facturaDetalle;
+    return {
+        lineas: lines.map(l => ({ producto: l.productName, cantidad: l.quantity, precio: l.salePrice || 0 })),
+        envio: order.envioAplica && order.envioCosto ? { metodo: order.envioMetodo || 'Envío', costo: order.envioCosto } : undefined
+    };
+}
+
+const fmtMoney = (n: number) => '$' + n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// AAAA-MM-DD o ISO → DD/MM/AAAA
+function fmtDate(dateStr?: string): string {
+    if (!dateStr) return '-';
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return dateStr.split('-').reverse().join('/');
+    const d = new Date(dateStr);
+    return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}`;
+}
+
+const numeroComprobante = (order: Order) =>
+    `${String(order.puntoVenta || 0).padStart(5, '0')}-${String(order.cbteNro || 0).padStart(8, '0')}`;
+
+const numeroRecibo = (order: Order) => order.id.slice(0, 8).toUpperCase();
+
+/** QR obligatorio en comprobantes electrónicos (RG 4892). */
+export function getArcaQrUrl(order: Order): string | null {
+    if (!order.cae || !order.cuitEmisor || !order.facturaFecha) return null;
+    const data = {
+        ver: 1,
+        fecha: order.facturaFecha,
+        cuit: Number(order.cuitEmisor),
+        ptoVta: order.puntoVenta,
+        tipoCmp: order.cbteTipo,
+        nroCmp: order.cbteNro,
+        importe: order.facturaImporte,
+        moneda: 'PES',
+        ctz: 1,
+        tipoDocRec: 99,
+        nroDocRec: 0,
+        tipoCodAut: 'E',
+        codAut: Number(order.cae),
+    };
+    return `https://www.afip.gob.ar/fe/qr/?p=${btoa(JSON.stringify(data))}`;
+}
+
+function getPagos(order: Order): Array<{ label: string; monto?: number }> {
+    const montos = [
+        { label: 'Efectivo', monto: order.montoEfectivo },
+        { label: 'Transferencia', monto: order.montoTransferencia },
+        { label: 'Tarjeta', monto: order.montoTarjeta },
+        { label: 'Mercado Pago', monto: order.montoMercadoPago },
+        { label: 'Otro', monto: order.montoOtro },
+    ].filter(p => (p.monto || 0) > 0);
+    if (montos.length > 0) return montos;
+    return (order.formasPago || []).map(fp => ({ label: FORMAS_PAGO.find(f => f.value === fp)?.label || fp }));
+}
+
+export function getComprobanteFileName(order: Order): string {
+    return getComprobanteKind(order) === 'factura' && order.cae
+        ? `factura-c-${numeroComprobante(order)}.pdf`
+        : `${getComprobanteKind(order)}-${numeroRecibo(order)}.pdf`;
+}
+
+export function buildComprobantePdf({ order, lines, customer }: ComprobanteInput): jsPDF {
+    const kind = getComprobanteKind(order);
+    const { lineas, envio } = getLineas(order, lines);
+    const total = order.facturaImporte ?? lineas.reduce((acc, l) => acc + l.cantidad * l.precio, 0) + (envio?.costo || 0);
+
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const left = 15;
+    const right = 195;
+    const mid = 105;
+
+    // Encabezado: emisor a la izquierda, letra al centro, datos del comprobante a la derecha
+    doc.setDrawColor(60);
+    doc.setLineWidth(0.3);
+    doc.rect(left, 12, right - left, 42);
+    doc.line(mid, 24, mid, 54);
+    doc.rect(mid - 8, 12, 16, 12);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    doc.text(kind === 'factura' ? 'C' : 'X', mid, 21, { align: 'center' });
+
+    doc.setFontSize(14);
+    doc.text(STORE_CONFIG.razonSocial || STORE_CONFIG.storeName, left + 4, 22);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const emisor = [
+        STORE_CONFIG.domicilioFiscal && `Domicilio: ${STORE_CONFIG.domicilioFiscal}`,
+        kind === 'factura' && 'Condición frente al IVA: Responsable Monotributo',
+    ].filter(Boolean) as string[];
+    doc.text(emisor, left + 4, 30);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(kind === 'factura' ? 'FACTURA' : 'REMITO / RECIBO', mid + 12, 22);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const datos = kind === 'factura' && order.cae
+        ? [
+            `Punto de venta: ${String(order.puntoVenta).padStart(5, '0')}   Comp. Nro: ${String(order.cbteNro).padStart(8, '0')}`,
+            `Fecha de emisión: ${fmtDate(order.facturaFecha)}`,
+            order.cuitEmisor ? `CUIT: ${order.cuitEmisor}` : '',
+            STORE_CONFIG.inicioActividades ? `Inicio de actividades: ${STORE_CONFIG.inicioActividades}` : '',
+        ]
+        : [
+            `Nro: ${numeroRecibo(order)}`,
+            `Fecha: ${fmtDate(order.orderDate)}`,
+        ];
+    doc.text(datos.filter(Boolean), mid + 12, 30);
+
+    // Receptor
+    let y = 62;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Cliente:', left, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(customer?.name || 'Consumidor Final', left + 16, y);
+    if (kind === 'factura') doc.text('Condición frente al IVA: Consumidor Final', mid + 12, y);
+    const contacto = [customer?.phone, customer?.city].filter(Boolean).join(' — ');
+    if (contacto) {
+        y += 5;
+        doc.text(contacto, left + 16, y);
+    }
+
+    // Detalle
+    y += 10;
+    const colCant = 125;
+    const colPrecio = 160;
+    doc.setFillColor(240, 240, 240);
+    doc.rect(left, y - 5, right - left, 8, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.text('Producto', left + 2, y);
+    doc.text('Cant.', colCant, y, { align: 'right' });
+    doc.text('Precio unit.', colPrecio, y, { align: 'right' });
+    doc.text('Subtotal', right - 2, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    y += 8;
+
+    const filas: Linea[] = [...lineas, ...(envio ? [{ producto: `Envío${envio.metodo ? ` (${envio.metodo})` : ''}`, cantidad: 1, precio: envio.costo }] : [])];
+    for (const fila of filas) {
+        const producto = doc.splitTextToSize(fila.producto, colCant - left - 20) as string[];
+        if (y + producto.length * 5 > 250) {
+            doc.addPage();
+            y = 20;
+        }
+        doc.text(producto, left + 2, y);
+        doc.text(String(fila.cantidad), colCant, y, { align: 'right' });
+        doc.text(fmtMoney(fila.precio), colPrecio, y, { align: 'right' });
+        doc.text(fmtMoney(fila.cantidad * fila.precio), right - 2, y, { align: 'right' });
+        y += producto.length * 5 + 2;
+    }
+
+    doc.line(left, y, right, y);
+    y += 7;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text('Total', colPrecio, y, { align: 'right' });
+    doc.text(fmtMoney(total), right - 2, y, { align: 'right' });
+
+    const pagos = getPagos(order);
+    if (pagos.length > 0) {
+        y += 10;
+        doc.setFontSize(10);
+        doc.text('Forma de pago', left, y);
+        doc.setFont('helvetica', 'normal');
+        for (const pago of pagos) {
+            y += 5;
+            doc.text(pago.monto != null ? `${pago.label}: ${fmtMoney(pago.monto)}` : pago.label, left + 2, y);
+        }
+    }
+
+    // Pie: datos de autorización de ARCA o aclaración de que no es factura
+    const pie = 262;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    if (kind === 'factura' && order.cae) {
+        const qrUrl = getArcaQrUrl(order);
+        if (qrUrl) {
+            const qr = qrcode(0, 'M');
+            qr.addData(qrUrl);
+            qr.make();
+            doc.addImage(qr.createDataURL(4, 0), 'GIF', left, pie - 8, 28, 28);
+        }
+        doc.setFont('helvetica', 'bold');
+        doc.text(`CAE N°: ${order.cae}`, right, pie, { align: 'right' });
+        doc.text(`Fecha de vto. de CAE: ${fmtDate(order.caeVencimiento)}`, right, pie + 5, { align: 'right' });
+        doc.setFont('helvetica', 'normal');
+        doc.text('Comprobante autorizado por ARCA', right, pie + 10, { align: 'right' });
+    } else if (kind === 'factura') {
+        doc.text('Factura emitida en ARCA. Este resumen no reemplaza al comprobante oficial.', mid, pie, { align: 'center' });
+    } else {
+        doc.setFont('helvetica', 'bold');
+        doc.text('DOCUMENTO NO VÁLIDO COMO FACTURA', mid, pie, { align: 'center' });
+    }
+
+    return doc;
+}
+
+export function getComprobanteShareText(order: Order, customer?: Customer): string {
+    const saludo = customer ? `Hola ${customer.name}! ` : '';
+    return getComprobanteKind(order) === 'factura'
+        ? `${saludo}Te paso la factura de tu compra en ${STORE_CONFIG.storeName}.`
+        : `${saludo}Te paso el comprobante de tu compra en ${STORE_CONFIG.storeName}.`;
+}
+
+export function downloadComprobante(input: ComprobanteInput) {
+    buildComprobantePdf(input).save(getComprobanteFileName(input.order));
+}
+
+/**
+ * Comparte el PDF por WhatsApp. En celulares se adjunta el archivo con la hoja
+ * de compartir del sistema; si el navegador no puede, se descarga y se abre
+ * el chat con el cliente para adjuntarlo a mano.
+ */
+export async function shareComprobante(input: ComprobanteInput): Promise<void> {
+    const fileName = getComprobanteFileName(input.order);
+    const text = getComprobanteShareText(input.order, input.customer);
+    const blob = buildComprobantePdf(input).output('blob');
+    const file = new File([blob], fileName, { type: 'application/pdf' });
+
+    if (navigator.canShare?.({ files: [file] })) {
+        try {
+            await navigator.share({ files: [file], text });
+            return;
+        } catch (err) {
+            // Cancelar la hoja de compartir no es un error
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            throw err;
+        }
+    }
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    window.open(getWhatsAppUrl(`${text} (te lo adjunto acá)`, input.customer?.phone || ''), '_blank');
+}
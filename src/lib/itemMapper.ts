@@ -0,0 +1,68 @@
+// Mapeo de items entre la base (snake_case) y la app (camelCase). Sin
+// dependencias del cliente de Supabase: también lo usa api/catalogo.ts.
+import type { Item, ItemCondition, ItemStatus, ItemType, WithdrawalReason } from '../types';
+
+// Helper to map DB columns (snake_case) to application model (camelCase)
+export const mapItemFromDb = (dbItem: any): Item => ({
+    id: dbItem.id,
+    productName: dbItem.product_name,
+    purchasePrice: Number(dbItem.purchase_price),
+    salePrice: dbItem.sale_price ? Number(dbItem.sale_price) : undefined,
+    quantity: Number(dbItem.quantity),
+    date: dbItem.date || dbItem.created_at, // Use explicit date or fallback
+    createdAt: dbItem.created_at || undefined,
+    updatedAt: dbItem.updated_at || undefined,
+    saleDate: dbItem.sale_date || undefined,
+    status: dbItem.status as ItemStatus,
+    condition: (dbItem.item_condition || 'nuevo') as ItemCondition,
+    batchRef: dbItem.batch_ref || undefined,
+    batchItemId: dbItem.batch_item_id || undefined,
+    location: dbItem.location || undefined,
+    estimatedSalePrice: dbItem.estimated_sale_price ? Number(dbItem.estimated_sale_price) : undefined,
+    publishUrls: dbItem.publish_urls || undefined,
+    imageUrl: dbItem.image_url || undefined,
+    category: dbItem.category || undefined,
+    itemType: (dbItem.item_type || 'resale') as ItemType,
+    withdrawalReason: (dbItem.withdrawal_reason || undefined) as WithdrawalReason | undefined,
+    orderId: dbItem.order_id || undefined,
+    publicInStore: dbItem.public_in_store === true,
+    storeImages: Array.isArray(dbItem.store_images) ? dbItem.store_images : [],
+    storeVideoUrl: dbItem.store_video_url ?? undefined,
+    description: dbItem.description ?? undefined,
+    storeTitle: dbItem.store_title ?? undefined,
+    storeGroup: dbItem.store_group ?? undefined,
+    storeVariantName: dbItem.store_variant_name ?? undefined,
+    reservationId: dbItem.reservation_id || undefined,
+});
+
+// Helper to map application model to DB columns
+export const mapItemToDb = (item: Partial<Item>) => {
+    const dbItem: any = {};
+    if (item.productName !== undefined) dbItem.product_name = item.productName;
+    if (item.purchasePrice !== undefined) dbItem.purchase_price = item.purchasePrice;
+    if (item.salePrice !== undefined) dbItem.sale_price = item.salePrice;
+    if (item.quantity !== undefined) dbItem.quantity = item.quantity;
+    if (item.date !== undefined) dbItem.date = item.date;
+    if (item.saleDate !== undefined) dbItem.sale_date = item.saleDate;
+    if (item.status !== undefined) dbItem.status = item.status;
+    if (item.condition !== undefined) dbItem.item_condition = item.condition;
+    if (item.batchRef !== undefined) dbItem.batch_ref = item.batchRef;
+    if (item.batchItemId !== undefined) dbItem.batch_item_id = item.batchItemId || null;
+    if (item.location !== undefined) dbItem.location = item.location;
+    if (item.estimatedSalePrice !== undefined) dbItem.estimated_sale_price = item.estimatedSalePrice;
+    if (item.publishUrls !== undefined) dbItem.publish_urls = item.publishUrls;
+    if (item.imageUrl !== undefined) dbItem.image_url = item.imageUrl;
+    if (item.category !== undefined) dbItem.category = item.category;
+    if (item.itemType !== undefined) dbItem.item_type = item.itemType;
+    if (item.withdrawalReason !== undefined) dbItem.withdrawal_reason = item.withdrawalReason;
+    if (item.orderId !== undefined) dbItem.order_id = item.orderId || null;
+    if (item.publicInStore !== undefined) dbItem.public_in_store = item.publicInStore;
+    if (item.storeImages !== undefined) dbItem.store_images = item.storeImages;
+    if (item.storeVideoUrl !== undefined) dbItem.store_video_url = item.storeVideoUrl || null;
+    if (item.description !== undefined) dbItem.description = item.description || null;
+    if (item.storeTitle !== undefined) dbItem.store_title = item.storeTitle || null;
+    if (item.storeGroup !== undefined) dbItem.store_group = item.storeGroup || null;
+    if (item.storeVariantName !== undefined) dbItem.store_variant_name = item.storeVariantName || null;
+    if (item.reservationId !== undefined) dbItem.reservation_id = item.reservationId || null;
+    return dbItem;
+};
@@ -0,0 +1,81 @@
+import { useSyncExternalStore } from 'react';
+
+// Router mínimo sobre la History API. vercel.json reescribe cualquier ruta a
+// index.html, así que todas las URLs de la app se resuelven del lado del cliente.
+
+const NAVIGATE_EVENT = 'app:navigate';
+
+export type AppLocation = {
+    pathname: string;
+    search: string;
+    state: unknown;
+};
+
+let cachedLocation: AppLocation | null = null;
+
+function getSnapshot(): AppLocation {
+    const { pathname, search } = window.location;
+    const state = window.history.state;
+    if (!cachedLocation || cachedLocation.pathname !== pathname || cachedLocation.search !== search || cachedLocation.state !== state) {
+        cachedLocation = { pathname, search, state };
+    }
+    return cachedLocation;
+}
+
+function subscribe(callback: () => void) {
+    window.addEventListener('popstate', callback);
+    window.addEventListener(NAVIGATE_EVENT, callback);
+    return () => {
+        window.removeEventListener('popstate', callback);
+        window.removeEventListener(NAVIGATE_EVENT, callback);
+    };
+}
+
+/** Navega a una ruta de la app sin recargar la página. */
+export function navigate(to: string, options: { replace?: boolean; state?: unknown } = {}) {
+    const current = window.location.pathname + window.location.search;
+    if (to === current && !options.replace && options.state === undefined) return;
+    if (options.replace) window.history.replaceState(options.state ?? null, '', to);
+    else window.history.pushState(options.state ?? null, '', to);
+    window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/** Ubicación actual; re-renderiza con navigate() y con atrás/adelante del navegador. */
+export function useLocation(): AppLocation {
+    return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Compara un pathname contra un patrón tipo `/tandas/:code`.
+ * Devuelve los parámetros decodificados o null si no coincide.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+    const patternParts = pattern.split('/').filter(Boolean);
+    const pathParts = pathname.split('/').filter(Boolean);
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        const part = patternParts[i];
+        if (part.startsWith(':')) {
+            try {
+                params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+            } catch {
+                return null;
+            }
+        } else if (part !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+}
+
+/** Arma una ruta con query string, omitiendo los parámetros vacíos. */
+export function buildPath(pathname: string, params: Record<string, string | undefined> = {}): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value) query.set(key, value);
+    }
+    const qs = query.toString();
+    return qs ? `${pathname}?${qs}` : pathname;
+}
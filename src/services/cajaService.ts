@@ -0,0 +1,58 @@
+import { supabase } from '../lib/supabase';
+import type { CashChannel, CashReconciliation } from '../types';
+
+// Fila de la tabla cash_reconciliations tal como la devuelve Supabase
+type ReconciliationRow = {
+    id: string;
+    created_at: string;
+    channel: string;
+    reconciled_on: string;
+    balance: number;
+    notes: string | null;
+};
+
+const mapReconciliationFromDb = (dbReconciliation: ReconciliationRow): CashReconciliation => ({
+    id: dbReconciliation.id,
+    channel: dbReconciliation.channel as CashChannel,
+    date: dbReconciliation.reconciled_on,
+    balance: Number(dbReconciliation.balance),
+    notes: dbReconciliation.notes || undefined,
+});
+
+export const cajaService = {
+    async getReconciliations(): Promise<CashReconciliation[]> {
+        const { data, error } = await supabase
+            .from('cash_reconciliations')
+            .select('*')
+            .order('reconciled_on', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapReconciliationFromDb);
+    },
+
+    // Un arqueo por medio y día: volver a cargarlo reemplaza el saldo
+    async saveReconciliation(reconciliation: Omit<CashReconciliation, 'id'>): Promise<CashReconciliation> {
+        const { data, error } = await supabase
+            .from('cash_reconciliations')
+            .upsert({
+                channel: reconciliation.channel,
+                reconciled_on: reconciliation.date,
+                balance: reconciliation.balance,
+                notes: reconciliation.notes?.trim() || null
+            }, { onConflict: 'channel,reconciled_on' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapReconciliationFromDb(data);
+    },
+
+    async deleteReconciliation(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('cash_reconciliations')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
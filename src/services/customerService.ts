@@ -0,0 +1,75 @@
+import { supabase } from '../lib/supabase';
+import type { Customer } from '../types';
+
+// Fila de la tabla customers tal como la devuelve Supabase
+type CustomerRow = {
+    id: string;
+    created_at: string;
+    name: string;
+    phone: string | null;
+    city: string | null;
+    notes: string | null;
+};
+
+const mapFromDb = (dbCustomer: CustomerRow): Customer => ({
+    id: dbCustomer.id,
+    createdAt: dbCustomer.created_at,
+    name: dbCustomer.name,
+    phone: dbCustomer.phone || undefined,
+    city: dbCustomer.city || undefined,
+    notes: dbCustomer.notes || undefined,
+});
+
+const mapToDb = (customer: Partial<Customer>) => {
+    const dbCustomer: Partial<CustomerRow> = {};
+    if (customer.name !== undefined) dbCustomer.name = customer.name.trim();
+    if (customer.phone !== undefined) dbCustomer.phone = customer.phone?.trim() || null;
+    if (customer.city !== undefined) dbCustomer.city = customer.city?.trim() || null;
+    if (customer.notes !== undefined) dbCustomer.notes = customer.notes?.trim() || null;
+    return dbCustomer;
+};
+
+export const customerService = {
+    async getCustomers(): Promise<Customer[]> {
+        const { data, error } = await supabase
+            .from('customers')
+            .select('*')
+            .order('name', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createCustomer(customer: Omit<Customer, 'id' | 'createdAt'>): Promise<Customer> {
+        const { data, error } = await supabase
+            .from('customers')
+            .insert(mapToDb(customer))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async updateCustomer(id: string, updates: Partial<Customer>): Promise<Customer> {
+        const { data, error } = await supabase
+            .from('customers')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    // Las ventas del cliente no se borran: quedan sin cliente (on delete set null)
+    async deleteCustomer(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('customers')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -0,0 +1,207 @@
+import { supabase } from '../lib/supabase';
+import type { CashChannel, Expense, ExpenseCategory, RecurringExpense } from '../types';
+import { getPendingOccurrences } from '../config/gastos';
+
+// Filas de las tablas expenses y recurring_expenses tal como las devuelve Supabase
+type ExpenseRow = {
+    id: string;
+    created_at: string;
+    expense_date: string;
+    description: string;
+    category: string | null;
+    amount: number;
+    channel: string;
+    notes: string | null;
+    batch_id: string | null;
+    order_id: string | null;
+    recurring_expense_id: string | null;
+};
+
+type RecurringExpenseRow = {
+    id: string;
+    created_at: string;
+    description: string;
+    category: string;
+    amount: number;
+    channel: string;
+    day_of_month: number;
+    starts_on: string;
+    ends_on: string | null;
+    generated_through: string | null;
+    notes: string | null;
+};
+
+const mapFromDb = (dbExpense: ExpenseRow): Expense => ({
+    id: dbExpense.id,
+    createdAt: dbExpense.created_at,
+    expenseDate: dbExpense.expense_date,
+    description: dbExpense.description,
+    category: (dbExpense.category || 'otro') as ExpenseCategory,
+    amount: Number(dbExpense.amount),
+    channel: dbExpense.channel as CashChannel,
+    notes: dbExpense.notes || undefined,
+    batchId: dbExpense.batch_id || undefined,
+    orderId: dbExpense.order_id || undefined,
+    recurringExpenseId: dbExpense.recurring_expense_id || undefined,
+});
+
+const mapToDb = (expense: Partial<Expense>) => {
+    const dbExpense: Partial<ExpenseRow> = {};
+    if (expense.expenseDate !== undefined) dbExpense.expense_date = expense.expenseDate;
+    if (expense.description !== undefined) dbExpense.description = expense.description.trim();
+    if (expense.category !== undefined) dbExpense.category = expense.category;
+    if (expense.amount !== undefined) dbExpense.amount = expense.amount;
+    if (expense.channel !== undefined) dbExpense.channel = expense.channel;
+    if (expense.notes !== undefined) dbExpense.notes = expense.notes?.trim() || null;
+    if (expense.batchId !== undefined) dbExpense.batch_id = expense.batchId || null;
+    if (expense.orderId !== undefined) dbExpense.order_id = expense.orderId || null;
+    if (expense.recurringExpenseId !== undefined) dbExpense.recurring_expense_id = expense.recurringExpenseId || null;
+    return dbExpense;
+};
+
+const mapRecurringFromDb = (dbRecurring: RecurringExpenseRow): RecurringExpense => ({
+    id: dbRecurring.id,
+    description: dbRecurring.description,
+    category: dbRecurring.category as ExpenseCategory,
+    amount: Number(dbRecurring.amount),
+    channel: dbRecurring.channel as CashChannel,
+    dayOfMonth: Number(dbRecurring.day_of_month),
+    startsOn: dbRecurring.starts_on,
+    endsOn: dbRecurring.ends_on || undefined,
+    generatedThrough: dbRecurring.generated_through || undefined,
+    notes: dbRecurring.notes || undefined,
+});
+
+const mapRecurringToDb = (recurring: Partial<RecurringExpense>) => {
+    const dbRecurring: Partial<RecurringExpenseRow> = {};
+    if (recurring.description !== undefined) dbRecurring.description = recurring.description.trim();
+    if (recurring.category !== undefined) dbRecurring.category = recurring.category;
+    if (recurring.amount !== undefined) dbRecurring.amount = recurring.amount;
+    if (recurring.channel !== undefined) dbRecurring.channel = recurring.channel;
+    if (recurring.dayOfMonth !== undefined) dbRecurring.day_of_month = recurring.dayOfMonth;
+    if (recurring.startsOn !== undefined) dbRecurring.starts_on = recurring.startsOn;
+    if (recurring.endsOn !== undefined) dbRecurring.ends_on = recurring.endsOn || null;
+    if (recurring.generatedThrough !== undefined) dbRecurring.generated_through = recurring.generatedThrough || null;
+    if (recurring.notes !== undefined) dbRecurring.notes = recurring.notes?.trim() || null;
+    return dbRecurring;
+};
+
+export const expenseService = {
+    async getExpenses(): Promise<Expense[]> {
+        const { data, error } = await supabase
+            .from('expenses')
+            .select('*')
+            .order('expense_date', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createExpense(expense: Omit<Expense, 'id' | 'createdAt'>): Promise<Expense> {
+        const { data, error } = await supabase
+            .from('expenses')
+            .insert(mapToDb(expense))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async updateExpense(id: string, updates: Partial<Expense>): Promise<Expense> {
+        const { data, error } = await supabase
+            .from('expenses')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async deleteExpense(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('expenses')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    async getRecurringExpenses(): Promise<RecurringExpense[]> {
+        const { data, error } = await supabase
+            .from('recurring_expenses')
+            .select('*')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(mapRecurringFromDb);
+    },
+
+    async createRecurringExpense(recurring: Omit<RecurringExpense, 'id' | 'generatedThrough'>): Promise<RecurringExpense> {
+        const { data, error } = await supabase
+            .from('recurring_expenses')
+            .insert(mapRecurringToDb(recurring))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapRecurringFromDb(data);
+    },
+
+    async updateRecurringExpense(id: string, updates: Partial<RecurringExpense>): Promise<RecurringExpense> {
+        const { data, error } = await supabase
+            .from('recurring_expenses')
+            .update(mapRecurringToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapRecurringFromDb(data);
+    },
+
+    // Los gastos ya generados quedan (sin vínculo) aunque se borre el gasto fijo
+    async deleteRecurringExpense(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('recurring_expenses')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    // Crea los gastos de cada mes que falten hasta hoy y avanza lo generado:
+    // un gasto generado que después se borra no vuelve a aparecer. Los que otra
+    // pestaña ya generó se saltean (índice único por gasto fijo y fecha)
+    async generateRecurringExpenses(recurring: RecurringExpense[], today: string): Promise<Expense[]> {
+        const created: Expense[] = [];
+        for (const r of recurring) {
+            const dates = getPendingOccurrences(r, today);
+            if (dates.length === 0) continue;
+
+            const { data, error } = await supabase
+                .from('expenses')
+                .upsert(dates.map(expenseDate => mapToDb({
+                    expenseDate,
+                    description: r.description,
+                    category: r.category,
+                    amount: r.amount,
+                    channel: r.channel,
+                    recurringExpenseId: r.id
+                })), { onConflict: 'recurring_expense_id,expense_date', ignoreDuplicates: true })
+                .select();
+            if (error) throw error;
+
+            const { error: updateError } = await supabase
+                .from('recurring_expenses')
+                .update({ generated_through: dates[dates.length - 1] })
+                .eq('id', r.id);
+            if (updateError) throw updateError;
+
+            created.push(...(data || []).map(mapFromDb));
+        }
+        return created;
+    }
+};
@@ -0,0 +1,87 @@
+import { supabase } from '../lib/supabase';
+import type { FacturaDetalle, Order, SaleReturn } from '../types';
+
+export type FacturaRequest = FacturaDetalle & {
+    orderId: string;
+    fecha: string; // AAAA-MM-DD
+};
+
+// Campos de la venta que completa la emisión (la función ya los guardó en la base)
+export type FacturaEmitida = Pick<Order, 'facturado' | 'cae' | 'caeVencimiento' | 'puntoVenta' | 'cbteTipo' | 'cbteNro' | 'facturaFecha' | 'facturaImporte' | 'facturaDetalle' | 'cuitEmisor'>;
+
+// Comprobante tal como lo devuelven /api/facturar y /api/nota-credito
+type ComprobanteEmitido = {
+    cae: string;
+    caeVencimiento: string | null;
+    puntoVenta: number;
+    cbteTipo: number;
+    cbteNro: number;
+    fecha: string;
+};
+
+type FacturaResponse = ComprobanteEmitido & {
+    cuit: string | null;
+    importe: number;
+    detalle: FacturaDetalle;
+};
+
+const mapFactura = (factura: FacturaResponse): FacturaEmitida => ({
+    facturado: true,
+    cae: factura.cae,
+    caeVencimiento: factura.caeVencimiento || undefined,
+    puntoVenta: Number(factura.puntoVenta),
+    cbteTipo: Number(factura.cbteTipo),
+    cbteNro: Number(factura.cbteNro),
+    facturaFecha: factura.fecha,
+    facturaImporte: Number(factura.importe),
+    facturaDetalle: factura.detalle,
+    cuitEmisor: factura.cuit || undefined,
+});
+
+// Campos de la devolución que completa la nota de crédito
+export type NotaCreditoEmitida = Pick<SaleReturn, 'cae' | 'caeVencimiento' | 'puntoVenta' | 'cbteTipo' | 'cbteNro' | 'cbteFecha'>;
+
+const mapNotaCredito = (notaCredito: ComprobanteEmitido): NotaCreditoEmitida => ({
+    cae: notaCredito.cae,
+    caeVencimiento: notaCredito.caeVencimiento || undefined,
+    puntoVenta: Number(notaCredito.puntoVenta),
+    cbteTipo: Number(notaCredito.cbteTipo),
+    cbteNro: Number(notaCredito.cbteNro),
+    cbteFecha: notaCredito.fecha,
+});
+
+// Las funciones de /api piden la sesión para aplicar las mismas políticas que el panel
+async function postWithSession(path: string, payload: unknown, action: string) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sesión vencida, volvé a ingresar');
+
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify(payload)
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || `Error ${response.status} al ${action}`);
+    return body;
+}
+
+// Número de comprobante en formato ARCA: 00001-00000042
+export const formatComprobante = (order: Pick<Order, 'puntoVenta' | 'cbteNro'>) =>
+    `${String(order.puntoVenta || 0).padStart(5, '0')}-${String(order.cbteNro || 0).padStart(8, '0')}`;
+
+export const invoiceService = {
+    // La emisión corre en /api/facturar: el certificado de ARCA no sale del servidor
+    async emitFacturaC(request: FacturaRequest): Promise<FacturaEmitida> {
+        const body = await postWithSession('/api/facturar', request, 'facturar');
+        return mapFactura(body.factura);
+    },
+
+    // Nota de Crédito C asociada a la factura de la venta devuelta
+    async emitNotaCreditoC(returnId: string, fecha: string): Promise<NotaCreditoEmitida> {
+        const body = await postWithSession('/api/nota-credito', { returnId, fecha }, 'emitir la nota de crédito');
+        return mapNotaCredito(body.notaCredito);
+    }
+};
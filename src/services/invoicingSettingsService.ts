@@ -0,0 +1,76 @@
+import { supabase } from '../lib/supabase';
+import type { InvoicingSettings, ItemCondition, ItemType } from '../types';
+
+// Fila de la tabla invoicing_settings tal como la devuelve Supabase
+type InvoicingSettingsRow = {
+    id: string;
+    created_at: string;
+    valid_from: string;
+    eligible_conditions: ItemCondition[] | null;
+    always_eligible_types: ItemType[] | null;
+    max_backdate_days: number;
+    default_payment_method: string;
+};
+
+const mapFromDb = (dbSettings: InvoicingSettingsRow): InvoicingSettings => ({
+    id: dbSettings.id,
+    validFrom: dbSettings.valid_from,
+    eligibleConditions: dbSettings.eligible_conditions || [],
+    alwaysEligibleTypes: dbSettings.always_eligible_types || [],
+    maxBackdateDays: Number(dbSettings.max_backdate_days),
+    defaultPaymentMethod: dbSettings.default_payment_method,
+});
+
+const mapToDb = (settings: Partial<InvoicingSettings>) => {
+    const dbSettings: Partial<InvoicingSettingsRow> = {};
+    if (settings.validFrom !== undefined) dbSettings.valid_from = settings.validFrom;
+    if (settings.eligibleConditions !== undefined) dbSettings.eligible_conditions = settings.eligibleConditions;
+    if (settings.alwaysEligibleTypes !== undefined) dbSettings.always_eligible_types = settings.alwaysEligibleTypes;
+    if (settings.maxBackdateDays !== undefined) dbSettings.max_backdate_days = settings.maxBackdateDays;
+    if (settings.defaultPaymentMethod !== undefined) dbSettings.default_payment_method = settings.defaultPaymentMethod;
+    return dbSettings;
+};
+
+export const invoicingSettingsService = {
+    async getSettings(): Promise<InvoicingSettings[]> {
+        const { data, error } = await supabase
+            .from('invoicing_settings')
+            .select('*')
+            .order('valid_from', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createSettings(settings: Omit<InvoicingSettings, 'id'>): Promise<InvoicingSettings> {
+        const { data, error } = await supabase
+            .from('invoicing_settings')
+            .insert(mapToDb(settings))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async updateSettings(id: string, updates: Partial<InvoicingSettings>): Promise<InvoicingSettings> {
+        const { data, error } = await supabase
+            .from('invoicing_settings')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async deleteSettings(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('invoicing_settings')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -1,101 +1,77 @@
 
 import { supabase } from '../lib/supabase';
-import type { Item, ItemCondition, ItemStatus, ItemType, WithdrawalReason } from '../types';
-
-const hasMissingColumn = (error: { message?: string; details?: string; hint?: string } | null, column: string) => {
-    if (!error) return false;
-    const combined = `${error.message || ''} ${error.details || ''} ${error.hint || ''}`.toLowerCase();
-    return combined.includes(column.toLowerCase());
+import { mapItemFromDb as mapFromDb, mapItemToDb as mapToDb } from '../lib/itemMapper';
+import type { BatchItem, Item, ItemCondition, ItemStatus } from '../types';
+
+// Filas de batches y batch_items tal como las devuelve Supabase
+type BatchItemRow = {
+    id: string;
+    batch_id: string;
+    position: number;
+    product_name: string;
+    quantity: number;
+    listed_unit_price: number;
+    unit_sale_price: number;
+    item_condition: ItemCondition | null;
+    disposition: 'sell' | 'keep' | null;
+    category: string | null;
 };
 
-const withoutColumns = <T extends Record<string, unknown>>(payload: T, columns: string[]) => {
-    const rest = { ...payload };
-    for (const col of columns) delete rest[col];
-    return rest;
+type BatchRow = {
+    id: string;
+    batch_code: string;
+    batch_type: string;
+    batch_status: string | null;
+    created_at: string;
+    total_paid: number;
+    total_sell_revenue: number;
+    cash_profit: number;
+    retained_value: number;
+    items_count: number;
+    payment_channel: string | null;
+    batch_items?: BatchItemRow[];
 };
 
-// Helper to map DB columns (snake_case) to application model (camelCase)
-const mapFromDb = (dbItem: any): Item => ({
-    id: dbItem.id,
-    productName: dbItem.product_name,
-    purchasePrice: Number(dbItem.purchase_price),
-    salePrice: dbItem.sale_price ? Number(dbItem.sale_price) : undefined,
-    quantity: Number(dbItem.quantity),
-    date: dbItem.date || dbItem.created_at, // Use explicit date or fallback
-    saleDate: dbItem.sale_date || undefined,
-    status: dbItem.status as ItemStatus,
-    condition: (dbItem.item_condition || 'nuevo') as ItemCondition,
-    batchRef: dbItem.batch_ref || undefined,
-    location: dbItem.location || undefined,
-    estimatedSalePrice: dbItem.estimated_sale_price ? Number(dbItem.estimated_sale_price) : undefined,
-    publishUrls: dbItem.publish_urls || undefined,
-    imageUrl: dbItem.image_url || undefined,
-    category: dbItem.category || undefined,
-    itemType: (dbItem.item_type || 'resale') as ItemType,
-    facturado: dbItem.facturado === true,
-    noFacturar: dbItem.no_facturar === true,
-    withdrawalReason: (dbItem.withdrawal_reason || undefined) as WithdrawalReason | undefined,
-    envioAplica: dbItem.envio_aplica === true,
-    envioCosto: dbItem.envio_costo ? Number(dbItem.envio_costo) : undefined,
-    envioMetodo: dbItem.envio_metodo || undefined,
-    cobrado: dbItem.cobrado !== false,
-    vendedor: dbItem.vendedor || undefined,
-    formasPago: dbItem.formas_pago || undefined,
-    montoEfectivo: dbItem.monto_efectivo != null ? Number(dbItem.monto_efectivo) : undefined,
-    montoTransferencia: dbItem.monto_transferencia != null ? Number(dbItem.monto_transferencia) : undefined,
-    montoTarjeta: dbItem.monto_tarjeta != null ? Number(dbItem.monto_tarjeta) : undefined,
-    montoMercadoPago: dbItem.monto_mercado_pago != null ? Number(dbItem.monto_mercado_pago) : undefined,
-    montoOtro: dbItem.monto_otro != null ? Number(dbItem.monto_otro) : undefined,
-    publicInStore: dbItem.public_in_store === true,
-    storeImages: Array.isArray(dbItem.store_images) ? dbItem.store_images : [],
-    storeVideoUrl: dbItem.store_video_url ?? undefined,
-    description: dbItem.description ?? undefined,
-    storeTitle: dbItem.store_title ?? undefined,
-    storeGroup: dbItem.store_group ?? undefined,
-    storeVariantName: dbItem.store_variant_name ?? undefined,
+const mapBatchItemFromDb = (dbBatchItem: BatchItemRow): BatchItem => ({
+    id: dbBatchItem.id,
+    productName: dbBatchItem.product_name,
+    quantity: Number(dbBatchItem.quantity),
+    listedUnitPrice: Number(dbBatchItem.listed_unit_price),
+    unitSalePrice: Number(dbBatchItem.unit_sale_price),
+    condition: (dbBatchItem.item_condition || 'nuevo') as ItemCondition,
+    disposition: dbBatchItem.disposition === 'keep' ? 'keep' as const : 'sell' as const,
+    category: dbBatchItem.category || undefined,
 });
 
-// Helper to map application model to DB columns
-const mapToDb = (item: Partial<Item>) => {
-    const dbItem: any = {};
-    if (item.productName !== undefined) dbItem.product_name = item.productName;
-    if (item.purchasePrice !== undefined) dbItem.purchase_price = item.purchasePrice;
-    if (item.salePrice !== undefined) dbItem.sale_price = item.salePrice;
-    if (item.quantity !== undefined) dbItem.quantity = item.quantity;
-    if (item.date !== undefined) dbItem.date = item.date;
-    if (item.saleDate !== undefined) dbItem.sale_date = item.saleDate;
-    if (item.status !== undefined) dbItem.status = item.status;
-    if (item.condition !== undefined) dbItem.item_condition = item.condition;
-    if (item.batchRef !== undefined) dbItem.batch_ref = item.batchRef;
-    if (item.location !== undefined) dbItem.location = item.location;
-    if (item.estimatedSalePrice !== undefined) dbItem.estimated_sale_price = item.estimatedSalePrice;
-    if (item.publishUrls !== undefined) dbItem.publish_urls = item.publishUrls;
-    if (item.imageUrl !== undefined) dbItem.image_url = item.imageUrl;
-    if (item.category !== undefined) dbItem.category = item.category;
-    if (item.itemType !== undefined) dbItem.item_type = item.itemType;
-    if (item.facturado !== undefined) dbItem.facturado = item.facturado;
-    if (item.noFacturar !== undefined) dbItem.no_facturar = item.noFacturar;
-    if (item.withdrawalReason !== undefined) dbItem.withdrawal_reason = item.withdrawalReason;
-    if (item.envioAplica !== undefined) dbItem.envio_aplica = item.envioAplica;
-    if (item.envioCosto !== undefined) dbItem.envio_costo = item.envioCosto;
-    if (item.envioMetodo !== undefined) dbItem.envio_metodo = item.envioMetodo;
-    if (item.cobrado !== undefined) dbItem.cobrado = item.cobrado;
-    if (item.vendedor !== undefined) dbItem.vendedor = item.vendedor;
-    if (item.formasPago !== undefined) dbItem.formas_pago = item.formasPago;
-    if (item.montoEfectivo !== undefined) dbItem.monto_efectivo = item.montoEfectivo;
-    if (item.montoTransferencia !== undefined) dbItem.monto_transferencia = item.montoTransferencia;
-    if (item.montoTarjeta !== undefined) dbItem.monto_tarjeta = item.montoTarjeta;
-    if (item.montoMercadoPago !== undefined) dbItem.monto_mercado_pago = item.montoMercadoPago;
-    if (item.montoOtro !== undefined) dbItem.monto_otro = item.montoOtro;
-    if (item.publicInStore !== undefined) dbItem.public_in_store = item.publicInStore;
-    if (item.storeImages !== undefined) dbItem.store_images = item.storeImages;
-    if (item.storeVideoUrl !== undefined) dbItem.store_video_url = item.storeVideoUrl || null;
-    if (item.description !== undefined) dbItem.description = item.description || null;
-    if (item.storeTitle !== undefined) dbItem.store_title = item.storeTitle || null;
-    if (item.storeGroup !== undefined) dbItem.store_group = item.storeGroup || null;
-    if (item.storeVariantName !== undefined) dbItem.store_variant_name = item.storeVariantName || null;
-    return dbItem;
-};
+const mapBatchItemToDb = (batchId: string, item: BatchItem, position: number): BatchItemRow => ({
+    id: item.id,
+    batch_id: batchId,
+    position,
+    product_name: item.productName,
+    quantity: item.quantity,
+    listed_unit_price: item.listedUnitPrice,
+    unit_sale_price: item.unitSalePrice || 0,
+    item_condition: item.condition || 'nuevo',
+    disposition: item.disposition === 'keep' ? 'keep' : 'sell',
+    category: item.category || null,
+});
+
+const mapBatchFromDb = (dbBatch: BatchRow) => ({
+    id: dbBatch.id,
+    batchCode: dbBatch.batch_code,
+    batchType: dbBatch.batch_type,
+    batchStatus: dbBatch.batch_status || 'completado',
+    createdAt: dbBatch.created_at,
+    totalPaid: Number(dbBatch.total_paid),
+    totalSellRevenue: Number(dbBatch.total_sell_revenue),
+    cashProfit: Number(dbBatch.cash_profit),
+    retainedValue: Number(dbBatch.retained_value),
+    itemsCount: Number(dbBatch.items_count),
+    paymentChannel: dbBatch.payment_channel || undefined,
+    items: [...(dbBatch.batch_items || [])]
+        .sort((a, b) => a.position - b.position)
+        .map(mapBatchItemFromDb)
+});
 
 export const itemService = {
     async getItems(): Promise<Item[]> {
@@ -109,219 +85,34 @@ export const itemService = {
     },
 
     async createItems(items: Omit<Item, 'id'>[]): Promise<Item[]> {
-        const dbItems = items.map(mapToDb);
-
-        let { data, error } = await supabase
+        const { data, error } = await supabase
             .from('items')
-            .insert(dbItems)
+            .insert(items.map(mapToDb))
             .select();
 
-        if (hasMissingColumn(error, 'location') || hasMissingColumn(error, 'estimated_sale_price') || hasMissingColumn(error, 'publish_urls') || hasMissingColumn(error, 'image_url')) {
-            console.warn('Supabase: missing optional columns. Falling back.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['location', 'estimated_sale_price', 'publish_urls', 'image_url'])))
-                .select());
-        }
-        if (hasMissingColumn(error, 'item_type')) {
-            console.warn('Supabase: item_type column missing. Falling back without it.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['item_type'])))
-                .select());
-        }
-        if (hasMissingColumn(error, 'withdrawal_reason') || hasMissingColumn(error, 'no_facturar') || hasMissingColumn(error, 'facturado')) {
-            console.warn('Supabase: withdrawal/facturación columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['withdrawal_reason', 'no_facturar', 'facturado'])))
-                .select());
-        }
-        if (hasMissingColumn(error, 'envio_aplica') || hasMissingColumn(error, 'envio_costo') || hasMissingColumn(error, 'envio_metodo')) {
-            console.warn('Supabase: envio columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['envio_aplica', 'envio_costo', 'envio_metodo'])))
-                .select());
-        }
-        if (hasMissingColumn(error, 'cobrado') || hasMissingColumn(error, 'vendedor')) {
-            console.warn('Supabase: cobrado/vendedor columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['cobrado', 'vendedor'])))
-                .select());
-        }
-        if (hasMissingColumn(error, 'formas_pago') || hasMissingColumn(error, 'monto_efectivo') || hasMissingColumn(error, 'monto_transferencia') || hasMissingColumn(error, 'monto_tarjeta') || hasMissingColumn(error, 'monto_mercado_pago') || hasMissingColumn(error, 'monto_otro')) {
-            console.warn('Supabase: pago columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(dbItems.map(item => withoutColumns(item, ['formas_pago', 'monto_efectivo', 'monto_transferencia', 'monto_tarjeta', 'monto_mercado_pago', 'monto_otro'])))
-                .select());
-        }
-
         if (error) throw error;
         return (data || []).map(mapFromDb);
     },
 
     async createItem(item: Omit<Item, 'id'>): Promise<Item> {
-        const dbItem = mapToDb(item);
-
-        let { data, error } = await supabase
+        const { data, error } = await supabase
             .from('items')
-            .insert(dbItem)
+            .insert(mapToDb(item))
             .select()
             .single();
 
-        // Backward compatibility: DB may not have newer optional columns yet.
-        if (hasMissingColumn(error, 'item_condition') && 'item_condition' in dbItem) {
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['item_condition']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'batch_ref') && 'batch_ref' in dbItem) {
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['batch_ref', 'location', 'estimated_sale_price', 'publish_urls']))
-                .select()
-                .single());
-        }
-        if ((hasMissingColumn(error, 'location') || hasMissingColumn(error, 'estimated_sale_price') || hasMissingColumn(error, 'publish_urls') || hasMissingColumn(error, 'image_url')) && ('location' in dbItem || 'estimated_sale_price' in dbItem || 'publish_urls' in dbItem || 'image_url' in dbItem)) {
-            console.error('Supabase Error: Columnas opcionales faltantes. Ejecuta el SQL de configuración.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['location', 'estimated_sale_price', 'publish_urls', 'image_url']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'item_type')) {
-            console.warn('Supabase: item_type column missing. Falling back without it.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['item_type']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'withdrawal_reason') || hasMissingColumn(error, 'no_facturar') || hasMissingColumn(error, 'facturado')) {
-            console.warn('Supabase: withdrawal/facturación columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['withdrawal_reason', 'no_facturar', 'facturado']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'envio_aplica') || hasMissingColumn(error, 'envio_costo') || hasMissingColumn(error, 'envio_metodo')) {
-            console.warn('Supabase: envio columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['envio_aplica', 'envio_costo', 'envio_metodo']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'cobrado') || hasMissingColumn(error, 'vendedor')) {
-            console.warn('Supabase: cobrado/vendedor columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['cobrado', 'vendedor']))
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'formas_pago') || hasMissingColumn(error, 'monto_efectivo') || hasMissingColumn(error, 'monto_transferencia') || hasMissingColumn(error, 'monto_tarjeta') || hasMissingColumn(error, 'monto_mercado_pago') || hasMissingColumn(error, 'monto_otro')) {
-            console.warn('Supabase: pago columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .insert(withoutColumns(dbItem, ['formas_pago', 'monto_efectivo', 'monto_transferencia', 'monto_tarjeta', 'monto_mercado_pago', 'monto_otro']))
-                .select()
-                .single());
-        }
-
         if (error) throw error;
         return mapFromDb(data);
     },
 
     async updateItem(id: string, updates: Partial<Item>): Promise<Item> {
-        const dbUpdates = mapToDb(updates);
-
-        let { data, error } = await supabase
+        const { data, error } = await supabase
             .from('items')
-            .update(dbUpdates)
+            .update(mapToDb(updates))
             .eq('id', id)
             .select()
             .single();
 
-        // Backward compatibility: DB may not have newer optional columns yet.
-        if (hasMissingColumn(error, 'item_condition') && 'item_condition' in dbUpdates) {
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['item_condition']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'batch_ref') && 'batch_ref' in dbUpdates) {
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['batch_ref', 'location', 'estimated_sale_price', 'publish_urls']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if ((hasMissingColumn(error, 'location') || hasMissingColumn(error, 'estimated_sale_price') || hasMissingColumn(error, 'publish_urls') || hasMissingColumn(error, 'image_url')) && ('location' in dbUpdates || 'estimated_sale_price' in dbUpdates || 'publish_urls' in dbUpdates || 'image_url' in dbUpdates)) {
-            console.error('Supabase Error: Columnas opcionales faltantes para actualizar.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['location', 'estimated_sale_price', 'publish_urls', 'image_url']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'item_type')) {
-            console.warn('Supabase: item_type column missing. Falling back without it.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['item_type']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'withdrawal_reason') || hasMissingColumn(error, 'no_facturar') || hasMissingColumn(error, 'facturado')) {
-            console.warn('Supabase: withdrawal/facturación columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['withdrawal_reason', 'no_facturar', 'facturado']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'envio_aplica') || hasMissingColumn(error, 'envio_costo') || hasMissingColumn(error, 'envio_metodo')) {
-            console.warn('Supabase: envio columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['envio_aplica', 'envio_costo', 'envio_metodo']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'cobrado') || hasMissingColumn(error, 'vendedor')) {
-            console.warn('Supabase: cobrado/vendedor columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['cobrado', 'vendedor']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-        if (hasMissingColumn(error, 'formas_pago') || hasMissingColumn(error, 'monto_efectivo') || hasMissingColumn(error, 'monto_transferencia') || hasMissingColumn(error, 'monto_tarjeta') || hasMissingColumn(error, 'monto_mercado_pago') || hasMissingColumn(error, 'monto_otro')) {
-            console.warn('Supabase: pago columns missing. Falling back without them.');
-            ({ data, error } = await supabase
-                .from('items')
-                .update(withoutColumns(dbUpdates, ['formas_pago', 'monto_efectivo', 'monto_transferencia', 'monto_tarjeta', 'monto_mercado_pago', 'monto_otro']))
-                .eq('id', id)
-                .select()
-                .single());
-        }
-
         if (error) throw error;
         return mapFromDb(data);
     },
@@ -339,25 +130,14 @@ export const itemService = {
     async getBatches(): Promise<any[]> {
         const { data, error } = await supabase
             .from('batches')
-            .select('*')
+            .select('*, batch_items(*)')
             .order('created_at', { ascending: false });
 
         if (error) throw error;
-        return (data || []).map(dbBatch => ({
-            id: dbBatch.id,
-            batchCode: dbBatch.batch_code,
-            batchType: dbBatch.batch_type,
-            batchStatus: dbBatch.batch_status || 'completado',
-            createdAt: dbBatch.created_at,
-            totalPaid: Number(dbBatch.total_paid),
-            totalSellRevenue: Number(dbBatch.total_sell_revenue),
-            cashProfit: Number(dbBatch.cash_profit),
-            retainedValue: Number(dbBatch.retained_value),
-            itemsCount: Number(dbBatch.items_count),
-            items: dbBatch.items_json
-        }));
+        return (data || []).map(mapBatchFromDb);
     },
 
+    // Las líneas conservan el id del borrador: los items del inventario se vinculan a él
     async createBatch(batch: any): Promise<any> {
         const { data, error } = await supabase
             .from('batches')
@@ -371,26 +151,16 @@ export const itemService = {
                 cash_profit: batch.cashProfit,
                 retained_value: batch.retainedValue,
                 items_count: batch.itemsCount,
-                items_json: batch.items
+                payment_channel: batch.paymentChannel || null
             })
             .select()
             .single();
 
         if (error) throw error;
 
-        return {
-            id: data.id,
-            batchCode: data.batch_code,
-            batchType: data.batch_type,
-            batchStatus: data.batch_status || 'en_camino',
-            createdAt: data.created_at,
-            totalPaid: Number(data.total_paid),
-            totalSellRevenue: Number(data.total_sell_revenue),
-            cashProfit: Number(data.cash_profit),
-            retainedValue: Number(data.retained_value),
-            itemsCount: Number(data.items_count),
-            items: data.items_json
-        };
+        const batchItems: BatchItem[] = batch.items || [];
+        await this.saveBatchItems(data.id, batchItems);
+        return mapBatchFromDb({ ...data, batch_items: batchItems.map((item, index) => mapBatchItemToDb(data.id, item, index)) });
     },
 
     async updateItemsByBatch(batchCode: string, updates: Partial<Item>): Promise<void> {
@@ -403,6 +173,17 @@ export const itemService = {
         if (error) throw error;
     },
 
+    // Solo cambia los items de la tanda que están en el estado indicado
+    async updateItemStatusByBatch(batchCode: string, fromStatus: ItemStatus, toStatus: ItemStatus): Promise<void> {
+        const { error } = await supabase
+            .from('items')
+            .update({ status: toStatus })
+            .eq('batch_ref', batchCode)
+            .eq('status', fromStatus);
+
+        if (error) throw error;
+    },
+
     async deleteBatch(id: string): Promise<void> {
         const { error } = await supabase
             .from('batches')
@@ -422,29 +203,57 @@ export const itemService = {
         if (updates.cashProfit !== undefined) dbUpdates.cash_profit = updates.cashProfit;
         if (updates.retainedValue !== undefined) dbUpdates.retained_value = updates.retainedValue;
         if (updates.itemsCount !== undefined) dbUpdates.items_count = updates.itemsCount;
-        if (updates.items !== undefined) dbUpdates.items_json = updates.items;
+        if (updates.paymentChannel !== undefined) dbUpdates.payment_channel = updates.paymentChannel || null;
+
+        if (updates.items !== undefined) await this.saveBatchItems(id, updates.items);
+
+        if (Object.keys(dbUpdates).length > 0) {
+            const { error } = await supabase
+                .from('batches')
+                .update(dbUpdates)
+                .eq('id', id);
+            if (error) throw error;
+        }
 
         const { data, error } = await supabase
             .from('batches')
-            .update(dbUpdates)
+            .select('*, batch_items(*)')
             .eq('id', id)
-            .select()
             .single();
 
         if (error) throw error;
-        return {
-            id: data.id,
-            batchCode: data.batch_code,
-            batchType: data.batch_type,
-            batchStatus: data.batch_status || 'en_camino',
-            createdAt: data.created_at,
-            totalPaid: Number(data.total_paid),
-            totalSellRevenue: Number(data.total_sell_revenue),
-            cashProfit: Number(data.cash_profit),
-            retainedValue: Number(data.retained_value),
-            itemsCount: Number(data.items_count),
-            items: data.items_json
-        };
+        return mapBatchFromDb(data);
+    },
+
+    // Reemplaza las líneas de la tanda: actualiza las existentes por id, crea
+    // las nuevas y borra las que ya no están (sus items quedan sin línea)
+    async saveBatchItems(batchId: string, batchItems: BatchItem[]): Promise<void> {
+        const rows = batchItems.map((item, index) => mapBatchItemToDb(batchId, item, index));
+        if (rows.length > 0) {
+            const { error } = await supabase
+                .from('batch_items')
+                .upsert(rows, { onConflict: 'id' });
+            if (error) throw error;
+        }
+
+        let removal = supabase.from('batch_items').delete().eq('batch_id', batchId);
+        if (rows.length > 0) removal = removal.not('id', 'in', `(${rows.map(r => r.id).join(',')})`);
+        const { error } = await removal;
+        if (error) throw error;
+    },
+
+    async updateBatchItem(id: string, updates: Partial<BatchItem>): Promise<void> {
+        const dbUpdates: Partial<BatchItemRow> = {};
+        if (updates.productName !== undefined) dbUpdates.product_name = updates.productName;
+        if (updates.unitSalePrice !== undefined) dbUpdates.unit_sale_price = updates.unitSalePrice;
+        if (updates.quantity !== undefined) dbUpdates.quantity = updates.quantity;
+
+        const { error } = await supabase
+            .from('batch_items')
+            .update(dbUpdates)
+            .eq('id', id);
+
+        if (error) throw error;
     },
 
     async getPublicItemById(id: string): Promise<Item | null> {
@@ -0,0 +1,202 @@
+import { supabase } from '../lib/supabase';
+import type { MonotributoCategory, MonotributoCategoryPeriod, MonotributoLimit, MonotributoPayment } from '../types';
+
+// Filas de las tablas de monotributo tal como las devuelve Supabase
+type CategoryPeriodRow = {
+    id: string;
+    created_at: string;
+    category: string;
+    valid_from: string;
+    valid_to: string | null;
+    notes: string | null;
+};
+
+type LimitRow = {
+    id: string;
+    year: number;
+    category: string;
+    ingresos_anuales: number;
+    cuota_mensual: number | null;
+    cuota_impuesto: number | null;
+    cuota_jubilacion: number | null;
+    cuota_obra_social: number | null;
+};
+
+const mapPeriodFromDb = (dbPeriod: CategoryPeriodRow): MonotributoCategoryPeriod => ({
+    id: dbPeriod.id,
+    category: dbPeriod.category as MonotributoCategory,
+    validFrom: dbPeriod.valid_from,
+    validTo: dbPeriod.valid_to || undefined,
+    notes: dbPeriod.notes || undefined,
+});
+
+const mapLimitFromDb = (dbLimit: LimitRow): MonotributoLimit => ({
+    id: dbLimit.id,
+    year: Number(dbLimit.year),
+    category: dbLimit.category as MonotributoCategory,
+    ingresosAnuales: Number(dbLimit.ingresos_anuales),
+    cuotaMensual: dbLimit.cuota_mensual != null ? Number(dbLimit.cuota_mensual) : undefined,
+    cuotaImpuesto: dbLimit.cuota_impuesto != null ? Number(dbLimit.cuota_impuesto) : undefined,
+    cuotaJubilacion: dbLimit.cuota_jubilacion != null ? Number(dbLimit.cuota_jubilacion) : undefined,
+    cuotaObraSocial: dbLimit.cuota_obra_social != null ? Number(dbLimit.cuota_obra_social) : undefined,
+});
+
+type PaymentRow = {
+    id: string;
+    created_at: string;
+    period: string;
+    category: string;
+    impuesto: number | null;
+    jubilacion: number | null;
+    obra_social: number | null;
+    due_date: string;
+    paid_at: string;
+    amount: number;
+    receipt_url: string | null;
+    notes: string | null;
+};
+
+// El período se guarda como el primer día del mes
+const mapPaymentFromDb = (dbPayment: PaymentRow): MonotributoPayment => ({
+    id: dbPayment.id,
+    period: String(dbPayment.period).slice(0, 7),
+    category: dbPayment.category as MonotributoCategory,
+    impuesto: dbPayment.impuesto != null ? Number(dbPayment.impuesto) : undefined,
+    jubilacion: dbPayment.jubilacion != null ? Number(dbPayment.jubilacion) : undefined,
+    obraSocial: dbPayment.obra_social != null ? Number(dbPayment.obra_social) : undefined,
+    dueDate: dbPayment.due_date,
+    paidAt: dbPayment.paid_at,
+    amount: Number(dbPayment.amount),
+    receiptUrl: dbPayment.receipt_url || undefined,
+    notes: dbPayment.notes || undefined,
+});
+
+const mapPaymentToDb = (payment: Omit<MonotributoPayment, 'id'>): Omit<PaymentRow, 'id' | 'created_at'> => ({
+    period: `${payment.period}-01`,
+    category: payment.category,
+    impuesto: payment.impuesto ?? null,
+    jubilacion: payment.jubilacion ?? null,
+    obra_social: payment.obraSocial ?? null,
+    due_date: payment.dueDate,
+    paid_at: payment.paidAt,
+    amount: payment.amount,
+    receipt_url: payment.receiptUrl || null,
+    notes: payment.notes?.trim() || null,
+});
+
+const dayBefore = (dateKey: string) => {
+    const [y, m, d] = dateKey.split('-').map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d - 1));
+    return date.toISOString().split('T')[0];
+};
+
+export const monotributoService = {
+    async getCategoryHistory(): Promise<MonotributoCategoryPeriod[]> {
+        const { data, error } = await supabase
+            .from('monotributo_categories')
+            .select('*')
+            .order('valid_from', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapPeriodFromDb);
+    },
+
+    // La categoría nueva cierra la vigente el día anterior a su inicio
+    async startCategory(period: Omit<MonotributoCategoryPeriod, 'id' | 'validTo'>): Promise<MonotributoCategoryPeriod[]> {
+        const { error: closeError } = await supabase
+            .from('monotributo_categories')
+            .update({ valid_to: dayBefore(period.validFrom) })
+            .is('valid_to', null)
+            .lt('valid_from', period.validFrom);
+        if (closeError) throw closeError;
+
+        const { error } = await supabase
+            .from('monotributo_categories')
+            .insert({
+                category: period.category,
+                valid_from: period.validFrom,
+                notes: period.notes?.trim() || null
+            });
+        if (error) throw error;
+
+        return this.getCategoryHistory();
+    },
+
+    // Al borrar la vigente, la anterior vuelve a quedar abierta
+    async deleteCategoryPeriod(period: MonotributoCategoryPeriod): Promise<MonotributoCategoryPeriod[]> {
+        const { error } = await supabase
+            .from('monotributo_categories')
+            .delete()
+            .eq('id', period.id);
+        if (error) throw error;
+
+        if (!period.validTo) {
+            const { error: reopenError } = await supabase
+                .from('monotributo_categories')
+                .update({ valid_to: null })
+                .eq('valid_to', dayBefore(period.validFrom));
+            if (reopenError) throw reopenError;
+        }
+
+        return this.getCategoryHistory();
+    },
+
+    async getLimits(): Promise<MonotributoLimit[]> {
+        const { data, error } = await supabase
+            .from('monotributo_limits')
+            .select('*')
+            .order('year', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapLimitFromDb);
+    },
+
+    async saveYearLimits(year: number, rows: Array<Omit<MonotributoLimit, 'id' | 'year'>>): Promise<MonotributoLimit[]> {
+        const { data, error } = await supabase
+            .from('monotributo_limits')
+            .upsert(rows.map(row => ({
+                year,
+                category: row.category,
+                ingresos_anuales: row.ingresosAnuales,
+                cuota_mensual: row.cuotaMensual ?? null,
+                cuota_impuesto: row.cuotaImpuesto ?? null,
+                cuota_jubilacion: row.cuotaJubilacion ?? null,
+                cuota_obra_social: row.cuotaObraSocial ?? null
+            })), { onConflict: 'year,category' })
+            .select();
+
+        if (error) throw error;
+        return (data || []).map(mapLimitFromDb);
+    },
+
+    async getPayments(): Promise<MonotributoPayment[]> {
+        const { data, error } = await supabase
+            .from('monotributo_payments')
+            .select('*')
+            .order('period', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapPaymentFromDb);
+    },
+
+    // Un pago por mes: volver a guardar el mismo período lo reemplaza
+    async savePayment(payment: Omit<MonotributoPayment, 'id'>): Promise<MonotributoPayment> {
+        const { data, error } = await supabase
+            .from('monotributo_payments')
+            .upsert(mapPaymentToDb(payment), { onConflict: 'period' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapPaymentFromDb(data);
+    },
+
+    async deletePayment(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('monotributo_payments')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -0,0 +1,135 @@
+import { supabase } from '../lib/supabase';
+import type { FacturaDetalle, Order } from '../types';
+
+// Fila de la tabla orders tal como la devuelve Supabase
+type OrderRow = {
+    id: string;
+    created_at: string;
+    order_date: string | null;
+    envio_aplica: boolean | null;
+    envio_costo: number | null;
+    envio_metodo: string | null;
+    formas_pago: string[] | null;
+    monto_efectivo: number | null;
+    monto_transferencia: number | null;
+    monto_tarjeta: number | null;
+    monto_mercado_pago: number | null;
+    monto_otro: number | null;
+    vendedor: string | null;
+    reseller_id: string | null;
+    settlement_id: string | null;
+    commission: number | null;
+    customer_id: string | null;
+    cobrado: boolean | null;
+    facturado: boolean | null;
+    no_facturar: boolean | null;
+    notes: string | null;
+    cae: string | null;
+    cae_vencimiento: string | null;
+    punto_venta: number | null;
+    cbte_tipo: number | null;
+    cbte_nro: number | null;
+    factura_fecha: string | null;
+    factura_importe: number | null;
+    factura_detalle: FacturaDetalle | null;
+    cuit_emisor: string | null;
+};
+
+const mapFromDb = (dbOrder: OrderRow): Order => ({
+    id: dbOrder.id,
+    createdAt: dbOrder.created_at,
+    orderDate: dbOrder.order_date || dbOrder.created_at,
+    envioAplica: dbOrder.envio_aplica === true,
+    envioCosto: dbOrder.envio_costo != null ? Number(dbOrder.envio_costo) : undefined,
+    envioMetodo: dbOrder.envio_metodo || undefined,
+    formasPago: dbOrder.formas_pago || undefined,
+    montoEfectivo: dbOrder.monto_efectivo != null ? Number(dbOrder.monto_efectivo) : undefined,
+    montoTransferencia: dbOrder.monto_transferencia != null ? Number(dbOrder.monto_transferencia) : undefined,
+    montoTarjeta: dbOrder.monto_tarjeta != null ? Number(dbOrder.monto_tarjeta) : undefined,
+    montoMercadoPago: dbOrder.monto_mercado_pago != null ? Number(dbOrder.monto_mercado_pago) : undefined,
+    montoOtro: dbOrder.monto_otro != null ? Number(dbOrder.monto_otro) : undefined,
+    vendedor: dbOrder.vendedor || undefined,
+    resellerId: dbOrder.reseller_id || undefined,
+    settlementId: dbOrder.settlement_id || undefined,
+    commission: dbOrder.commission != null ? Number(dbOrder.commission) : undefined,
+    customerId: dbOrder.customer_id || undefined,
+    cobrado: dbOrder.cobrado !== false,
+    facturado: dbOrder.facturado === true,
+    noFacturar: dbOrder.no_facturar === true,
+    notes: dbOrder.notes || undefined,
+    cae: dbOrder.cae || undefined,
+    caeVencimiento: dbOrder.cae_vencimiento || undefined,
+    puntoVenta: dbOrder.punto_venta != null ? Number(dbOrder.punto_venta) : undefined,
+    cbteTipo: dbOrder.cbte_tipo != null ? Number(dbOrder.cbte_tipo) : undefined,
+    cbteNro: dbOrder.cbte_nro != null ? Number(dbOrder.cbte_nro) : undefined,
+    facturaFecha: dbOrder.factura_fecha || undefined,
+    facturaImporte: dbOrder.factura_importe != null ? Number(dbOrder.factura_importe) : undefined,
+    facturaDetalle: dbOrder.factura_detalle || undefined,
+    cuitEmisor: dbOrder.cuit_emisor || undefined,
+});
+
+const mapToDb = (order: Partial<Order>) => {
+    const dbOrder: Partial<OrderRow> = {};
+    if (order.orderDate !== undefined) dbOrder.order_date = order.orderDate;
+    if (order.envioAplica !== undefined) dbOrder.envio_aplica = order.envioAplica;
+    if (order.envioCosto !== undefined) dbOrder.envio_costo = order.envioCosto;
+    if (order.envioMetodo !== undefined) dbOrder.envio_metodo = order.envioMetodo || null;
+    if (order.formasPago !== undefined) dbOrder.formas_pago = order.formasPago;
+    if (order.montoEfectivo !== undefined) dbOrder.monto_efectivo = order.montoEfectivo;
+    if (order.montoTransferencia !== undefined) dbOrder.monto_transferencia = order.montoTransferencia;
+    if (order.montoTarjeta !== undefined) dbOrder.monto_tarjeta = order.montoTarjeta;
+    if (order.montoMercadoPago !== undefined) dbOrder.monto_mercado_pago = order.montoMercadoPago;
+    if (order.montoOtro !== undefined) dbOrder.monto_otro = order.montoOtro;
+    if (order.vendedor !== undefined) dbOrder.vendedor = order.vendedor || null;
+    if (order.resellerId !== undefined) dbOrder.reseller_id = order.resellerId || null;
+    if (order.customerId !== undefined) dbOrder.customer_id = order.customerId || null;
+    if (order.cobrado !== undefined) dbOrder.cobrado = order.cobrado;
+    if (order.facturado !== undefined) dbOrder.facturado = order.facturado;
+    if (order.noFacturar !== undefined) dbOrder.no_facturar = order.noFacturar;
+    if (order.notes !== undefined) dbOrder.notes = order.notes || null;
+    return dbOrder;
+};
+
+export const orderService = {
+    async getOrders(): Promise<Order[]> {
+        const { data, error } = await supabase
+            .from('orders')
+            .select('*')
+            .order('order_date', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createOrder(order: Partial<Omit<Order, 'id' | 'createdAt'>>): Promise<Order> {
+        const { data, error } = await supabase
+            .from('orders')
+            .insert(mapToDb(order))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
+        const { data, error } = await supabase
+            .from('orders')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async deleteOrder(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('orders')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -0,0 +1,164 @@
+import { supabase } from '../lib/supabase';
+import type { CashChannel, CommissionType, Reseller, ResellerSettlement } from '../types';
+
+// Filas de las tablas resellers y reseller_settlements tal como las devuelve Supabase
+type ResellerRow = {
+    id: string;
+    created_at: string;
+    name: string;
+    phone: string | null;
+    commission_type: string | null;
+    commission_value: number | null;
+    location: string | null;
+    active: boolean | null;
+    notes: string | null;
+};
+
+type ResellerSettlementRow = {
+    id: string;
+    created_at: string;
+    reseller_id: string;
+    settled_on: string;
+    sales_total: number;
+    commission: number;
+    amount: number;
+    channel: string;
+    notes: string | null;
+};
+
+const mapFromDb = (dbReseller: ResellerRow): Reseller => ({
+    id: dbReseller.id,
+    createdAt: dbReseller.created_at,
+    name: dbReseller.name,
+    phone: dbReseller.phone || undefined,
+    commissionType: (dbReseller.commission_type || 'porcentaje') as CommissionType,
+    commissionValue: Number(dbReseller.commission_value) || 0,
+    location: dbReseller.location || undefined,
+    active: dbReseller.active !== false,
+    notes: dbReseller.notes || undefined,
+});
+
+const mapToDb = (reseller: Partial<Reseller>) => {
+    const dbReseller: Partial<ResellerRow> = {};
+    if (reseller.name !== undefined) dbReseller.name = reseller.name.trim();
+    if (reseller.phone !== undefined) dbReseller.phone = reseller.phone?.trim() || null;
+    if (reseller.commissionType !== undefined) dbReseller.commission_type = reseller.commissionType;
+    if (reseller.commissionValue !== undefined) dbReseller.commission_value = reseller.commissionValue;
+    if (reseller.location !== undefined) dbReseller.location = reseller.location?.trim() || null;
+    if (reseller.active !== undefined) dbReseller.active = reseller.active;
+    if (reseller.notes !== undefined) dbReseller.notes = reseller.notes?.trim() || null;
+    return dbReseller;
+};
+
+const mapSettlementFromDb = (dbSettlement: ResellerSettlementRow): ResellerSettlement => ({
+    id: dbSettlement.id,
+    createdAt: dbSettlement.created_at,
+    resellerId: dbSettlement.reseller_id,
+    settledOn: dbSettlement.settled_on,
+    salesTotal: Number(dbSettlement.sales_total),
+    commission: Number(dbSettlement.commission),
+    amount: Number(dbSettlement.amount),
+    channel: dbSettlement.channel as CashChannel,
+    notes: dbSettlement.notes || undefined,
+});
+
+export const resellerService = {
+    async getResellers(): Promise<Reseller[]> {
+        const { data, error } = await supabase
+            .from('resellers')
+            .select('*')
+            .order('name', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createReseller(reseller: Omit<Reseller, 'id' | 'createdAt'>): Promise<Reseller> {
+        const { data, error } = await supabase
+            .from('resellers')
+            .insert(mapToDb(reseller))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    // Las ventas guardan también el nombre: si cambia, se actualiza en todas
+    async updateReseller(id: string, updates: Partial<Reseller>): Promise<Reseller> {
+        const { data, error } = await supabase
+            .from('resellers')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        if (updates.name !== undefined) {
+            const { error: ordersError } = await supabase
+                .from('orders')
+                .update({ vendedor: data.name })
+                .eq('reseller_id', id);
+            if (ordersError) throw ordersError;
+        }
+        return mapFromDb(data);
+    },
+
+    async getSettlements(): Promise<ResellerSettlement[]> {
+        const { data, error } = await supabase
+            .from('reseller_settlements')
+            .select('*')
+            .order('settled_on', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapSettlementFromDb);
+    },
+
+    // Registra el pago y marca cada venta cobrada con la comisión que le tocó
+    async settle(
+        settlement: Omit<ResellerSettlement, 'id' | 'createdAt'>,
+        orders: Array<{ id: string; commission: number }>
+    ): Promise<ResellerSettlement> {
+        const { data, error } = await supabase
+            .from('reseller_settlements')
+            .insert({
+                reseller_id: settlement.resellerId,
+                settled_on: settlement.settledOn,
+                sales_total: settlement.salesTotal,
+                commission: settlement.commission,
+                amount: settlement.amount,
+                channel: settlement.channel,
+                notes: settlement.notes?.trim() || null,
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        for (const order of orders) {
+            const { error: orderError } = await supabase
+                .from('orders')
+                .update({ cobrado: true, settlement_id: data.id, commission: order.commission })
+                .eq('id', order.id);
+            if (orderError) throw orderError;
+        }
+        return mapSettlementFromDb(data);
+    },
+
+    // Anular una liquidación deja sus ventas otra vez pendientes de cobro
+    async deleteSettlement(id: string): Promise<void> {
+        const { error: ordersError } = await supabase
+            .from('orders')
+            .update({ cobrado: false, settlement_id: null, commission: null })
+            .eq('settlement_id', id);
+        if (ordersError) throw ordersError;
+
+        const { error } = await supabase
+            .from('reseller_settlements')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+};
@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import type { Reservation, ReservationStatus } from '../types';
+
+// Fila de la tabla reservations tal como la devuelve Supabase
+type ReservationRow = {
+    id: string;
+    created_at: string;
+    item_id: string | null;
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    customer_id: string | null;
+    deposit_amount: number | null;
+    deposit_method: string | null;
+    reserved_on: string;
+    expires_on: string;
+    status: string;
+    deposit_refunded: boolean;
+    order_id: string | null;
+    notes: string | null;
+};
+
+const mapFromDb = (dbReservation: ReservationRow): Reservation => ({
+    id: dbReservation.id,
+    createdAt: dbReservation.created_at,
+    itemId: dbReservation.item_id || undefined,
+    productName: dbReservation.product_name,
+    quantity: Number(dbReservation.quantity),
+    unitPrice: Number(dbReservation.unit_price),
+    customerId: dbReservation.customer_id || undefined,
+    depositAmount: Number(dbReservation.deposit_amount) || 0,
+    depositMethod: dbReservation.deposit_method || undefined,
+    reservedOn: dbReservation.reserved_on,
+    expiresOn: dbReservation.expires_on,
+    status: dbReservation.status as ReservationStatus,
+    depositRefunded: dbReservation.deposit_refunded === true,
+    orderId: dbReservation.order_id || undefined,
+    notes: dbReservation.notes || undefined,
+});
+
+const mapToDb = (reservation: Partial<Reservation>) => {
+    const dbReservation: Partial<ReservationRow> = {};
+    if (reservation.itemId !== undefined) dbReservation.item_id = reservation.itemId || null;
+    if (reservation.productName !== undefined) dbReservation.product_name = reservation.productName;
+    if (reservation.quantity !== undefined) dbReservation.quantity = reservation.quantity;
+    if (reservation.unitPrice !== undefined) dbReservation.unit_price = reservation.unitPrice;
+    if (reservation.customerId !== undefined) dbReservation.customer_id = reservation.customerId || null;
+    if (reservation.depositAmount !== undefined) dbReservation.deposit_amount = reservation.depositAmount;
+    if (reservation.depositMethod !== undefined) dbReservation.deposit_method = reservation.depositMethod || null;
+    if (reservation.reservedOn !== undefined) dbReservation.reserved_on = reservation.reservedOn;
+    if (reservation.expiresOn !== undefined) dbReservation.expires_on = reservation.expiresOn;
+    if (reservation.status !== undefined) dbReservation.status = reservation.status;
+    if (reservation.depositRefunded !== undefined) dbReservation.deposit_refunded = reservation.depositRefunded;
+    if (reservation.orderId !== undefined) dbReservation.order_id = reservation.orderId || null;
+    if (reservation.notes !== undefined) dbReservation.notes = reservation.notes?.trim() || null;
+    return dbReservation;
+};
+
+export const reservationService = {
+    async getReservations(): Promise<Reservation[]> {
+        const { data, error } = await supabase
+            .from('reservations')
+            .select('*')
+            .order('reserved_on', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    async createReservation(reservation: Omit<Reservation, 'id' | 'createdAt'>): Promise<Reservation> {
+        const { data, error } = await supabase
+            .from('reservations')
+            .insert(mapToDb(reservation))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    },
+
+    async updateReservation(id: string, updates: Partial<Reservation>): Promise<Reservation> {
+        const { data, error } = await supabase
+            .from('reservations')
+            .update(mapToDb(updates))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    }
+};
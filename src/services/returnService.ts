@@ -0,0 +1,87 @@
+import { supabase } from '../lib/supabase';
+import type { RefundMethod, ReturnReason, SaleReturn, SaleReturnLine } from '../types';
+
+// Fila de la tabla sale_returns tal como la devuelve Supabase. Las líneas
+// (jsonb) se guardan con la misma forma que SaleReturnLine.
+type SaleReturnRow = {
+    id: string;
+    created_at: string;
+    return_date: string;
+    order_id: string | null;
+    lines: SaleReturnLine[] | null;
+    reason: string;
+    notes: string | null;
+    refund_method: string;
+    amount: number;
+    credit_note: boolean;
+    cae: string | null;
+    cae_vencimiento: string | null;
+    punto_venta: number | null;
+    cbte_tipo: number | null;
+    cbte_nro: number | null;
+    cbte_fecha: string | null;
+};
+
+const mapLineFromDb = (dbLine: SaleReturnLine): SaleReturnLine => ({
+    itemId: dbLine.itemId,
+    productName: dbLine.productName,
+    quantity: Number(dbLine.quantity),
+    unitPrice: Number(dbLine.unitPrice),
+    restockedItemId: dbLine.restockedItemId || undefined,
+});
+
+const mapFromDb = (dbReturn: SaleReturnRow): SaleReturn => ({
+    id: dbReturn.id,
+    createdAt: dbReturn.created_at,
+    returnDate: dbReturn.return_date,
+    orderId: dbReturn.order_id || undefined,
+    lines: Array.isArray(dbReturn.lines) ? dbReturn.lines.map(mapLineFromDb) : [],
+    reason: dbReturn.reason as ReturnReason,
+    notes: dbReturn.notes || undefined,
+    refundMethod: dbReturn.refund_method as RefundMethod,
+    amount: Number(dbReturn.amount),
+    creditNote: dbReturn.credit_note === true,
+    cae: dbReturn.cae || undefined,
+    caeVencimiento: dbReturn.cae_vencimiento || undefined,
+    puntoVenta: dbReturn.punto_venta != null ? Number(dbReturn.punto_venta) : undefined,
+    cbteTipo: dbReturn.cbte_tipo != null ? Number(dbReturn.cbte_tipo) : undefined,
+    cbteNro: dbReturn.cbte_nro != null ? Number(dbReturn.cbte_nro) : undefined,
+    cbteFecha: dbReturn.cbte_fecha || undefined,
+});
+
+const mapToDb = (saleReturn: Partial<SaleReturn>) => {
+    const dbReturn: Partial<SaleReturnRow> = {};
+    if (saleReturn.returnDate !== undefined) dbReturn.return_date = saleReturn.returnDate;
+    if (saleReturn.orderId !== undefined) dbReturn.order_id = saleReturn.orderId || null;
+    if (saleReturn.lines !== undefined) dbReturn.lines = saleReturn.lines;
+    if (saleReturn.reason !== undefined) dbReturn.reason = saleReturn.reason;
+    if (saleReturn.notes !== undefined) dbReturn.notes = saleReturn.notes?.trim() || null;
+    if (saleReturn.refundMethod !== undefined) dbReturn.refund_method = saleReturn.refundMethod;
+    if (saleReturn.amount !== undefined) dbReturn.amount = saleReturn.amount;
+    if (saleReturn.creditNote !== undefined) dbReturn.credit_note = saleReturn.creditNote;
+    return dbReturn;
+};
+
+export const returnService = {
+    async getReturns(): Promise<SaleReturn[]> {
+        const { data, error } = await supabase
+            .from('sale_returns')
+            .select('*')
+            .order('return_date', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    // Los datos del comprobante (CAE) solo los escribe /api/nota-credito
+    async createReturn(saleReturn: Omit<SaleReturn, 'id' | 'createdAt'>): Promise<SaleReturn> {
+        const { data, error } = await supabase
+            .from('sale_returns')
+            .insert(mapToDb(saleReturn))
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    }
+};
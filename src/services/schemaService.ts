@@ -0,0 +1,46 @@
+import { supabase } from '../lib/supabase';
+
+// Las migraciones viven en supabase/migrations/NNNN_nombre.sql. La versión que
+// necesita la app es la del último archivo, así que agregar una migración
+// alcanza para que el panel exija aplicarla.
+const migrationFiles = import.meta.glob('../../supabase/migrations/*.sql', { query: '?raw', import: 'default' }) as Record<string, () => Promise<string>>;
+
+export type Migration = {
+    version: number;
+    name: string;
+    file: string;
+    loadSql: () => Promise<string>;
+};
+
+export const migrations: Migration[] = Object.entries(migrationFiles)
+    .map(([filePath, loadSql]) => {
+        const file = filePath.split('/').pop() || filePath;
+        const match = file.match(/^(\d+)_([\w-]+)\.sql$/);
+        return match ? { version: Number(match[1]), name: match[2], file, loadSql } : null;
+    })
+    .filter((m): m is Migration => m !== null)
+    .sort((a, b) => a.version - b.version);
+
+export const REQUIRED_SCHEMA_VERSION = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+export const schemaService = {
+    /** Versión aplicada en la base; 0 si la tabla schema_version todavía no existe. */
+    async getCurrentVersion(): Promise<number> {
+        const { data, error } = await supabase
+            .from('schema_version')
+            .select('version')
+            .order('version', { ascending: false })
+            .limit(1);
+
+        if (error) {
+            // PGRST205 / 42P01: la tabla no existe (base anterior a las migraciones)
+            if (error.code === 'PGRST205' || error.code === '42P01') return 0;
+            throw error;
+        }
+        return data && data.length > 0 ? Number(data[0].version) : 0;
+    },
+
+    getPendingMigrations(currentVersion: number): Migration[] {
+        return migrations.filter(m => m.version > currentVersion);
+    }
+};
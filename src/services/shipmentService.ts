@@ -0,0 +1,83 @@
+import { supabase } from '../lib/supabase';
+import type { Shipment, ShipmentPayer, ShipmentStatus } from '../types';
+
+// Fila de la tabla shipments tal como la devuelve Supabase
+type ShipmentRow = {
+    id: string;
+    created_at: string;
+    order_id: string;
+    carrier: string | null;
+    tracking_number: string | null;
+    recipient_name: string | null;
+    recipient_phone: string | null;
+    address: string | null;
+    city: string | null;
+    province: string | null;
+    postal_code: string | null;
+    status: string | null;
+    paid_by: string | null;
+    dispatched_at: string | null;
+    delivered_at: string | null;
+    notes: string | null;
+};
+
+const mapFromDb = (dbShipment: ShipmentRow): Shipment => ({
+    id: dbShipment.id,
+    orderId: dbShipment.order_id,
+    carrier: dbShipment.carrier || undefined,
+    trackingNumber: dbShipment.tracking_number || undefined,
+    recipientName: dbShipment.recipient_name || undefined,
+    recipientPhone: dbShipment.recipient_phone || undefined,
+    address: dbShipment.address || undefined,
+    city: dbShipment.city || undefined,
+    province: dbShipment.province || undefined,
+    postalCode: dbShipment.postal_code || undefined,
+    status: (dbShipment.status || 'preparando') as ShipmentStatus,
+    paidBy: (dbShipment.paid_by || 'comprador') as ShipmentPayer,
+    dispatchedAt: dbShipment.dispatched_at || undefined,
+    deliveredAt: dbShipment.delivered_at || undefined,
+    notes: dbShipment.notes || undefined,
+});
+
+const mapToDb = (shipment: Partial<Shipment>) => {
+    const dbShipment: Partial<ShipmentRow> = {};
+    if (shipment.orderId !== undefined) dbShipment.order_id = shipment.orderId;
+    if (shipment.carrier !== undefined) dbShipment.carrier = shipment.carrier || null;
+    if (shipment.trackingNumber !== undefined) dbShipment.tracking_number = shipment.trackingNumber?.trim() || null;
+    if (shipment.recipientName !== undefined) dbShipment.recipient_name = shipment.recipientName?.trim() || null;
+    if (shipment.recipientPhone !== undefined) dbShipment.recipient_phone = shipment.recipientPhone?.trim() || null;
+    if (shipment.address !== undefined) dbShipment.address = shipment.address?.trim() || null;
+    if (shipment.city !== undefined) dbShipment.city = shipment.city?.trim() || null;
+    if (shipment.province !== undefined) dbShipment.province = shipment.province?.trim() || null;
+    if (shipment.postalCode !== undefined) dbShipment.postal_code = shipment.postalCode?.trim() || null;
+    if (shipment.status !== undefined) dbShipment.status = shipment.status;
+    if (shipment.paidBy !== undefined) dbShipment.paid_by = shipment.paidBy;
+    if (shipment.dispatchedAt !== undefined) dbShipment.dispatched_at = shipment.dispatchedAt || null;
+    if (shipment.deliveredAt !== undefined) dbShipment.delivered_at = shipment.deliveredAt || null;
+    if (shipment.notes !== undefined) dbShipment.notes = shipment.notes?.trim() || null;
+    return dbShipment;
+};
+
+export const shipmentService = {
+    async getShipments(): Promise<Shipment[]> {
+        const { data, error } = await supabase
+            .from('shipments')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    },
+
+    // Un envío por venta: guardar de nuevo actualiza el de esa venta
+    async saveShipment(shipment: Omit<Shipment, 'id'>): Promise<Shipment> {
+        const { data, error } = await supabase
+            .from('shipments')
+            .upsert(mapToDb(shipment), { onConflict: 'order_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return mapFromDb(data);
+    }
+};
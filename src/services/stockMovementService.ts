@@ -0,0 +1,76 @@
+import { supabase } from '../lib/supabase';
+import type { StockMovement, StockMovementType } from '../types';
+
+export type StockMovementInput = Omit<StockMovement, 'id' | 'createdAt' | 'userEmail'>;
+
+// Fila de la tabla stock_movements tal como la devuelve Supabase
+type StockMovementRow = {
+    id: string;
+    created_at: string;
+    movement_type: StockMovementType;
+    item_id: string;
+    related_item_id: string | null;
+    product_name: string;
+    delta: number;
+    from_location: string | null;
+    to_location: string | null;
+    batch_ref: string | null;
+    order_id: string | null;
+    user_email: string | null;
+    note: string | null;
+};
+
+const mapFromDb = (dbMovement: StockMovementRow): StockMovement => ({
+    id: dbMovement.id,
+    createdAt: dbMovement.created_at,
+    movementType: dbMovement.movement_type,
+    itemId: dbMovement.item_id,
+    relatedItemId: dbMovement.related_item_id || undefined,
+    productName: dbMovement.product_name,
+    delta: Number(dbMovement.delta),
+    fromLocation: dbMovement.from_location || undefined,
+    toLocation: dbMovement.to_location || undefined,
+    batchRef: dbMovement.batch_ref || undefined,
+    orderId: dbMovement.order_id || undefined,
+    userEmail: dbMovement.user_email || undefined,
+    note: dbMovement.note || undefined,
+});
+
+export const stockMovementService = {
+    // Solo se agregan filas: la tabla no admite update ni delete
+    async record(movements: StockMovementInput[]): Promise<void> {
+        if (movements.length === 0) return;
+        const { data: { session } } = await supabase.auth.getSession();
+        const userEmail = session?.user.email || null;
+
+        const { error } = await supabase
+            .from('stock_movements')
+            .insert(movements.map((m): Omit<StockMovementRow, 'id' | 'created_at'> => ({
+                movement_type: m.movementType,
+                item_id: m.itemId,
+                related_item_id: m.relatedItemId || null,
+                product_name: m.productName,
+                delta: m.delta,
+                from_location: m.fromLocation || null,
+                to_location: m.toLocation || null,
+                batch_ref: m.batchRef || null,
+                order_id: m.orderId || null,
+                user_email: userEmail,
+                note: m.note || null,
+            })));
+
+        if (error) throw error;
+    },
+
+    // Movimientos del item y los que lo nombran como origen/destino (separaciones, ventas, fusiones)
+    async getItemMovements(itemId: string): Promise<StockMovement[]> {
+        const { data, error } = await supabase
+            .from('stock_movements')
+            .select('*')
+            .or(`item_id.eq.${itemId},related_item_id.eq.${itemId}`)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(mapFromDb);
+    }
+};
@@ -1,4 +1,5 @@
-export type ItemStatus = 'in_stock' | 'sold';
+// Ciclo de vida de un registro de stock (ver config/estados)
+export type ItemStatus = 'in_transit' | 'in_stock' | 'reserved' | 'consigned' | 'returned' | 'sold' | 'withdrawn';
 export type ItemCondition = 'nuevo' | 'semi_uso' | 'usado';
 export type ItemType = 'resale' | 'personal';
 export type WithdrawalReason = 'regalo' | 'uso_personal' | 'perdida';
@@ -10,37 +11,319 @@ export interface Item {
     salePrice?: number; // Optional, only exists if sold or target price
     quantity: number;
     date: string; // Purchase date or Creation date
+    createdAt?: string;
+    updatedAt?: string; // Lo mantiene la base en cada cambio (catálogo ?desde=)
     saleDate?: string; // Only if sold
     status: ItemStatus;
     condition: ItemCondition;
     itemType: ItemType;
     batchRef?: string;
+    batchItemId?: string; // Línea de la tanda de la que salió (batch_items)
     location?: string;
     estimatedSalePrice?: number;
     publishUrls?: string;
     imageUrl?: string;
     category?: string;
-    facturado?: boolean;
-    noFacturar?: boolean;
     withdrawalReason?: WithdrawalReason;
-    envioAplica?: boolean;
+    orderId?: string; // Venta a la que pertenece (solo items vendidos)
+    publicInStore?: boolean;
+    storeImages?: string[];
+    storeVideoUrl?: string;
+    description?: string;
+    storeTitle?: string;
+    storeGroup?: string;
+    storeVariantName?: string;
+    reservationId?: string; // Reserva activa que retiene estas unidades
+}
+
+// Línea de una tanda (batch_items): los items que salen de ella la apuntan con batchItemId
+export interface BatchItem {
+    id: string;
+    productName: string;
+    quantity: number;
+    listedUnitPrice: number;
+    unitSalePrice: number;
+    condition: ItemCondition;
+    disposition: 'sell' | 'keep';
+    category?: string;
+}
+
+// Una venta: agrupa uno o más items vendidos (líneas) y guarda lo que es
+// de la operación completa: envío, pago, vendedor, cobro y facturación.
+export interface Order {
+    id: string;
+    createdAt: string;
+    orderDate: string;
+    envioAplica: boolean;
     envioCosto?: number;
     envioMetodo?: string;
-    cobrado?: boolean;
-    vendedor?: string;
     formasPago?: string[];
     montoEfectivo?: number;
     montoTransferencia?: number;
     montoTarjeta?: number;
     montoMercadoPago?: number;
     montoOtro?: number;
-    publicInStore?: boolean;
-    storeImages?: string[];
-    storeVideoUrl?: string;
-    description?: string;
-    storeTitle?: string;
-    storeGroup?: string;
-    storeVariantName?: string;
+    vendedor?: string;
+    resellerId?: string; // Vendedor que hizo la venta (vendedor guarda su nombre)
+    settlementId?: string; // Liquidación con la que se cobró
+    commission?: number; // Comisión del vendedor, fijada al liquidar
+    customerId?: string;
+    cobrado: boolean;
+    facturado: boolean;
+    noFacturar: boolean;
+    notes?: string;
+    // Comprobante electrónico emitido por WSFEv1
+    cae?: string;
+    caeVencimiento?: string; // AAAA-MM-DD
+    puntoVenta?: number;
+    cbteTipo?: number;
+    cbteNro?: number;
+    facturaFecha?: string; // AAAA-MM-DD
+    facturaImporte?: number;
+    facturaDetalle?: FacturaDetalle;
+    cuitEmisor?: string;
+}
+
+// Lo que se envió a ARCA, tal cual quedó en el comprobante
+export interface FacturaDetalle {
+    lineas: Array<{ producto: string; cantidad: number; precio: number }>;
+    envio?: { metodo: string; costo: number };
+}
+
+export type ReturnReason = 'arrepentimiento' | 'falla' | 'talle_modelo' | 'no_llego' | 'otro';
+export type RefundMethod = 'efectivo' | 'transferencia' | 'mercado_pago' | 'saldo_a_favor' | 'cambio';
+
+export interface SaleReturnLine {
+    itemId: string; // Línea vendida de la que salen las unidades
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    restockedItemId?: string; // Registro de stock al que volvieron
+}
+
+// Devolución de una venta. Si la venta estaba facturada es también una nota
+// de crédito: su importe resta de lo facturado en la fecha de la devolución.
+export interface SaleReturn {
+    id: string;
+    createdAt: string;
+    returnDate: string;
+    orderId?: string;
+    lines: SaleReturnLine[];
+    reason: ReturnReason;
+    notes?: string;
+    refundMethod: RefundMethod;
+    amount: number;
+    creditNote: boolean;
+    // Nota de Crédito C emitida por WSFEv1
+    cae?: string;
+    caeVencimiento?: string; // AAAA-MM-DD
+    puntoVenta?: number;
+    cbteTipo?: number;
+    cbteNro?: number;
+    cbteFecha?: string; // AAAA-MM-DD
+}
+
+// Dónde entra o sale la plata: efectivo, banco (transferencias), tarjeta, Mercado Pago u otro
+export type CashChannel = 'efectivo' | 'transferencia' | 'tarjeta' | 'mercado_pago' | 'otro';
+
+export type ExpenseCategory = 'embalaje' | 'combustible' | 'publicidad' | 'envios' | 'comisiones' | 'servicios' | 'otro';
+
+export interface Expense {
+    id: string;
+    createdAt: string;
+    expenseDate: string; // AAAA-MM-DD
+    description: string;
+    category: ExpenseCategory;
+    amount: number;
+    channel: CashChannel;
+    notes?: string;
+    batchId?: string; // Tanda a la que se imputa
+    orderId?: string; // Venta a la que se imputa
+    recurringExpenseId?: string; // Gasto fijo que lo generó
+}
+
+// Gasto fijo: genera un gasto por mes el día indicado
+export interface RecurringExpense {
+    id: string;
+    description: string;
+    category: ExpenseCategory;
+    amount: number;
+    channel: CashChannel;
+    dayOfMonth: number;
+    startsOn: string; // AAAA-MM-DD
+    endsOn?: string;
+    generatedThrough?: string; // AAAA-MM-DD
+    notes?: string;
+}
+
+// Arqueo: saldo real de un medio al cierre de un día
+export interface CashReconciliation {
+    id: string;
+    channel: CashChannel;
+    date: string; // AAAA-MM-DD
+    balance: number;
+    notes?: string;
+}
+
+export type ReservationStatus = 'activa' | 'convertida' | 'cancelada';
+
+// Reserva con seña de unidades en stock, hasta que se retiran o vence
+export interface Reservation {
+    id: string;
+    createdAt: string;
+    itemId?: string; // Registro de stock con las unidades reservadas
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    customerId?: string;
+    depositAmount: number;
+    depositMethod?: string; // Forma de pago de FORMAS_PAGO
+    reservedOn: string; // AAAA-MM-DD
+    expiresOn: string; // AAAA-MM-DD
+    status: ReservationStatus;
+    depositRefunded: boolean;
+    orderId?: string; // Venta en la que se convirtió
+    notes?: string;
+}
+
+export type ShipmentStatus = 'preparando' | 'despachado' | 'entregado' | 'devuelto';
+// comprador: se cobró con la venta · tienda: lo absorbimos · destino: paga al recibir
+export type ShipmentPayer = 'comprador' | 'tienda' | 'destino';
+
+// Envío de una venta: transporte, seguimiento y entrega
+export interface Shipment {
+    id: string;
+    orderId: string;
+    carrier?: string;
+    trackingNumber?: string;
+    recipientName?: string;
+    recipientPhone?: string;
+    address?: string;
+    city?: string;
+    province?: string;
+    postalCode?: string;
+    status: ShipmentStatus;
+    paidBy: ShipmentPayer;
+    dispatchedAt?: string; // AAAA-MM-DD
+    deliveredAt?: string; // AAAA-MM-DD
+    notes?: string;
+}
+
+export type StockMovementType =
+    | 'ingreso'
+    | 'venta'
+    | 'retiro'
+    | 'separacion'
+    | 'fusion'
+    | 'devolucion'
+    | 'devolucion_tanda'
+    | 'ajuste'
+    | 'traslado'
+    | 'eliminacion';
+
+export interface StockMovement {
+    id: string;
+    createdAt: string;
+    movementType: StockMovementType;
+    itemId: string;
+    relatedItemId?: string;
+    productName: string;
+    delta: number;
+    fromLocation?: string;
+    toLocation?: string;
+    batchRef?: string;
+    orderId?: string;
+    userEmail?: string;
+    note?: string;
+}
+
+export interface Customer {
+    id: string;
+    createdAt: string;
+    name: string;
+    phone?: string;
+    city?: string;
+    notes?: string;
+}
+
+export type CommissionType = 'porcentaje' | 'fijo';
+
+// Revendedor: vende por nosotros y cobra una comisión por venta
+export interface Reseller {
+    id: string;
+    createdAt: string;
+    name: string;
+    phone?: string;
+    commissionType: CommissionType;
+    commissionValue: number; // Porcentaje sobre lo vendido o monto fijo por venta
+    location?: string; // Ubicación del stock en consignación
+    active: boolean;
+    notes?: string;
+}
+
+// Liquidación: un único pago del vendedor por un grupo de ventas
+export interface ResellerSettlement {
+    id: string;
+    createdAt: string;
+    resellerId: string;
+    settledOn: string; // AAAA-MM-DD
+    salesTotal: number;
+    commission: number;
+    amount: number; // Lo cobrado: total de las ventas menos la comisión
+    channel: CashChannel;
+    notes?: string;
+}
+
+export type MonotributoCategory = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K';
+
+// Categoría de monotributo con su vigencia (validTo vacío: vigente)
+export interface MonotributoCategoryPeriod {
+    id: string;
+    category: MonotributoCategory;
+    validFrom: string; // AAAA-MM-DD
+    validTo?: string;
+    notes?: string;
+}
+
+// Fila de la tabla anual de topes: ingresos brutos máximos y cuota de una categoría
+export interface MonotributoLimit {
+    id: string;
+    year: number;
+    category: MonotributoCategory;
+    ingresosAnuales: number;
+    cuotaMensual?: number; // Total: impositivo + jubilación + obra social
+    cuotaImpuesto?: number;
+    cuotaJubilacion?: number;
+    cuotaObraSocial?: number;
+}
+
+// Pago de la cuota de un mes, con lo que correspondía según la categoría de ese mes
+export interface MonotributoPayment {
+    id: string;
+    period: string; // AAAA-MM
+    category: MonotributoCategory;
+    impuesto?: number;
+    jubilacion?: number;
+    obraSocial?: number;
+    dueDate: string; // AAAA-MM-DD
+    paidAt: string; // AAAA-MM-DD
+    amount: number;
+    receiptUrl?: string;
+    notes?: string;
+}
+
+// Reglas de facturación que rigen desde una fecha hasta la siguiente. La
+// primera vigencia es también la fecha de corte: antes no se factura.
+export interface InvoicingSettings {
+    id: string;
+    validFrom: string; // AAAA-MM-DD
+    // Condiciones facturables para artículos de reventa
+    eligibleConditions: ItemCondition[];
+    // Tipos que se facturan siempre, sin importar la condición
+    alwaysEligibleTypes: ItemType[];
+    // Días hacia atrás que ARCA acepta para la fecha del comprobante
+    maxBackdateDays: number;
+    defaultPaymentMethod: string;
 }
 
 // Deprecated but kept for temporary compatibility if needed during migration, 
@@ -0,0 +1,155 @@
+-- 0001 · Esquema base
+-- Consolida lo que antes vivía suelto en SUPABASE_SETUP.sql. Es idempotente:
+-- se puede correr sobre una base nueva o sobre una que ya tenía parte de estas columnas.
+
+create table if not exists schema_version (
+  version integer primary key,
+  name text not null,
+  applied_at timestamptz not null default now()
+);
+
+alter table schema_version enable row level security;
+
+drop policy if exists "Authenticated read schema_version" on schema_version;
+create policy "Authenticated read schema_version" on schema_version
+  for select
+  to authenticated
+  using (true);
+
+-- =====================================================
+-- ITEMS
+-- =====================================================
+do $$ begin
+  create type item_status as enum ('in_stock', 'sold');
+exception when duplicate_object then null;
+end $$;
+
+do $$ begin
+  create type item_condition as enum ('nuevo', 'semi_uso', 'usado');
+exception when duplicate_object then null;
+end $$;
+
+create table if not exists items (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz default now(),
+  date timestamptz default now(), -- Fecha real de compra/adquisición
+  product_name text not null,
+  purchase_price numeric not null default 0,
+  sale_price numeric,
+  quantity integer not null default 1,
+  sale_date timestamptz,
+  status item_status not null default 'in_stock'
+);
+
+alter table items add column if not exists item_condition item_condition not null default 'nuevo';
+alter table items add column if not exists batch_ref text;
+alter table items add column if not exists location text;
+alter table items add column if not exists estimated_sale_price numeric;
+alter table items add column if not exists publish_urls text;
+alter table items add column if not exists image_url text;
+alter table items add column if not exists category text;
+alter table items add column if not exists item_type text not null default 'resale';
+
+-- Facturación y retiros
+alter table items add column if not exists facturado boolean not null default false;
+alter table items add column if not exists no_facturar boolean not null default false;
+alter table items add column if not exists withdrawal_reason text;
+
+-- Envío, cobro y formas de pago
+alter table items add column if not exists envio_aplica boolean not null default false;
+alter table items add column if not exists envio_costo numeric;
+alter table items add column if not exists envio_metodo text;
+alter table items add column if not exists cobrado boolean not null default true;
+alter table items add column if not exists vendedor text;
+alter table items add column if not exists formas_pago text[];
+alter table items add column if not exists monto_efectivo numeric;
+alter table items add column if not exists monto_transferencia numeric;
+alter table items add column if not exists monto_tarjeta numeric;
+alter table items add column if not exists monto_mercado_pago numeric;
+alter table items add column if not exists monto_otro numeric;
+
+-- Tienda pública
+alter table items add column if not exists public_in_store boolean not null default false;
+alter table items add column if not exists store_images jsonb default '[]';
+alter table items add column if not exists store_video_url text;
+alter table items add column if not exists description text;
+alter table items add column if not exists store_title text;
+alter table items add column if not exists store_group text;
+alter table items add column if not exists store_variant_name text;
+
+alter table items enable row level security;
+
+-- Usuarios autenticados: acceso total. Anónimos: solo lectura de lo publicado en la tienda
+drop policy if exists "Allow public access" on items;
+drop policy if exists "Authenticated full access" on items;
+drop policy if exists "Public store read" on items;
+
+create policy "Authenticated full access" on items
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Public store read" on items
+  for select
+  to anon
+  using (public_in_store = true and status = 'in_stock');
+
+-- =====================================================
+-- BATCHES (historial de tandas)
+-- =====================================================
+create table if not exists batches (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz default now(),
+  batch_code text not null,
+  batch_type text not null,
+  total_paid numeric not null default 0,
+  total_sell_revenue numeric not null default 0,
+  cash_profit numeric not null default 0,
+  retained_value numeric not null default 0,
+  items_count integer not null default 0,
+  items_json jsonb not null default '[]'::jsonb
+);
+
+alter table batches add column if not exists batch_status text not null default 'completado';
+
+alter table batches enable row level security;
+
+-- Batches: solo usuarios autenticados (la tienda pública no la usa)
+drop policy if exists "Allow public access for batches" on batches;
+drop policy if exists "Authenticated full access batches" on batches;
+
+create policy "Authenticated full access batches" on batches
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- =====================================================
+-- STORAGE: imágenes y videos de productos
+-- =====================================================
+insert into storage.buckets (id, name, public)
+values ('product-images', 'product-images', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Allow public read of product-images" on storage.objects;
+create policy "Allow public read of product-images"
+on storage.objects for select
+to public
+using (bucket_id = 'product-images');
+
+drop policy if exists "Allow public uploads to product-images" on storage.objects;
+create policy "Allow public uploads to product-images"
+on storage.objects for insert
+to public
+with check (bucket_id = 'product-images');
+
+-- Borrar archivos es una operación del panel: solo autenticados
+drop policy if exists "Allow authenticated delete from product-images" on storage.objects;
+create policy "Allow authenticated delete from product-images"
+on storage.objects for delete
+to authenticated
+using (bucket_id = 'product-images');
+
+insert into schema_version (version, name) values (1, 'base_schema')
+on conflict (version) do nothing;
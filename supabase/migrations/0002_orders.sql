@@ -0,0 +1,66 @@
+-- 0002 · Ventas con varias líneas
+-- Envío, pago, vendedor, cobro y facturación pasan de cada item vendido a la
+-- venta (orders). Los items vendidos quedan como líneas con items.order_id.
+
+create table if not exists orders (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  order_date timestamptz not null default now(),
+  envio_aplica boolean not null default false,
+  envio_costo numeric,
+  envio_metodo text,
+  formas_pago text[],
+  monto_efectivo numeric,
+  monto_transferencia numeric,
+  monto_tarjeta numeric,
+  monto_mercado_pago numeric,
+  monto_otro numeric,
+  vendedor text,
+  cobrado boolean not null default true,
+  facturado boolean not null default false,
+  no_facturar boolean not null default false,
+  notes text
+);
+
+alter table items add column if not exists order_id uuid references orders(id) on delete set null;
+create index if not exists items_order_id_idx on items (order_id);
+
+alter table orders enable row level security;
+
+drop policy if exists "Authenticated full access orders" on orders;
+create policy "Authenticated full access orders" on orders
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Cada venta existente (los retiros no son ventas) pasa a ser una orden de una
+-- sola línea con los datos que tenía copiados. Las columnas viejas de items no
+-- se borran: quedan como respaldo aunque la app ya no las usa.
+do $$
+declare
+  r record;
+  new_order_id uuid;
+begin
+  for r in
+    select * from items
+    where status = 'sold' and withdrawal_reason is null and order_id is null
+  loop
+    insert into orders (
+      order_date, envio_aplica, envio_costo, envio_metodo, formas_pago,
+      monto_efectivo, monto_transferencia, monto_tarjeta, monto_mercado_pago, monto_otro,
+      vendedor, cobrado, facturado, no_facturar
+    ) values (
+      coalesce(r.sale_date, r.date, r.created_at, now()),
+      coalesce(r.envio_aplica, false), r.envio_costo, r.envio_metodo, r.formas_pago,
+      r.monto_efectivo, r.monto_transferencia, r.monto_tarjeta, r.monto_mercado_pago, r.monto_otro,
+      r.vendedor, coalesce(r.cobrado, true), coalesce(r.facturado, false), coalesce(r.no_facturar, false)
+    )
+    returning id into new_order_id;
+
+    update items set order_id = new_order_id where id = r.id;
+  end loop;
+end $$;
+
+insert into schema_version (version, name) values (2, 'orders')
+on conflict (version) do nothing;
@@ -0,0 +1,26 @@
+-- 0003 · Directorio de clientes
+-- Cada venta (orders) puede apuntar al cliente que compró.
+
+create table if not exists customers (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  name text not null,
+  phone text,
+  city text,
+  notes text
+);
+
+alter table orders add column if not exists customer_id uuid references customers(id) on delete set null;
+create index if not exists orders_customer_id_idx on orders (customer_id);
+
+alter table customers enable row level security;
+
+drop policy if exists "Authenticated full access customers" on customers;
+create policy "Authenticated full access customers" on customers
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (3, 'customers')
+on conflict (version) do nothing;
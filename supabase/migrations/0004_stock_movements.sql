@@ -0,0 +1,45 @@
+-- 0004 · Historial de movimientos de stock
+-- Registro de solo escritura: cada cambio de cantidad o ubicación agrega una
+-- fila. item_id no es foreign key a propósito: el historial sobrevive a los
+-- items borrados (ventas de las últimas unidades, fusiones, devoluciones).
+
+create table if not exists stock_movements (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  movement_type text not null check (movement_type in (
+    'ingreso', 'venta', 'retiro', 'separacion', 'fusion',
+    'devolucion', 'devolucion_tanda', 'ajuste', 'traslado', 'eliminacion'
+  )),
+  item_id uuid not null,
+  related_item_id uuid,
+  product_name text not null,
+  delta integer not null,
+  from_location text,
+  to_location text,
+  batch_ref text,
+  order_id uuid,
+  user_id uuid default auth.uid(),
+  user_email text,
+  note text
+);
+
+create index if not exists stock_movements_item_id_idx on stock_movements (item_id, created_at);
+create index if not exists stock_movements_related_item_id_idx on stock_movements (related_item_id);
+
+alter table stock_movements enable row level security;
+
+-- Sin políticas de update/delete: desde la API solo se puede leer e insertar
+drop policy if exists "Authenticated read stock_movements" on stock_movements;
+create policy "Authenticated read stock_movements" on stock_movements
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated insert stock_movements" on stock_movements;
+create policy "Authenticated insert stock_movements" on stock_movements
+  for insert
+  to authenticated
+  with check (true);
+
+insert into schema_version (version, name) values (4, 'stock_movements')
+on conflict (version) do nothing;
@@ -0,0 +1,112 @@
+-- 0005 · Detalle de tandas como tabla
+-- batches.items_json pasa a batch_items y cada item del inventario apunta a su
+-- línea de tanda (items.batch_item_id). Vendidos, en stock y retirados se
+-- calculan contando items, en lugar de descontarse a mano del JSON.
+
+create table if not exists batch_items (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  batch_id uuid not null references batches(id) on delete cascade,
+  position integer not null default 0,
+  product_name text not null,
+  quantity integer not null default 1 check (quantity >= 0),
+  listed_unit_price numeric not null default 0,
+  unit_sale_price numeric not null default 0,
+  item_condition text not null default 'nuevo',
+  disposition text not null default 'sell' check (disposition in ('sell', 'keep')),
+  category text
+);
+
+create index if not exists batch_items_batch_id_idx on batch_items (batch_id, position);
+
+-- Si se borra una línea los items quedan en la tanda (batch_ref) sin línea
+alter table items add column if not exists batch_item_id uuid references batch_items(id) on delete set null;
+create index if not exists items_batch_item_id_idx on items (batch_item_id);
+
+alter table batch_items enable row level security;
+
+drop policy if exists "Authenticated full access batch_items" on batch_items;
+create policy "Authenticated full access batch_items" on batch_items
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- 1. Líneas guardadas en el JSON
+insert into batch_items (batch_id, position, product_name, quantity, listed_unit_price, unit_sale_price, item_condition, disposition, category)
+select
+  b.id,
+  e.ord - 1,
+  coalesce(nullif(trim(e.entry->>'productName'), ''), 'Producto'),
+  greatest(coalesce((e.entry->>'quantity')::numeric, 1), 0)::integer,
+  coalesce((e.entry->>'listedUnitPrice')::numeric, 0),
+  coalesce((e.entry->>'unitSalePrice')::numeric, 0),
+  coalesce(nullif(e.entry->>'condition', ''), 'nuevo'),
+  case when e.entry->>'disposition' = 'keep' then 'keep' else 'sell' end,
+  nullif(trim(e.entry->>'category'), '')
+from batches b
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(b.items_json) = 'array' then b.items_json else '[]'::jsonb end
+) with ordinality as e(entry, ord)
+where not exists (select 1 from batch_items bi where bi.batch_id = b.id);
+
+-- 2. Productos vendidos del todo: el JSON los descontaba hasta borrarlos, así
+--    que se reconstruyen desde los items que todavía tienen el código de tanda
+insert into batch_items (batch_id, position, product_name, quantity, listed_unit_price, unit_sale_price, item_condition, disposition)
+select
+  b.id,
+  coalesce((select max(bi.position) from batch_items bi where bi.batch_id = b.id), -1)
+    + row_number() over (partition by b.id order by min(i.product_name)),
+  min(i.product_name),
+  sum(i.quantity)::integer,
+  max(i.purchase_price),
+  coalesce(max(i.sale_price), 0),
+  coalesce(i.item_condition::text, 'nuevo'),
+  case when bool_and(i.item_type = 'personal') then 'keep' else 'sell' end
+from items i
+join batches b on b.batch_code = i.batch_ref
+where not exists (
+  select 1 from batch_items bi
+  where bi.batch_id = b.id
+    and lower(regexp_replace(trim(bi.product_name), '\s+', ' ', 'g')) = lower(regexp_replace(trim(i.product_name), '\s+', ' ', 'g'))
+    and bi.item_condition = coalesce(i.item_condition::text, 'nuevo')
+)
+group by b.id, lower(regexp_replace(trim(i.product_name), '\s+', ' ', 'g')), coalesce(i.item_condition::text, 'nuevo');
+
+-- 3. Vincular cada item a la primera línea de su tanda con el mismo producto y estado
+update items i
+set batch_item_id = (
+  select bi.id
+  from batch_items bi
+  join batches b on b.id = bi.batch_id
+  where b.batch_code = i.batch_ref
+    and lower(regexp_replace(trim(bi.product_name), '\s+', ' ', 'g')) = lower(regexp_replace(trim(i.product_name), '\s+', ' ', 'g'))
+    and bi.item_condition = coalesce(i.item_condition::text, 'nuevo')
+  order by b.created_at, bi.position
+  limit 1
+)
+where i.batch_ref is not null and i.batch_item_id is null;
+
+-- 4. Las ventas descontaban unidades del JSON: la cantidad comprada es al
+--    menos la suma de lo que hoy está vinculado (vendido + stock + retirado)
+update batch_items bi
+set quantity = linked.total
+from (
+  select batch_item_id, sum(quantity)::integer as total
+  from items
+  where batch_item_id is not null
+  group by batch_item_id
+) linked
+where linked.batch_item_id = bi.id and linked.total > bi.quantity;
+
+-- El JSON no se borra: queda como respaldo (items_json_legacy) con las claves
+-- que la conversión no usa. Se elimina en una migración posterior.
+do $$
+begin
+  if exists (select 1 from information_schema.columns where table_name = 'batches' and column_name = 'items_json') then
+    alter table batches rename column items_json to items_json_legacy;
+  end if;
+end $$;
+
+insert into schema_version (version, name) values (5, 'batch_items')
+on conflict (version) do nothing;
@@ -0,0 +1,65 @@
+-- 0006 · Monotributo configurable
+-- Historial de categorías (con vigencia) y tablas anuales de topes y cuotas,
+-- editables desde el panel en lugar de estar fijas en el código.
+
+create table if not exists monotributo_categories (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  category text not null check (category in ('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K')),
+  valid_from date not null,
+  valid_to date,
+  notes text,
+  check (valid_to is null or valid_to >= valid_from)
+);
+
+create index if not exists monotributo_categories_valid_from_idx on monotributo_categories (valid_from);
+
+create table if not exists monotributo_limits (
+  id uuid default gen_random_uuid() primary key,
+  year integer not null,
+  category text not null check (category in ('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K')),
+  ingresos_anuales numeric not null,
+  -- Cuota mensual total (impositivo + jubilación + obra social) para venta de cosas muebles
+  cuota_mensual numeric,
+  unique (year, category)
+);
+
+alter table monotributo_categories enable row level security;
+alter table monotributo_limits enable row level security;
+
+drop policy if exists "Authenticated full access monotributo_categories" on monotributo_categories;
+create policy "Authenticated full access monotributo_categories" on monotributo_categories
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated full access monotributo_limits" on monotributo_limits;
+create policy "Authenticated full access monotributo_limits" on monotributo_limits
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Valores que estaban fijos en config/monotributo.ts (TOPES_2026, categoría A).
+-- Las cuotas se cargan desde el panel.
+insert into monotributo_limits (year, category, ingresos_anuales) values
+  (2026, 'A', 8992597.87),
+  (2026, 'B', 13175201.52),
+  (2026, 'C', 18473166.15),
+  (2026, 'D', 22934610.05),
+  (2026, 'E', 26977793.60),
+  (2026, 'F', 33809379.57),
+  (2026, 'G', 40431835.35),
+  (2026, 'H', 61344853.64),
+  (2026, 'I', 68664410.05),
+  (2026, 'J', 78632948.76),
+  (2026, 'K', 94805682.90)
+on conflict (year, category) do nothing;
+
+insert into monotributo_categories (category, valid_from)
+select 'A', date '2026-04-18'
+where not exists (select 1 from monotributo_categories);
+
+insert into schema_version (version, name) values (6, 'monotributo')
+on conflict (version) do nothing;
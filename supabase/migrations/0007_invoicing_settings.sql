@@ -0,0 +1,31 @@
+-- 0007 · Reglas de facturación configurables
+-- Fecha de corte, condiciones facturables, días de retroactividad y forma de
+-- pago por defecto, con vigencia por período en lugar de fijas en el código.
+
+create table if not exists invoicing_settings (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  valid_from date not null unique,
+  eligible_conditions text[] not null default '{nuevo,semi_uso}',
+  always_eligible_types text[] not null default '{personal}',
+  max_backdate_days integer not null default 3 check (max_backdate_days >= 0),
+  default_payment_method text not null default 'transferencia'
+);
+
+alter table invoicing_settings enable row level security;
+
+drop policy if exists "Authenticated full access invoicing_settings" on invoicing_settings;
+create policy "Authenticated full access invoicing_settings" on invoicing_settings
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Valores que estaban fijos en el panel: corte 18/04/2026, los usados de
+-- reventa no se facturan, 3 días hacia atrás y transferencia
+insert into invoicing_settings (valid_from, eligible_conditions, always_eligible_types, max_backdate_days, default_payment_method)
+select date '2026-04-18', '{nuevo,semi_uso}', '{personal}', 3, 'transferencia'
+where not exists (select 1 from invoicing_settings);
+
+insert into schema_version (version, name) values (7, 'invoicing_settings')
+on conflict (version) do nothing;
@@ -0,0 +1,38 @@
+-- 0008 · Factura electrónica (WSFEv1)
+-- La venta guarda el comprobante que emitió ARCA: CAE, vencimiento, punto de
+-- venta, tipo y número, más el detalle tal como se facturó.
+
+alter table orders add column if not exists cae text;
+alter table orders add column if not exists cae_vencimiento date;
+alter table orders add column if not exists punto_venta integer;
+alter table orders add column if not exists cbte_tipo integer;
+alter table orders add column if not exists cbte_nro bigint;
+alter table orders add column if not exists factura_fecha date;
+alter table orders add column if not exists factura_importe numeric;
+-- Líneas enviadas a ARCA ({ producto, cantidad, precio }) y envío, si hubo
+alter table orders add column if not exists factura_detalle jsonb;
+
+create unique index if not exists orders_comprobante_idx
+  on orders (punto_venta, cbte_tipo, cbte_nro)
+  where cbte_nro is not null;
+
+-- Ticket de acceso de WSAA: dura 12 horas y ARCA no entrega otro mientras
+-- siga vigente, así que se comparte entre invocaciones de la función
+create table if not exists arca_access_tickets (
+  service text primary key,
+  token text not null,
+  sign text not null,
+  expires_at timestamptz not null
+);
+
+alter table arca_access_tickets enable row level security;
+
+drop policy if exists "Authenticated full access arca_access_tickets" on arca_access_tickets;
+create policy "Authenticated full access arca_access_tickets" on arca_access_tickets
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (8, 'arca_invoices')
+on conflict (version) do nothing;
@@ -0,0 +1,8 @@
+-- 0009 · CUIT emisor del comprobante
+-- El QR de ARCA y el PDF de la factura llevan el CUIT con el que se emitió;
+-- se guarda en la venta porque la configuración del servidor puede cambiar.
+
+alter table orders add column if not exists cuit_emisor text;
+
+insert into schema_version (version, name) values (9, 'factura_emisor')
+on conflict (version) do nothing;
@@ -0,0 +1,43 @@
+-- 0010 · Devoluciones y notas de crédito
+-- Una devolución descuenta las unidades de la línea vendida (que no se borra),
+-- las vuelve al stock de su tanda y ubicación, y si la venta estaba facturada
+-- queda como nota de crédito que resta de lo facturado en su fecha.
+
+create table if not exists sale_returns (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  return_date timestamptz not null default now(),
+  order_id uuid references orders(id) on delete set null,
+  -- Líneas devueltas: { itemId, productName, quantity, unitPrice, restockedItemId }
+  lines jsonb not null default '[]',
+  reason text not null,
+  notes text,
+  refund_method text not null,
+  amount numeric not null default 0 check (amount >= 0),
+  credit_note boolean not null default false,
+  -- Nota de Crédito C emitida por WSFEv1 (solo si la factura tenía CAE)
+  cae text,
+  cae_vencimiento date,
+  punto_venta integer,
+  cbte_tipo integer,
+  cbte_nro bigint,
+  cbte_fecha date
+);
+
+create index if not exists sale_returns_order_id_idx on sale_returns (order_id);
+
+create unique index if not exists sale_returns_comprobante_idx
+  on sale_returns (punto_venta, cbte_tipo, cbte_nro)
+  where cbte_nro is not null;
+
+alter table sale_returns enable row level security;
+
+drop policy if exists "Authenticated full access sale_returns" on sale_returns;
+create policy "Authenticated full access sale_returns" on sale_returns
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (10, 'sale_returns')
+on conflict (version) do nothing;
@@ -0,0 +1,38 @@
+-- 0011 · Cuotas mensuales de monotributo
+-- La cuota se desglosa en impositivo, jubilación y obra social por año y
+-- categoría. Las cuotas de cada mes se calculan con la categoría vigente; al
+-- pagarlas queda registrado el pago con lo que correspondía ese mes.
+
+alter table monotributo_limits
+  add column if not exists cuota_impuesto numeric,
+  add column if not exists cuota_jubilacion numeric,
+  add column if not exists cuota_obra_social numeric;
+
+create table if not exists monotributo_payments (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  -- Primer día del mes de la cuota
+  period date not null unique check (extract(day from period) = 1),
+  category text not null check (category in ('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K')),
+  impuesto numeric,
+  jubilacion numeric,
+  obra_social numeric,
+  due_date date not null,
+  paid_at date not null,
+  -- Lo pagado (puede incluir intereses por pago fuera de término)
+  amount numeric not null check (amount >= 0),
+  receipt_url text,
+  notes text
+);
+
+alter table monotributo_payments enable row level security;
+
+drop policy if exists "Authenticated full access monotributo_payments" on monotributo_payments;
+create policy "Authenticated full access monotributo_payments" on monotributo_payments
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (11, 'monotributo_payments')
+on conflict (version) do nothing;
@@ -0,0 +1,51 @@
+-- 0012 · Caja por medio de cobro
+-- La caja se arma con lo cobrado en las ventas, lo pagado por las tandas, los
+-- envíos y los gastos cargados a mano. Un arqueo fija el saldo real de un
+-- medio en una fecha: desde ahí el saldo calculado parte de ese valor.
+
+alter table batches
+  add column if not exists payment_channel text
+    check (payment_channel in ('efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro'));
+
+create table if not exists expenses (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  expense_date date not null,
+  description text not null,
+  amount numeric not null check (amount > 0),
+  channel text not null check (channel in ('efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro')),
+  notes text
+);
+
+create index if not exists expenses_expense_date_idx on expenses (expense_date);
+
+create table if not exists cash_reconciliations (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  channel text not null check (channel in ('efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro')),
+  -- Saldo real al cierre de ese día
+  reconciled_on date not null,
+  balance numeric not null,
+  notes text,
+  unique (channel, reconciled_on)
+);
+
+alter table expenses enable row level security;
+alter table cash_reconciliations enable row level security;
+
+drop policy if exists "Authenticated full access expenses" on expenses;
+create policy "Authenticated full access expenses" on expenses
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated full access cash_reconciliations" on cash_reconciliations;
+create policy "Authenticated full access cash_reconciliations" on cash_reconciliations
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (12, 'caja')
+on conflict (version) do nothing;
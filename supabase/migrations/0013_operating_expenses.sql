@@ -0,0 +1,53 @@
+-- 0013 · Gastos operativos
+-- Los gastos pasan a tener categoría y pueden asignarse a una tanda o a una
+-- venta. Los gastos fijos se cargan una vez como recurrentes y el panel genera
+-- el gasto de cada mes hasta la fecha.
+
+create table if not exists recurring_expenses (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  description text not null,
+  category text not null check (category in ('embalaje', 'combustible', 'publicidad', 'envios', 'comisiones', 'servicios', 'otro')),
+  amount numeric not null check (amount > 0),
+  channel text not null check (channel in ('efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro')),
+  -- Día del mes en que se carga (hasta 28 para que exista en todos los meses)
+  day_of_month integer not null check (day_of_month between 1 and 28),
+  starts_on date not null,
+  ends_on date,
+  -- Último día hasta el que ya se generaron gastos
+  generated_through date,
+  notes text,
+  check (ends_on is null or ends_on >= starts_on)
+);
+
+alter table expenses
+  add column if not exists category text not null default 'otro'
+    check (category in ('embalaje', 'combustible', 'publicidad', 'envios', 'comisiones', 'servicios', 'otro')),
+  add column if not exists batch_id uuid references batches(id) on delete set null,
+  add column if not exists order_id uuid references orders(id) on delete set null,
+  add column if not exists recurring_expense_id uuid references recurring_expenses(id) on delete set null;
+
+create index if not exists expenses_batch_id_idx on expenses (batch_id);
+create index if not exists expenses_order_id_idx on expenses (order_id);
+
+-- Un gasto fijo genera a lo sumo un gasto por fecha, aunque dos pestañas lo
+-- generen a la vez. Si ya había repetidos queda el primero.
+delete from expenses e
+using expenses first
+where e.recurring_expense_id = first.recurring_expense_id
+  and e.expense_date = first.expense_date
+  and (e.created_at, e.id) > (first.created_at, first.id);
+
+create unique index if not exists expenses_recurring_date_idx on expenses (recurring_expense_id, expense_date);
+
+alter table recurring_expenses enable row level security;
+
+drop policy if exists "Authenticated full access recurring_expenses" on recurring_expenses;
+create policy "Authenticated full access recurring_expenses" on recurring_expenses
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (13, 'operating_expenses')
+on conflict (version) do nothing;
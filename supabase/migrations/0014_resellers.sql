@@ -0,0 +1,72 @@
+-- 0014 · Vendedores (revendedores) y liquidaciones
+-- Un vendedor cobra una comisión (porcentaje de lo vendido o monto fijo por
+-- venta) y puede tener stock en consignación en su propia ubicación. Las
+-- ventas que hace quedan sin cobrar hasta que se liquidan: una liquidación
+-- registra un único pago por un grupo de ventas, ya descontada la comisión.
+
+create table if not exists resellers (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  name text not null unique,
+  phone text,
+  commission_type text not null default 'porcentaje' check (commission_type in ('porcentaje', 'fijo')),
+  commission_value numeric not null default 0 check (commission_value >= 0),
+  -- Ubicación del stock que tiene en consignación
+  location text,
+  active boolean not null default true,
+  notes text
+);
+
+create table if not exists reseller_settlements (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  reseller_id uuid not null references resellers(id) on delete restrict,
+  settled_on date not null,
+  -- Total de las ventas liquidadas, comisión retenida y lo que se cobró
+  sales_total numeric not null,
+  commission numeric not null default 0,
+  amount numeric not null,
+  channel text not null check (channel in ('efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro')),
+  notes text
+);
+
+create index if not exists reseller_settlements_reseller_id_idx on reseller_settlements (reseller_id);
+
+alter table orders
+  add column if not exists reseller_id uuid references resellers(id) on delete set null,
+  add column if not exists settlement_id uuid references reseller_settlements(id) on delete set null,
+  -- Comisión de la venta, fijada al liquidarla
+  add column if not exists commission numeric;
+
+create index if not exists orders_reseller_id_idx on orders (reseller_id);
+create index if not exists orders_settlement_id_idx on orders (settlement_id);
+
+-- Los vendedores cargados como texto en las ventas pasan a ser vendedores
+insert into resellers (name)
+select distinct trim(vendedor) from orders
+where vendedor is not null and trim(vendedor) <> ''
+on conflict (name) do nothing;
+
+update orders o set reseller_id = r.id
+from resellers r
+where o.reseller_id is null and trim(o.vendedor) = r.name;
+
+alter table resellers enable row level security;
+alter table reseller_settlements enable row level security;
+
+drop policy if exists "Authenticated full access resellers" on resellers;
+create policy "Authenticated full access resellers" on resellers
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated full access reseller_settlements" on reseller_settlements;
+create policy "Authenticated full access reseller_settlements" on reseller_settlements
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (14, 'resellers')
+on conflict (version) do nothing;
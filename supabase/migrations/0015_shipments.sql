@@ -0,0 +1,42 @@
+-- 0015 · Seguimiento de envíos
+-- Cada venta con envío puede tener un envío con el transporte, el código de
+-- seguimiento, la dirección de entrega, quién pagó el envío y su estado.
+-- Mientras no se carga, el envío de la venta figura como "preparando".
+
+create table if not exists shipments (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  order_id uuid not null unique references orders(id) on delete cascade,
+  carrier text,
+  tracking_number text,
+  recipient_name text,
+  recipient_phone text,
+  address text,
+  city text,
+  province text,
+  postal_code text,
+  status text not null default 'preparando' check (status in ('preparando', 'despachado', 'entregado', 'devuelto')),
+  -- comprador: se cobró con la venta · tienda: lo absorbimos · destino: paga al recibir
+  paid_by text not null default 'comprador' check (paid_by in ('comprador', 'tienda', 'destino')),
+  dispatched_at date,
+  delivered_at date,
+  notes text
+);
+
+-- Las ventas con envío anteriores se dan por entregadas
+insert into shipments (order_id, carrier, status, paid_by)
+select id, envio_metodo, 'entregado', 'comprador' from orders
+where envio_aplica = true
+on conflict (order_id) do nothing;
+
+alter table shipments enable row level security;
+
+drop policy if exists "Authenticated full access shipments" on shipments;
+create policy "Authenticated full access shipments" on shipments
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into schema_version (version, name) values (15, 'shipments')
+on conflict (version) do nothing;
@@ -0,0 +1,50 @@
+-- 0016 · Reservas y señas
+-- Un comprador deja una seña y retira después: las unidades reservadas se
+-- separan en su propio registro de stock, apuntado por items.reservation_id,
+-- y dejan de verse en la tienda pública hasta que se venden o se cancela la
+-- reserva.
+
+create table if not exists reservations (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamptz not null default now(),
+  item_id uuid references items(id) on delete set null,
+  product_name text not null,
+  quantity integer not null check (quantity > 0),
+  -- Precio por unidad acordado con el comprador
+  unit_price numeric not null check (unit_price >= 0),
+  customer_id uuid references customers(id) on delete set null,
+  deposit_amount numeric not null default 0 check (deposit_amount >= 0),
+  -- Forma de pago de la seña (FORMAS_PAGO)
+  deposit_method text,
+  reserved_on date not null,
+  expires_on date not null,
+  status text not null default 'activa' check (status in ('activa', 'convertida', 'cancelada')),
+  -- Al cancelar: si la seña se devolvió o quedó para la tienda
+  deposit_refunded boolean not null default false,
+  order_id uuid references orders(id) on delete set null,
+  notes text,
+  check (expires_on >= reserved_on)
+);
+
+create index if not exists reservations_status_idx on reservations (status);
+
+alter table items add column if not exists reservation_id uuid references reservations(id) on delete set null;
+
+alter table reservations enable row level security;
+
+drop policy if exists "Authenticated full access reservations" on reservations;
+create policy "Authenticated full access reservations" on reservations
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- La tienda pública no ve las unidades reservadas
+drop policy if exists "Public store read" on items;
+create policy "Public store read" on items
+  for select
+  to anon
+  using (public_in_store = true and status = 'in_stock' and reservation_id is null);
+
+insert into schema_version (version, name) values (16, 'reservations')
+on conflict (version) do nothing;
@@ -0,0 +1,46 @@
+-- 0017 · Ciclo de vida de los items
+-- El estado deja de ser solo en stock / vendido:
+--   in_transit  en camino (tanda sin recibir)
+--   in_stock    disponible
+--   reserved    apartado por una reserva con seña
+--   consigned   entregado en consignación a un vendedor
+--   returned    devuelto por falla, a revisar antes de volver al stock
+--   sold        vendido
+--   withdrawn   dado de baja (regalo, uso personal, pérdida)
+-- La columna pasa de enum a texto con check, como el resto de los estados.
+
+-- La política de la tienda depende de la columna: se rehace al final
+drop policy if exists "Public store read" on items;
+
+alter table items alter column status drop default;
+alter table items alter column status type text using status::text;
+alter table items alter column status set default 'in_stock';
+
+alter table items drop constraint if exists items_status_check;
+alter table items add constraint items_status_check
+  check (status in ('in_transit', 'in_stock', 'reserved', 'consigned', 'returned', 'sold', 'withdrawn'));
+
+drop type if exists item_status;
+
+-- Las bajas se guardaban como ventas a $0 con motivo
+update items set status = 'withdrawn'
+where status = 'sold' and withdrawal_reason is not null;
+
+update items set status = 'reserved'
+where status = 'in_stock' and reservation_id is not null;
+
+update items set status = 'consigned'
+where status = 'in_stock'
+  and location in (select location from resellers where location is not null);
+
+update items i set status = 'in_transit'
+from batches b
+where i.status = 'in_stock' and b.batch_code = i.batch_ref and b.batch_status = 'en_camino';
+
+create policy "Public store read" on items
+  for select
+  to anon
+  using (public_in_store = true and status = 'in_stock');
+
+insert into schema_version (version, name) values (17, 'item_statuses')
+on conflict (version) do nothing;
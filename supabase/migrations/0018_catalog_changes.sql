@@ -0,0 +1,71 @@
+-- 0018 · Cambios del catálogo público
+-- api/catalogo.js acepta ?desde=<fecha> y devuelve solo lo que cambió: usa
+-- items.updated_at para lo agregado o modificado y catalog_removals para lo
+-- que salió de la tienda (vendido, despublicado, movido de grupo o borrado),
+-- que la tienda pública ya no puede leer de items.
+
+alter table items add column if not exists updated_at timestamptz not null default now();
+
+update items set updated_at = coalesce(created_at, now());
+
+create index if not exists items_updated_at_idx on items (updated_at);
+
+create or replace function items_touch_updated_at() returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists items_touch_updated_at on items;
+create trigger items_touch_updated_at
+  before update on items
+  for each row execute function items_touch_updated_at();
+
+create table if not exists catalog_removals (
+  id bigint generated always as identity primary key,
+  item_id uuid not null,
+  -- Grupo de la tienda que tenía el item al salir (null: publicación suelta)
+  store_group text,
+  removed_at timestamptz not null default now()
+);
+
+create index if not exists catalog_removals_removed_at_idx on catalog_removals (removed_at);
+
+alter table catalog_removals enable row level security;
+
+drop policy if exists "Authenticated read catalog_removals" on catalog_removals;
+create policy "Authenticated read catalog_removals" on catalog_removals
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Public read catalog_removals" on catalog_removals;
+create policy "Public read catalog_removals" on catalog_removals
+  for select
+  to anon
+  using (true);
+
+-- Corre como dueño de la tabla: quien edita items no necesita permiso de escritura
+create or replace function items_track_catalog_removal() returns trigger as $$
+begin
+  if old.public_in_store = true and old.status = 'in_stock' and (
+    tg_op = 'DELETE'
+    or new.public_in_store is distinct from true
+    or new.status <> 'in_stock'
+    or coalesce(new.store_group, '') <> coalesce(old.store_group, '')
+  ) then
+    insert into catalog_removals (item_id, store_group)
+    values (old.id, nullif(trim(old.store_group), ''));
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists items_track_catalog_removal on items;
+create trigger items_track_catalog_removal
+  after update or delete on items
+  for each row execute function items_track_catalog_removal();
+
+insert into schema_version (version, name) values (18, 'catalog_changes')
+on conflict (version) do nothing;
@@ -0,0 +1,10 @@
+-- 0019 · Emisión en curso
+-- /api/facturar y /api/nota-credito marcan la venta o la devolución antes de
+-- pedir el CAE: dos pedidos a la vez no pueden emitir dos comprobantes para la
+-- misma. La marca vence sola por si la función se corta a mitad de camino.
+
+alter table orders add column if not exists emitiendo_desde timestamptz;
+alter table sale_returns add column if not exists emitiendo_desde timestamptz;
+
+insert into schema_version (version, name) values (19, 'emision_en_curso')
+on conflict (version) do nothing;